@@ -1,7 +1,7 @@
 // __tests__/ai/actions.test.ts
 // AI 서버 액션 테스트
 // 서버 액션 함수들의 동작을 테스트
-// 관련 파일: lib/ai/actions.ts, lib/ai/gemini-client.ts
+// 관련 파일: lib/ai/actions.ts, lib/ai/provider-registry.ts
 
 import { describe, test, expect, vi, beforeEach } from 'vitest'
 import { 
@@ -12,9 +12,9 @@ import {
   generateNoteTags 
 } from '@/lib/ai/actions'
 
-// GeminiClient 모킹
-vi.mock('@/lib/ai/gemini-client', () => ({
-  getGeminiClient: vi.fn(() => ({
+// AI 제공자 모킹
+vi.mock('@/lib/ai/provider-registry', () => ({
+  getAIProvider: vi.fn(() => ({
     generateText: vi.fn(),
     healthCheck: vi.fn(),
     getUsageStats: vi.fn()
@@ -26,8 +26,8 @@ describe('AI Actions', () => {
 
   beforeEach(() => {
     vi.clearAllMocks()
-    const { getGeminiClient } = require('@/lib/ai/gemini-client')
-    mockClient = getGeminiClient()
+    const { getAIProvider } = require('@/lib/ai/provider-registry')
+    mockClient = getAIProvider()
   })
 
   describe('generateText', () => {
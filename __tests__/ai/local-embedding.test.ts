@@ -0,0 +1,46 @@
+// __tests__/ai/local-embedding.test.ts
+// 로컬 결정적 임베딩 테스트
+// 같은 입력의 결정성, 정규화, 비슷한 글의 유사도가 더 높은지 확인
+// 관련 파일: lib/ai/local-embedding.ts, lib/notes/embeddings.ts
+
+import { describe, it, expect } from 'vitest'
+import { createLocalEmbedding, cosineSimilarity, extractEmbeddingFeatures } from '@/lib/ai/local-embedding'
+
+describe('createLocalEmbedding', () => {
+  it('같은 입력에 항상 같은 벡터를 반환해야 한다', () => {
+    expect(createLocalEmbedding('주간 회의 정리', 64)).toEqual(createLocalEmbedding('주간 회의 정리', 64))
+  })
+
+  it('요청한 차원의 단위 벡터를 반환해야 한다', () => {
+    const vector = createLocalEmbedding('Next.js 라우팅 정리', 128)
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+
+    expect(vector).toHaveLength(128)
+    expect(norm).toBeCloseTo(1, 6)
+  })
+
+  it('빈 입력은 영벡터를 반환해야 한다', () => {
+    expect(createLocalEmbedding('', 8)).toEqual(new Array(8).fill(0))
+  })
+
+  it('비슷한 내용의 글이 관련 없는 글보다 유사도가 높아야 한다', () => {
+    const base = createLocalEmbedding('프로젝트 출시 일정과 회의 내용 정리', 256)
+    const similar = createLocalEmbedding('출시 일정 회의에서 정한 프로젝트 계획', 256)
+    const unrelated = createLocalEmbedding('김치찌개 레시피와 재료 손질 방법', 256)
+
+    expect(cosineSimilarity(base, similar)).toBeGreaterThan(cosineSimilarity(base, unrelated))
+  })
+})
+
+describe('extractEmbeddingFeatures', () => {
+  it('단어와 단어 내부 2-gram을 특징으로 추출해야 한다', () => {
+    expect(extractEmbeddingFeatures('회의를')).toEqual(['w:회의를', 'b:회의', 'b:의를'])
+  })
+})
+
+describe('cosineSimilarity', () => {
+  it('길이가 다르거나 영벡터면 0을 반환해야 한다', () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0)
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0)
+  })
+})
@@ -0,0 +1,96 @@
+// __tests__/ai/mock-client.test.ts
+// 오프라인 mock AI 클라이언트 테스트
+// 프롬프트 유형별 결정적 응답과 사용량 기록을 테스트
+// 관련 파일: lib/ai/mock-client.ts, lib/ai/provider-registry.ts
+
+import { describe, test, expect } from 'vitest'
+import { MockAIClient, buildMockResponse, extractKeywords, extractPromptBody } from '@/lib/ai/mock-client'
+
+const notePrompt = (instruction: string, content: string, label: string) =>
+  `${instruction}\n\n노트 내용:\n${content}\n\n${label}:`
+
+describe('extractPromptBody', () => {
+  test('노트 내용 부분만 추출해야 한다', () => {
+    expect(extractPromptBody(notePrompt('요약해주세요.', '첫 줄\n둘째 줄', '요약'))).toBe('첫 줄\n둘째 줄')
+  })
+
+  test('채팅 프롬프트에서 사용자 메시지를 추출해야 한다', () => {
+    expect(extractPromptBody('시스템 지시\n\n사용자 메시지: 안녕하세요\n\n답변해주세요.')).toBe('안녕하세요')
+  })
+})
+
+describe('extractKeywords', () => {
+  test('빈도순, 동률이면 먼저 나온 순으로 정렬해야 한다', () => {
+    expect(extractKeywords('react hooks react state hooks react', 3)).toEqual(['react', 'hooks', 'state'])
+  })
+})
+
+describe('buildMockResponse', () => {
+  test('태그 요청에는 쉼표로 구분된 키워드를 반환해야 한다', () => {
+    const response = buildMockResponse(notePrompt('태그를 생성해주세요.', 'typescript 타입 typescript 제네릭', '태그'))
+    expect(response).toBe('typescript, 타입, 제네릭')
+  })
+
+  test('요약 요청에는 불릿 포인트를 반환해야 한다', () => {
+    const response = buildMockResponse(notePrompt('요약해주세요.', '# 회의\n일정을 정했다. 담당자를 배정했다.', '요약'))
+    expect(response.split('\n')).toEqual(['• 회의', '• 일정을 정했다.', '• 담당자를 배정했다.'])
+  })
+
+  test('노트 본문의 단어로 요청 유형을 오인하지 않아야 한다', () => {
+    const response = buildMockResponse(notePrompt('요약해주세요.', '태그 정리 방법', '요약'))
+    expect(response.startsWith('•')).toBe(true)
+  })
+
+  test('같은 프롬프트에는 항상 같은 응답을 반환해야 한다', () => {
+    const prompt = '사용자 메시지: 오늘 날씨 어때?'
+    expect(buildMockResponse(prompt)).toBe(buildMockResponse(prompt))
+  })
+})
+
+describe('MockAIClient', () => {
+  test('제공자 이름과 모델을 노출해야 한다', () => {
+    const client = new MockAIClient({ model: 'mock-test', latencyMs: 0 })
+    expect(client.name).toBe('mock')
+    expect(client.model).toBe('mock-test')
+  })
+
+  test('생성 요청을 사용량 통계에 기록해야 한다', async () => {
+    const client = new MockAIClient({ model: 'mock-test', latencyMs: 0 })
+    await client.generateText('사용자 메시지: 안녕')
+
+    const stats = client.getUsageStats()
+    expect(stats.totalRequests).toBe(1)
+    expect(stats.successRate).toBe(100)
+    expect(stats.recentLogs[0].model).toBe('mock-test')
+  })
+
+  test('빈 프롬프트는 거부해야 한다', async () => {
+    const client = new MockAIClient({ model: 'mock-test', latencyMs: 0 })
+    await expect(client.generateText('  ')).rejects.toThrow('프롬프트가 비어있습니다.')
+  })
+
+  test('스트리밍 조각을 이어 붙이면 일반 응답과 같아야 한다', async () => {
+    const client = new MockAIClient({ model: 'mock-test', latencyMs: 0 })
+    const prompt = '사용자 메시지: 스트리밍 테스트 메시지'
+
+    let streamed = ''
+    for await (const chunk of client.generateTextStream(prompt)) {
+      streamed += chunk
+    }
+
+    expect(streamed).toBe(await client.generateText(prompt))
+  })
+
+  test('중단 signal이 전달되면 조각 반환을 멈춰야 한다', async () => {
+    const client = new MockAIClient({ model: 'mock-test', latencyMs: 0 })
+    const controller = new AbortController()
+    controller.abort()
+
+    const chunks: string[] = []
+    for await (const chunk of client.generateTextStream('사용자 메시지: 중단 테스트', { signal: controller.signal })) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks).toEqual([])
+  })
+})
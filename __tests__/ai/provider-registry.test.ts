@@ -0,0 +1,66 @@
+// __tests__/ai/provider-registry.test.ts
+// AI 제공자 레지스트리 테스트
+// 환경변수에 따른 제공자 선택, 교체, 모델 라벨 생성을 테스트
+// 관련 파일: lib/ai/provider-registry.ts, lib/ai/config.ts
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest'
+import { getAIProvider, registerAIProvider, resetAIProvider, getModelLabel } from '@/lib/ai/provider-registry'
+import { getAIProviderName } from '@/lib/ai/config'
+import { MockAIClient } from '@/lib/ai/mock-client'
+
+describe('getAIProviderName', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  test('AI_PROVIDER 값을 사용해야 한다', () => {
+    vi.stubEnv('AI_PROVIDER', 'openai-compatible')
+    expect(getAIProviderName()).toBe('openai-compatible')
+  })
+
+  test('알 수 없는 제공자는 에러를 던져야 한다', () => {
+    vi.stubEnv('AI_PROVIDER', 'unknown')
+    expect(() => getAIProviderName()).toThrow('AI_PROVIDER')
+  })
+
+  test('테스트 환경에서 Gemini 키가 없으면 mock을 사용해야 한다', () => {
+    vi.stubEnv('AI_PROVIDER', '')
+    vi.stubEnv('GEMINI_API_KEY', '')
+    vi.stubEnv('NODE_ENV', 'test')
+    expect(getAIProviderName()).toBe('mock')
+  })
+})
+
+describe('getAIProvider', () => {
+  beforeEach(() => {
+    resetAIProvider()
+    vi.stubEnv('AI_PROVIDER', 'mock')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  test('설정된 제공자 인스턴스를 재사용해야 한다', () => {
+    const provider = getAIProvider()
+    expect(provider.name).toBe('mock')
+    expect(getAIProvider()).toBe(provider)
+  })
+
+  test('등록된 팩토리로 제공자를 교체할 수 있어야 한다', () => {
+    getAIProvider()
+    registerAIProvider('mock', () => new MockAIClient({ model: 'custom-mock', latencyMs: 0 }))
+
+    expect(getAIProvider().model).toBe('custom-mock')
+  })
+})
+
+describe('getModelLabel', () => {
+  test('제공자/모델 형식으로 반환해야 한다', () => {
+    expect(getModelLabel({ name: 'openai-compatible', model: 'llama3.1:8b' })).toBe('openai-compatible/llama3.1:8b')
+  })
+
+  test('컬럼 길이를 넘지 않도록 잘라야 한다', () => {
+    expect(getModelLabel({ name: 'mock', model: 'x'.repeat(200) })).toHaveLength(100)
+  })
+})
@@ -1,7 +1,7 @@
 // __tests__/ai/summary-actions.test.ts
 // 요약 생성 서버 액션 테스트
 // 요약 생성, 조회, 삭제 기능의 단위 테스트를 수행
-// 관련 파일: lib/ai/summary-actions.ts, lib/ai/gemini-client.ts
+// 관련 파일: lib/ai/summary-actions.ts, lib/ai/provider-registry.ts
 
 import { describe, test, expect, beforeEach, jest } from '@jest/globals'
 import { 
@@ -38,10 +38,22 @@ jest.mock('@/lib/supabase/server', () => ({
   }))
 }))
 
-jest.mock('@/lib/ai/gemini-client', () => ({
-  getGeminiClient: jest.fn(() => ({
+jest.mock('@/lib/ai/provider-registry', () => ({
+  getAIProvider: jest.fn(() => ({
+    name: 'gemini',
+    model: 'gemini-2.0-flash-001',
     generateText: jest.fn().mockResolvedValue('• 첫 번째 요약 포인트\n• 두 번째 요약 포인트\n• 세 번째 요약 포인트')
-  }))
+  })),
+  getModelLabel: jest.fn(() => 'gemini/gemini-2.0-flash-001')
+}))
+
+jest.mock('@/lib/ai/usage-limits', () => ({
+  enforceAILimits: jest.fn(() => Promise.resolve()),
+  recordAITokenUsage: jest.fn(() => Promise.resolve())
+}))
+
+jest.mock('@/lib/ai/usage-log', () => ({
+  trackAIUsage: jest.fn((_context: unknown, _input: string, operation: () => Promise<string>) => operation())
 }))
 
 jest.mock('next/cache', () => ({
@@ -1,7 +1,7 @@
 // __tests__/ai/tag-actions.test.ts
 // 태그 생성 서버 액션 테스트
 // 태그 생성, 조회, 재생성, 삭제 기능에 대한 단위 테스트
-// 관련 파일: lib/ai/tag-actions.ts, lib/ai/gemini-client.ts
+// 관련 파일: lib/ai/tag-actions.ts, lib/ai/provider-registry.ts
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { 
@@ -36,10 +36,20 @@ vi.mock('@/lib/supabase/server', () => ({
   })
 }))
 
-vi.mock('@/lib/ai/gemini-client', () => ({
-  getGeminiClient: vi.fn().mockReturnValue({
+vi.mock('@/lib/ai/provider-registry', () => ({
+  getAIProvider: vi.fn().mockReturnValue({
     generateText: vi.fn().mockResolvedValue('tag1, tag2, tag3')
-  })
+  }),
+  getModelLabel: vi.fn().mockReturnValue('gemini/gemini-2.0-flash-001')
+}))
+
+vi.mock('@/lib/ai/usage-limits', () => ({
+  enforceAILimits: vi.fn().mockResolvedValue(undefined),
+  recordAITokenUsage: vi.fn().mockResolvedValue(undefined)
+}))
+
+vi.mock('@/lib/ai/usage-log', () => ({
+  trackAIUsage: vi.fn((_context, _input, operation: () => Promise<string>) => operation())
 }))
 
 vi.mock('next/cache', () => ({
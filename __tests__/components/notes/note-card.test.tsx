@@ -4,15 +4,20 @@
 // 관련 파일: components/notes/note-card.tsx, components/notes/delete-note-dialog.tsx
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { render, screen, fireEvent } from '@testing-library/react'
 import { NoteCard } from '@/components/notes/note-card'
 import { Note } from '@/lib/db/schema/notes'
 
 // Mock dependencies
+const mockPush = vi.fn()
+const mockSearchParams = new URLSearchParams()
+
 vi.mock('next/navigation', () => ({
   useRouter: () => ({
-    refresh: vi.fn()
-  })
+    refresh: vi.fn(),
+    push: mockPush
+  }),
+  useSearchParams: () => mockSearchParams
 }))
 
 vi.mock('@/components/notes/delete-note-dialog', () => ({
@@ -35,6 +40,7 @@ describe('NoteCard', () => {
 
   beforeEach(() => {
     vi.clearAllMocks()
+    mockSearchParams.delete('tags')
   })
 
   it('노트 제목이 표시되어야 한다', () => {
@@ -114,4 +120,28 @@ describe('NoteCard', () => {
     const card = screen.getByText('테스트 노트').closest('.group')
     expect(card).toBeInTheDocument()
   })
+
+  it('태그가 배지로 표시되어야 한다', () => {
+    render(<NoteCard note={mockNote} tags={['react', 'testing']} />)
+
+    expect(screen.getByText('#react')).toBeInTheDocument()
+    expect(screen.getByText('#testing')).toBeInTheDocument()
+  })
+
+  it('태그 클릭 시 해당 태그로 목록을 필터링해야 한다', () => {
+    render(<NoteCard note={mockNote} tags={['react']} />)
+
+    fireEvent.click(screen.getByText('#react'))
+
+    expect(mockPush).toHaveBeenCalledWith('/notes?tags=react&page=1')
+  })
+
+  it('이미 선택된 태그를 클릭하면 필터에서 제거해야 한다', () => {
+    mockSearchParams.set('tags', 'react,testing')
+    render(<NoteCard note={mockNote} tags={['react']} />)
+
+    fireEvent.click(screen.getByText('#react'))
+
+    expect(mockPush).toHaveBeenCalledWith('/notes?tags=testing&page=1')
+  })
 })
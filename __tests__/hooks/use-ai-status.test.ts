@@ -1,28 +1,50 @@
 // __tests__/hooks/use-ai-status.test.ts
 // AI 상태 관리 훅 테스트
-// useAIStatus 훅의 상태 관리, 작업 시작/재시도, 에러 처리 테스트
-// 관련 파일: hooks/use-ai-status.ts, lib/ai/status-manager.ts
+// useAIStatus 훅의 백그라운드 작업 등록, 상태 폴링, 미리보기, 취소, 다시 열었을 때 작업 이어받기, 에러 처리 테스트
+// 관련 파일: hooks/use-ai-status.ts, lib/ai/job-actions.ts, lib/ai/job-utils.ts
 
-import { renderHook, act } from '@testing-library/react'
+import { renderHook, act, waitFor } from '@testing-library/react'
 import { useAIStatus } from '@/hooks/use-ai-status'
-
-// Mock the status manager
-jest.mock('@/lib/ai/status-manager', () => ({
-  aiStatusManager: {
-    startJob: jest.fn(),
-    retryJob: jest.fn(),
-    getJob: jest.fn(),
-    getActiveJobsCount: jest.fn(() => 0)
-  }
+import type { AIJobSnapshot } from '@/lib/ai/types'
+
+// Mock the job actions
+jest.mock('@/lib/ai/job-actions', () => ({
+  startAIJob: jest.fn(),
+  getAIJobStatus: jest.fn(),
+  getLatestAIJobStatus: jest.fn(),
+  cancelAIJob: jest.fn()
 }))
 
-import { aiStatusManager } from '@/lib/ai/status-manager'
-
-const mockStatusManager = aiStatusManager as jest.Mocked<typeof aiStatusManager>
+import { startAIJob, getAIJobStatus, getLatestAIJobStatus, cancelAIJob } from '@/lib/ai/job-actions'
+
+const mockStartAIJob = startAIJob as jest.MockedFunction<typeof startAIJob>
+const mockGetAIJobStatus = getAIJobStatus as jest.MockedFunction<typeof getAIJobStatus>
+const mockGetLatestAIJobStatus = getLatestAIJobStatus as jest.MockedFunction<typeof getLatestAIJobStatus>
+const mockCancelAIJob = cancelAIJob as jest.MockedFunction<typeof cancelAIJob>
+
+function jobSnapshot(overrides: Partial<AIJobSnapshot> = {}): AIJobSnapshot {
+  return {
+    id: 'job-1',
+    noteId: 'test-note-1',
+    type: 'summary',
+    status: 'queued',
+    progress: 0,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides
+  }
+}
 
 describe('useAIStatus', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    jest.useFakeTimers()
+    mockGetLatestAIJobStatus.mockResolvedValue({ success: true })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
   })
 
   it('초기 상태가 올바르게 설정되어야 한다', () => {
@@ -38,8 +60,8 @@ describe('useAIStatus', () => {
     expect(result.current.canStart).toBe(true)
   })
 
-  it('작업 시작이 성공적으로 처리되어야 한다', () => {
-    mockStatusManager.startJob.mockReturnValue(true)
+  it('작업 시작 시 서버에 작업을 등록하고 처리 중 상태가 되어야 한다', async () => {
+    mockStartAIJob.mockResolvedValue({ success: true, job: jobSnapshot() })
 
     const { result } = renderHook(() =>
       useAIStatus({
@@ -48,91 +70,109 @@ describe('useAIStatus', () => {
       })
     )
 
-    act(() => {
-      const success = result.current.startJob()
+    await act(async () => {
+      const success = await result.current.startJob()
       expect(success).toBe(true)
     })
 
-    expect(mockStatusManager.startJob).toHaveBeenCalledWith(
-      expect.stringMatching(/^summary-test-note-1-\d+$/),
-      'summary',
-      'test-note-1',
-      expect.any(Function)
-    )
+    expect(mockStartAIJob).toHaveBeenCalledWith('test-note-1', 'summary')
+    expect(result.current.isProcessing).toBe(true)
+    expect(result.current.canStart).toBe(false)
   })
 
-  it('동시 작업 제한이 올바르게 처리되어야 한다', () => {
-    mockStatusManager.startJob.mockReturnValue(false)
+  it('작업 등록에 실패하면 에러 상태가 되어야 한다', async () => {
+    const onError = jest.fn()
+    mockStartAIJob.mockResolvedValue({ success: false, error: '인증이 필요합니다.' })
 
     const { result } = renderHook(() =>
       useAIStatus({
         noteId: 'test-note-1',
-        type: 'summary'
+        type: 'summary',
+        onError
       })
     )
 
-    act(() => {
-      const success = result.current.startJob()
+    await act(async () => {
+      const success = await result.current.startJob()
       expect(success).toBe(false)
     })
 
-    expect(mockStatusManager.startJob).toHaveBeenCalled()
+    expect(result.current.state.status).toBe('error')
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: '인증이 필요합니다.' }))
   })
 
-  it('재시도 기능이 올바르게 작동해야 한다', () => {
-    mockStatusManager.retryJob.mockReturnValue(true)
+  it('폴링으로 작업 완료를 받으면 결과와 함께 성공 콜백을 호출해야 한다', async () => {
+    const onSuccess = jest.fn()
+    mockStartAIJob.mockResolvedValue({ success: true, job: jobSnapshot() })
+    mockGetAIJobStatus.mockResolvedValue({
+      success: true,
+      job: jobSnapshot({ status: 'succeeded', progress: 100, result: { summary: '요약' } })
+    })
 
     const { result } = renderHook(() =>
       useAIStatus({
         noteId: 'test-note-1',
-        type: 'summary'
+        type: 'summary',
+        pollInterval: 1000,
+        onSuccess
       })
     )
 
-    // 먼저 에러 상태로 설정
-    act(() => {
-      result.current.startJob()
+    await act(async () => {
+      await result.current.startJob()
     })
 
-    act(() => {
-      const success = result.current.retryJob()
-      expect(success).toBe(true)
+    await act(async () => {
+      jest.advanceTimersByTime(1000)
     })
 
-    expect(mockStatusManager.retryJob).toHaveBeenCalled()
+    await waitFor(() => expect(onSuccess).toHaveBeenCalledWith({ summary: '요약' }))
+    expect(mockGetAIJobStatus).toHaveBeenCalledWith('job-1')
+    expect(result.current.state.status).toBe('success')
   })
 
-  it('상태 업데이트 콜백이 올바르게 호출되어야 한다', () => {
-    const onSuccess = jest.fn()
+  it('한도 초과로 실패한 작업은 남은 대기 시간을 에러에 담아야 한다', async () => {
     const onError = jest.fn()
+    mockStartAIJob.mockResolvedValue({ success: true, job: jobSnapshot() })
+    mockGetAIJobStatus.mockResolvedValue({
+      success: true,
+      job: jobSnapshot({
+        status: 'failed',
+        error: '한도 초과',
+        code: 'QUOTA_EXCEEDED' as AIJobSnapshot['code'],
+        retryAfterMs: 60000
+      })
+    })
 
     const { result } = renderHook(() =>
       useAIStatus({
         noteId: 'test-note-1',
         type: 'summary',
-        onSuccess,
+        pollInterval: 1000,
         onError
       })
     )
 
-    // 상태 업데이트 콜백을 가져와서 직접 호출
-    const statusUpdateCallback = mockStatusManager.startJob.mock.calls[0]?.[3]
-    
-    if (statusUpdateCallback) {
-      act(() => {
-        statusUpdateCallback({
-          jobId: 'test-job',
-          status: 'success',
-          progress: 100,
-          message: '완료'
-        })
-      })
+    await act(async () => {
+      await result.current.startJob()
+    })
+
+    await act(async () => {
+      jest.advanceTimersByTime(1000)
+    })
 
-      expect(onSuccess).toHaveBeenCalled()
-    }
+    await waitFor(() => expect(onError).toHaveBeenCalled())
+    expect(onError.mock.calls[0][0]).toMatchObject({ type: 'QUOTA_EXCEEDED', message: '한도 초과' })
+    expect(result.current.state.status).toBe('error')
+    expect(result.current.canStart).toBe(true)
   })
 
-  it('에러 상태에서 재시도가 가능해야 한다', () => {
+  it('다시 열었을 때 진행 중인 작업을 이어서 추적해야 한다', async () => {
+    mockGetLatestAIJobStatus.mockResolvedValue({
+      success: true,
+      job: jobSnapshot({ status: 'running', progress: 40, message: '처리 중' })
+    })
+
     const { result } = renderHook(() =>
       useAIStatus({
         noteId: 'test-note-1',
@@ -140,28 +180,37 @@ describe('useAIStatus', () => {
       })
     )
 
-    // 에러 상태 시뮬레이션
-    act(() => {
-      result.current.startJob()
+    await waitFor(() => expect(result.current.isProcessing).toBe(true))
+    expect(mockGetLatestAIJobStatus).toHaveBeenCalledWith('test-note-1', 'summary')
+    expect(result.current.state.progress).toBe(40)
+  })
+
+  it('다시 열었을 때 이미 끝난 작업은 이어받지 않아야 한다', async () => {
+    const onSuccess = jest.fn()
+    mockGetLatestAIJobStatus.mockResolvedValue({
+      success: true,
+      job: jobSnapshot({ status: 'succeeded', result: { summary: '요약' } })
     })
 
-    // 상태를 에러로 변경
-    const statusUpdateCallback = mockStatusManager.startJob.mock.calls[0]?.[3]
-    if (statusUpdateCallback) {
-      act(() => {
-        statusUpdateCallback({
-          jobId: 'test-job',
-          status: 'error',
-          progress: 100,
-          error: '테스트 에러'
-        })
+    const { result } = renderHook(() =>
+      useAIStatus({
+        noteId: 'test-note-1',
+        type: 'summary',
+        onSuccess
       })
-    }
+    )
 
-    expect(result.current.canStart).toBe(true)
+    await waitFor(() => expect(mockGetLatestAIJobStatus).toHaveBeenCalled())
+    expect(result.current.state.status).toBe('idle')
+    expect(onSuccess).not.toHaveBeenCalled()
   })
 
-  it('처리 중일 때 작업 시작이 비활성화되어야 한다', () => {
+  it('처리 중인 작업의 미리보기를 전달해야 한다', async () => {
+    mockGetLatestAIJobStatus.mockResolvedValue({
+      success: true,
+      job: jobSnapshot({ status: 'running', progress: 90, result: { preview: '• 생성 중인 요약' } })
+    })
+
     const { result } = renderHook(() =>
       useAIStatus({
         noteId: 'test-note-1',
@@ -169,28 +218,39 @@ describe('useAIStatus', () => {
       })
     )
 
-    // 로딩 상태 시뮬레이션
-    act(() => {
-      result.current.startJob()
-    })
+    await waitFor(() => expect(result.current.preview).toBe('• 생성 중인 요약'))
+  })
+
+  it('작업을 취소하면 서버 작업도 취소하고 에러 콜백 없이 초기 상태가 되어야 한다', async () => {
+    const onError = jest.fn()
+    mockStartAIJob.mockResolvedValue({ success: true, job: jobSnapshot({ status: 'running' }) })
+    mockCancelAIJob.mockResolvedValue({ success: true, job: jobSnapshot({ status: 'cancelled' }) })
 
-    const statusUpdateCallback = mockStatusManager.startJob.mock.calls[0]?.[3]
-    if (statusUpdateCallback) {
-      act(() => {
-        statusUpdateCallback({
-          jobId: 'test-job',
-          status: 'loading',
-          progress: 50,
-          message: '처리 중'
-        })
+    const { result } = renderHook(() =>
+      useAIStatus({
+        noteId: 'test-note-1',
+        type: 'summary',
+        onError
       })
-    }
+    )
 
-    expect(result.current.isProcessing).toBe(true)
-    expect(result.current.canStart).toBe(false)
+    await act(async () => {
+      await result.current.startJob()
+    })
+
+    await act(async () => {
+      await result.current.cancelJob()
+    })
+
+    expect(mockCancelAIJob).toHaveBeenCalledWith('job-1')
+    expect(result.current.state.status).toBe('idle')
+    expect(result.current.canStart).toBe(true)
+    expect(onError).not.toHaveBeenCalled()
   })
 
-  it('상태 초기화가 올바르게 작동해야 한다', () => {
+  it('상태 초기화가 올바르게 작동해야 한다', async () => {
+    mockStartAIJob.mockResolvedValue({ success: true, job: jobSnapshot() })
+
     const { result } = renderHook(() =>
       useAIStatus({
         noteId: 'test-note-1',
@@ -198,8 +258,8 @@ describe('useAIStatus', () => {
       })
     )
 
-    act(() => {
-      result.current.startJob()
+    await act(async () => {
+      await result.current.startJob()
     })
 
     act(() => {
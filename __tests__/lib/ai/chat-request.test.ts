@@ -0,0 +1,38 @@
+// __tests__/lib/ai/chat-request.test.ts
+// AI 대화 API 요청 검증 테스트
+// 본문 검증 오류 코드, 클라이언트가 보낸 사용자 ID 무시, 오류 코드 메시지 변환을 테스트
+// 관련 파일: lib/ai/chat-request.ts, lib/ai/chat-route.ts
+
+import { describe, it, expect } from 'vitest'
+import { parseChatRequest, getChatErrorMessage, MAX_CHAT_MESSAGE_LENGTH, CHAT_ERROR_MESSAGES } from '@/lib/ai/chat-request'
+
+describe('parseChatRequest', () => {
+  it('메시지를 정리하고 useNotes 기본값을 채워야 한다', () => {
+    const result = parseChatRequest({ message: '  안녕하세요  ' })
+    expect(result).toEqual({ success: true, data: { message: '안녕하세요', useNotes: true } })
+  })
+
+  it('본문에 포함된 사용자 ID는 결과에 남기지 않아야 한다', () => {
+    const result = parseChatRequest({ message: '질문', userId: 'someone-else' })
+    expect(result.success && 'userId' in result.data).toBe(false)
+  })
+
+  it('빈 메시지와 잘못된 대화 ID는 INVALID_REQUEST로 거부해야 한다', () => {
+    expect(parseChatRequest({ message: '   ' })).toEqual({ success: false, code: 'INVALID_REQUEST' })
+    expect(parseChatRequest({ message: '질문', conversationId: 'abc' })).toEqual({ success: false, code: 'INVALID_REQUEST' })
+    expect(parseChatRequest(null)).toEqual({ success: false, code: 'INVALID_REQUEST' })
+  })
+
+  it('최대 길이를 넘는 메시지는 MESSAGE_TOO_LONG으로 거부해야 한다', () => {
+    const result = parseChatRequest({ message: '가'.repeat(MAX_CHAT_MESSAGE_LENGTH + 1) })
+    expect(result).toEqual({ success: false, code: 'MESSAGE_TOO_LONG' })
+  })
+})
+
+describe('getChatErrorMessage', () => {
+  it('알려진 코드는 정해진 메시지로, 모르는 코드는 서버 메시지로 바꿔야 한다', () => {
+    expect(getChatErrorMessage('RATE_LIMIT_EXCEEDED')).toBe(CHAT_ERROR_MESSAGES.RATE_LIMIT_EXCEEDED)
+    expect(getChatErrorMessage('TIMEOUT', '응답 시간이 초과되었습니다.')).toBe('응답 시간이 초과되었습니다.')
+    expect(getChatErrorMessage(undefined)).toBe(CHAT_ERROR_MESSAGES.INTERNAL_ERROR)
+  })
+})
@@ -0,0 +1,93 @@
+// __tests__/lib/ai/chat.test.ts
+// AI 대화 프롬프트 및 노트 인용 파싱 테스트
+// 노트 발췌·이전 대화 포함, 토큰 예산에 맞춘 대화 자르기, 답변 속 노트 링크 분리를 테스트
+// 관련 파일: lib/ai/chat.ts, components/ai/chat-message-content.tsx
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildChatPrompt,
+  buildConversationTitle,
+  splitNoteLinks,
+  truncateHistoryToBudget,
+  ChatHistoryMessage
+} from '@/lib/ai/chat'
+
+const NOTE_ID = '123e4567-e89b-12d3-a456-426614174000'
+
+describe('buildChatPrompt', () => {
+  it('참고 노트가 없으면 사용자 메시지만 포함해야 한다', () => {
+    const prompt = buildChatPrompt('안녕하세요')
+
+    expect(prompt).toContain('사용자 메시지: 안녕하세요')
+    expect(prompt).not.toContain('[노트 1]')
+  })
+
+  it('참고 노트의 제목, 링크, 발췌문을 포함해야 한다', () => {
+    const prompt = buildChatPrompt('출시 일정은?', [
+      { id: NOTE_ID, title: '주간 회의', excerpt: '출시는 다음 달 3일' }
+    ])
+
+    expect(prompt).toContain('제목: 주간 회의')
+    expect(prompt).toContain(`링크: /notes/${NOTE_ID}`)
+    expect(prompt).toContain('출시는 다음 달 3일')
+    expect(prompt.trim().endsWith('위 사용자 메시지에 대해 도움이 되는 답변을 해주세요.')).toBe(true)
+  })
+})
+
+describe('buildChatPrompt 이전 대화', () => {
+  it('이전 대화를 사용자 메시지보다 앞에 포함해야 한다', () => {
+    const prompt = buildChatPrompt('그럼 내일은?', [], [
+      { role: 'user', content: '오늘 일정 알려줘' },
+      { role: 'assistant', content: '오후 3시 회의가 있습니다.' }
+    ])
+
+    expect(prompt).toContain('사용자: 오늘 일정 알려줘')
+    expect(prompt).toContain('AI: 오후 3시 회의가 있습니다.')
+    expect(prompt.indexOf('AI: 오후 3시')).toBeLessThan(prompt.indexOf('사용자 메시지: 그럼 내일은?'))
+  })
+})
+
+describe('truncateHistoryToBudget', () => {
+  const history: ChatHistoryMessage[] = [
+    { role: 'user', content: 'a'.repeat(400) },      // 100 토큰
+    { role: 'assistant', content: 'b'.repeat(400) }, // 100 토큰
+    { role: 'user', content: 'c'.repeat(40) }        // 10 토큰
+  ]
+
+  it('예산 안에 들어가는 최신 메시지만 시간순으로 남겨야 한다', () => {
+    expect(truncateHistoryToBudget(history, 150)).toEqual(history.slice(1))
+  })
+
+  it('예산이 충분하면 모든 메시지를 유지해야 한다', () => {
+    expect(truncateHistoryToBudget(history, 1000)).toEqual(history)
+  })
+
+  it('가장 최근 메시지도 예산을 넘으면 빈 배열을 반환해야 한다', () => {
+    expect(truncateHistoryToBudget(history, 5)).toEqual([])
+  })
+})
+
+describe('buildConversationTitle', () => {
+  it('첫 줄을 제목으로 사용하고 길면 잘라야 한다', () => {
+    expect(buildConversationTitle('  회의 정리\n세부 내용')).toBe('회의 정리')
+    expect(buildConversationTitle('가'.repeat(50))).toBe(`${'가'.repeat(40)}…`)
+  })
+
+  it('빈 메시지면 기본 제목을 사용해야 한다', () => {
+    expect(buildConversationTitle('   ')).toBe('새 대화')
+  })
+})
+
+describe('splitNoteLinks', () => {
+  it('노트 인용을 링크 조각으로 분리해야 한다', () => {
+    expect(splitNoteLinks(`[주간 회의](/notes/${NOTE_ID})에 따르면 3일입니다.`)).toEqual([
+      { type: 'note-link', title: '주간 회의', noteId: NOTE_ID },
+      { type: 'text', text: '에 따르면 3일입니다.' }
+    ])
+  })
+
+  it('외부 링크나 잘못된 ID는 일반 텍스트로 유지해야 한다', () => {
+    const content = '[외부](https://example.com) [가짜](/notes/abc)'
+    expect(splitNoteLinks(content)).toEqual([{ type: 'text', text: content }])
+  })
+})
@@ -0,0 +1,111 @@
+// __tests__/lib/ai/job-utils.test.ts
+// 백그라운드 AI 작업 재시도 정책 및 상태 변환 테스트
+// 오류 종류별 재시도 여부와 대기 시간, 작업 상태의 표시 상태 변환, 한도 초과 에러의 남은 대기 시간 계산을 테스트
+// 관련 파일: lib/ai/job-utils.ts, lib/ai/errors.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  AI_JOB_MAX_ATTEMPTS,
+  classifyAIJobFailure,
+  getAIJobError,
+  getAIJobProcessState,
+  getAIJobRetryDelay
+} from '@/lib/ai/job-utils'
+import { AILimitError, GeminiError } from '@/lib/ai/errors'
+import { GeminiErrorType, type AIJobSnapshot } from '@/lib/ai/types'
+
+function jobSnapshot(overrides: Partial<AIJobSnapshot> = {}): AIJobSnapshot {
+  return {
+    id: 'job-1',
+    noteId: 'note-1',
+    type: 'summary',
+    status: 'queued',
+    progress: 0,
+    attempts: 0,
+    createdAt: '2025-01-15T09:00:00.000Z',
+    updatedAt: '2025-01-15T09:00:00.000Z',
+    ...overrides
+  }
+}
+
+describe('getAIJobRetryDelay', () => {
+  it('시도 횟수마다 두 배로 늘리되 1분을 넘지 않아야 한다', () => {
+    expect(getAIJobRetryDelay(1)).toBe(5000)
+    expect(getAIJobRetryDelay(2)).toBe(10000)
+    expect(getAIJobRetryDelay(10)).toBe(60000)
+  })
+})
+
+describe('classifyAIJobFailure', () => {
+  it('분당 요청 한도 초과는 남은 대기 시간 뒤에 다시 시도해야 한다', () => {
+    const failure = classifyAIJobFailure(new AILimitError(GeminiErrorType.RATE_LIMIT_EXCEEDED, 12000), 1)
+
+    expect(failure).toMatchObject({ retry: true, retryDelayMs: 12000 })
+  })
+
+  it('일일 한도 초과는 다시 시도하지 않고 오류 종류와 대기 시간을 남겨야 한다', () => {
+    const failure = classifyAIJobFailure(new AILimitError(GeminiErrorType.QUOTA_EXCEEDED, 3600000), 1)
+
+    expect(failure).toMatchObject({
+      retry: false,
+      code: GeminiErrorType.QUOTA_EXCEEDED,
+      retryAfterMs: 3600000
+    })
+  })
+
+  it('일시적인 AI 오류는 최대 시도 횟수까지만 다시 시도해야 한다', () => {
+    const error = new GeminiError(GeminiErrorType.TIMEOUT, '시간 초과')
+
+    expect(classifyAIJobFailure(error, 1)).toMatchObject({ retry: true, retryDelayMs: 5000 })
+    expect(classifyAIJobFailure(error, AI_JOB_MAX_ATTEMPTS).retry).toBe(false)
+  })
+
+  it('API 키 오류는 민감한 내용을 숨긴 메시지로 바로 실패해야 한다', () => {
+    const failure = classifyAIJobFailure(new GeminiError(GeminiErrorType.API_KEY_INVALID, 'key=secret'), 1)
+
+    expect(failure.retry).toBe(false)
+    expect(failure.error).not.toContain('secret')
+  })
+
+  it('AI 오류가 아닌 예외는 일반 메시지로 실패해야 한다', () => {
+    expect(classifyAIJobFailure(new Error('db down'), 1)).toEqual({
+      retry: false,
+      error: 'AI 작업 처리 중 오류가 발생했습니다.'
+    })
+  })
+})
+
+describe('getAIJobProcessState', () => {
+  it('대기/처리 중 작업은 loading, 끝난 작업은 success/error로 변환해야 한다', () => {
+    expect(getAIJobProcessState(jobSnapshot()).status).toBe('loading')
+    expect(getAIJobProcessState(jobSnapshot({ status: 'running', progress: 40 }))).toMatchObject({ status: 'loading', progress: 40 })
+    expect(getAIJobProcessState(jobSnapshot({ status: 'succeeded' }))).toMatchObject({ status: 'success', progress: 100 })
+    expect(getAIJobProcessState(jobSnapshot({ status: 'failed', error: '실패' }))).toEqual({ status: 'error', error: '실패' })
+  })
+
+  it('취소된 작업은 idle로 변환해야 한다', () => {
+    expect(getAIJobProcessState(jobSnapshot({ status: 'cancelled' }))).toEqual({ status: 'idle' })
+  })
+})
+
+describe('getAIJobError', () => {
+  it('한도 초과 실패는 실패 후 지난 시간을 뺀 대기 시간을 반환해야 한다', () => {
+    const job = jobSnapshot({
+      status: 'failed',
+      error: '한도 초과',
+      code: GeminiErrorType.QUOTA_EXCEEDED,
+      retryAfterMs: 60000
+    })
+
+    const error = getAIJobError(job, Date.parse('2025-01-15T09:00:20.000Z'))
+
+    expect(error).toMatchObject({ type: 'QUOTA_EXCEEDED', message: '한도 초과', retryAfterMs: 40000 })
+  })
+
+  it('그 밖의 실패는 재시도 가능한 서버 에러로 반환해야 한다', () => {
+    const error = getAIJobError(jobSnapshot({ status: 'failed', error: '실패' }))
+
+    expect(error).toMatchObject({ type: 'SERVER_ERROR', message: '실패', retryable: true })
+    expect(error.retryAfterMs).toBeUndefined()
+  })
+})
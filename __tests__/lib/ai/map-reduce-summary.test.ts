@@ -0,0 +1,121 @@
+// __tests__/lib/ai/map-reduce-summary.test.ts
+// 긴 노트 분할 및 map-reduce 요약 테스트
+// 제목/문단 기준 분할, 토큰 예산 준수, 조각별 요약 후 합치기, 호출별 generate 전달, 진행률 전달과 최종 프롬프트 준비를 테스트
+// 관련 파일: lib/ai/summary-chunking.ts, lib/ai/map-reduce-summary.ts
+
+import { describe, it, expect, vi } from 'vitest'
+import { splitByHeadings, splitIntoChunks } from '@/lib/ai/summary-chunking'
+import { summarizeContent, prepareSummaryPrompt } from '@/lib/ai/map-reduce-summary'
+import { estimateTokens } from '@/lib/ai/utils'
+import type { AIProvider } from '@/lib/ai/types'
+
+// 섹션 12개로 이루어진 긴 회의록
+const LONG_NOTE = Array.from({ length: 12 }, (_, i) => `## 섹션 ${i}\n${`문단 ${i} `.repeat(60)}`).join('\n\n')
+
+function createFakeProvider() {
+  const generateText = vi.fn(async (prompt: string) => (prompt.includes('부분별로 요약한') ? '• 최종 요약' : '• 부분 요약'))
+  return { provider: { generateText } as unknown as AIProvider, generateText }
+}
+
+describe('splitByHeadings', () => {
+  it('마크다운 제목마다 섹션을 나누고 코드 블록 안의 #은 무시해야 한다', () => {
+    const content = '# 회의\n내용 A\n\n```\n# 코드 주석\n```\n## 일정\n내용 B'
+
+    expect(splitByHeadings(content)).toEqual([
+      '# 회의\n내용 A\n\n```\n# 코드 주석\n```',
+      '## 일정\n내용 B'
+    ])
+  })
+})
+
+describe('splitIntoChunks', () => {
+  it('모든 조각이 토큰 예산을 넘지 않고 내용이 순서대로 보존되어야 한다', () => {
+    const chunks = splitIntoChunks(LONG_NOTE, 200)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(200))
+    expect(chunks.join('\n\n').replace(/\s+/g, '')).toBe(LONG_NOTE.replace(/\s+/g, ''))
+  })
+
+  it('줄바꿈 없는 긴 텍스트는 길이 기준으로 나누어야 한다', () => {
+    expect(splitIntoChunks('x'.repeat(2000), 100)).toHaveLength(5)
+  })
+
+  it('예산 안의 짧은 노트는 하나의 조각이어야 한다', () => {
+    expect(splitIntoChunks('# 제목\n짧은 내용', 200)).toEqual(['# 제목\n짧은 내용'])
+  })
+})
+
+describe('summarizeContent', () => {
+  it('짧은 노트는 한 번만 요청해야 한다', async () => {
+    const { provider, generateText } = createFakeProvider()
+
+    await summarizeContent(provider, '짧은 노트 내용', undefined, 200)
+
+    expect(generateText).toHaveBeenCalledTimes(1)
+  })
+
+  it('긴 노트는 조각별로 요약한 뒤 합쳐야 한다', async () => {
+    const { provider, generateText } = createFakeProvider()
+    const chunkCount = splitIntoChunks(LONG_NOTE, 200).length
+
+    const summary = await summarizeContent(provider, LONG_NOTE, undefined, 200)
+
+    expect(summary).toBe('• 최종 요약')
+    expect(generateText).toHaveBeenCalledTimes(chunkCount + 1)
+    expect(generateText.mock.calls[0][0]).toContain(`1/${chunkCount}번째 부분`)
+  })
+
+  it('부분 요약과 최종 요약 호출이 모두 전달한 generate를 거쳐야 한다', async () => {
+    const { provider, generateText } = createFakeProvider()
+    const chunkCount = splitIntoChunks(LONG_NOTE, 200).length
+    const prompts: string[] = []
+
+    const summary = await summarizeContent(provider, LONG_NOTE, undefined, 200, async prompt => {
+      prompts.push(prompt)
+      return generateText(prompt)
+    })
+
+    expect(summary).toBe('• 최종 요약')
+    expect(prompts).toHaveLength(chunkCount + 1)
+    expect(prompts[prompts.length - 1]).toContain('부분별로 요약한')
+  })
+
+  it('진행률을 증가하는 순서로 전달해야 한다', async () => {
+    const { provider } = createFakeProvider()
+    const progress: number[] = []
+
+    await summarizeContent(provider, LONG_NOTE, state => progress.push(state.progress ?? 0), 200)
+
+    expect(progress.length).toBeGreaterThan(1)
+    expect([...progress].sort((a, b) => a - b)).toEqual(progress)
+    expect(progress[progress.length - 1]).toBeLessThan(100)
+  })
+})
+
+describe('prepareSummaryPrompt', () => {
+  it('부분 요약 진행률 이벤트 뒤에 최종 요약 프롬프트를 반환해야 한다', async () => {
+    const { generateText } = createFakeProvider()
+    const steps = prepareSummaryPrompt(generateText, LONG_NOTE, 200)
+    const events: Array<{ type: string }> = []
+
+    let step = await steps.next()
+    while (!step.done) {
+      events.push(step.value)
+      step = await steps.next()
+    }
+
+    expect(events[0]).toMatchObject({ type: 'progress' })
+    expect(step.value).toContain('부분별로 요약한')
+    expect(step.value).toContain('• 부분 요약')
+  })
+
+  it('짧은 노트는 AI 호출 없이 요약 프롬프트를 반환해야 한다', async () => {
+    const { generateText } = createFakeProvider()
+    const step = await prepareSummaryPrompt(generateText, '짧은 노트 내용', 200).next()
+
+    expect(step.done).toBe(true)
+    expect(step.value).toContain('짧은 노트 내용')
+    expect(generateText).toHaveBeenCalledTimes(0)
+  })
+})
@@ -0,0 +1,84 @@
+// __tests__/lib/ai/rate-limit.test.ts
+// 사용자별 AI 빈도 제한과 일일 토큰 한도 계산 테스트
+// 토큰 버킷 충전/소모, 사용자별 분리, 일일 한도 판정과 초기화 시각, 대기 시간 표시를 테스트
+// 관련 파일: lib/ai/rate-limit.ts, lib/ai/usage-limits.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  takeToken,
+  createRateLimiter,
+  checkDailyQuota,
+  getUsageDate,
+  getMsUntilQuotaReset,
+  formatRetryAfter,
+  toRetryAfterSeconds
+} from '@/lib/ai/rate-limit'
+
+describe('takeToken', () => {
+  it('처음 요청하는 키는 가득 찬 버킷에서 토큰 하나를 꺼내야 한다', () => {
+    const { bucket, result } = takeToken(undefined, 3, 0, 60_000)
+    expect(bucket).toEqual({ tokens: 2, updatedAt: 0 })
+    expect(result).toEqual({ allowed: true, remaining: 2, retryAfterMs: 0 })
+  })
+
+  it('토큰이 없으면 거부하고 토큰 하나가 충전될 때까지의 시간을 알려줘야 한다', () => {
+    const { result } = takeToken({ tokens: 0.5, updatedAt: 0 }, 2, 0, 60_000)
+    expect(result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 15_000 })
+  })
+
+  it('충전량은 용량을 넘지 않아야 한다', () => {
+    const { bucket } = takeToken({ tokens: 0, updatedAt: 0 }, 2, 10 * 60_000, 60_000)
+    expect(bucket.tokens).toBe(1)
+  })
+})
+
+describe('createRateLimiter', () => {
+  it('용량만큼 연속 요청을 허용한 뒤 거부하고 사용자별로 따로 계산해야 한다', async () => {
+    const limiter = createRateLimiter(2)
+
+    expect((await limiter.check('user-1', 0)).allowed).toBe(true)
+    expect(await limiter.check('user-1', 0)).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 })
+    expect(await limiter.check('user-1', 0)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 30_000 })
+    expect((await limiter.check('user-2', 0)).allowed).toBe(true)
+  })
+
+  it('시간이 지나 토큰이 충전되면 다시 허용하고, reset 후에는 가득 찬 버킷으로 시작해야 한다', async () => {
+    const limiter = createRateLimiter(1)
+
+    await limiter.check('user-1', 0)
+    expect((await limiter.check('user-1', 59_999)).allowed).toBe(false)
+    expect((await limiter.check('user-1', 120_000)).allowed).toBe(true)
+
+    await limiter.reset('user-1')
+    expect((await limiter.check('user-1', 120_001)).allowed).toBe(true)
+  })
+})
+
+describe('checkDailyQuota', () => {
+  const now = Date.UTC(2025, 0, 15, 18, 0, 0)
+
+  it('예상 토큰을 더해 한도를 넘으면 다음 UTC 자정까지 거부해야 한다', () => {
+    expect(checkDailyQuota(900, 1000, 50, now)).toEqual({ allowed: true, remaining: 100, retryAfterMs: 0 })
+    expect(checkDailyQuota(900, 1000, 200, now)).toEqual({ allowed: false, remaining: 100, retryAfterMs: 6 * 60 * 60 * 1000 })
+    expect(checkDailyQuota(1000, 1000, 0, now).allowed).toBe(false)
+  })
+
+  it('한도가 0이면 무제한으로 처리해야 한다', () => {
+    expect(checkDailyQuota(1_000_000, 0, 1000, now).allowed).toBe(true)
+  })
+
+  it('사용량 날짜와 초기화 시각은 UTC 기준이어야 한다', () => {
+    expect(getUsageDate(now)).toBe('2025-01-15')
+    expect(getMsUntilQuotaReset(Date.UTC(2025, 0, 15, 23, 59, 30))).toBe(30_000)
+  })
+})
+
+describe('formatRetryAfter', () => {
+  it('대기 시간을 초, 분, 시간 단위로 표시해야 한다', () => {
+    expect(formatRetryAfter(41_200)).toBe('42초')
+    expect(formatRetryAfter(185_000)).toBe('3분 5초')
+    expect(formatRetryAfter(120_000)).toBe('2분')
+    expect(formatRetryAfter(5 * 3600_000 + 12 * 60_000)).toBe('5시간 12분')
+    expect(toRetryAfterSeconds(200)).toBe(1)
+  })
+})
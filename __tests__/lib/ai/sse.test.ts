@@ -0,0 +1,68 @@
+// __tests__/lib/ai/sse.test.ts
+// SSE 인코딩/파싱 유틸리티 테스트
+// 이벤트 인코딩, 조각난 버퍼 파싱, 바이트 스트림 읽기를 테스트
+// 관련 파일: lib/ai/sse.ts, hooks/use-ai-stream.ts
+
+import { describe, it, expect } from 'vitest'
+import { encodeSSEEvent, parseSSEBuffer, readSSEData, readAIStreamEvents } from '@/lib/ai/sse'
+
+// 문자열 조각들을 바이트 스트림으로 변환
+function toStream(parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      parts.forEach(part => controller.enqueue(encoder.encode(part)))
+      controller.close()
+    }
+  })
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable) items.push(item)
+  return items
+}
+
+describe('encodeSSEEvent', () => {
+  it('이벤트를 data 줄과 빈 줄로 인코딩해야 한다', () => {
+    expect(encodeSSEEvent({ type: 'chunk', text: '안녕' })).toBe('data: {"type":"chunk","text":"안녕"}\n\n')
+  })
+})
+
+describe('parseSSEBuffer', () => {
+  it('완성된 메시지만 추출하고 나머지는 남겨야 한다', () => {
+    const { data, rest } = parseSSEBuffer('data: a\n\ndata: b\n\ndata: c')
+
+    expect(data).toEqual(['a', 'b'])
+    expect(rest).toBe('data: c')
+  })
+
+  it('CRLF 줄바꿈과 data 이외의 필드를 처리해야 한다', () => {
+    const { data } = parseSSEBuffer(': comment\r\nevent: message\r\ndata: x\r\n\r\n')
+
+    expect(data).toEqual(['x'])
+  })
+})
+
+describe('readSSEData', () => {
+  it('메시지가 여러 조각으로 나뉘어 도착해도 순서대로 읽어야 한다', async () => {
+    const stream = toStream(['data: {"a"', ':1}\n', '\ndata: [DONE]'])
+
+    expect(await collect(readSSEData(stream))).toEqual(['{"a":1}', '[DONE]'])
+  })
+})
+
+describe('readAIStreamEvents', () => {
+  it('JSON 이벤트를 파싱하고 잘못된 메시지는 건너뛰어야 한다', async () => {
+    const stream = toStream([
+      encodeSSEEvent({ type: 'chunk', text: '요약' }),
+      'data: not-json\n\n',
+      encodeSSEEvent({ type: 'done', text: '요약', model: 'mock/mock-1' })
+    ])
+
+    expect(await collect(readAIStreamEvents(stream))).toEqual([
+      { type: 'chunk', text: '요약' },
+      { type: 'done', text: '요약', model: 'mock/mock-1' }
+    ])
+  })
+})
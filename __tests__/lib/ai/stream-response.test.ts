@@ -0,0 +1,57 @@
+// __tests__/lib/ai/stream-response.test.ts
+// AI 스트림 SSE 응답 변환 테스트
+// 끝까지 받은 스트림은 완료 콜백, 도중에 연결을 끊은 스트림은 받은 부분까지 중단 콜백을 한 번만 호출하는지 테스트
+// 관련 파일: lib/ai/stream-response.ts, app/api/ai-chat/stream/route.ts
+
+import { describe, it, expect } from 'vitest'
+import { createAIStreamResponse } from '@/lib/ai/stream-response'
+
+async function* textStream(parts: string[]) {
+  for (const part of parts) {
+    yield part
+  }
+}
+
+function createCallbacks() {
+  const calls: Array<{ type: string; text?: string }> = []
+  return {
+    calls,
+    onComplete: async (text: string) => { calls.push({ type: 'complete', text }) },
+    onError: async () => { calls.push({ type: 'error' }) },
+    onAbort: async (text: string) => { calls.push({ type: 'abort', text }) }
+  }
+}
+
+describe('createAIStreamResponse', () => {
+  it('스트림을 끝까지 읽으면 완료 콜백만 호출해야 한다', async () => {
+    const { calls, ...callbacks } = createCallbacks()
+    const response = createAIStreamResponse(textStream(['안녕', '하세요']), callbacks)
+
+    await response.text()
+
+    expect(calls).toEqual([{ type: 'complete', text: '안녕하세요' }])
+  })
+
+  it('done 전에 연결을 끊으면 받은 부분까지 중단 콜백을 한 번 호출해야 한다', async () => {
+    const { calls, ...callbacks } = createCallbacks()
+    const response = createAIStreamResponse(textStream(['안녕', '하세요', '!']), callbacks)
+    const reader = response.body!.getReader()
+
+    await reader.read()
+    await reader.read()
+    await reader.cancel()
+
+    expect(calls).toEqual([{ type: 'abort', text: '안녕하세요' }])
+  })
+
+  it('요청이 중단된 채로 스트림이 끝나면 완료 대신 중단 콜백을 호출해야 한다', async () => {
+    const { calls, ...callbacks } = createCallbacks()
+    const controller = new AbortController()
+    const response = createAIStreamResponse(textStream(['안녕']), { ...callbacks, signal: controller.signal })
+
+    controller.abort()
+    await response.text()
+
+    expect(calls).toEqual([{ type: 'abort', text: '안녕' }])
+  })
+})
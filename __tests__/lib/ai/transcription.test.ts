@@ -0,0 +1,57 @@
+// __tests__/lib/ai/transcription.test.ts
+// 음성 전사 유틸리티와 로컬 대체 전사기 테스트
+// 전사 결과 정리, mock 제공자의 결정적 자리표시 전사와 로컬 전사기 교체를 테스트
+// 관련 파일: lib/ai/transcription.ts, lib/ai/mock-client.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeTranscript,
+  buildTranscriptionPrompt,
+  registerLocalTranscriber,
+  resetLocalTranscriber,
+  LOCAL_TRANSCRIPTION_MODEL
+} from '@/lib/ai/transcription'
+import { MockAIClient } from '@/lib/ai/mock-client'
+
+const audio = new Uint8Array(2048).fill(1)
+
+describe('normalizeTranscript', () => {
+  it('줄 끝 공백과 연속된 빈 줄을 정리해야 한다', () => {
+    expect(normalizeTranscript('  첫 문장   입니다 \r\n\r\n\r\n\r\n둘째  문장 ')).toBe('첫 문장 입니다\n\n둘째 문장')
+  })
+})
+
+describe('buildTranscriptionPrompt', () => {
+  it('기본 언어는 한국어로 받아쓰도록 지시해야 한다', () => {
+    expect(buildTranscriptionPrompt()).toContain('한국어')
+  })
+})
+
+describe('MockAIClient.transcribeAudio', () => {
+  it('같은 녹음에는 항상 같은 자리표시 전사를 반환해야 한다', async () => {
+    const client = new MockAIClient({ model: 'mock-test', latencyMs: 0 })
+    const first = await client.transcribeAudio(audio, 'audio/webm')
+    const second = await client.transcribeAudio(audio, 'audio/webm')
+
+    expect(first).toEqual(second)
+    expect(first.model).toBe(LOCAL_TRANSCRIPTION_MODEL)
+    expect(first.text).toContain('webm 형식의 2.0KB 녹음')
+  })
+
+  it('등록한 로컬 전사기를 사용해야 한다', async () => {
+    registerLocalTranscriber(async (_audio, _mimeType, options) => `  회의 메모 (${options.language ?? 'ko'})  `)
+
+    try {
+      const client = new MockAIClient({ model: 'mock-test', latencyMs: 0 })
+      const result = await client.transcribeAudio(audio, 'audio/ogg', { language: 'en' })
+      expect(result.text).toBe('회의 메모 (en)')
+    } finally {
+      resetLocalTranscriber()
+    }
+  })
+
+  it('빈 녹음은 거부해야 한다', async () => {
+    const client = new MockAIClient({ model: 'mock-test', latencyMs: 0 })
+    await expect(client.transcribeAudio(new Uint8Array(0), 'audio/webm')).rejects.toThrow('녹음 파일이 비어있습니다.')
+  })
+})
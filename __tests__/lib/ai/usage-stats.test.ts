@@ -0,0 +1,65 @@
+// __tests__/lib/ai/usage-stats.test.ts
+// AI 사용량 대시보드 집계 테스트
+// 집계 시작 시각, 날짜별 통계(빈 날짜 포함), 기능별 통계 계산을 테스트
+// 관련 파일: lib/ai/usage-stats.ts, lib/ai/utils.ts
+
+import { describe, it, expect } from 'vitest'
+import { getUsageRangeStart, groupUsageByDay, groupUsageByFeature } from '@/lib/ai/usage-stats'
+import type { APIUsageLog } from '@/lib/ai/types'
+
+const now = Date.UTC(2025, 0, 15, 9, 0, 0)
+
+function usageLog(overrides: Partial<APIUsageLog>): APIUsageLog {
+  return {
+    timestamp: new Date(now),
+    model: 'mock/mock-model',
+    inputTokens: 100,
+    outputTokens: 50,
+    latencyMs: 200,
+    success: true,
+    feature: 'summary',
+    ...overrides
+  }
+}
+
+describe('getUsageRangeStart', () => {
+  it('오늘을 포함한 기간의 첫날 UTC 자정을 반환해야 한다', () => {
+    expect(getUsageRangeStart(7, now).toISOString()).toBe('2025-01-09T00:00:00.000Z')
+    expect(getUsageRangeStart(1, now).toISOString()).toBe('2025-01-15T00:00:00.000Z')
+  })
+})
+
+describe('groupUsageByDay', () => {
+  it('기록이 없는 날도 0으로 채워 기간 전체를 날짜순으로 반환해야 한다', () => {
+    const logs = [
+      usageLog({ timestamp: new Date(Date.UTC(2025, 0, 13, 23, 59)) }),
+      usageLog({ timestamp: new Date(Date.UTC(2025, 0, 15, 1, 0)), success: false, outputTokens: 0, latencyMs: 400 })
+    ]
+
+    const days = groupUsageByDay(logs, 3, now)
+
+    expect(days.map(day => day.date)).toEqual(['2025-01-13', '2025-01-14', '2025-01-15'])
+    expect(days[0]).toEqual({ date: '2025-01-13', totalRequests: 1, successRate: 100, averageLatency: 200, totalTokens: 150 })
+    expect(days[1].totalRequests).toBe(0)
+    expect(days[2]).toEqual({ date: '2025-01-15', totalRequests: 1, successRate: 0, averageLatency: 400, totalTokens: 100 })
+  })
+})
+
+describe('groupUsageByFeature', () => {
+  it('요약, 태그, 대화, 임베딩 순서로 기능별 통계를 계산해야 한다', () => {
+    const logs = [
+      usageLog({ feature: 'chat', latencyMs: 100 }),
+      usageLog({ feature: 'chat', latencyMs: 300, success: false }),
+      usageLog({ feature: 'tags' }),
+      usageLog({ feature: 'embedding', outputTokens: 0 })
+    ]
+
+    const features = groupUsageByFeature(logs)
+
+    expect(features.map(feature => feature.feature)).toEqual(['summary', 'tags', 'chat', 'embedding'])
+    expect(features[0].totalRequests).toBe(0)
+    expect(features[1].totalTokens).toBe(150)
+    expect(features[2]).toEqual({ feature: 'chat', totalRequests: 2, successRate: 50, averageLatency: 200, totalTokens: 300 })
+    expect(features[3].totalRequests).toBe(1)
+  })
+})
@@ -0,0 +1,57 @@
+// __tests__/lib/audio/upload.test.ts
+// 음성 메모 업로드 규칙 테스트
+// 오디오 형식/크기 검증, 저장 키 생성, 전사 기반 노트 제목과 녹음 길이 표시를 테스트
+// 관련 파일: lib/audio/upload.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  validateAudioUpload,
+  normalizeAudioMimeType,
+  buildAudioStorageKey,
+  buildVoiceNoteTitle,
+  formatRecordingDuration,
+  MAX_AUDIO_UPLOAD_BYTES
+} from '@/lib/audio/upload'
+
+describe('validateAudioUpload', () => {
+  it('브라우저 녹음 형식은 코덱 매개변수가 있어도 허용해야 한다', () => {
+    expect(validateAudioUpload({ size: 1024, type: 'audio/webm;codecs=opus' })).toBeNull()
+    expect(validateAudioUpload({ size: 1024, type: 'audio/mp4' })).toBeNull()
+  })
+
+  it('지원하지 않는 형식, 빈 파일, 너무 큰 파일은 거부해야 한다', () => {
+    expect(validateAudioUpload({ size: 1024, type: 'video/mp4' })).toContain('지원하지 않는')
+    expect(validateAudioUpload({ size: 0, type: 'audio/webm' })).toContain('비어있습니다')
+    expect(validateAudioUpload({ size: MAX_AUDIO_UPLOAD_BYTES + 1, type: 'audio/webm' })).toContain('최대 10MB')
+  })
+})
+
+describe('buildAudioStorageKey', () => {
+  it('사용자 폴더 아래 형식에 맞는 확장자로 키를 만들어야 한다', () => {
+    expect(normalizeAudioMimeType('Audio/WEBM; codecs=opus')).toBe('audio/webm')
+    expect(buildAudioStorageKey('user-1', 'abc', 'audio/mp4')).toBe('user-1/abc.m4a')
+  })
+})
+
+describe('buildVoiceNoteTitle', () => {
+  it('전사의 첫 문장을 제목으로 사용해야 한다', () => {
+    expect(buildVoiceNoteTitle('내일 회의 안건 정리. 두 번째 문장입니다.')).toBe('내일 회의 안건 정리')
+  })
+
+  it('긴 첫 문장은 50자로 줄여야 한다', () => {
+    const title = buildVoiceNoteTitle('가'.repeat(80))
+    expect(title).toHaveLength(50)
+    expect(title.endsWith('…')).toBe(true)
+  })
+
+  it('전사가 비어 있으면 녹음 시각으로 제목을 만들어야 한다', () => {
+    expect(buildVoiceNoteTitle('  ', new Date(2024, 0, 5, 9, 3))).toBe('음성 메모 2024-01-05 09:03')
+  })
+})
+
+describe('formatRecordingDuration', () => {
+  it('분:초 형식으로 표시해야 한다', () => {
+    expect(formatRecordingDuration(75_000)).toBe('1:15')
+    expect(formatRecordingDuration(4_900)).toBe('0:04')
+  })
+})
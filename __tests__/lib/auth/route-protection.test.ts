@@ -0,0 +1,75 @@
+// __tests__/lib/auth/route-protection.test.ts
+// 경로 보호 규칙 테스트
+// 보호 경로 접두사 파싱과 일치 판단, 로그인 후 이동 경로(next)의 오픈 리다이렉트 방지를 테스트
+// 관련 파일: lib/auth/route-protection.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseProtectedRoutePrefixes,
+  isProtectedPath,
+  isAuthPath,
+  sanitizeNextPath,
+  buildSignInPath,
+  DEFAULT_PROTECTED_ROUTE_PREFIXES
+} from '@/lib/auth/route-protection'
+
+describe('parseProtectedRoutePrefixes', () => {
+  it('쉼표로 구분된 접두사를 정리하고 중복을 제거해야 한다', () => {
+    expect(parseProtectedRoutePrefixes(' /notes/ , /ai-chat, /notes, settings ')).toEqual(['/notes', '/ai-chat'])
+  })
+
+  it('설정이 비어 있으면 기본 접두사를 사용해야 한다', () => {
+    expect(parseProtectedRoutePrefixes(undefined)).toEqual(DEFAULT_PROTECTED_ROUTE_PREFIXES)
+    expect(parseProtectedRoutePrefixes(' , ')).toEqual(DEFAULT_PROTECTED_ROUTE_PREFIXES)
+  })
+})
+
+describe('isProtectedPath', () => {
+  const prefixes = ['/', '/notes', '/ai-chat']
+
+  it('접두사 자체와 하위 경로를 보호해야 한다', () => {
+    expect(isProtectedPath('/notes', prefixes)).toBe(true)
+    expect(isProtectedPath('/notes/abc/edit', prefixes)).toBe(true)
+    expect(isProtectedPath('/ai-chat', prefixes)).toBe(true)
+  })
+
+  it('"/"는 홈 화면만 보호하고 이름이 비슷한 경로는 보호하지 않아야 한다', () => {
+    expect(isProtectedPath('/', prefixes)).toBe(true)
+    expect(isProtectedPath('/signin', prefixes)).toBe(false)
+    expect(isProtectedPath('/notesx', prefixes)).toBe(false)
+  })
+})
+
+describe('sanitizeNextPath', () => {
+  it('같은 사이트의 경로와 쿼리는 그대로 유지해야 한다', () => {
+    expect(sanitizeNextPath('/notes/1?tab=summary')).toBe('/notes/1?tab=summary')
+  })
+
+  it('외부 주소와 프로토콜 상대 주소는 기본 경로로 바꿔야 한다', () => {
+    expect(sanitizeNextPath('https://evil.example')).toBe('/')
+    expect(sanitizeNextPath('//evil.example')).toBe('/')
+    expect(sanitizeNextPath('/\\evil.example')).toBe('/')
+    expect(sanitizeNextPath(null, '/onboarding')).toBe('/onboarding')
+  })
+
+  it('URL 해석 시 지워지는 탭, 줄바꿈 등 제어 문자와 공백이 있으면 기본 경로로 바꿔야 한다', () => {
+    expect(sanitizeNextPath('/\t/evil.example')).toBe('/')
+    expect(sanitizeNextPath(decodeURIComponent('/%09/evil.example'))).toBe('/')
+    expect(sanitizeNextPath('/\n/evil.example')).toBe('/')
+    expect(sanitizeNextPath('/\u0000/evil.example')).toBe('/')
+    expect(sanitizeNextPath('/notes /evil')).toBe('/')
+  })
+
+  it('인증 페이지로는 돌아가지 않아야 한다', () => {
+    expect(isAuthPath('/signup')).toBe(true)
+    expect(sanitizeNextPath('/signin?next=/notes')).toBe('/')
+  })
+})
+
+describe('buildSignInPath', () => {
+  it('원래 경로를 next 파라미터로 전달해야 한다', () => {
+    expect(buildSignInPath('/notes?page=2')).toBe('/signin?next=%2Fnotes%3Fpage%3D2')
+    expect(buildSignInPath('/')).toBe('/signin')
+    expect(buildSignInPath()).toBe('/signin')
+  })
+})
@@ -0,0 +1,132 @@
+// __tests__/lib/export/formats.test.ts
+// 노트 내보내기 파일 생성 유틸리티 테스트
+// JSON 덤프 구조, CSV 이스케이프, 마크다운 front matter, 파일명 중복 처리, ZIP 묶음을 테스트
+// 관련 파일: lib/export/formats.ts
+
+import { describe, it, expect } from 'vitest'
+import { unzipSync, strFromU8 } from 'fflate'
+import {
+  buildJSONExport,
+  buildCSVExport,
+  escapeCSVValue,
+  buildMarkdownFile,
+  buildMarkdownFileName,
+  buildMarkdownZip,
+  buildExportFileName,
+  EXPORT_FORMAT_VERSION
+} from '@/lib/export/formats'
+import type { ExportNote } from '@/lib/export/types'
+
+function createNote(overrides: Partial<ExportNote> = {}): ExportNote {
+  return {
+    id: 'note-1',
+    title: '주간 회의',
+    content: '# 안건\n\n출시 일정 논의',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-02T00:00:00.000Z',
+    tags: ['회의', '출시'],
+    summaries: [
+      { model: 'gemini-2.0-flash', content: '• 출시 일정 확정\n• 담당자 배정', createdAt: '2025-01-02T00:00:00.000Z' }
+    ],
+    ...overrides
+  }
+}
+
+describe('buildJSONExport', () => {
+  it('버전, 내보낸 시각, 노트 수와 함께 요약·태그를 포함해야 한다', () => {
+    const exportedAt = new Date('2025-01-31T00:00:00.000Z')
+    const parsed = JSON.parse(buildJSONExport([createNote()], exportedAt))
+
+    expect(parsed.version).toBe(EXPORT_FORMAT_VERSION)
+    expect(parsed.exportedAt).toBe('2025-01-31T00:00:00.000Z')
+    expect(parsed.noteCount).toBe(1)
+    expect(parsed.notes[0].tags).toEqual(['회의', '출시'])
+    expect(parsed.notes[0].summaries[0].model).toBe('gemini-2.0-flash')
+  })
+})
+
+describe('escapeCSVValue', () => {
+  it('쉼표, 따옴표, 줄바꿈이 있으면 큰따옴표로 감싸야 한다', () => {
+    expect(escapeCSVValue('a,b')).toBe('"a,b"')
+    expect(escapeCSVValue('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCSVValue('line1\nline2')).toBe('"line1\nline2"')
+    expect(escapeCSVValue('plain')).toBe('plain')
+  })
+
+  it('수식으로 해석될 수 있는 값은 작은따옴표를 붙여야 한다', () => {
+    expect(escapeCSVValue('=SUM(A1)')).toBe("'=SUM(A1)")
+    expect(escapeCSVValue('@cmd')).toBe("'@cmd")
+  })
+})
+
+describe('buildCSVExport', () => {
+  it('BOM과 헤더, 노트별 메타데이터 행을 만들어야 한다', () => {
+    const csv = buildCSVExport([createNote()])
+    const lines = csv.replace(/^\uFEFF/, '').split('\r\n')
+
+    expect(csv.startsWith('\uFEFF')).toBe(true)
+    expect(lines[0]).toBe('id,title,tags,summary,content_length,created_at,updated_at')
+    expect(lines[1]).toContain('note-1,주간 회의,회의; 출시,')
+    expect(lines[1]).toContain('"• 출시 일정 확정\n• 담당자 배정"')
+  })
+})
+
+describe('buildMarkdownFile', () => {
+  it('태그와 요약을 YAML front matter로 포함해야 한다', () => {
+    const markdown = buildMarkdownFile(createNote())
+
+    expect(markdown.startsWith('---\n')).toBe(true)
+    expect(markdown).toContain('title: "주간 회의"')
+    expect(markdown).toContain('tags: ["회의", "출시"]')
+    expect(markdown).toContain('summary: |\n  • 출시 일정 확정\n  • 담당자 배정')
+    expect(markdown).toContain('---\n\n# 안건\n\n출시 일정 논의\n')
+  })
+
+  it('요약이 없으면 summary 항목을 생략해야 한다', () => {
+    const markdown = buildMarkdownFile(createNote({ summaries: [], tags: [] }))
+
+    expect(markdown).not.toContain('summary:')
+    expect(markdown).toContain('tags: []')
+  })
+
+  it('따옴표가 포함된 제목을 이스케이프해야 한다', () => {
+    const markdown = buildMarkdownFile(createNote({ title: 'say "hi"' }))
+
+    expect(markdown).toContain('title: "say \\"hi\\""')
+  })
+})
+
+describe('buildMarkdownFileName', () => {
+  it('사용할 수 없는 문자를 제거하고 중복 시 번호를 붙여야 한다', () => {
+    const used = new Set<string>()
+
+    expect(buildMarkdownFileName('a/b:c', used)).toBe('a b c.md')
+    expect(buildMarkdownFileName('a/b:c', used)).toBe('a b c (2).md')
+    expect(buildMarkdownFileName('   ', used)).toBe('제목 없음.md')
+  })
+})
+
+describe('buildMarkdownZip', () => {
+  it('노트마다 마크다운 파일을 하나씩 묶어야 한다', () => {
+    const zip = buildMarkdownZip([createNote(), createNote({ id: 'note-2' })])
+    const files = unzipSync(zip)
+
+    expect(Object.keys(files).sort()).toEqual(['주간 회의 (2).md', '주간 회의.md'])
+    expect(strFromU8(files['주간 회의.md'])).toContain('id: "note-1"')
+  })
+})
+
+describe('buildExportFileName', () => {
+  const date = new Date('2025-01-31T12:00:00.000Z')
+
+  it('전체 내보내기는 날짜가 포함된 파일명을 사용해야 한다', () => {
+    expect(buildExportFileName('json', date)).toBe('notes-2025-01-31.json')
+    expect(buildExportFileName('csv', date)).toBe('notes-2025-01-31.csv')
+    expect(buildExportFileName('markdown', date)).toBe('notes-2025-01-31.zip')
+  })
+
+  it('노트 하나를 내보내면 노트 제목을 파일명으로 사용해야 한다', () => {
+    expect(buildExportFileName('markdown', date, '회의록')).toBe('회의록.md')
+    expect(buildExportFileName('json', date, '회의록')).toBe('회의록.json')
+  })
+})
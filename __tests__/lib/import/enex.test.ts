@@ -0,0 +1,110 @@
+// __tests__/lib/import/enex.test.ts
+// Evernote ENEX 가져오기 테스트
+// ENML → 마크다운 변환, ENEX 노트의 제목·태그·시각 추출, 가져오기용 마크다운 왕복 변환을 테스트
+// 관련 파일: lib/import/enml.ts, lib/import/enex.ts, lib/import/markdown.ts
+
+import { describe, it, expect } from 'vitest'
+import { enmlToMarkdown, decodeEntities } from '@/lib/import/enml'
+import { parseEnex, parseEnexDate, convertEnexFile } from '@/lib/import/enex'
+import { parseMarkdownNote } from '@/lib/import/markdown'
+
+const ENEX = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export4.dtd">
+<en-export export-date="20240110T000000Z" application="Evernote">
+  <note>
+    <title>주간 회의 &amp; 회고</title>
+    <content><![CDATA[<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">
+<en-note><h2>안건</h2><div>출시 <b>일정</b> 논의</div><en-media type="image/png" hash="abc"/></en-note>]]></content>
+    <created>20240105T150405Z</created>
+    <updated>20240106T090000Z</updated>
+    <tag>회의</tag>
+    <tag>출시</tag>
+    <resource><data encoding="base64">aGVsbG8=</data></resource>
+  </note>
+  <note>
+    <title></title>
+    <content><![CDATA[<en-note><div>제목 없는 노트</div></en-note>]]></content>
+  </note>
+</en-export>`
+
+describe('decodeEntities', () => {
+  it('이름 있는 문자 참조와 숫자 문자 참조를 해석해야 한다', () => {
+    expect(decodeEntities('a &amp; b &lt;c&gt; &#54620;&#xAE00;')).toBe('a & b <c> 한글')
+  })
+})
+
+describe('enmlToMarkdown', () => {
+  it('제목, 강조, 링크, 줄바꿈을 마크다운으로 변환해야 한다', () => {
+    const markdown = enmlToMarkdown(
+      '<en-note><h1>제목</h1><div>굵게 <strong>중요</strong>, <i>기울임</i></div>' +
+      '<div><a href="https://example.com">링크</a><br/>다음 줄</div></en-note>'
+    )
+
+    expect(markdown).toBe('# 제목\n\n굵게 **중요**, _기울임_\n\n[링크](https://example.com)\n다음 줄')
+  })
+
+  it('중첩 목록과 체크박스를 변환해야 한다', () => {
+    const markdown = enmlToMarkdown(
+      '<en-note><ul><li>하나<ul><li>하위</li></ul></li><li>둘</li></ul>' +
+      '<ol><li>첫째</li><li>둘째</li></ol>' +
+      '<div><en-todo checked="true"/>완료</div><div><en-todo checked="false"/>할 일</div></en-note>'
+    )
+
+    expect(markdown).toBe('- 하나\n  - 하위\n- 둘\n\n1. 첫째\n2. 둘째\n\n- [x] 완료\n\n- [ ] 할 일')
+  })
+
+  it('코드 블록은 공백을 유지하고 표는 마크다운 표로 변환해야 한다', () => {
+    const markdown = enmlToMarkdown(
+      '<en-note><div style="-en-codeblock:true"><div>if (a) {</div><div>  b()</div><div>}</div></div>' +
+      '<table><tr><th>이름</th><th>값</th></tr><tr><td>a|b</td><td>1</td></tr></table></en-note>'
+    )
+
+    expect(markdown).toBe('```\nif (a) {\n  b()\n}\n```\n\n| 이름 | 값 |\n| --- | --- |\n| a\\|b | 1 |')
+  })
+
+  it('첨부 파일은 안내 문구로 바꿔야 한다', () => {
+    expect(enmlToMarkdown('<en-note><en-media type="image/png" hash="abc"/></en-note>')).toBe('_(첨부 파일)_')
+  })
+})
+
+describe('parseEnexDate', () => {
+  it('ENEX 시각 형식을 UTC 시각으로 해석해야 한다', () => {
+    expect(parseEnexDate('20240105T150405Z')?.toISOString()).toBe('2024-01-05T15:04:05.000Z')
+    expect(parseEnexDate('2024-01-05')).toBeNull()
+    expect(parseEnexDate(null)).toBeNull()
+  })
+})
+
+describe('parseEnex', () => {
+  it('노트별 제목, 본문, 태그, 작성·수정 시각을 추출해야 한다', () => {
+    const [first, second] = parseEnex(ENEX)
+
+    expect(first.title).toBe('주간 회의 & 회고')
+    expect(first.content).toBe('## 안건\n\n출시 **일정** 논의\n\n_(첨부 파일)_')
+    expect(first.tags).toEqual(['회의', '출시'])
+    expect(first.createdAt?.toISOString()).toBe('2024-01-05T15:04:05.000Z')
+    expect(first.updatedAt?.toISOString()).toBe('2024-01-06T09:00:00.000Z')
+    expect(second.title).toBe('')
+    expect(second.tags).toEqual([])
+  })
+})
+
+describe('convertEnexFile', () => {
+  it('가져오기 경로에서 같은 제목, 태그, 시각으로 다시 읽혀야 한다', () => {
+    const files = convertEnexFile('내 노트.enex', ENEX)
+    const note = parseMarkdownNote(files[0].fileName, files[0].content)
+
+    expect(files.map(file => file.fileName)).toEqual(['내 노트.enex/주간 회의 & 회고', '내 노트.enex/노트 2'])
+    expect(note.title).toBe('주간 회의 & 회고')
+    expect(note.tags).toEqual(['회의', '출시'])
+    expect(note.createdAt?.toISOString()).toBe('2024-01-05T15:04:05.000Z')
+    expect(note.updatedAt?.toISOString()).toBe('2024-01-06T09:00:00.000Z')
+  })
+
+  it('제목이 없는 노트는 파일명의 순번을 제목으로 사용해야 한다', () => {
+    const files = convertEnexFile('내 노트.enex', ENEX)
+
+    expect(parseMarkdownNote(files[1].fileName, files[1].content).title).toBe('노트 2')
+  })
+})
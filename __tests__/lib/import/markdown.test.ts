@@ -0,0 +1,147 @@
+// __tests__/lib/import/markdown.test.ts
+// 마크다운 가져오기 파싱 테스트
+// front matter 해석, 제목·태그·작성일 추출, 내보내기 파일 왕복 변환, 요청 분할을 테스트
+// 관련 파일: lib/import/front-matter.ts, lib/import/markdown.ts, lib/export/formats.ts
+
+import { describe, it, expect } from 'vitest'
+import { parseFrontMatter } from '@/lib/import/front-matter'
+import {
+  parseMarkdownNote,
+  normalizeImportTags,
+  isMarkdownFileName,
+  chunkImportFiles
+} from '@/lib/import/markdown'
+import { buildMarkdownFile } from '@/lib/export/formats'
+
+describe('parseFrontMatter', () => {
+  it('front matter가 없으면 전체를 본문으로 반환해야 한다', () => {
+    const result = parseFrontMatter('# 제목\n본문')
+
+    expect(result.data).toEqual({})
+    expect(result.body).toBe('# 제목\n본문')
+  })
+
+  it('따옴표 문자열, 흐름 목록, 블록 목록, 블록 스칼라를 해석해야 한다', () => {
+    const result = parseFrontMatter([
+      '---',
+      'title: "회의: 1월"',
+      "author: 'O''Brien'",
+      'tags: [회의, "a, b"]',
+      'aliases:',
+      '- 첫째',
+      '- 둘째',
+      'summary: |',
+      '  • 첫 줄',
+      '  • 둘째 줄',
+      '---',
+      '본문'
+    ].join('\n'))
+
+    expect(result.data).toEqual({
+      title: '회의: 1월',
+      author: "O'Brien",
+      tags: ['회의', 'a, b'],
+      aliases: ['첫째', '둘째'],
+      summary: '• 첫 줄\n• 둘째 줄'
+    })
+    expect(result.body).toBe('본문')
+  })
+
+  it('CRLF 줄바꿈과 BOM을 처리해야 한다', () => {
+    const result = parseFrontMatter('\uFEFF---\r\ntitle: 제목\r\n---\r\n본문')
+
+    expect(result.data).toEqual({ title: '제목' })
+    expect(result.body).toBe('본문')
+  })
+
+  it('닫는 구분선이 없으면 front matter로 보지 않아야 한다', () => {
+    const result = parseFrontMatter('---\ntitle: 제목\n본문')
+
+    expect(result.data).toEqual({})
+  })
+})
+
+describe('parseMarkdownNote', () => {
+  it('front matter의 제목, 태그, 작성일을 사용해야 한다', () => {
+    const note = parseMarkdownNote('notes/a.md', '---\ntitle: 주간 회의\ntags: [회의, "#출시"]\ncreated_at: 2024-03-01\n---\n\n내용')
+
+    expect(note.title).toBe('주간 회의')
+    expect(note.tags).toEqual(['회의', '출시'])
+    expect(note.createdAt?.toISOString()).toBe('2024-03-01T00:00:00.000Z')
+    expect(note.updatedAt?.toISOString()).toBe('2024-03-01T00:00:00.000Z')
+    expect(note.content).toBe('내용')
+  })
+
+  it('제목이 없으면 첫 번째 제목 줄, 그다음 파일명을 사용해야 한다', () => {
+    expect(parseMarkdownNote('a.md', '# 문서 제목\n내용').title).toBe('문서 제목')
+    expect(parseMarkdownNote('folder/아이디어.markdown', '내용만 있음').title).toBe('아이디어')
+  })
+
+  it('잘못된 날짜는 무시해야 한다', () => {
+    const note = parseMarkdownNote('a.md', '---\ndate: 언젠가\n---\n내용')
+
+    expect(note.createdAt).toBeNull()
+  })
+
+  it('내보낸 마크다운 파일을 같은 제목과 태그로 다시 읽어야 한다', () => {
+    const exported = buildMarkdownFile({
+      id: 'note-1',
+      title: 'say "hi"',
+      content: '# 안건\n\n출시 일정',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-02T00:00:00.000Z',
+      tags: ['회의', '출시'],
+      summaries: [{ model: 'gemini', content: '• 요약', createdAt: null }]
+    })
+    const note = parseMarkdownNote('say hi.md', exported)
+
+    expect(note.title).toBe('say "hi"')
+    expect(note.tags).toEqual(['회의', '출시'])
+    expect(note.content).toBe('# 안건\n\n출시 일정')
+    expect(note.createdAt?.toISOString()).toBe('2025-01-01T00:00:00.000Z')
+    expect(note.updatedAt?.toISOString()).toBe('2025-01-02T00:00:00.000Z')
+  })
+})
+
+describe('normalizeImportTags', () => {
+  it('쉼표나 공백으로 구분된 문자열 태그를 나누고 중복을 제거해야 한다', () => {
+    expect(normalizeImportTags('회의, 출시 #회의')).toEqual(['회의', '출시'])
+  })
+
+  it('태그는 최대 6개, 50자까지만 사용해야 한다', () => {
+    const tags = normalizeImportTags(['a'.repeat(60), 'b', 'c', 'd', 'e', 'f', 'g'])
+
+    expect(tags).toHaveLength(6)
+    expect(tags[0]).toHaveLength(50)
+  })
+})
+
+describe('isMarkdownFileName', () => {
+  it('마크다운 파일만 허용하고 숨김 파일과 macOS 메타데이터는 제외해야 한다', () => {
+    expect(isMarkdownFileName('notes/a.md')).toBe(true)
+    expect(isMarkdownFileName('B.MARKDOWN')).toBe(true)
+    expect(isMarkdownFileName('notes/image.png')).toBe(false)
+    expect(isMarkdownFileName('notes/.hidden.md')).toBe(false)
+    expect(isMarkdownFileName('__MACOSX/notes/a.md')).toBe(false)
+  })
+})
+
+describe('chunkImportFiles', () => {
+  it('파일 수와 글자 수 제한에 맞춰 나누어야 한다', () => {
+    const files = [
+      { fileName: '1.md', content: 'a'.repeat(40) },
+      { fileName: '2.md', content: 'a'.repeat(40) },
+      { fileName: '3.md', content: 'a'.repeat(40) },
+      { fileName: '4.md', content: 'a' }
+    ]
+
+    expect(chunkImportFiles(files, 10, 100).map(batch => batch.length)).toEqual([2, 2])
+    expect(chunkImportFiles(files, 3, 1000).map(batch => batch.length)).toEqual([3, 1])
+  })
+
+  it('제한보다 큰 파일도 단독 요청으로 보내야 한다', () => {
+    const batches = chunkImportFiles([{ fileName: 'big.md', content: 'a'.repeat(200) }], 10, 100)
+
+    expect(batches).toHaveLength(1)
+  })
+})
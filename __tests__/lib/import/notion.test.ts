@@ -0,0 +1,90 @@
+// __tests__/lib/import/notion.test.ts
+// Notion 내보내기 가져오기 테스트
+// 페이지 ID 제거, 날짜 속성 해석, CSV 파싱, 데이터베이스 행의 태그·작성일 병합을 테스트
+// 관련 파일: lib/import/notion.ts, lib/import/markdown.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  stripNotionId,
+  isNotionExport,
+  parseNotionDate,
+  parseCSV,
+  parseNotionPage,
+  convertNotionExport
+} from '@/lib/import/notion'
+import { parseMarkdownNote } from '@/lib/import/markdown'
+
+const PAGE_ID = '0123456789abcdef0123456789abcdef'
+const ROW_ID = 'fedcba9876543210fedcba9876543210'
+
+describe('stripNotionId / isNotionExport', () => {
+  it('파일명 끝의 페이지 ID를 제거하고 Notion 내보내기를 구분해야 한다', () => {
+    expect(stripNotionId(`회의록 ${PAGE_ID}`)).toBe('회의록')
+    expect(stripNotionId(`Tasks ${PAGE_ID}_all`)).toBe('Tasks')
+    expect(isNotionExport([`Export/회의록 ${PAGE_ID}.md`])).toBe(true)
+    expect(isNotionExport(['notes/회의록.md'])).toBe(false)
+  })
+})
+
+describe('parseNotionDate', () => {
+  it('영문, 한국어 날짜 형식과 날짜 범위를 해석해야 한다', () => {
+    const english = parseNotionDate('January 5, 2024 3:04 PM')
+    const korean = parseNotionDate('2024년 1월 5일 오후 3:04')
+    const range = parseNotionDate('January 5, 2024 → January 7, 2024')
+
+    expect([english?.getFullYear(), english?.getMonth(), english?.getDate(), english?.getHours()]).toEqual([2024, 0, 5, 15])
+    expect([korean?.getFullYear(), korean?.getMonth(), korean?.getDate(), korean?.getHours(), korean?.getMinutes()]).toEqual([2024, 0, 5, 15, 4])
+    expect(range?.getDate()).toBe(5)
+    expect(parseNotionDate('알 수 없음')).toBeNull()
+  })
+})
+
+describe('parseCSV', () => {
+  it('따옴표 안의 쉼표, 따옴표, 줄바꿈과 BOM을 처리해야 한다', () => {
+    expect(parseCSV('\uFEFFName,Tags\r\n"a, b","say ""hi""\nnext"\r\n')).toEqual([
+      ['Name', 'Tags'],
+      ['a, b', 'say "hi"\nnext']
+    ])
+  })
+})
+
+describe('parseNotionPage', () => {
+  it('첫 제목 줄을 노트 제목으로 쓰고 알려진 속성 줄을 메타데이터로 옮겨야 한다', () => {
+    const note = parseNotionPage(
+      `회의록 ${PAGE_ID}.md`,
+      '# 주간 회의\n\nTags: 회의, 출시\nCreated: January 5, 2024 3:04 PM\nStatus: Done\n\n본문 내용'
+    )
+
+    expect(note.title).toBe('주간 회의')
+    expect(note.tags).toEqual(['회의', '출시'])
+    expect(note.createdAt?.getFullYear()).toBe(2024)
+    expect(note.content).toBe('Status: Done\n\n본문 내용')
+  })
+
+  it('알려진 속성이 없으면 본문으로 유지하고 다른 페이지 링크는 글자만 남겨야 한다', () => {
+    const note = parseNotionPage(
+      `메모 ${PAGE_ID}.md`,
+      `# 메모\n\n참고: 아래 링크\n\n[다른 페이지](%EB%8B%A4%EB%A5%B8%20${ROW_ID}.md) ![](image.png) [외부](https://example.com)`
+    )
+
+    expect(note.tags).toEqual([])
+    expect(note.content).toBe('참고: 아래 링크\n\n다른 페이지 _(첨부 파일)_ [외부](https://example.com)')
+  })
+})
+
+describe('convertNotionExport', () => {
+  it('데이터베이스 CSV의 태그와 작성일을 행 페이지에 합쳐야 한다', () => {
+    const files = convertNotionExport('export.zip', {
+      [`Export/Tasks ${PAGE_ID}.csv`]: 'Name,Tags,Created\n출시 준비,"출시, 긴급","2024년 2월 1일 오전 9:00"\n',
+      [`Export/Tasks ${PAGE_ID}/출시 준비 ${ROW_ID}.md`]: '# 출시 준비\n\n체크리스트 작성'
+    })
+    const note = parseMarkdownNote(files[0].fileName, files[0].content)
+
+    expect(files).toHaveLength(1)
+    expect(files[0].fileName).toBe(`export.zip/Export/Tasks ${PAGE_ID}/출시 준비 ${ROW_ID}.md`)
+    expect(note.title).toBe('출시 준비')
+    expect(note.tags).toEqual(['출시', '긴급'])
+    expect(note.createdAt?.getMonth()).toBe(1)
+    expect(note.content).toBe('체크리스트 작성')
+  })
+})
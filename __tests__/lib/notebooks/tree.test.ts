@@ -0,0 +1,121 @@
+// __tests__/lib/notebooks/tree.test.ts
+// 노트북 트리 유틸리티 테스트
+// 평면 목록의 트리 변환과 노트 수 합산, 하위 노트북 탐색, 순환 이동 방지, 경로 계산, 삭제 방식 검증, URL 파라미터 처리를 테스트
+// 관련 파일: lib/notebooks/tree.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildNotebookFilterParams,
+  buildNotebookTree,
+  canMoveNotebook,
+  getNotebookPath,
+  getNotebookSubtreeIds,
+  isNotebookDeleteMode,
+  normalizeNotebookName,
+  parseNotebookParam,
+  type NotebookSummary
+} from '@/lib/notebooks/tree'
+
+const WORK_ID = '11111111-1111-4111-8111-111111111111'
+
+// 업무 ─┬ 회의록 ─ 2025
+//       └ 기획
+// 개인
+const notebooks: NotebookSummary[] = [
+  { id: 'work', parentId: null, name: '업무', noteCount: 1 },
+  { id: 'meetings', parentId: 'work', name: '회의록', noteCount: 2 },
+  { id: 'meetings-2025', parentId: 'meetings', name: '2025', noteCount: 3 },
+  { id: 'planning', parentId: 'work', name: '기획', noteCount: 0 },
+  { id: 'personal', parentId: null, name: '개인', noteCount: 4 }
+]
+
+describe('buildNotebookTree', () => {
+  it('부모 관계에 따라 이름순 트리를 만들고 깊이를 계산해야 한다', () => {
+    const tree = buildNotebookTree(notebooks)
+
+    expect(tree.map(node => node.name)).toEqual(['개인', '업무'])
+    expect(tree[1].children.map(node => node.name)).toEqual(['기획', '회의록'])
+    expect(tree[1].children[1].children[0]).toMatchObject({ id: 'meetings-2025', depth: 2 })
+  })
+
+  it('하위 노트북의 노트 수를 합산해야 한다', () => {
+    const work = buildNotebookTree(notebooks).find(node => node.id === 'work')
+
+    expect(work?.noteCount).toBe(1)
+    expect(work?.totalNoteCount).toBe(6)
+  })
+
+  it('부모를 찾을 수 없는 노트북은 최상위로 표시해야 한다', () => {
+    const tree = buildNotebookTree([{ id: 'orphan', parentId: 'missing', name: '고아', noteCount: 0 }])
+
+    expect(tree).toHaveLength(1)
+    expect(tree[0].depth).toBe(0)
+  })
+})
+
+describe('getNotebookSubtreeIds', () => {
+  it('자기 자신과 모든 하위 노트북을 반환해야 한다', () => {
+    expect(getNotebookSubtreeIds(notebooks, 'work').sort()).toEqual(['meetings', 'meetings-2025', 'planning', 'work'])
+    expect(getNotebookSubtreeIds(notebooks, 'personal')).toEqual(['personal'])
+  })
+})
+
+describe('canMoveNotebook', () => {
+  it('자기 자신이나 하위 노트북 아래로는 옮길 수 없어야 한다', () => {
+    expect(canMoveNotebook(notebooks, 'work', 'work')).toBe(false)
+    expect(canMoveNotebook(notebooks, 'work', 'meetings-2025')).toBe(false)
+  })
+
+  it('다른 노트북 아래나 최상위로는 옮길 수 있어야 한다', () => {
+    expect(canMoveNotebook(notebooks, 'meetings', 'personal')).toBe(true)
+    expect(canMoveNotebook(notebooks, 'meetings', null)).toBe(true)
+  })
+})
+
+describe('getNotebookPath', () => {
+  it('최상위부터 해당 노트북까지의 경로를 반환해야 한다', () => {
+    expect(getNotebookPath(notebooks, 'meetings-2025').map(notebook => notebook.name)).toEqual(['업무', '회의록', '2025'])
+    expect(getNotebookPath(notebooks, 'missing')).toEqual([])
+  })
+})
+
+describe('normalizeNotebookName', () => {
+  it('앞뒤 공백을 제거하고 비어 있거나 너무 긴 이름은 거부해야 한다', () => {
+    expect(normalizeNotebookName('  회의록  ')).toBe('회의록')
+    expect(normalizeNotebookName('   ')).toBeNull()
+    expect(normalizeNotebookName('가'.repeat(101))).toBeNull()
+  })
+})
+
+describe('isNotebookDeleteMode', () => {
+  it('미분류 이동과 휴지통 이동만 허용해야 한다', () => {
+    expect(isNotebookDeleteMode('inbox')).toBe(true)
+    expect(isNotebookDeleteMode('trash')).toBe(true)
+    expect(isNotebookDeleteMode('delete')).toBe(false)
+    expect(isNotebookDeleteMode(undefined)).toBe(false)
+  })
+})
+
+describe('parseNotebookParam', () => {
+  it('파라미터를 노트 목록 범위로 변환해야 한다', () => {
+    expect(parseNotebookParam(undefined)).toBeUndefined()
+    expect(parseNotebookParam('inbox')).toBeNull()
+    expect(parseNotebookParam(WORK_ID)).toBe(WORK_ID)
+  })
+
+  it('UUID 형식이 아닌 값은 전체 범위로 취급해야 한다', () => {
+    expect(parseNotebookParam('not-a-uuid')).toBeUndefined()
+  })
+})
+
+describe('buildNotebookFilterParams', () => {
+  it('노트북 범위를 설정하고 다른 필터는 유지하며 첫 페이지로 이동해야 한다', () => {
+    const current = new URLSearchParams('search=회의&page=3')
+
+    expect(buildNotebookFilterParams(current, WORK_ID).toString()).toBe(
+      new URLSearchParams({ search: '회의', page: '1', notebook: WORK_ID }).toString()
+    )
+    expect(buildNotebookFilterParams(current, null).get('notebook')).toBe('inbox')
+    expect(buildNotebookFilterParams(new URLSearchParams(`notebook=${WORK_ID}`), undefined).has('notebook')).toBe(false)
+  })
+})
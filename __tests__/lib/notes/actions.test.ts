@@ -1,10 +1,13 @@
 // __tests__/lib/notes/actions.test.ts
 // 노트 관련 Server Actions 테스트
-// 노트 생성, 조회, 수정, 삭제 기능을 테스트
+// 노트 생성, 조회, 수정, 삭제 기능과 저장 후 임베딩 계산 예약, 제목 확정 시 위키 링크 갱신을 테스트
 // 관련 파일: lib/notes/actions.ts, lib/db/schema/notes.ts
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { deleteNote } from '@/lib/notes/actions'
+import { createNote, deleteNote, updateNote } from '@/lib/notes/actions'
+import { scheduleNoteEmbedding } from '@/lib/notes/embeddings'
+import { scheduleAIJobDrain } from '@/lib/ai/job-worker'
+import { refreshNoteLinks } from '@/lib/notes/links'
 
 // Mock dependencies
 vi.mock('@/lib/supabase/server', () => ({
@@ -41,6 +44,38 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn()
 }))
 
+const embeddingRunAfter = new Date('2025-01-01T00:01:00Z')
+
+vi.mock('@/lib/notes/embeddings', () => ({
+  scheduleNoteEmbedding: vi.fn(async () => ({ runAfter: embeddingRunAfter }))
+}))
+
+vi.mock('@/lib/ai/job-worker', () => ({
+  scheduleAIJobDrain: vi.fn()
+}))
+
+vi.mock('@/lib/notes/revisions', () => ({
+  recordNoteRevision: vi.fn()
+}))
+
+vi.mock('@/lib/notes/links', () => ({
+  refreshNoteLinks: vi.fn()
+}))
+
+// 인증된 사용자로 Supabase 클라이언트 설정
+async function mockAuthenticatedUser(user: { id: string }) {
+  const { createClient } = await import('@/lib/supabase/server')
+  const mockSupabase = {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user },
+        error: null
+      })
+    }
+  }
+  vi.mocked(createClient).mockResolvedValue(mockSupabase as unknown as ReturnType<typeof createClient>)
+}
+
 describe('노트 삭제 API', () => {
   const mockUser = { id: 'user-123' }
   const mockNote = {
@@ -81,20 +116,55 @@ describe('노트 삭제 API', () => {
         }))
       }))
     }))
-    const mockDelete = vi.fn(() => ({
+    const trashedNote = { ...mockNote, deletedAt: new Date() }
+    const mockSet = vi.fn(() => ({
       where: vi.fn(() => ({
-        returning: vi.fn(() => [mockNote])
+        returning: vi.fn(() => [trashedNote])
       }))
     }))
+    const mockUpdate = vi.fn(() => ({ set: mockSet }))
+    const mockDelete = vi.fn()
     vi.mocked(db).select = mockSelect
+    vi.mocked(db).update = mockUpdate as unknown as typeof db.update
     vi.mocked(db).delete = mockDelete
 
     // Test
     const result = await deleteNote('note-123')
 
-    expect(result).toEqual(mockNote)
+    // 즉시 삭제하지 않고 deleted_at만 설정 (휴지통 이동)
+    expect(result).toEqual(trashedNote)
     expect(mockSelect).toHaveBeenCalled()
-    expect(mockDelete).toHaveBeenCalled()
+    expect(mockUpdate).toHaveBeenCalled()
+    expect(mockSet).toHaveBeenCalledWith({ deletedAt: expect.any(Date) })
+    expect(mockDelete).not.toHaveBeenCalled()
+  })
+
+  it('이미 휴지통에 있는 노트 삭제 시 NOT_FOUND 에러를 던져야 한다', async () => {
+    // Mock setup
+    const { createClient } = await import('@/lib/supabase/server')
+    const mockSupabase = {
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: mockUser },
+          error: null
+        })
+      }
+    }
+    vi.mocked(createClient).mockResolvedValue(mockSupabase as unknown as ReturnType<typeof createClient>)
+
+    const trashedNote = { ...mockNote, deletedAt: new Date() }
+    const { db } = await import('@/lib/db/connection')
+    const mockSelect = vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => ({
+          limit: vi.fn(() => [trashedNote])
+        }))
+      }))
+    }))
+    vi.mocked(db).select = mockSelect
+
+    // Test
+    await expect(deleteNote('note-123')).rejects.toThrow('NOT_FOUND')
   })
 
   it('존재하지 않는 노트 삭제 시 NOT_FOUND 에러를 던져야 한다', async () => {
@@ -169,3 +239,144 @@ describe('노트 삭제 API', () => {
     await expect(deleteNote('note-123')).rejects.toThrow('인증이 필요합니다.')
   })
 })
+
+describe('노트 저장 후 임베딩 계산 예약', () => {
+  const userId = '5f0c6a4e-2b1d-4c3e-9f8a-1b2c3d4e5f60'
+  const savedNote = {
+    id: '0d9c8b7a-6f5e-4d3c-2b1a-0f9e8d7c6b5a',
+    userId,
+    title: '테스트 노트',
+    content: '테스트 내용',
+    deletedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('노트를 만들면 임베딩 계산을 예약하고 그 시각에 대기열 처리를 예약해야 한다', async () => {
+    await mockAuthenticatedUser({ id: userId })
+
+    const { db } = await import('@/lib/db/connection')
+    vi.mocked(db).insert = vi.fn(() => ({
+      values: vi.fn(() => ({
+        returning: vi.fn(() => [savedNote])
+      }))
+    })) as unknown as typeof db.insert
+
+    await createNote({ title: savedNote.title, content: savedNote.content })
+
+    expect(scheduleNoteEmbedding).toHaveBeenCalledWith(savedNote)
+    expect(scheduleAIJobDrain).toHaveBeenCalledWith(embeddingRunAfter)
+  })
+
+  it('노트 내용을 수정하면 임베딩 계산을 예약해야 한다', async () => {
+    await mockAuthenticatedUser({ id: userId })
+
+    const updatedNote = { ...savedNote, content: '수정된 내용' }
+    const { db } = await import('@/lib/db/connection')
+    vi.mocked(db).select = vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => ({
+          limit: vi.fn(() => [savedNote])
+        }))
+      }))
+    })) as unknown as typeof db.select
+    vi.mocked(db).update = vi.fn(() => ({
+      set: vi.fn(() => ({
+        where: vi.fn(() => ({
+          returning: vi.fn(() => [updatedNote])
+        }))
+      }))
+    })) as unknown as typeof db.update
+    vi.mocked(db).delete = vi.fn(() => ({
+      where: vi.fn()
+    })) as unknown as typeof db.delete
+
+    await updateNote(savedNote.id, { title: updatedNote.title, content: updatedNote.content })
+
+    expect(scheduleNoteEmbedding).toHaveBeenCalledWith(updatedNote)
+    expect(scheduleAIJobDrain).toHaveBeenCalledWith(embeddingRunAfter)
+  })
+
+  it('제목과 내용이 그대로면 임베딩 계산을 예약하지 않아야 한다', async () => {
+    await mockAuthenticatedUser({ id: userId })
+
+    const { db } = await import('@/lib/db/connection')
+    vi.mocked(db).select = vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => ({
+          limit: vi.fn(() => [savedNote])
+        }))
+      }))
+    })) as unknown as typeof db.select
+    vi.mocked(db).update = vi.fn(() => ({
+      set: vi.fn(() => ({
+        where: vi.fn(() => ({
+          returning: vi.fn(() => [savedNote])
+        }))
+      }))
+    })) as unknown as typeof db.update
+
+    await updateNote(savedNote.id, { title: savedNote.title, content: savedNote.content })
+
+    expect(scheduleNoteEmbedding).not.toHaveBeenCalled()
+  })
+})
+
+describe('노트 제목 변경 시 위키 링크 갱신', () => {
+  const userId = '5f0c6a4e-2b1d-4c3e-9f8a-1b2c3d4e5f60'
+  const savedNote = {
+    id: '0d9c8b7a-6f5e-4d3c-2b1a-0f9e8d7c6b5a',
+    userId,
+    title: '테스트 노트',
+    content: '테스트 내용',
+    deletedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }
+  const renamedNote = { ...savedNote, title: '바뀐 제목' }
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    await mockAuthenticatedUser({ id: userId })
+
+    const { db } = await import('@/lib/db/connection')
+    vi.mocked(db).select = vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => ({
+          limit: vi.fn(() => [savedNote])
+        }))
+      }))
+    })) as unknown as typeof db.select
+    vi.mocked(db).update = vi.fn(() => ({
+      set: vi.fn(() => ({
+        where: vi.fn(() => ({
+          returning: vi.fn(() => [renamedNote])
+        }))
+      }))
+    })) as unknown as typeof db.update
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('자동 저장으로 제목이 바뀌면 다른 노트의 링크를 바꾸지 않아야 한다', async () => {
+    await updateNote(savedNote.id, { title: renamedNote.title, content: savedNote.content })
+
+    expect(refreshNoteLinks).toHaveBeenCalledWith(renamedNote, { previousTitle: undefined })
+  })
+
+  it('제목이 확정된 저장이면 확정된 이전 제목으로 링크를 바꿔야 한다', async () => {
+    await updateNote(savedNote.id, { title: renamedNote.title, content: savedNote.content }, { previousTitle: '처음 제목' })
+
+    expect(refreshNoteLinks).toHaveBeenCalledWith(renamedNote, { previousTitle: '처음 제목' })
+  })
+})
@@ -0,0 +1,60 @@
+// __tests__/lib/notes/diff.test.ts
+// 노트 버전 비교 diff 유틸리티 테스트
+// 줄 단위 diff 계산과 좌우 비교 행 변환을 테스트
+// 관련 파일: lib/notes/diff.ts, components/notes/revision-diff.tsx
+
+import { describe, it, expect } from 'vitest'
+import { diffLines, toSideBySide, getDiffStats } from '@/lib/notes/diff'
+
+describe('diffLines', () => {
+  it('동일한 텍스트는 모두 equal로 반환해야 한다', () => {
+    const result = diffLines('a\nb\nc', 'a\nb\nc')
+
+    expect(result).toHaveLength(3)
+    expect(result.every(line => line.type === 'equal')).toBe(true)
+  })
+
+  it('추가된 줄과 삭제된 줄을 구분해야 한다', () => {
+    const result = diffLines('a\nb\nc', 'a\nc\nd')
+
+    expect(result).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'equal', text: 'c' },
+      { type: 'added', text: 'd' }
+    ])
+  })
+
+  it('빈 텍스트에서 시작하면 모두 추가로 처리해야 한다', () => {
+    const result = diffLines('', '첫 줄\n둘째 줄')
+
+    expect(getDiffStats(result)).toEqual({ added: 2, removed: 0 })
+  })
+
+  it('CRLF 줄바꿈을 LF와 동일하게 취급해야 한다', () => {
+    const result = diffLines('a\r\nb', 'a\nb')
+
+    expect(getDiffStats(result)).toEqual({ added: 0, removed: 0 })
+  })
+})
+
+describe('toSideBySide', () => {
+  it('연속된 삭제/추가를 같은 행의 변경으로 짝지어야 한다', () => {
+    const rows = toSideBySide(diffLines('a\nold\nz', 'a\nnew\nz'))
+
+    expect(rows).toHaveLength(3)
+    expect(rows[1]).toEqual({
+      type: 'changed',
+      left: { lineNumber: 2, text: 'old' },
+      right: { lineNumber: 2, text: 'new' }
+    })
+  })
+
+  it('한쪽에만 있는 줄은 반대편을 비워두고 줄 번호를 유지해야 한다', () => {
+    const rows = toSideBySide(diffLines('a\nb', 'a\nb\nc'))
+
+    expect(rows[2].type).toBe('added')
+    expect(rows[2].left).toBeUndefined()
+    expect(rows[2].right).toEqual({ lineNumber: 3, text: 'c' })
+  })
+})
@@ -0,0 +1,33 @@
+// __tests__/lib/notes/embeddings.test.ts
+// 노트 임베딩 재계산 판단 테스트
+// 관련 노트 조회 시 저장된 임베딩을 그대로 쓸지, 백그라운드 작업으로 다시 계산하도록 예약할지 판단하는 로직을 테스트
+// 관련 파일: lib/notes/embeddings.ts, lib/ai/local-embedding.ts
+
+import { describe, it, expect, vi } from 'vitest'
+import { createHash } from 'crypto'
+import { buildEmbeddingInput, needsEmbeddingRefresh } from '@/lib/notes/embeddings'
+import { LOCAL_EMBEDDING_MODEL } from '@/lib/ai/local-embedding'
+
+vi.mock('@/lib/db/connection', () => ({ db: {} }))
+
+const note = { title: '회의록', content: '다음 주 배포 일정 논의' }
+const contentHash = createHash('sha256').update(buildEmbeddingInput(note.title, note.content)).digest('hex')
+const now = new Date('2025-01-01T12:00:00Z')
+
+describe('needsEmbeddingRefresh', () => {
+  it('임베딩이 없거나 입력이 바뀌었으면 다시 계산해야 한다', () => {
+    expect(needsEmbeddingRefresh(note, undefined, now)).toBe(true)
+    expect(needsEmbeddingRefresh(note, { model: 'gemini', contentHash: 'old', updatedAt: now }, now)).toBe(true)
+  })
+
+  it('입력이 같은 제공자 임베딩은 다시 계산하지 않아야 한다', () => {
+    expect(needsEmbeddingRefresh(note, { model: 'gemini', contentHash, updatedAt: new Date(0) }, now)).toBe(false)
+  })
+
+  it('로컬 대체 임베딩은 일정 시간이 지난 뒤에만 다시 계산해야 한다', () => {
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000)
+
+    expect(needsEmbeddingRefresh(note, { model: LOCAL_EMBEDDING_MODEL, contentHash, updatedAt: minutesAgo(5) }, now)).toBe(false)
+    expect(needsEmbeddingRefresh(note, { model: LOCAL_EMBEDDING_MODEL, contentHash, updatedAt: minutesAgo(90) }, now)).toBe(true)
+  })
+})
@@ -0,0 +1,31 @@
+// __tests__/lib/notes/favorite-params.test.ts
+// 즐겨찾기 필터 URL 파라미터 유틸리티 테스트
+// 즐겨찾기 파라미터 파싱과 필터 파라미터 생성 동작을 테스트
+// 관련 파일: lib/notes/favorite-params.ts, components/notes/favorites-filter.tsx
+
+import { describe, it, expect } from 'vitest'
+import { parseFavoritesParam, buildFavoritesFilterParams } from '@/lib/notes/favorite-params'
+
+describe('parseFavoritesParam', () => {
+  it('1일 때만 즐겨찾기 필터를 적용해야 한다', () => {
+    expect(parseFavoritesParam('1')).toBe(true)
+    expect(parseFavoritesParam('true')).toBe(false)
+    expect(parseFavoritesParam(undefined)).toBe(false)
+  })
+})
+
+describe('buildFavoritesFilterParams', () => {
+  it('다른 필터는 유지하고 첫 페이지로 이동해야 한다', () => {
+    const params = buildFavoritesFilterParams(new URLSearchParams('tags=react&page=3'), true)
+
+    expect(params.get('favorites')).toBe('1')
+    expect(params.get('tags')).toBe('react')
+    expect(params.get('page')).toBe('1')
+  })
+
+  it('필터를 해제하면 파라미터를 제거해야 한다', () => {
+    const params = buildFavoritesFilterParams(new URLSearchParams('favorites=1'), false)
+
+    expect(params.has('favorites')).toBe(false)
+  })
+})
@@ -0,0 +1,109 @@
+// __tests__/lib/notes/graph.test.ts
+// 노트 그래프 유틸리티 테스트
+// 링크와 공유 태그로 엣지를 만들고 합치는 로직, force-directed 배치의 기본 동작을 테스트
+// 관련 파일: lib/notes/graph.ts, lib/notes/graph-layout.ts
+
+import { describe, it, expect } from 'vitest'
+import { buildNoteGraph, getNeighborIds, MAX_TAG_GROUP_SIZE } from '@/lib/notes/graph'
+import { createLayoutNodes, INITIAL_ALPHA, stepLayout } from '@/lib/notes/graph-layout'
+
+const notes = [
+  { id: 'a', title: '노트 A' },
+  { id: 'b', title: '노트 B' },
+  { id: 'c', title: '노트 C' }
+]
+
+describe('buildNoteGraph', () => {
+  it('같은 두 노트 사이의 링크와 공유 태그를 하나의 엣지로 합쳐야 한다', () => {
+    const graph = buildNoteGraph(
+      notes,
+      [
+        { noteId: 'a', tag: 'react' },
+        { noteId: 'b', tag: 'react' },
+        { noteId: 'a', tag: 'next' },
+        { noteId: 'b', tag: 'next' }
+      ],
+      [
+        { sourceNoteId: 'b', targetNoteId: 'a' },
+        { sourceNoteId: 'a', targetNoteId: 'b' }
+      ]
+    )
+
+    expect(graph.edges).toEqual([
+      { source: 'a', target: 'b', linked: true, sharedTags: ['react', 'next'] }
+    ])
+    expect(graph.nodes.map(node => [node.id, node.degree])).toEqual([['a', 1], ['b', 1], ['c', 0]])
+    expect(graph.nodes[0].tags).toEqual(['next', 'react'])
+  })
+
+  it('목록에 없는 노트를 가리키는 링크와 태그, 자기 자신으로의 링크는 무시해야 한다', () => {
+    const graph = buildNoteGraph(
+      notes,
+      [
+        { noteId: 'a', tag: 'react' },
+        { noteId: 'z', tag: 'react' }
+      ],
+      [
+        { sourceNoteId: 'a', targetNoteId: 'z' },
+        { sourceNoteId: 'c', targetNoteId: 'c' }
+      ]
+    )
+
+    expect(graph.edges).toEqual([])
+    expect(graph.nodes.every(node => node.degree === 0)).toBe(true)
+  })
+
+  it('너무 많은 노트가 공유하는 태그로는 엣지를 만들지 않아야 한다', () => {
+    const manyNotes = Array.from({ length: MAX_TAG_GROUP_SIZE + 1 }, (_, i) => ({ id: `n${i}`, title: `노트 ${i}` }))
+    const graph = buildNoteGraph(
+      manyNotes,
+      manyNotes.map(note => ({ noteId: note.id, tag: 'inbox' })),
+      [{ sourceNoteId: 'n0', targetNoteId: 'n1' }]
+    )
+
+    expect(graph.edges).toEqual([{ source: 'n0', target: 'n1', linked: true, sharedTags: [] }])
+    expect(graph.nodes[2].tags).toEqual(['inbox'])
+  })
+})
+
+describe('getNeighborIds', () => {
+  it('자기 자신과 직접 연결된 노드만 반환해야 한다', () => {
+    const edges = [
+      { source: 'a', target: 'b', linked: true, sharedTags: [] },
+      { source: 'b', target: 'c', linked: false, sharedTags: ['react'] }
+    ]
+
+    expect(getNeighborIds(edges, 'a')).toEqual(new Set(['a', 'b']))
+    expect(getNeighborIds(edges, 'b')).toEqual(new Set(['a', 'b', 'c']))
+  })
+})
+
+describe('graph layout', () => {
+  it('같은 입력이면 같은 초기 배치를 만들어야 한다', () => {
+    expect(createLayoutNodes(['a', 'b', 'c'])).toEqual(createLayoutNodes(['a', 'b', 'c']))
+  })
+
+  it('겹친 노드를 밀어내고 단계마다 온도를 낮춰야 한다', () => {
+    const nodes = [
+      { id: 'a', x: 0, y: 0, vx: 0, vy: 0 },
+      { id: 'b', x: 0, y: 0, vx: 0, vy: 0 }
+    ]
+
+    const alpha = stepLayout(nodes, [], INITIAL_ALPHA)
+
+    expect(alpha).toBeLessThan(INITIAL_ALPHA)
+    expect(Math.hypot(nodes[1].x - nodes[0].x, nodes[1].y - nodes[0].y)).toBeGreaterThan(0)
+  })
+
+  it('고정된 노드는 움직이지 않아야 한다', () => {
+    const nodes = [
+      { id: 'a', x: 0, y: 0, vx: 0, vy: 0, fixed: true },
+      { id: 'b', x: 10, y: 0, vx: 0, vy: 0 }
+    ]
+
+    stepLayout(nodes, [{ source: 'a', target: 'b' }], INITIAL_ALPHA)
+
+    expect(nodes[0]).toMatchObject({ x: 0, y: 0 })
+    expect(nodes[1].x).not.toBe(10)
+  })
+})
@@ -0,0 +1,47 @@
+// __tests__/lib/notes/revisions.test.ts
+// 노트 버전 병합 규칙 테스트
+// 자동 저장 시 최신 버전을 덮어쓸지, 이전 상태를 보존하기 위해 새 버전을 만들지 판단하는 로직을 테스트
+// 관련 파일: lib/notes/revisions.ts
+
+import { describe, it, expect, vi } from 'vitest'
+import { REVISION_COALESCE_WINDOW_MS, REVISION_IDLE_GAP_MS, shouldCoalesceRevision } from '@/lib/notes/revisions'
+
+vi.mock('@/lib/db/connection', () => ({ db: {} }))
+
+const createdAt = new Date('2025-01-01T00:00:00Z')
+const at = (ms: number) => new Date(createdAt.getTime() + ms)
+const revision = (overrides: Partial<Parameters<typeof shouldCoalesceRevision>[0]> = {}) => ({
+  content: '회의 내용 정리',
+  restoredFromId: null,
+  createdAt,
+  updatedAt: createdAt,
+  ...overrides
+})
+
+describe('shouldCoalesceRevision', () => {
+  it('편집이 이어지는 동안에는 최신 버전에 병합해야 한다', () => {
+    expect(shouldCoalesceRevision(revision({ updatedAt: at(60_000) }), { content: '회의 내용 정리 추가' }, at(90_000))).toBe(true)
+  })
+
+  it('계속 편집하더라도 버전 생성 후 병합 시간이 지나면 새 버전을 만들어야 한다', () => {
+    const latest = revision({ updatedAt: at(REVISION_COALESCE_WINDOW_MS - 3000) })
+
+    expect(shouldCoalesceRevision(latest, { content: '계속 편집' }, at(REVISION_COALESCE_WINDOW_MS))).toBe(false)
+  })
+
+  it('마지막 병합 후 편집이 한동안 없었으면 새 버전을 만들어야 한다', () => {
+    expect(shouldCoalesceRevision(revision(), { content: '다시 편집' }, at(REVISION_IDLE_GAP_MS))).toBe(false)
+  })
+
+  it('긴 본문 대부분을 지우는 변경은 지우기 전 상태를 남기도록 새 버전을 만들어야 한다', () => {
+    const latest = revision({ content: '가'.repeat(400) })
+
+    expect(shouldCoalesceRevision(latest, { content: '' }, at(3000))).toBe(false)
+    expect(shouldCoalesceRevision(latest, { content: '가'.repeat(300) }, at(3000))).toBe(true)
+  })
+
+  it('복원 버전과 관련된 기록은 병합하지 않아야 한다', () => {
+    expect(shouldCoalesceRevision(revision({ restoredFromId: 'rev-1' }), { content: '편집' }, at(3000))).toBe(false)
+    expect(shouldCoalesceRevision(revision(), { content: '편집', restored: true }, at(3000))).toBe(false)
+  })
+})
@@ -45,7 +45,8 @@ vi.mock('drizzle-orm', () => ({
   sql: vi.fn(() => 'count(*)'),
   ilike: vi.fn(),
   and: vi.fn(),
-  or: vi.fn()
+  or: vi.fn(),
+  isNull: vi.fn()
 }))
 
 describe('getNotesWithSearchAndSort', () => {
@@ -0,0 +1,73 @@
+// __tests__/lib/notes/search.test.ts
+// 노트 전문 검색 유틸리티 테스트
+// 검색어 분리, 질문 키워드 추출, LIKE 패턴 이스케이프, 하이라이트 스니펫 생성을 테스트
+// 관련 파일: lib/notes/search.ts, components/notes/note-card.tsx
+
+import { describe, it, expect } from 'vitest'
+import { extractSearchTerms, extractQueryKeywords, buildHighlightSnippet, escapeLikePattern } from '@/lib/notes/search'
+
+describe('extractSearchTerms', () => {
+  it('따옴표와 검색 연산자를 제거하고 소문자로 정규화해야 한다', () => {
+    expect(extractSearchTerms('"Next.js" -draft OR 회의')).toEqual(['next.js', 'draft', '회의'])
+  })
+
+  it('중복 단어를 제거하고 긴 단어부터 정렬해야 한다', () => {
+    expect(extractSearchTerms('ai AI 노트정리')).toEqual(['노트정리', 'ai'])
+  })
+})
+
+describe('extractQueryKeywords', () => {
+  it('조사와 질문 표현을 제거한 키워드를 추출해야 한다', () => {
+    expect(extractQueryKeywords('지난주 회의에서 정한 출시 일정이 뭐였지?'))
+      .toEqual(['지난주', '회의', '정한', '출시', '일정'])
+  })
+
+  it('중복을 제거하고 개수를 제한해야 한다', () => {
+    expect(extractQueryKeywords('Next Next React Vue Svelte', 2)).toEqual(['next', 'react'])
+  })
+
+  it('키워드가 없으면 빈 배열을 반환해야 한다', () => {
+    expect(extractQueryKeywords('?? !!')).toEqual([])
+  })
+})
+
+describe('escapeLikePattern', () => {
+  it('와일드카드와 이스케이프 문자를 글자 그대로 일치하도록 변환해야 한다', () => {
+    expect(escapeLikePattern('100%')).toBe('100\\%')
+    expect(escapeLikePattern('snake_case')).toBe('snake\\_case')
+    expect(escapeLikePattern('C:\\notes')).toBe('C:\\\\notes')
+    expect(escapeLikePattern('회의록')).toBe('회의록')
+  })
+})
+
+describe('buildHighlightSnippet', () => {
+  it('일치하는 구간을 하이라이트로 표시해야 한다', () => {
+    const segments = buildHighlightSnippet('오늘 회의에서 일정을 정했다', '회의')
+
+    expect(segments).toEqual([
+      { text: '오늘 ', highlighted: false },
+      { text: '회의', highlighted: true },
+      { text: '에서 일정을 정했다', highlighted: false }
+    ])
+  })
+
+  it('대소문자를 구분하지 않고 원문 표기를 유지해야 한다', () => {
+    const segments = buildHighlightSnippet('Learning React hooks', 'react')
+
+    expect(segments?.find(segment => segment.highlighted)?.text).toBe('React')
+  })
+
+  it('긴 본문은 일치 위치 주변만 잘라 말줄임표를 붙여야 한다', () => {
+    const content = `${'가'.repeat(300)} 키워드 ${'나'.repeat(300)}`
+    const segments = buildHighlightSnippet(content, '키워드', 100)!
+
+    expect(segments[0]).toEqual({ text: '…', highlighted: false })
+    expect(segments[segments.length - 1]).toEqual({ text: '…', highlighted: false })
+    expect(segments.some(segment => segment.highlighted && segment.text === '키워드')).toBe(true)
+  })
+
+  it('일치하는 구간이 없으면 null을 반환해야 한다', () => {
+    expect(buildHighlightSnippet('내용', '없는단어')).toBeNull()
+    expect(buildHighlightSnippet(null, '검색')).toBeNull()
+  })
+})
@@ -0,0 +1,78 @@
+// __tests__/lib/notes/tag-params.test.ts
+// 태그 필터 URL 파라미터 유틸리티 테스트
+// 태그 파싱, 모드 검증, 필터 파라미터 생성과 토글 동작을 테스트
+// 관련 파일: lib/notes/tag-params.ts, components/notes/tag-facets.tsx
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseTagsParam,
+  parseTagModeParam,
+  buildTagFilterParams,
+  toggleTag,
+  buildTagFilterHref,
+  MAX_FILTER_TAGS
+} from '@/lib/notes/tag-params'
+
+describe('parseTagsParam', () => {
+  it('쉼표로 구분된 태그를 공백 제거 후 중복 없이 반환해야 한다', () => {
+    expect(parseTagsParam(' react, ai ,react,,')).toEqual(['react', 'ai'])
+  })
+
+  it('파라미터가 없으면 빈 배열을 반환해야 한다', () => {
+    expect(parseTagsParam(undefined)).toEqual([])
+    expect(parseTagsParam('')).toEqual([])
+  })
+
+  it('최대 태그 수를 넘지 않아야 한다', () => {
+    const param = Array.from({ length: 15 }, (_, i) => `tag${i}`).join(',')
+    expect(parseTagsParam(param)).toHaveLength(MAX_FILTER_TAGS)
+  })
+})
+
+describe('parseTagModeParam', () => {
+  it('all 이외의 값은 any로 처리해야 한다', () => {
+    expect(parseTagModeParam('all')).toBe('all')
+    expect(parseTagModeParam('ALL')).toBe('any')
+    expect(parseTagModeParam(null)).toBe('any')
+  })
+})
+
+describe('buildTagFilterParams', () => {
+  it('기존 검색 조건을 유지하고 첫 페이지로 이동해야 한다', () => {
+    const current = new URLSearchParams('search=회의&page=3')
+    const params = buildTagFilterParams(current, ['react', 'ai'], 'all')
+
+    expect(params.get('search')).toBe('회의')
+    expect(params.get('tags')).toBe('react,ai')
+    expect(params.get('tagMode')).toBe('all')
+    expect(params.get('page')).toBe('1')
+  })
+
+  it('태그가 없으면 태그 관련 파라미터를 제거해야 한다', () => {
+    const current = new URLSearchParams('tags=react&tagMode=all')
+    const params = buildTagFilterParams(current, [])
+
+    expect(params.has('tags')).toBe(false)
+    expect(params.has('tagMode')).toBe(false)
+  })
+
+  it('모드를 생략하면 기존 모드를 유지해야 한다', () => {
+    const current = new URLSearchParams('tags=react&tagMode=all')
+    const params = buildTagFilterParams(current, ['react', 'ai'])
+
+    expect(params.get('tagMode')).toBe('all')
+  })
+})
+
+describe('toggleTag', () => {
+  it('없는 태그는 추가하고 있는 태그는 제거해야 한다', () => {
+    expect(toggleTag(['react'], 'ai')).toEqual(['react', 'ai'])
+    expect(toggleTag(['react', 'ai'], 'react')).toEqual(['ai'])
+  })
+})
+
+describe('buildTagFilterHref', () => {
+  it('태그를 인코딩한 목록 링크를 만들어야 한다', () => {
+    expect(buildTagFilterHref('c++ 공부')).toBe('/notes?tags=c%2B%2B+%EA%B3%B5%EB%B6%80')
+  })
+})
@@ -0,0 +1,86 @@
+// __tests__/lib/notes/wiki-links.test.ts
+// 위키 링크 유틸리티 테스트
+// [[노트 제목]] 추출, 제목 변경 시 링크 갱신, 미리보기 링크 변환, 백링크 문맥, 자동완성 입력 감지와 삽입을 테스트
+// 관련 파일: lib/notes/wiki-links.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  extractWikiLinkTitles,
+  getWikiLinkContext,
+  getWikiLinkTrigger,
+  insertWikiLink,
+  renameWikiLinks,
+  renderWikiLinks
+} from '@/lib/notes/wiki-links'
+
+describe('extractWikiLinkTitles', () => {
+  it('본문의 링크 제목을 공백 제거 후 대소문자 구분 없이 중복 제거해야 한다', () => {
+    const content = '회의 전에 [[ React 정리 ]]와 [[react 정리]], [[프로젝트 계획]]을 확인'
+
+    expect(extractWikiLinkTitles(content)).toEqual(['React 정리', '프로젝트 계획'])
+  })
+
+  it('빈 링크와 줄바꿈이 있는 링크는 무시해야 한다', () => {
+    expect(extractWikiLinkTitles('[[ ]] [[제목\n이어짐]]')).toEqual([])
+    expect(extractWikiLinkTitles(null)).toEqual([])
+  })
+})
+
+describe('renameWikiLinks', () => {
+  it('이전 제목 링크만 새 제목으로 바꿔야 한다', () => {
+    const content = '[[회의록]] 참고, [[ 회의록 ]] 다시, [[회의록 2]]는 그대로'
+
+    expect(renameWikiLinks(content, '회의록', '주간 회의록')).toBe(
+      '[[주간 회의록]] 참고, [[주간 회의록]] 다시, [[회의록 2]]는 그대로'
+    )
+  })
+
+  it('새 제목이 링크로 쓸 수 없는 형식이면 본문을 바꾸지 않아야 한다', () => {
+    expect(renameWikiLinks('[[회의록]]', '회의록', '[초안]')).toBe('[[회의록]]')
+  })
+})
+
+describe('renderWikiLinks', () => {
+  it('대상 노트가 있는 링크만 노트 페이지 링크로 변환해야 한다', () => {
+    const result = renderWikiLinks('[[React 정리]]와 [[없는 노트]]', { 'react 정리': 'note-1' })
+
+    expect(result).toBe('[React 정리](/notes/note-1)와 [[없는 노트]]')
+  })
+})
+
+describe('getWikiLinkContext', () => {
+  it('링크가 있는 줄을 반환해야 한다', () => {
+    const content = '# 제목\n\n자세한 내용은 [[React 정리]] 참고\n끝'
+
+    expect(getWikiLinkContext(content, 'react 정리')).toBe('자세한 내용은 [[React 정리]] 참고')
+    expect(getWikiLinkContext(content, '다른 노트')).toBeNull()
+  })
+})
+
+describe('getWikiLinkTrigger', () => {
+  it('커서 앞의 닫히지 않은 [[ 입력을 감지해야 한다', () => {
+    const text = '참고: [[Rea'
+
+    expect(getWikiLinkTrigger(text, text.length)).toEqual({ query: 'Rea', start: 4, end: text.length })
+  })
+
+  it('이미 닫힌 링크나 다른 줄의 [[ 는 무시해야 한다', () => {
+    expect(getWikiLinkTrigger('[[React]] 다음', 12)).toBeNull()
+    expect(getWikiLinkTrigger('[[React\n다음', 10)).toBeNull()
+  })
+})
+
+describe('insertWikiLink', () => {
+  it('입력 중인 검색어를 링크로 바꾸고 커서를 링크 뒤로 옮겨야 한다', () => {
+    const text = '참고: [[Rea 끝'
+    const trigger = { query: 'Rea', start: 4, end: 9 }
+
+    expect(insertWikiLink(text, trigger, 'React 정리')).toEqual({ value: '참고: [[React 정리]] 끝', cursor: 16 })
+  })
+
+  it('커서 뒤에 닫는 괄호가 있으면 중복해서 넣지 않아야 한다', () => {
+    const text = '[[Re]]'
+
+    expect(insertWikiLink(text, { query: 'Re', start: 0, end: 4 }, 'React').value).toBe('[[React]]')
+  })
+})
@@ -0,0 +1,55 @@
+// __tests__/lib/templates/placeholders.test.ts
+// 노트 템플릿 변수 치환 테스트
+// {{date}}, {{time}}, {{title}} 치환, 모르는 변수 유지, 템플릿 적용 시 제목/본문 변환과 이름 검증을 테스트
+// 관련 파일: lib/templates/placeholders.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  applyTemplate,
+  expandTemplatePlaceholders,
+  getTemplateDateValues,
+  hasTemplatePlaceholder,
+  MAX_TEMPLATE_NAME_LENGTH,
+  normalizeTemplateName
+} from '@/lib/templates/placeholders'
+
+const now = new Date(2025, 0, 5, 9, 7)
+
+describe('expandTemplatePlaceholders', () => {
+  it('값이 있는 변수를 공백과 대소문자에 상관없이 치환해야 한다', () => {
+    expect(expandTemplatePlaceholders('{{date}} / {{ Title }}', { date: '2025-01-05', title: '주간 회의' }))
+      .toBe('2025-01-05 / 주간 회의')
+  })
+
+  it('모르는 변수와 값이 없는 변수는 그대로 두어야 한다', () => {
+    expect(expandTemplatePlaceholders('{{title}} {{author}} {date}', { date: '2025-01-05' }))
+      .toBe('{{title}} {{author}} {date}')
+  })
+})
+
+describe('getTemplateDateValues', () => {
+  it('현지 시간 기준으로 날짜와 시각을 두 자리로 맞춰야 한다', () => {
+    expect(getTemplateDateValues(now)).toEqual({ date: '2025-01-05', time: '09:07' })
+  })
+})
+
+describe('applyTemplate', () => {
+  it('제목과 본문의 날짜를 치환하고 본문의 {{title}}은 저장할 때까지 남겨야 한다', () => {
+    const result = applyTemplate(
+      { title: '{{date}} 회의록 {{title}}', content: '# {{title}}\n\n일시: {{date}} {{time}}' },
+      now
+    )
+
+    expect(result).toEqual({ title: '2025-01-05 회의록', content: '# {{title}}\n\n일시: 2025-01-05 09:07' })
+    expect(hasTemplatePlaceholder(result.content, 'title')).toBe(true)
+    expect(hasTemplatePlaceholder(result.content, 'date')).toBe(false)
+  })
+})
+
+describe('normalizeTemplateName', () => {
+  it('앞뒤 공백을 제거하고 비어 있거나 너무 긴 이름은 거부해야 한다', () => {
+    expect(normalizeTemplateName('  회의록 ')).toBe('회의록')
+    expect(normalizeTemplateName('   ')).toBeNull()
+    expect(normalizeTemplateName('a'.repeat(MAX_TEMPLATE_NAME_LENGTH + 1))).toBeNull()
+  })
+})
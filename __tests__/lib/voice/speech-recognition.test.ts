@@ -0,0 +1,76 @@
+// __tests__/lib/voice/speech-recognition.test.ts
+// 음성 인식 유틸리티 테스트
+// 인식 결과의 확정/임시 텍스트 분리, 커서 위치 삽입과 공백 보정, 오류 메시지 변환을 테스트
+// 관련 파일: lib/voice/speech-recognition.ts
+
+import { describe, it, expect } from 'vitest'
+import {
+  collectTranscripts,
+  insertTranscript,
+  getSpeechErrorMessage,
+  getMicrophoneErrorMessage,
+  getSpeechRecognition
+} from '@/lib/voice/speech-recognition'
+
+function createResult(transcript: string, isFinal: boolean) {
+  return Object.assign([{ transcript }], { isFinal })
+}
+
+describe('collectTranscripts', () => {
+  it('resultIndex 이후 결과를 확정/임시 텍스트로 나눠야 한다', () => {
+    const result = collectTranscripts({
+      resultIndex: 1,
+      results: [
+        createResult('이미 처리된 문장', true),
+        createResult('오늘 회의는', true),
+        createResult(' 세 시에', false)
+      ]
+    })
+
+    expect(result).toEqual({ finalText: '오늘 회의는', interimText: '세 시에' })
+  })
+})
+
+describe('insertTranscript', () => {
+  it('커서 위치가 없으면 본문 끝에 공백을 두고 추가해야 한다', () => {
+    expect(insertTranscript('첫 문장', '둘째 문장')).toEqual({ value: '첫 문장 둘째 문장', cursor: 10 })
+    expect(insertTranscript('', '처음')).toEqual({ value: '처음', cursor: 2 })
+  })
+
+  it('커서 위치에 삽입하고 앞뒤 단어와 붙지 않도록 공백을 보정해야 한다', () => {
+    const result = insertTranscript('앞뒤', '가운데', { start: 1, end: 1 })
+
+    expect(result.value).toBe('앞 가운데 뒤')
+    expect(result.cursor).toBe(5)
+  })
+
+  it('선택 영역은 인식된 텍스트로 바꿔야 한다', () => {
+    expect(insertTranscript('오늘 날씨 좋다', '기분이', { start: 3, end: 5 }).value).toBe('오늘 기분이 좋다')
+  })
+
+  it('연속으로 삽입해도 공백이 중복되지 않아야 한다', () => {
+    const first = insertTranscript('끝.', '하나', { start: 0, end: 0 })
+    const second = insertTranscript(first.value, '둘', { start: first.cursor, end: first.cursor })
+
+    expect(second.value).toBe('하나 둘 끝.')
+  })
+
+  it('빈 인식 결과는 본문을 바꾸지 않아야 한다', () => {
+    expect(insertTranscript('본문', '  ', { start: 1, end: 1 })).toEqual({ value: '본문', cursor: 1 })
+  })
+})
+
+describe('오류 메시지', () => {
+  it('권한 거부와 마이크 없음 오류를 안내해야 한다', () => {
+    expect(getSpeechErrorMessage('not-allowed')).toContain('마이크 권한')
+    expect(getMicrophoneErrorMessage('NotAllowedError')).toContain('마이크 권한')
+    expect(getMicrophoneErrorMessage('NotFoundError')).toContain('마이크를 찾을 수 없습니다')
+    expect(getSpeechErrorMessage('unknown')).toContain('다시 시도')
+  })
+})
+
+describe('getSpeechRecognition', () => {
+  it('브라우저 API가 없으면 null을 반환해야 한다', () => {
+    expect(getSpeechRecognition()).toBeNull()
+  })
+})
@@ -1,33 +1,80 @@
 // app/ai-chat/page.tsx
 // AI 대화 페이지
-// 사용자가 텍스트를 입력하면 AI가 응답하는 채팅 형태의 인터페이스
-// 관련 파일: lib/ai/gemini-client.ts, components/ai/chat-message.tsx
+// 사용자가 텍스트를 입력하면 AI 응답이 스트리밍으로 점진적으로 표시되는 채팅 형태의 인터페이스 (내 노트를 참고하여 답변하고 출처를 링크로 표시)
+// 대화는 저장되어 사이드바에서 이어가거나 이름 변경/삭제할 수 있음
+// 관련 파일: app/api/ai-chat/stream/route.ts, hooks/use-ai-stream.ts, lib/ai/chat-actions.ts, components/ai/chat-conversation-sidebar.tsx
 
 'use client'
 
-import { useState, useRef, useEffect } from 'react'
-import { createClient } from '@/lib/supabase/client'
+import { useState, useRef, useEffect, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { ArrowLeft, Send, Bot, User, Loader2 } from 'lucide-react'
+import { ArrowLeft, Send, Bot, User, Loader2, Square, BookOpen } from 'lucide-react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import { useAIStream } from '@/hooks/use-ai-stream'
+import { ChatMessageContent, ChatSourceList } from '@/components/ai/chat-message-content'
+import { ChatConversationSidebar } from '@/components/ai/chat-conversation-sidebar'
+import {
+  listChatConversations,
+  getChatMessages,
+  renameChatConversation,
+  deleteChatConversation,
+  ChatConversationSummary
+} from '@/lib/ai/chat-actions'
+import type { ChatSource } from '@/lib/ai/chat'
+import { getChatErrorMessage, MAX_CHAT_MESSAGE_LENGTH } from '@/lib/ai/chat-request'
+import { formatRetryAfter } from '@/lib/ai/rate-limit'
+import { useCountdown } from '@/hooks/use-countdown'
+import { buildSignInPath } from '@/lib/auth/route-protection'
 
 interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  status?: 'streaming' | 'cancelled' | 'error'
+  sources?: ChatSource[]
 }
 
 export default function AIChatPage() {
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [input, setInput] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
+  const [useNotes, setUseNotes] = useState(true)
+  const [conversations, setConversations] = useState<ChatConversationSummary[]>([])
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  const [isLoadingConversations, setIsLoadingConversations] = useState(true)
+  const [conversationError, setConversationError] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const streamingMessageIdRef = useRef<string | null>(null)
   const router = useRouter()
 
+  // 스트리밍 중인 AI 메시지 내용 갱신
+  const updateStreamingMessage = useCallback((patch: Partial<ChatMessage>) => {
+    const messageId = streamingMessageIdRef.current
+    if (!messageId) return
+    setMessages(prev => prev.map(message => (
+      message.id === messageId ? { ...message, ...patch } : message
+    )))
+  }, [])
+
+  // 사용 한도 초과 시 다시 보낼 수 있을 때까지 전송 비활성화
+  const { remainingMs: retryAfterMs, isCountingDown: isRateLimited, start: startRetryCountdown } = useCountdown()
+
+  const { isStreaming: isLoading, start: startStream, cancel: cancelStream } = useAIStream({
+    onConversation: (conversation) => {
+      setActiveConversationId(conversation.id)
+      // 새로 생성되었거나 갱신된 대화를 목록 맨 위로 이동
+      setConversations(prev => [
+        { ...conversation, updatedAt: new Date() },
+        ...prev.filter(item => item.id !== conversation.id)
+      ])
+    },
+    onSources: (sources) => updateStreamingMessage({ sources }),
+    onChunk: (_chunk, text) => updateStreamingMessage({ content: text })
+  })
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
@@ -36,8 +83,70 @@ export default function AIChatPage() {
     scrollToBottom()
   }, [messages])
 
+  // 저장된 대화 목록 불러오기
+  useEffect(() => {
+    const loadConversations = async () => {
+      const result = await listChatConversations()
+      if (result.success) {
+        setConversations(result.data ?? [])
+      } else {
+        setConversationError(result.error || '대화 목록을 불러올 수 없습니다.')
+      }
+      setIsLoadingConversations(false)
+    }
+    loadConversations()
+  }, [])
+
+  const handleSelectConversation = async (conversationId: string) => {
+    if (isLoading || conversationId === activeConversationId) return
+
+    setConversationError(null)
+    const result = await getChatMessages(conversationId)
+    if (!result.success) {
+      setConversationError(result.error || '대화 내용을 불러올 수 없습니다.')
+      return
+    }
+
+    setActiveConversationId(conversationId)
+    setMessages((result.data ?? []).map(message => ({
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      timestamp: message.createdAt ? new Date(message.createdAt) : new Date(),
+      sources: message.sources ?? undefined
+    })))
+  }
+
+  const handleRenameConversation = async (conversationId: string, title: string) => {
+    const result = await renameChatConversation(conversationId, title)
+    if (!result.success || !result.data) {
+      setConversationError(result.error || '대화 이름을 변경할 수 없습니다.')
+      return false
+    }
+
+    const renamed = result.data
+    setConversations(prev => prev.map(item => (item.id === conversationId ? renamed : item)))
+    setConversationError(null)
+    return true
+  }
+
+  const handleDeleteConversation = async (conversationId: string) => {
+    const result = await deleteChatConversation(conversationId)
+    if (!result.success) {
+      setConversationError(result.error || '대화를 삭제할 수 없습니다.')
+      return false
+    }
+
+    setConversations(prev => prev.filter(item => item.id !== conversationId))
+    if (conversationId === activeConversationId) {
+      startNewConversation()
+    }
+    setConversationError(null)
+    return true
+  }
+
   const handleSendMessage = async () => {
-    if (!input.trim() || isLoading) return
+    if (!input.trim() || isLoading || isRateLimited) return
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
@@ -48,59 +157,45 @@ export default function AIChatPage() {
 
     setMessages(prev => [...prev, userMessage])
     setInput('')
-    setIsLoading(true)
-
-    try {
-      const supabase = createClient()
-      const { data: { user } } = await supabase.auth.getUser()
-      
-      if (!user) {
-        router.push('/signin')
-        return
-      }
 
-      // AI 응답 요청
-      const response = await fetch('/api/ai-chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: userMessage.content,
-          userId: user.id
-        })
+    // 응답이 도착하는 대로 채워질 AI 메시지
+    const aiMessageId = (Date.now() + 1).toString()
+    streamingMessageIdRef.current = aiMessageId
+    setMessages(prev => [...prev, {
+      id: aiMessageId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      status: 'streaming'
+    }])
+
+    const result = await startStream('/api/ai-chat/stream', {
+      message: userMessage.content,
+      conversationId: activeConversationId ?? undefined,
+      useNotes
+    })
+
+    if (result.status === 'done') {
+      updateStreamingMessage({ content: result.text, status: undefined })
+    } else if (result.status === 'cancelled') {
+      updateStreamingMessage({ content: result.text, status: 'cancelled' })
+    } else {
+      console.error('AI 대화 오류:', result.code, result.error)
+      updateStreamingMessage({
+        content: result.text || `죄송합니다. ${getChatErrorMessage(result.code, result.error)}`,
+        status: 'error'
       })
 
-      if (response.ok) {
-        const data = await response.json()
-        const aiMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          content: data.response,
-          timestamp: new Date()
-        }
-        setMessages(prev => [...prev, aiMessage])
-      } else {
-        const aiMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          content: '죄송합니다. 응답을 생성하는 중에 오류가 발생했습니다.',
-          timestamp: new Date()
-        }
-        setMessages(prev => [...prev, aiMessage])
+      // 세션이 만료된 경우 로그인 후 대화 페이지로 돌아오도록 함
+      if (result.code === 'UNAUTHORIZED') {
+        router.push(buildSignInPath('/ai-chat'))
       }
-    } catch (error) {
-      console.error('AI 대화 오류:', error)
-      const aiMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: '죄송합니다. 네트워크 오류가 발생했습니다.',
-        timestamp: new Date()
+
+      if (result.retryAfter) {
+        startRetryCountdown(result.retryAfter * 1000)
       }
-      setMessages(prev => [...prev, aiMessage])
-    } finally {
-      setIsLoading(false)
     }
+    streamingMessageIdRef.current = null
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -110,13 +205,15 @@ export default function AIChatPage() {
     }
   }
 
-  const clearChat = () => {
+  const startNewConversation = () => {
+    cancelStream()
+    setActiveConversationId(null)
     setMessages([])
   }
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* 헤더 */}
         <div className="mb-8">
           <div className="flex items-center justify-between mb-4">
@@ -126,117 +223,168 @@ export default function AIChatPage() {
                 대시보드로 돌아가기
               </Button>
             </Link>
-            {messages.length > 0 && (
-              <Button variant="outline" size="sm" onClick={clearChat}>
-                대화 초기화
-              </Button>
-            )}
           </div>
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
             AI 대화
           </h1>
           <p className="text-gray-600">
-            AI와 자유롭게 대화해보세요. 질문, 요청, 또는 일반적인 대화를 나눌 수 있습니다.
+            AI와 자유롭게 대화해보세요. 내 노트에 기록한 내용을 물어보면 관련 노트를 찾아 출처와 함께 답변합니다.
           </p>
         </div>
 
-        {/* 채팅 영역 */}
-        <Card className="h-[600px] flex flex-col">
-          <CardHeader className="pb-4">
-            <CardTitle className="flex items-center gap-2">
-              <Bot className="w-5 h-5" />
-              AI 어시스턴트
-            </CardTitle>
-            <CardDescription>
-              무엇이든 물어보세요. 도움이 되는 답변을 드리겠습니다.
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="flex-1 flex flex-col p-0">
-            {/* 메시지 목록 */}
-            <div className="flex-1 overflow-y-auto p-6 space-y-4">
-              {messages.length === 0 ? (
-                <div className="text-center py-12">
-                  <Bot className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">
-                    안녕하세요! AI 어시스턴트입니다
-                  </h3>
-                  <p className="text-gray-500">
-                    아래 입력창에 메시지를 입력하여 대화를 시작해보세요.
-                  </p>
-                </div>
-              ) : (
-                messages.map((message) => (
-                  <div
-                    key={message.id}
-                    className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                  >
+        {conversationError && (
+          <p className="mb-4 text-sm text-red-600" role="alert">{conversationError}</p>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-6">
+          {/* 대화 목록 */}
+          <Card className="md:w-64 md:h-[600px] p-4 flex-shrink-0">
+            <ChatConversationSidebar
+              conversations={conversations}
+              activeConversationId={activeConversationId}
+              isLoading={isLoadingConversations}
+              disabled={isLoading}
+              onSelect={handleSelectConversation}
+              onNew={startNewConversation}
+              onRename={handleRenameConversation}
+              onDelete={handleDeleteConversation}
+            />
+          </Card>
+
+          {/* 채팅 영역 */}
+          <Card className="h-[600px] flex-1 min-w-0 flex flex-col">
+            <CardHeader className="pb-4">
+              <CardTitle className="flex items-center gap-2">
+                <Bot className="w-5 h-5" />
+                AI 어시스턴트
+              </CardTitle>
+              <CardDescription>
+                무엇이든 물어보세요. 도움이 되는 답변을 드리겠습니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex-1 flex flex-col p-0">
+              {/* 메시지 목록 */}
+              <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                {messages.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Bot className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">
+                      안녕하세요! AI 어시스턴트입니다
+                    </h3>
+                    <p className="text-gray-500">
+                      아래 입력창에 메시지를 입력하여 대화를 시작해보세요.
+                    </p>
+                  </div>
+                ) : (
+                  messages.map((message) => (
                     <div
-                      className={`max-w-[80%] rounded-lg p-4 ${
-                        message.role === 'user'
-                          ? 'bg-blue-600 text-white'
-                          : 'bg-gray-100 text-gray-900'
-                      }`}
+                      key={message.id}
+                      className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
                     >
-                      <div className="flex items-start gap-3">
-                        <div className="flex-shrink-0">
-                          {message.role === 'user' ? (
-                            <User className="w-5 h-5" />
-                          ) : (
-                            <Bot className="w-5 h-5" />
-                          )}
-                        </div>
-                        <div className="flex-1">
-                          <p className="whitespace-pre-wrap">{message.content}</p>
-                          <p className="text-xs opacity-70 mt-2">
-                            {message.timestamp.toLocaleTimeString('ko-KR', {
-                              hour: '2-digit',
-                              minute: '2-digit'
-                            })}
-                          </p>
+                      <div
+                        className={`max-w-[80%] rounded-lg p-4 ${
+                          message.role === 'user'
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 text-gray-900'
+                        }`}
+                      >
+                        <div className="flex items-start gap-3">
+                          <div className="flex-shrink-0">
+                            {message.role === 'user' ? (
+                              <User className="w-5 h-5" />
+                            ) : (
+                              <Bot className="w-5 h-5" />
+                            )}
+                          </div>
+                          <div className="flex-1">
+                            {message.status === 'streaming' && !message.content ? (
+                              <div className="flex items-center gap-2">
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                <span className="text-gray-600">AI가 응답을 생성하고 있습니다...</span>
+                              </div>
+                            ) : (
+                              <p className="whitespace-pre-wrap">
+                                <ChatMessageContent content={message.content} />
+                                {message.status === 'streaming' && (
+                                  <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                                )}
+                              </p>
+                            )}
+                            {message.sources && message.status !== 'error' && (
+                              <ChatSourceList sources={message.sources} />
+                            )}
+                            <p className="text-xs opacity-70 mt-2">
+                              {message.timestamp.toLocaleTimeString('ko-KR', {
+                                hour: '2-digit',
+                                minute: '2-digit'
+                              })}
+                              {message.status === 'cancelled' && ' · 응답이 중단되었습니다'}
+                            </p>
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                ))
-              )}
-              {isLoading && (
-                <div className="flex justify-start">
-                  <div className="bg-gray-100 rounded-lg p-4 max-w-[80%]">
-                    <div className="flex items-center gap-3">
-                      <Bot className="w-5 h-5" />
-                      <div className="flex items-center gap-2">
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        <span className="text-gray-600">AI가 응답을 생성하고 있습니다...</span>
-                      </div>
-                    </div>
-                  </div>
+                  ))
+                )}
+                <div ref={messagesEndRef} />
+              </div>
+
+              {/* 입력 영역 */}
+              <div className="border-t p-4 space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-600 w-fit cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={useNotes}
+                    onChange={(e) => setUseNotes(e.target.checked)}
+                    disabled={isLoading}
+                    className="rounded border-gray-300"
+                  />
+                  <BookOpen className="w-4 h-4" />
+                  내 노트 참고하여 답변
+                </label>
+                <div className="flex gap-4">
+                  <Input
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    placeholder="메시지를 입력하세요..."
+                    className="flex-1"
+                    maxLength={MAX_CHAT_MESSAGE_LENGTH}
+                    disabled={isLoading}
+                  />
+                  {isLoading ? (
+                    <Button
+                      onClick={cancelStream}
+                      variant="outline"
+                      className="px-6"
+                    >
+                      <Square className="w-4 h-4" />
+                      <span className="sr-only">응답 중지</span>
+                    </Button>
+                  ) : (
+                    <Button 
+                      onClick={handleSendMessage} 
+                      disabled={!input.trim() || isRateLimited}
+                      className="px-6"
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  )}
                 </div>
-              )}
-              <div ref={messagesEndRef} />
-            </div>
-
-            {/* 입력 영역 */}
-            <div className="border-t p-4">
-              <div className="flex gap-4">
-                <Input
-                  value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  placeholder="메시지를 입력하세요..."
-                  className="flex-1"
-                  disabled={isLoading}
-                />
-                <Button 
-                  onClick={handleSendMessage} 
-                  disabled={!input.trim() || isLoading}
-                  className="px-6"
-                >
-                  <Send className="w-4 h-4" />
-                </Button>
+                {isRateLimited && (
+                  <p className="text-xs text-amber-600" aria-live="polite">
+                    {formatRetryAfter(retryAfterMs)} 후에 다시 보낼 수 있습니다.
+                  </p>
+                )}
+                {input.length > MAX_CHAT_MESSAGE_LENGTH * 0.8 && (
+                  <p className="text-right text-xs text-gray-500" aria-live="polite">
+                    {input.length.toLocaleString()} / {MAX_CHAT_MESSAGE_LENGTH.toLocaleString()}자
+                  </p>
+                )}
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </div>
   )
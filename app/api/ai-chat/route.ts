@@ -1,59 +1,55 @@
 // app/api/ai-chat/route.ts
 // AI 대화 API 엔드포인트
 // 사용자의 메시지를 받아서 AI가 응답하는 기능
-// 관련 파일: lib/ai/gemini-client.ts
+// 관련 파일: lib/ai/provider-registry.ts, lib/ai/chat-conversations.ts, lib/ai/chat-route.ts, app/api/ai-chat/stream/route.ts
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
-import { GeminiClient } from '@/lib/ai/gemini-client'
+import { prepareChatRequest, chatRouteErrorResponse } from '@/lib/ai/chat-route'
+import { getAIProvider, getModelLabel } from '@/lib/ai/provider-registry'
+import { startChatTurn, saveChatMessage } from '@/lib/ai/chat-conversations'
+import { trackAIUsage } from '@/lib/ai/usage-log'
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, userId } = await request.json()
-
-    if (!message || !userId) {
-      return NextResponse.json(
-        { error: '메시지와 사용자 ID가 필요합니다.' },
-        { status: 400 }
-      )
-    }
-
-    // 사용자 인증 확인
-    const supabase = await createClient()
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    if (authError || !user || user.id !== userId) {
-      return NextResponse.json(
-        { error: '인증이 필요합니다.' },
-        { status: 401 }
-      )
+    // 사용자는 세션으로만 확인 (요청 본문의 사용자 ID는 받지 않음)
+    const prepared = await prepareChatRequest(request)
+    if (!prepared.ok) {
+      return prepared.response
     }
 
-    // AI 응답 생성
-    const systemPrompt = `당신은 도움이 되는 AI 어시스턴트입니다. 
-사용자와 자연스럽고 친근하게 대화하며, 질문에 대해 정확하고 유용한 답변을 제공해주세요.
-한국어로 응답하며, 필요에 따라 이모지를 사용하여 친근함을 표현해주세요.
-답변은 간결하면서도 충분한 정보를 포함하도록 해주세요.`
-
-    const chatPrompt = `${systemPrompt}
+    const { user, data: { message, conversationId, useNotes } } = prepared
 
-사용자 메시지: ${message}
+    // 이전 대화와 인증된 사용자 본인의 노트만 참고하여 프롬프트 구성 (사용자 메시지 저장)
+    const { conversation, prompt, sources } = await startChatTurn(user.id, {
+      message,
+      conversationId,
+      useNotes
+    })
 
-위 사용자 메시지에 대해 도움이 되는 답변을 해주세요.`
+    // AI 응답 생성
+    const aiProvider = getAIProvider()
+    const aiResponse = await trackAIUsage(
+      { userId: user.id, feature: 'chat', model: getModelLabel(aiProvider) },
+      prompt,
+      () => aiProvider.generateText(prompt)
+    )
 
-    const geminiClient = new GeminiClient()
-    const aiResponse = await geminiClient.generateText(chatPrompt)
+    await saveChatMessage(user.id, conversation.id, {
+      role: 'assistant',
+      content: aiResponse,
+      sources,
+      model: getModelLabel(aiProvider)
+    })
 
     return NextResponse.json({ 
       response: aiResponse,
+      sources,
+      conversation,
       timestamp: new Date().toISOString()
     })
 
   } catch (error) {
     console.error('AI 대화 오류:', error)
-    return NextResponse.json(
-      { error: 'AI 응답 생성 중 오류가 발생했습니다.' },
-      { status: 500 }
-    )
+    return chatRouteErrorResponse(error)
   }
 }
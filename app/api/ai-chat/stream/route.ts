@@ -0,0 +1,73 @@
+// app/api/ai-chat/stream/route.ts
+// AI 대화 스트리밍 API 엔드포인트
+// 사용자 메시지에 대한 AI 응답을 Server-Sent Events로 조각 단위 전송 (요청 중단 시 생성도 중단)
+// 관련 파일: app/api/ai-chat/route.ts, lib/ai/chat-route.ts, lib/ai/chat-conversations.ts, lib/ai/stream-response.ts, app/ai-chat/page.tsx
+
+import { NextRequest } from 'next/server'
+import { prepareChatRequest, chatRouteErrorResponse } from '@/lib/ai/chat-route'
+import { getAIProvider, getModelLabel } from '@/lib/ai/provider-registry'
+import { startChatTurn, saveChatMessage } from '@/lib/ai/chat-conversations'
+import { createAIStreamResponse } from '@/lib/ai/stream-response'
+import { recordAIUsage } from '@/lib/ai/usage-log'
+import { GeminiError, getSafeErrorMessage } from '@/lib/ai/errors'
+
+export async function POST(request: NextRequest) {
+  try {
+    // 사용자는 세션으로만 확인 (요청 본문의 사용자 ID는 받지 않음)
+    const prepared = await prepareChatRequest(request)
+    if (!prepared.ok) {
+      return prepared.response
+    }
+
+    const { user, data: { message, conversationId, useNotes } } = prepared
+
+    // 이전 대화와 인증된 사용자 본인의 노트만 참고하여 프롬프트 구성 (사용자 메시지 저장)
+    const { conversation, prompt, sources } = await startChatTurn(user.id, {
+      message,
+      conversationId,
+      useNotes
+    })
+
+    const aiProvider = getAIProvider()
+    const startTime = Date.now()
+    const stream = aiProvider.generateTextStream(prompt, { signal: request.signal })
+    const model = getModelLabel(aiProvider)
+
+    return createAIStreamResponse(stream, {
+      signal: request.signal,
+      model,
+      initialEvents: [
+        { type: 'conversation', conversation },
+        ...(sources.length > 0 ? [{ type: 'sources' as const, sources }] : [])
+      ],
+      onComplete: async (text) => {
+        await saveChatMessage(user.id, conversation.id, { role: 'assistant', content: text, sources, model })
+        await recordAIUsage(
+          { userId: user.id, feature: 'chat', model },
+          { input: prompt, output: text, latencyMs: Date.now() - startTime }
+        )
+      },
+      onError: async (error) => {
+        await recordAIUsage(
+          { userId: user.id, feature: 'chat', model },
+          {
+            input: prompt,
+            output: '',
+            latencyMs: Date.now() - startTime,
+            error: error instanceof GeminiError ? getSafeErrorMessage(error) : 'AI 응답 생성 중 오류가 발생했습니다.'
+          }
+        )
+      },
+      // 응답을 끝까지 받지 않고 연결을 끊어도 생성된 부분까지 사용량과 일일 한도에 기록
+      onAbort: async (text) => {
+        await recordAIUsage(
+          { userId: user.id, feature: 'chat', model },
+          { input: prompt, output: text, latencyMs: Date.now() - startTime, aborted: true }
+        )
+      }
+    })
+  } catch (error) {
+    console.error('AI 대화 스트리밍 오류:', error)
+    return chatRouteErrorResponse(error)
+  }
+}
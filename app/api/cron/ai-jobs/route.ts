@@ -0,0 +1,37 @@
+// app/api/cron/ai-jobs/route.ts
+// AI 백그라운드 작업 정기 처리 API 엔드포인트
+// 스케줄러(Vercel Cron 등)가 호출하여 대기열에 남은 요약/태그 작업(재시도 대기, 중단된 작업 포함)과 실행 시각이 된 노트 임베딩 작업을 처리하고 오래된 완료 작업을 정리
+// 관련 파일: lib/ai/job-worker.ts, lib/ai/job-queue.ts, scripts/ai-job-worker.ts
+
+import { NextRequest, NextResponse } from 'next/server'
+import { drainAIJobs } from '@/lib/ai/job-worker'
+import { purgeFinishedAIJobs } from '@/lib/ai/job-queue'
+
+export async function GET(request: NextRequest) {
+  // CRON_SECRET으로 호출자 검증 (설정되지 않은 경우 엔드포인트 비활성화)
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: '인증이 필요합니다.' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const processedCount = await drainAIJobs({ maxJobs: 20 })
+    const purgedCount = await purgeFinishedAIJobs()
+
+    return NextResponse.json({
+      processedCount,
+      purgedCount,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('AI 작업 정기 처리 오류:', error)
+    return NextResponse.json(
+      { error: 'AI 작업 처리 중 오류가 발생했습니다.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/cron/purge-trash/route.ts
+// 휴지통 만료 노트 정기 삭제 API 엔드포인트
+// 스케줄러(Vercel Cron 등)가 호출하여 보관 기간이 지난 모든 사용자의 휴지통 노트를 영구 삭제
+// 관련 파일: lib/notes/trash.ts, lib/notes/trash-actions.ts
+
+import { NextRequest, NextResponse } from 'next/server'
+import { purgeExpiredTrash } from '@/lib/notes/trash'
+
+export async function GET(request: NextRequest) {
+  // CRON_SECRET으로 호출자 검증 (설정되지 않은 경우 엔드포인트 비활성화)
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: '인증이 필요합니다.' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const purgedCount = await purgeExpiredTrash()
+
+    return NextResponse.json({
+      purgedCount,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('휴지통 정기 삭제 오류:', error)
+    return NextResponse.json(
+      { error: '휴지통 정리 중 오류가 발생했습니다.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+// app/api/notes/audio/[id]/route.ts
+// 음성 첨부 파일 재생 API 엔드포인트
+// 로그인한 사용자 본인의 녹음 파일을 오디오 저장소에서 읽어 반환
+// 관련 파일: lib/audio/attachments.ts, components/notes/note-audio-section.tsx
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { readAudioAttachment } from '@/lib/audio/attachments'
+
+interface AudioRouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: AudioRouteContext) {
+  try {
+    // 사용자 인증 확인
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    if (!/^[0-9a-f-]{36}$/i.test(id)) {
+      return NextResponse.json(
+        { error: '녹음 파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      )
+    }
+
+    const attachment = await readAudioAttachment(user.id, id)
+    if (!attachment) {
+      return NextResponse.json(
+        { error: '녹음 파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(Buffer.from(attachment.data), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(attachment.data.byteLength),
+        'Cache-Control': 'private, max-age=3600'
+      }
+    })
+  } catch (error) {
+    console.error('녹음 파일 조회 오류:', error)
+    return NextResponse.json(
+      { error: '녹음 파일을 불러올 수 없습니다.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+// app/api/notes/audio/route.ts
+// 음성 메모 업로드 API 엔드포인트
+// 녹음 파일(multipart/form-data)을 받아 저장하고 전사하여 요약이 포함된 새 노트를 생성
+// 관련 파일: lib/audio/voice-note.ts, lib/audio/upload.ts, components/notes/audio-note-recorder.tsx
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createVoiceNote, EmptyTranscriptError } from '@/lib/audio/voice-note'
+import { validateAudioUpload } from '@/lib/audio/upload'
+import { GeminiError } from '@/lib/ai/errors'
+
+export async function POST(request: NextRequest) {
+  try {
+    // 사용자 인증 확인
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: '인증이 필요합니다.' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('audio')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: '녹음 파일이 필요합니다.' },
+        { status: 400 }
+      )
+    }
+
+    const validationError = validateAudioUpload(file)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const durationMs = Number(formData?.get('durationMs'))
+
+    const result = await createVoiceNote(user.id, {
+      audio: new Uint8Array(await file.arrayBuffer()),
+      mimeType: file.type,
+      durationMs: Number.isFinite(durationMs) && durationMs > 0 ? durationMs : null
+    })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('음성 메모 생성 오류:', error)
+
+    if (error instanceof EmptyTranscriptError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 422 }
+      )
+    }
+
+    if (error instanceof GeminiError) {
+      return NextResponse.json(
+        { error: `음성 전사에 실패했습니다: ${error.message}` },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: '음성 메모 저장 중 오류가 발생했습니다.' },
+      { status: 500 }
+    )
+  }
+}
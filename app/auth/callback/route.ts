@@ -1,17 +1,19 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
+import { sanitizeNextPath, NEXT_PARAM } from '@/lib/auth/route-protection'
 
 export async function GET(request: NextRequest) {
     const { searchParams, origin } = new URL(request.url)
     const code = searchParams.get('code')
-    const next = searchParams.get('next') ?? '/onboarding'
+    // 외부 주소로의 리다이렉트를 막기 위해 같은 사이트 경로만 허용
+    const next = sanitizeNextPath(searchParams.get(NEXT_PARAM), '/onboarding')
 
     if (code) {
         const supabase = await createClient()
         const { error } = await supabase.auth.exchangeCodeForSession(code)
 
         if (!error) {
-            // 인증 성공 시 온보딩 페이지로 리다이렉트
+            // 인증 성공 시 원래 가려던 경로(기본: 온보딩 페이지)로 리다이렉트
             return NextResponse.redirect(`${origin}${next}`)
         }
     }
@@ -3,14 +3,17 @@
 // 노트 ID를 통해 특정 노트의 상세 내용을 표시하고 실시간 편집 기능을 제공하는 페이지
 // 관련 파일: lib/notes/actions.ts, components/notes/note-editor.tsx, components/notes/error-pages.tsx
 
-import { createClient } from '@/lib/supabase/server'
-import { redirect } from 'next/navigation'
+import { requireUser } from '@/lib/auth/session'
 import { getNoteById } from '@/lib/notes/actions'
 import { MarkdownEditor } from '@/components/notes/markdown-editor'
 import { NoteErrorPage } from '@/components/notes/error-pages'
 import { NotePageActions } from '@/components/notes/note-page-actions'
 import { NoteSummarySection } from '@/components/notes/note-summary-section'
 import { NoteTagSection } from '@/components/notes/note-tag-section'
+import { RelatedNotesSection } from '@/components/notes/related-notes-section'
+import { BacklinksSection } from '@/components/notes/backlinks-section'
+import { NoteAudioSection } from '@/components/notes/note-audio-section'
+import { getNoteAudioAttachments } from '@/lib/audio/attachments'
 
 interface NotePageProps {
   params: Promise<{
@@ -20,12 +23,7 @@ interface NotePageProps {
 
 export default async function NotePage({ params }: NotePageProps) {
   // 로그인 확인
-  const supabase = await createClient()
-  const { data: { user }, error } = await supabase.auth.getUser()
-
-  if (error || !user) {
-    redirect('/signin')
-  }
+  const user = await requireUser()
 
   // 노트 조회 및 에러 처리
   let note
@@ -71,6 +69,12 @@ export default async function NotePage({ params }: NotePageProps) {
     return <NoteErrorPage type="404" message="노트를 찾을 수 없습니다." />
   }
 
+  // 음성 메모로 만든 노트의 원본 녹음 (조회 실패 시 섹션만 생략)
+  const audioAttachments = await getNoteAudioAttachments(user.id, note.id).catch((error) => {
+    console.error('녹음 첨부 조회 오류:', error)
+    return []
+  })
+
   const formatDate = (date: Date | string) => {
     const dateObj = typeof date === 'string' ? new Date(date) : date
     return dateObj.toLocaleDateString('ko-KR', {
@@ -86,7 +90,7 @@ export default async function NotePage({ params }: NotePageProps) {
     <div className="container mx-auto py-8 px-4 max-w-4xl">
       {/* 네비게이션 바 */}
       <div className="mb-6">
-        <NotePageActions noteId={note.id} noteTitle={note.title} />
+        <NotePageActions noteId={note.id} noteTitle={note.title} pinned={note.pinned} favorite={note.favorite} />
       </div>
 
       {/* 노트 메타 정보 */}
@@ -117,6 +121,23 @@ export default async function NotePage({ params }: NotePageProps) {
         />
       </div>
 
+      {/* 관련 노트 섹션 */}
+      <div className="mb-6">
+        <RelatedNotesSection noteId={note.id} />
+      </div>
+
+      {/* 백링크 섹션 */}
+      <div className="mb-6">
+        <BacklinksSection noteId={note.id} noteTitle={note.title} />
+      </div>
+
+      {/* 원본 녹음 섹션 */}
+      {audioAttachments.length > 0 && (
+        <div className="mb-6">
+          <NoteAudioSection attachments={audioAttachments} />
+        </div>
+      )}
+
       {/* 마크다운 편집기 */}
       <MarkdownEditor 
         note={note}
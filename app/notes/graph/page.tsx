@@ -0,0 +1,59 @@
+// app/notes/graph/page.tsx
+// 노트 그래프 페이지
+// 노트를 노드로, 위키 링크와 공유 태그를 엣지로 연결한 그래프를 보여주고 태그로 필터링할 수 있는 페이지
+// 관련 파일: lib/notes/graph-actions.ts, lib/notes/graph.ts, components/notes/note-graph.tsx
+
+import { requireUser } from '@/lib/auth/session'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+import { getNoteGraph } from '@/lib/notes/graph-actions'
+import { NoteGraph } from '@/components/notes/note-graph'
+
+interface NoteGraphPageProps {
+  searchParams: Promise<{
+    tag?: string
+  }>
+}
+
+export default async function NoteGraphPage({ searchParams }: NoteGraphPageProps) {
+  // 로그인 확인
+  await requireUser()
+
+  const { tag } = await searchParams
+
+  // 그래프 데이터 조회
+  let graph
+  try {
+    graph = await getNoteGraph(tag)
+  } catch (error) {
+    console.error('노트 그래프 조회 오류:', error)
+    graph = { nodes: [], edges: [], tags: [], selectedTag: tag?.trim() || null, truncated: false }
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-6xl">
+      {/* 네비게이션 바 */}
+      <div className="mb-6">
+        <Link href="/notes">
+          <Button variant="outline" className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            노트 목록으로
+          </Button>
+        </Link>
+      </div>
+
+      {/* 헤더 */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+          노트 그래프
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          링크와 공유 태그로 연결된 노트를 한눈에 살펴보세요. 노드를 클릭하면 노트가 열립니다.
+        </p>
+      </div>
+
+      <NoteGraph graph={graph} />
+    </div>
+  )
+}
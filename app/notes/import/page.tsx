@@ -0,0 +1,40 @@
+// app/notes/import/page.tsx
+// 노트 가져오기 페이지
+// 마크다운 파일, ZIP 압축 파일, Evernote·Notion 내보내기에 담긴 기존 노트를 한 번에 가져올 수 있는 페이지
+// 관련 파일: components/notes/import-notes-form.tsx, lib/import/actions.ts
+
+import { requireUser } from '@/lib/auth/session'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+import { ImportNotesForm } from '@/components/notes/import-notes-form'
+
+export default async function ImportNotesPage() {
+  // 로그인 확인
+  await requireUser()
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      {/* 네비게이션 바 */}
+      <div className="mb-6">
+        <Link href="/notes">
+          <Button variant="outline" className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            노트 목록으로
+          </Button>
+        </Link>
+      </div>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+          노트 가져오기
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          마크다운, Evernote, Notion에서 작성한 노트를 가져와 태그와 함께 저장하세요.
+        </p>
+      </div>
+
+      <ImportNotesForm />
+    </div>
+  )
+}
@@ -1,14 +1,36 @@
 // app/notes/new/page.tsx
 // 노트 작성 페이지
-// 사용자가 새로운 노트를 작성할 수 있는 페이지로 제목과 본문을 입력할 수 있음
-// 관련 파일: components/notes/note-form.tsx, lib/notes/actions.ts
+// 사용자가 새로운 노트를 작성할 수 있는 페이지로 제목과 본문을 직접 또는 음성으로 입력하거나 템플릿, 녹음 파일로 노트를 만들 수 있음
+// 관련 파일: components/notes/note-form.tsx, components/notes/audio-note-recorder.tsx, lib/notes/actions.ts, lib/templates/actions.ts
 
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { ArrowLeft, Home } from 'lucide-react'
 import { NoteForm } from '@/components/notes/note-form'
+import { AudioNoteRecorder } from '@/components/notes/audio-note-recorder'
+import { parseNotebookParam } from '@/lib/notebooks/tree'
+import { getNoteTemplates } from '@/lib/templates/actions'
+import type { NoteTemplateOption } from '@/lib/templates/placeholders'
+
+interface NewNotePageProps {
+  searchParams: Promise<{
+    notebook?: string
+  }>
+}
+
+export default async function NewNotePage({ searchParams }: NewNotePageProps) {
+  // 노트북에서 새 노트를 만든 경우 그 노트북에 저장
+  const notebookId = parseNotebookParam((await searchParams).notebook) ?? undefined
+
+  // 템플릿 선택 목록 (조회에 실패해도 빈 노트로 작성할 수 있도록 빈 목록 사용)
+  let templates: NoteTemplateOption[]
+  try {
+    templates = await getNoteTemplates()
+  } catch (error) {
+    console.error('템플릿 조회 오류:', error)
+    templates = []
+  }
 
-export default function NewNotePage() {
   return (
     <div className="container mx-auto py-8 px-4 max-w-4xl">
       {/* 네비게이션 바 */}
@@ -34,11 +56,15 @@ export default function NewNotePage() {
           새 노트 작성
         </h1>
         <p className="text-gray-600 dark:text-gray-400 mt-2">
-          제목과 본문을 입력하여 새로운 노트를 작성하세요.
+          제목과 본문을 입력하거나 음성으로 말하거나 템플릿을 골라 새로운 노트를 작성하세요.
         </p>
       </div>
       
-      <NoteForm />
+      <NoteForm notebookId={notebookId} templates={templates} />
+
+      <div className="mt-8">
+        <AudioNoteRecorder />
+      </div>
     </div>
   )
 }
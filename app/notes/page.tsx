@@ -1,21 +1,29 @@
 // app/notes/page.tsx
 // 노트 목록 페이지 (페이지네이션 및 정렬 기능 포함)
-// 사용자가 작성한 노트를 페이지네이션과 정렬 기능으로 효율적으로 탐색할 수 있는 페이지
-// 관련 파일: lib/notes/actions.ts, components/notes/note-card.tsx, components/notes/pagination.tsx
+// 사용자가 작성한 노트를 페이지네이션과 정렬 기능으로 효율적으로 탐색하고, 사이드바 노트북 트리로 노트북별로 모아볼 수 있는 페이지
+// 관련 파일: lib/notes/actions.ts, components/notes/note-card.tsx, components/notes/pagination.tsx, components/notebooks/notebook-sidebar.tsx
 
-import { createClient } from '@/lib/supabase/server'
-import { redirect } from 'next/navigation'
+import { requireUser } from '@/lib/auth/session'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
-import { Plus, Home, ArrowLeft } from 'lucide-react'
+import { Plus, Home, ArrowLeft, Trash2, Download, Upload, Network } from 'lucide-react'
 import { getNotesWithSearchAndSort } from '@/lib/notes/actions'
+import type { NoteSortBy } from '@/lib/notes/types'
+import { parseTagsParam, parseTagModeParam } from '@/lib/notes/tag-params'
+import { parseFavoritesParam } from '@/lib/notes/favorite-params'
+import { getNotebookTree } from '@/lib/notebooks/actions'
+import { getNotebookPath, parseNotebookParam, type NotebookTreeData } from '@/lib/notebooks/tree'
 import { NoteCard } from '@/components/notes/note-card'
 import { Pagination } from '@/components/notes/pagination'
 import { SortSelect } from '@/components/notes/sort-select'
+import { FavoritesFilter } from '@/components/notes/favorites-filter'
 import { SearchInput } from '@/components/notes/search-input'
+import { TagFacets } from '@/components/notes/tag-facets'
 import { EmptyState } from '@/components/notes/empty-state'
 import { SearchEmptyState } from '@/components/notes/search-empty-state'
 import { LoadingSkeleton } from '@/components/notes/loading-skeleton'
+import { ExportNotesDialog } from '@/components/notes/export-notes-dialog'
+import { NotebookSidebar } from '@/components/notebooks/notebook-sidebar'
 import { Suspense } from 'react'
 
 interface NotesPageProps {
@@ -23,28 +31,31 @@ interface NotesPageProps {
     page?: string
     sort?: string
     search?: string
+    tags?: string
+    tagMode?: string
+    notebook?: string
+    favorites?: string
   }>
 }
 
 export default async function NotesPage({ searchParams }: NotesPageProps) {
   // 로그인 확인
-  const supabase = await createClient()
-  const { data: { user }, error } = await supabase.auth.getUser()
-
-  if (error || !user) {
-    redirect('/signin')
-  }
+  await requireUser()
 
   // URL 파라미터 파싱
   const resolvedSearchParams = await searchParams
   const page = parseInt(resolvedSearchParams.page || '1', 10)
   const sortParam = resolvedSearchParams.sort || 'created_at_desc'
   const searchQuery = resolvedSearchParams.search || ''
+  const tagsFilter = parseTagsParam(resolvedSearchParams.tags)
+  const tagMode = parseTagModeParam(resolvedSearchParams.tagMode)
+  const notebookScope = parseNotebookParam(resolvedSearchParams.notebook)
+  const favoritesOnly = parseFavoritesParam(resolvedSearchParams.favorites)
   
-  // 정렬 옵션 파싱
-  const [sortBy, sortOrder] = sortParam.split('_')
-  const validSortBy = ['created_at', 'updated_at', 'title'].includes(sortBy) ? sortBy : 'created_at'
-  const validSortOrder = ['asc', 'desc'].includes(sortOrder) ? sortOrder : 'desc'
+  // 정렬 옵션 파싱 (예: 'created_at_desc' → created_at / desc, 'relevance' → 관련도순)
+  const sortMatch = sortParam.match(/^(created_at|updated_at|title|relevance)(?:_(asc|desc))?$/)
+  const validSortBy = (sortMatch?.[1] ?? 'created_at') as NoteSortBy
+  const validSortOrder = (sortMatch?.[2] ?? 'desc') as 'asc' | 'desc'
 
   // 노트 목록 조회 (검색 및 정렬 포함)
   let notesData
@@ -53,8 +64,12 @@ export default async function NotesPage({ searchParams }: NotesPageProps) {
       page,
       limit: 10,
       search: searchQuery,
-      sortBy: validSortBy as 'created_at' | 'updated_at' | 'title',
-      sortOrder: validSortOrder as 'asc' | 'desc'
+      sortBy: validSortBy,
+      sortOrder: validSortOrder,
+      tags: tagsFilter,
+      tagMode,
+      notebookId: notebookScope,
+      favoritesOnly
     })
     
     // 디버깅: 노트 목록 로깅
@@ -77,11 +92,34 @@ export default async function NotesPage({ searchParams }: NotesPageProps) {
         hasNextPage: false,
         hasPrevPage: false
       },
-      searchQuery: searchQuery
+      searchQuery: searchQuery,
+      tagFilter: { tags: tagsFilter, mode: tagMode },
+      tagFacets: [],
+      notebookId: notebookScope,
+      favoritesOnly
     }
   }
 
-  const { notes, pagination, searchQuery: currentSearchQuery } = notesData
+  // 사이드바 노트북 트리 조회 (실패해도 노트 목록은 표시)
+  let notebookTree: NotebookTreeData
+  try {
+    notebookTree = await getNotebookTree()
+  } catch (error) {
+    console.error('노트북 조회 오류:', error)
+    notebookTree = { notebooks: [], inboxCount: 0 }
+  }
+
+  const { notes, pagination, searchQuery: currentSearchQuery, tagFilter, tagFacets } = notesData
+  const hasTagFilter = tagFilter.tags.length > 0
+
+  // 현재 보고 있는 노트북 경로 (예: 업무 / 회의록)
+  const notebookPath = notebookScope ? getNotebookPath(notebookTree.notebooks, notebookScope) : []
+  const pageTitle = notebookScope === null
+    ? '미분류'
+    : notebookPath.length > 0
+      ? notebookPath.map(notebook => notebook.name).join(' / ')
+      : '내 노트'
+  const newNoteHref = notebookScope ? `/notes/new?notebook=${notebookScope}` : '/notes/new'
 
   return (
     <div className="container mx-auto py-8 px-4 max-w-6xl">
@@ -99,11 +137,15 @@ export default async function NotesPage({ searchParams }: NotesPageProps) {
       <div className="flex items-center justify-between mb-8">
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
-            내 노트
+            {pageTitle}
           </h1>
           <p className="text-gray-600 dark:text-gray-400 mt-2">
             {currentSearchQuery 
               ? `"${currentSearchQuery}" 검색 결과: ${pagination.totalCount}개`
+              : hasTagFilter
+                ? `태그 필터 결과: ${pagination.totalCount}개`
+              : favoritesOnly
+                ? `즐겨찾기 ${pagination.totalCount}개`
               : pagination.totalCount > 0 
                 ? `총 ${pagination.totalCount}개의 노트` 
                 : '작성한 모든 노트를 확인하고 관리하세요.'
@@ -117,7 +159,31 @@ export default async function NotesPage({ searchParams }: NotesPageProps) {
               대시보드
             </Button>
           </Link>
-          <Link href="/notes/new">
+          <Link href="/notes/graph">
+            <Button variant="outline" className="flex items-center gap-2">
+              <Network className="w-4 h-4" />
+              그래프
+            </Button>
+          </Link>
+          <Link href="/notes/trash">
+            <Button variant="outline" className="flex items-center gap-2">
+              <Trash2 className="w-4 h-4" />
+              휴지통
+            </Button>
+          </Link>
+          <Link href="/notes/import">
+            <Button variant="outline" className="flex items-center gap-2">
+              <Upload className="w-4 h-4" />
+              가져오기
+            </Button>
+          </Link>
+          <ExportNotesDialog>
+            <Button variant="outline" className="flex items-center gap-2">
+              <Download className="w-4 h-4" />
+              내보내기
+            </Button>
+          </ExportNotesDialog>
+          <Link href={newNoteHref}>
             <Button className="flex items-center gap-2">
               <Plus className="w-4 h-4" />
               새 노트 작성
@@ -126,55 +192,68 @@ export default async function NotesPage({ searchParams }: NotesPageProps) {
         </div>
       </div>
 
-      {/* 검색 및 정렬 컨트롤 */}
-      <div className="flex flex-col sm:flex-row gap-4 mb-6">
-        <div className="flex-1">
-          <SearchInput currentSearch={currentSearchQuery} />
-        </div>
-        {pagination.totalCount > 0 && (
-          <div className="flex items-center gap-2">
-            <SortSelect currentSort={sortParam} />
+      <div className="grid gap-8 md:grid-cols-[14rem_minmax(0,1fr)]">
+        {/* 노트북 사이드바 */}
+        <aside className="md:sticky md:top-8 md:self-start">
+          <NotebookSidebar tree={notebookTree} currentScope={notebookScope} />
+        </aside>
+
+        <div>
+          {/* 검색 및 정렬 컨트롤 */}
+          <div className="flex flex-col sm:flex-row gap-4 mb-4">
+            <div className="flex-1">
+              <SearchInput currentSearch={currentSearchQuery} />
+            </div>
+            <div className="flex items-center gap-2">
+              <FavoritesFilter active={favoritesOnly} />
+              {pagination.totalCount > 0 && <SortSelect currentSort={sortParam} />}
+            </div>
           </div>
-        )}
-      </div>
 
-      {/* 페이지네이션 정보 */}
-      {pagination.totalCount > 0 && (
-        <div className="flex items-center justify-between mb-6">
-          <div className="text-sm text-gray-500 dark:text-gray-400">
-            {pagination.currentPage} / {pagination.totalPages} 페이지
+          {/* 태그 패싯 */}
+          <div className="mb-6">
+            <TagFacets facets={tagFacets} selectedTags={tagFilter.tags} mode={tagFilter.mode} />
           </div>
-        </div>
-      )}
-
-      {/* 노트 목록 */}
-      {pagination.totalCount === 0 ? (
-        currentSearchQuery ? (
-          <SearchEmptyState searchQuery={currentSearchQuery} />
-        ) : (
-          <EmptyState />
-        )
-      ) : (
-        <>
-          <Suspense fallback={<LoadingSkeleton />}>
-            <div className="grid gap-4">
-              {notes.map((note) => (
-                <NoteCard key={note.id} note={note} />
-              ))}
+
+          {/* 페이지네이션 정보 */}
+          {pagination.totalCount > 0 && (
+            <div className="flex items-center justify-between mb-6">
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {pagination.currentPage} / {pagination.totalPages} 페이지
+              </div>
             </div>
-          </Suspense>
-
-          {/* 페이지네이션 */}
-          {pagination.totalPages > 1 && (
-            <Pagination
-              currentPage={pagination.currentPage}
-              totalPages={pagination.totalPages}
-              hasNextPage={pagination.hasNextPage}
-              hasPrevPage={pagination.hasPrevPage}
-            />
           )}
-        </>
-      )}
+
+          {/* 노트 목록 */}
+          {pagination.totalCount === 0 ? (
+            currentSearchQuery || hasTagFilter || favoritesOnly ? (
+              <SearchEmptyState searchQuery={currentSearchQuery} tags={tagFilter.tags} favoritesOnly={favoritesOnly} />
+            ) : (
+              <EmptyState />
+            )
+          ) : (
+            <>
+              <Suspense fallback={<LoadingSkeleton />}>
+                <div className="grid gap-4">
+                  {notes.map((note) => (
+                    <NoteCard key={note.id} note={note} snippet={note.snippet} tags={note.tags} />
+                  ))}
+                </div>
+              </Suspense>
+
+              {/* 페이지네이션 */}
+              {pagination.totalPages > 1 && (
+                <Pagination
+                  currentPage={pagination.currentPage}
+                  totalPages={pagination.totalPages}
+                  hasNextPage={pagination.hasNextPage}
+                  hasPrevPage={pagination.hasPrevPage}
+                />
+              )}
+            </>
+          )}
+        </div>
+      </div>
     </div>
   )
 }
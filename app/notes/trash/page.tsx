@@ -0,0 +1,83 @@
+// app/notes/trash/page.tsx
+// 휴지통 페이지
+// 삭제된 노트 목록을 보여주고 복원 또는 영구 삭제할 수 있는 페이지
+// 관련 파일: lib/notes/trash-actions.ts, components/notes/trash-note-card.tsx, components/notes/empty-trash-button.tsx
+
+import { requireUser } from '@/lib/auth/session'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { ArrowLeft, Trash2 } from 'lucide-react'
+import { getTrashedNotes } from '@/lib/notes/trash-actions'
+import { getPurgeDate } from '@/lib/notes/trash'
+import { TrashNoteCard } from '@/components/notes/trash-note-card'
+import { EmptyTrashButton } from '@/components/notes/empty-trash-button'
+
+export default async function TrashPage() {
+  // 로그인 확인
+  await requireUser()
+
+  // 휴지통 노트 조회
+  let trashData
+  try {
+    trashData = await getTrashedNotes()
+  } catch (error) {
+    console.error('휴지통 조회 오류:', error)
+    trashData = { notes: [], retentionDays: 30 }
+  }
+
+  const { notes, retentionDays } = trashData
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-6xl">
+      {/* 네비게이션 바 */}
+      <div className="mb-6">
+        <Link href="/notes">
+          <Button variant="outline" className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            노트 목록으로
+          </Button>
+        </Link>
+      </div>
+
+      {/* 헤더 */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+            휴지통
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            삭제한 노트는 {retentionDays}일 동안 보관된 후 자동으로 영구 삭제됩니다.
+          </p>
+        </div>
+        <EmptyTrashButton count={notes.length} />
+      </div>
+
+      {/* 휴지통 노트 목록 */}
+      {notes.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <div className="flex flex-col items-center space-y-4">
+              <div className="w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center">
+                <Trash2 className="w-8 h-8 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                휴지통이 비어 있습니다
+              </h3>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {notes.map((note) => (
+            <TrashNoteCard
+              key={note.id}
+              note={note}
+              purgeAt={getPurgeDate(note.deletedAt ?? new Date(), retentionDays)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
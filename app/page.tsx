@@ -1,5 +1,4 @@
-import { createClient } from '@/lib/supabase/server'
-import { redirect } from 'next/navigation'
+import { requireUser } from '@/lib/auth/session'
 import Link from 'next/link'
 import {
     Card,
@@ -10,21 +9,13 @@ import {
 } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { LogoutDialog } from '@/components/auth/logout-dialog'
-import { PenTool, Search, Tag, Download, Clock, FileText } from 'lucide-react'
+import { PenTool, Search, Tag, Download, Clock, FileText, BarChart3 } from 'lucide-react'
 import { getNotes } from '@/lib/notes/actions'
 import { Note } from '@/lib/db/schema/notes'
 
 export default async function HomePage() {
-    // 로그인 확인 - getUser()를 사용하여 서버에서 인증 확인
-    const supabase = await createClient()
-    const {
-        data: { user },
-        error
-    } = await supabase.auth.getUser()
-
-    if (error || !user) {
-        redirect('/signin')
-    }
+    // 로그인 확인 - 경로 보호는 미들웨어가 담당하고 여기서는 사용자 정보만 가져옴
+    const user = await requireUser()
 
     // 최근 노트 조회 (최대 5개)
     let recentNotes: Note[] = []
@@ -49,7 +40,15 @@ export default async function HomePage() {
                                 안녕하세요, {user.email}님! 👋
                             </p>
                         </div>
-                        <LogoutDialog />
+                        <div className="flex items-center gap-2">
+                            <Link href="/settings/usage">
+                                <Button variant="outline" size="sm" className="flex items-center gap-2">
+                                    <BarChart3 className="w-4 h-4" />
+                                    AI 사용량
+                                </Button>
+                            </Link>
+                            <LogoutDialog />
+                        </div>
                     </div>
                 </div>
 
@@ -0,0 +1,176 @@
+// app/settings/usage/page.tsx
+// AI 사용량 대시보드 페이지
+// 최근 30일 동안의 일별 요청 수, 토큰, 성공률, 응답 시간과 기능별 사용량, 오늘의 토큰 한도 사용량을 표시
+// 관련 파일: lib/ai/usage-actions.ts, lib/ai/usage-stats.ts, components/settings/usage-bar-chart.tsx
+
+import { requireUser } from '@/lib/auth/session'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft } from 'lucide-react'
+import { getUsageDashboard, type UsageDashboard } from '@/lib/ai/usage-actions'
+import { USAGE_DASHBOARD_DAYS, USAGE_FEATURE_LABELS } from '@/lib/ai/usage-stats'
+import { formatRetryAfter, getMsUntilQuotaReset } from '@/lib/ai/rate-limit'
+import { UsageBarChart } from '@/components/settings/usage-bar-chart'
+
+export default async function UsagePage() {
+  // 로그인 확인
+  await requireUser('/settings/usage')
+
+  let dashboard: UsageDashboard | null = null
+  try {
+    dashboard = await getUsageDashboard()
+  } catch (error) {
+    console.error('AI 사용량 조회 오류:', error)
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-6xl">
+      {/* 네비게이션 바 */}
+      <div className="mb-6">
+        <Link href="/">
+          <Button variant="outline" className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            홈으로
+          </Button>
+        </Link>
+      </div>
+
+      {/* 헤더 */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+          AI 사용량
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          최근 {USAGE_DASHBOARD_DAYS}일 동안의 요약, 태그, 대화 기능 사용 기록입니다. (날짜는 UTC 기준)
+        </p>
+      </div>
+
+      {!dashboard ? (
+        <Card>
+          <CardContent className="text-center py-12 text-gray-500">
+            사용량을 불러올 수 없습니다. 잠시 후 다시 시도해주세요.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {/* 기간 합계 */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <SummaryCard label="총 요청 수" value={dashboard.totals.totalRequests.toLocaleString()} />
+            <SummaryCard label="총 토큰 수" value={dashboard.totals.totalTokens.toLocaleString()} />
+            <SummaryCard label="성공률" value={`${dashboard.totals.successRate.toFixed(1)}%`} />
+            <SummaryCard label="평균 응답 시간" value={`${Math.round(dashboard.totals.averageLatency).toLocaleString()}ms`} />
+          </div>
+
+          {/* 오늘의 토큰 한도 */}
+          <QuotaCard quota={dashboard.quota} />
+
+          {/* 일별 차트 */}
+          <div className="grid gap-4 md:grid-cols-2">
+            <UsageBarChart
+              title="일별 요청 수"
+              data={dashboard.days.map(day => ({ date: day.date, value: day.totalRequests }))}
+              unit="회"
+            />
+            <UsageBarChart
+              title="일별 토큰 수"
+              data={dashboard.days.map(day => ({ date: day.date, value: day.totalTokens }))}
+              barClassName="bg-orange-500"
+            />
+            <UsageBarChart
+              title="일별 성공률"
+              data={dashboard.days.map(day => ({ date: day.date, value: day.successRate }))}
+              unit="%"
+              decimals={1}
+              maxValue={100}
+              barClassName="bg-green-500"
+            />
+            <UsageBarChart
+              title="일별 평균 응답 시간"
+              data={dashboard.days.map(day => ({ date: day.date, value: day.averageLatency }))}
+              unit="ms"
+              barClassName="bg-purple-500"
+            />
+          </div>
+
+          {/* 기능별 사용량 */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">기능별 사용량</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="py-2 font-medium">기능</th>
+                    <th className="py-2 font-medium text-right">요청 수</th>
+                    <th className="py-2 font-medium text-right">토큰 수</th>
+                    <th className="py-2 font-medium text-right">성공률</th>
+                    <th className="py-2 font-medium text-right">평균 응답 시간</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dashboard.features.map(feature => (
+                    <tr key={feature.feature} className="border-b last:border-0">
+                      <td className="py-2">{USAGE_FEATURE_LABELS[feature.feature]}</td>
+                      <td className="py-2 text-right">{feature.totalRequests.toLocaleString()}</td>
+                      <td className="py-2 text-right">{feature.totalTokens.toLocaleString()}</td>
+                      <td className="py-2 text-right">{feature.totalRequests > 0 ? `${feature.successRate.toFixed(1)}%` : '-'}</td>
+                      <td className="py-2 text-right">{feature.totalRequests > 0 ? `${Math.round(feature.averageLatency).toLocaleString()}ms` : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SummaryCard({ label, value }: { label: string; value: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="text-sm text-gray-500 dark:text-gray-400">{label}</div>
+        <div className="text-2xl font-bold text-gray-900 dark:text-gray-100 mt-1">{value}</div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function QuotaCard({ quota }: { quota: UsageDashboard['quota'] }) {
+  const unlimited = quota.limit <= 0
+  const percent = unlimited ? 0 : Math.min(100, (quota.used / quota.limit) * 100)
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium text-gray-700 dark:text-gray-300">오늘 사용한 토큰</span>
+          <span className="text-gray-600 dark:text-gray-400">
+            {quota.used.toLocaleString()} / {unlimited ? '무제한' : quota.limit.toLocaleString()}
+          </span>
+        </div>
+        {!unlimited && (
+          <>
+            <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+              <div
+                className={percent >= 90 ? 'h-full bg-red-500' : 'h-full bg-blue-600'}
+                style={{ width: `${percent}%` }}
+                role="progressbar"
+                aria-valuenow={Math.round(percent)}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              {formatRetryAfter(getMsUntilQuotaReset())} 후 초기화됩니다.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,5 @@
 import { SignInForm } from '@/components/auth/signin-form'
-import { createClient } from '@/lib/supabase/server'
-import { redirect } from 'next/navigation'
+import { sanitizeNextPath } from '@/lib/auth/route-protection'
 import { Suspense } from 'react'
 
 async function SuccessMessage({
@@ -23,17 +22,10 @@ async function SuccessMessage({
 export default async function SignInPage({
     searchParams
 }: {
-    searchParams: Promise<{ message?: string }>
+    searchParams: Promise<{ message?: string; next?: string }>
 }) {
-    // 이미 로그인된 사용자는 대시보드로 리다이렉트
-    const supabase = await createClient()
-    const {
-        data: { user }
-    } = await supabase.auth.getUser()
-
-    if (user) {
-        redirect('/')
-    }
+    // 이미 로그인된 사용자는 미들웨어가 next 경로(기본: 대시보드)로 리다이렉트
+    const { next } = await searchParams
 
     return (
         <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
@@ -47,7 +39,7 @@ export default async function SignInPage({
                 <Suspense fallback={null}>
                     <SuccessMessage searchParams={searchParams} />
                 </Suspense>
-                <SignInForm />
+                <SignInForm nextPath={sanitizeNextPath(next)} />
             </div>
         </div>
     )
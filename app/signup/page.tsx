@@ -1,18 +1,13 @@
 import { SignUpForm } from '@/components/auth/signup-form'
-import { createClient } from '@/lib/supabase/server'
-import { redirect } from 'next/navigation'
+import { sanitizeNextPath } from '@/lib/auth/route-protection'
 
-export default async function SignUpPage() {
-    // 이미 로그인된 사용자는 대시보드로 리다이렉트
-    const supabase = await createClient()
-    const {
-        data: { user },
-        error
-    } = await supabase.auth.getUser()
-
-    if (user && !error) {
-        redirect('/')
-    }
+export default async function SignUpPage({
+    searchParams
+}: {
+    searchParams: Promise<{ next?: string }>
+}) {
+    // 이미 로그인된 사용자는 미들웨어가 next 경로(기본: 대시보드)로 리다이렉트
+    const { next } = await searchParams
 
     return (
         <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
@@ -23,7 +18,7 @@ export default async function SignUpPage() {
                     </h1>
                     <p className="text-gray-600">똑똑한 메모 관리의 시작</p>
                 </div>
-                <SignUpForm />
+                <SignUpForm nextPath={sanitizeNextPath(next)} />
             </div>
         </div>
     )
@@ -1,21 +1,15 @@
 // app/test-ai/page.tsx
 // AI 서비스 테스트 페이지
-// Gemini API 연동 상태를 확인하고 기본 기능을 테스트하는 페이지
-// 관련 파일: lib/ai/actions.ts, lib/ai/gemini-client.ts
+// 설정된 AI 제공자 연동 상태를 확인하고 기본 기능을 테스트하는 페이지
+// 관련 파일: lib/ai/actions.ts, lib/ai/provider-registry.ts
 
-import { createClient } from '@/lib/supabase/server'
-import { redirect } from 'next/navigation'
+import { requireUser } from '@/lib/auth/session'
 import { checkAIHealth, generateText, getAIUsageStats } from '@/lib/ai/actions'
 import { TestAIForm } from '@/components/ai/test-ai-form'
 
 export default async function TestAIPage() {
   // 로그인 확인
-  const supabase = await createClient()
-  const { data: { user }, error } = await supabase.auth.getUser()
-
-  if (error || !user) {
-    redirect('/signin')
-  }
+  await requireUser()
 
   // AI 헬스체크
   const healthResult = await checkAIHealth()
@@ -97,6 +91,10 @@ export default async function TestAIPage() {
           <h2 className="text-xl font-semibold mb-4">환경 설정</h2>
           <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg">
             <div className="space-y-2 text-sm">
+              <div>
+                <strong>AI_PROVIDER:</strong> 
+                <span className="ml-2">{process.env.AI_PROVIDER || '미설정 (기본값 사용)'}</span>
+              </div>
               <div>
                 <strong>GEMINI_API_KEY:</strong> 
                 <span className="ml-2">
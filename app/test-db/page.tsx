@@ -4,17 +4,11 @@
 
 import { testConnection } from '@/lib/db/test-connection'
 import { debugGetUserNotes } from '@/lib/notes/actions'
-import { createClient } from '@/lib/supabase/server'
-import { redirect } from 'next/navigation'
+import { requireUser } from '@/lib/auth/session'
 
 export default async function TestDbPage() {
   // 로그인 확인
-  const supabase = await createClient()
-  const { data: { user }, error } = await supabase.auth.getUser()
-
-  if (error || !user) {
-    redirect('/signin')
-  }
+  const user = await requireUser()
 
   const connectionResult = await testConnection()
   const userNotes = await debugGetUserNotes()
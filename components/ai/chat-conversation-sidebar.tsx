@@ -0,0 +1,176 @@
+// components/ai/chat-conversation-sidebar.tsx
+// AI 대화 목록 사이드바 컴포넌트
+// 저장된 대화를 최근 순으로 보여주고 새 대화 시작, 대화 선택, 이름 변경, 삭제 기능을 제공
+// 관련 파일: app/ai-chat/page.tsx, lib/ai/chat-actions.ts
+
+'use client'
+
+import { useState } from 'react'
+import { MessageSquarePlus, Pencil, Trash2, Check, X, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+import type { ChatConversationSummary } from '@/lib/ai/chat-actions'
+
+interface ChatConversationSidebarProps {
+  conversations: ChatConversationSummary[]
+  activeConversationId: string | null
+  isLoading?: boolean
+  disabled?: boolean
+  onSelect: (conversationId: string) => void
+  onNew: () => void
+  onRename: (conversationId: string, title: string) => Promise<boolean>
+  onDelete: (conversationId: string) => Promise<boolean>
+}
+
+export function ChatConversationSidebar({
+  conversations,
+  activeConversationId,
+  isLoading = false,
+  disabled = false,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete
+}: ChatConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+  const [deleteTarget, setDeleteTarget] = useState<ChatConversationSummary | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const startEditing = (conversation: ChatConversationSummary) => {
+    setEditingId(conversation.id)
+    setEditingTitle(conversation.title)
+  }
+
+  const cancelEditing = () => {
+    setEditingId(null)
+    setEditingTitle('')
+  }
+
+  const submitRename = async () => {
+    if (!editingId || !editingTitle.trim()) return
+    const renamed = await onRename(editingId, editingTitle)
+    if (renamed) cancelEditing()
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return
+    setIsDeleting(true)
+    const deleted = await onDelete(deleteTarget.id)
+    setIsDeleting(false)
+    if (deleted) setDeleteTarget(null)
+  }
+
+  return (
+    <aside className="flex flex-col h-full">
+      <Button onClick={onNew} disabled={disabled} className="w-full mb-4">
+        <MessageSquarePlus className="w-4 h-4 mr-2" />
+        새 대화
+      </Button>
+
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">저장된 대화가 없습니다.</p>
+        ) : (
+          conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={cn(
+                'group flex items-center gap-1 rounded-md px-2 py-1.5',
+                conversation.id === activeConversationId ? 'bg-blue-50 text-blue-900' : 'hover:bg-gray-100'
+              )}
+            >
+              {editingId === conversation.id ? (
+                <>
+                  <Input
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename()
+                      if (e.key === 'Escape') cancelEditing()
+                    }}
+                    maxLength={100}
+                    className="h-7 text-sm"
+                    autoFocus
+                    aria-label="대화 이름"
+                  />
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={submitRename} aria-label="이름 저장">
+                    <Check className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={cancelEditing} aria-label="이름 변경 취소">
+                    <X className="w-3 h-3" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(conversation.id)}
+                    disabled={disabled}
+                    className="flex-1 min-w-0 text-left text-sm truncate disabled:cursor-not-allowed"
+                    title={conversation.title}
+                  >
+                    {conversation.title}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    onClick={() => startEditing(conversation)}
+                    disabled={disabled}
+                    aria-label="대화 이름 변경"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    onClick={() => setDeleteTarget(conversation)}
+                    disabled={disabled}
+                    aria-label="대화 삭제"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <Dialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>대화를 삭제하시겠습니까?</DialogTitle>
+            <DialogDescription>
+              &quot;{deleteTarget?.title}&quot; 대화와 모든 메시지가 영구적으로 삭제됩니다.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={isDeleting}>
+              취소
+            </Button>
+            <Button variant="destructive" onClick={confirmDelete} disabled={isDeleting}>
+              {isDeleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              삭제
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </aside>
+  )
+}
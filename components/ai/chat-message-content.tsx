@@ -0,0 +1,61 @@
+// components/ai/chat-message-content.tsx
+// AI 대화 메시지 본문 및 참고 노트 표시 컴포넌트
+// 답변 속 노트 인용([제목](/notes/<id>))을 노트 상세 페이지 링크로 바꾸고, 참고한 노트 목록을 보여줌
+// 관련 파일: lib/ai/chat.ts, app/ai-chat/page.tsx
+
+'use client'
+
+import Link from 'next/link'
+import { FileText } from 'lucide-react'
+import { buildNoteLink, splitNoteLinks, ChatSource } from '@/lib/ai/chat'
+
+interface ChatMessageContentProps {
+  content: string
+}
+
+export function ChatMessageContent({ content }: ChatMessageContentProps) {
+  return (
+    <>
+      {splitNoteLinks(content).map((segment, index) => (
+        segment.type === 'note-link' ? (
+          <Link
+            key={index}
+            href={buildNoteLink(segment.noteId)}
+            className="text-blue-600 underline underline-offset-2 hover:text-blue-800"
+          >
+            {segment.title}
+          </Link>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      ))}
+    </>
+  )
+}
+
+interface ChatSourceListProps {
+  sources: ChatSource[]
+}
+
+export function ChatSourceList({ sources }: ChatSourceListProps) {
+  if (sources.length === 0) return null
+
+  return (
+    <div className="mt-3 border-t border-gray-200 pt-2">
+      <p className="text-xs font-medium text-gray-500 mb-1">참고한 노트</p>
+      <ul className="space-y-1">
+        {sources.map(source => (
+          <li key={source.id}>
+            <Link
+              href={buildNoteLink(source.id)}
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+            >
+              <FileText className="w-3 h-3" />
+              {source.title}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
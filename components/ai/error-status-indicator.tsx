@@ -85,16 +85,29 @@ export function ErrorStatusIndicator({
 
   // 에러 상태인 경우 ErrorDisplay 사용
   if (status === 'error' && error) {
+    // 사용 한도 초과는 재시도 가능 시점까지 카운트다운하는 재시도 버튼으로 대신 표시
+    const waitsForRetry = error.retryAfterMs !== undefined && onRetry && showRetryButton
+
     return (
       <div className={className}>
         <ErrorDisplay
           error={error.message}
-          onRetry={onRetry}
+          onRetry={waitsForRetry ? undefined : onRetry}
           onDismiss={onDismiss}
           retryCount={retryCount}
           maxRetries={maxRetries}
           variant={variant}
         />
+        {waitsForRetry && (
+          <RetryButton
+            onRetry={onRetry}
+            currentRetries={retryCount}
+            maxRetries={maxRetries}
+            retryAfterMs={error.retryAfterMs}
+            showRetryCount={false}
+            className="mt-2"
+          />
+        )}
       </div>
     )
   }
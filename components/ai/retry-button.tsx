@@ -1,7 +1,7 @@
 // components/ai/retry-button.tsx
 // AI 요청 재시도 버튼 컴포넌트
-// 재시도 상태 표시, 진행률 표시, 재시도 제한 관리
-// 관련 파일: components/ui/button.tsx, hooks/use-retry.ts
+// 재시도 상태 표시, 진행률 표시, 재시도 제한 관리, 사용 한도 초과 시 재시도 가능 시점까지 카운트다운
+// 관련 파일: components/ui/button.tsx, hooks/use-retry.ts, hooks/use-countdown.ts
 
 'use client'
 
@@ -9,6 +9,8 @@ import { useState } from 'react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { RefreshCw, Clock, AlertCircle } from 'lucide-react'
+import { useCountdown } from '@/hooks/use-countdown'
+import { formatRetryAfter } from '@/lib/ai/rate-limit'
 
 interface RetryButtonProps {
   onRetry: () => void
@@ -23,6 +25,8 @@ interface RetryButtonProps {
   showRetryCount?: boolean
   showDelay?: boolean
   delay?: number
+  // 서버가 알려준 재시도 가능 시점까지 남은 시간 (카운트다운 동안 버튼 비활성화)
+  retryAfterMs?: number
 }
 
 export function RetryButton({
@@ -38,11 +42,13 @@ export function RetryButton({
   showRetryCount = true,
   showDelay = false,
   delay = 0,
+  retryAfterMs,
 }: RetryButtonProps) {
   const [isRetrying, setIsRetrying] = useState(false)
+  const { remainingMs, isCountingDown } = useCountdown(retryAfterMs)
 
   const handleRetry = async () => {
-    if (disabled || loading || isRetrying) return
+    if (disabled || loading || isRetrying || isCountingDown) return
 
     setIsRetrying(true)
     try {
@@ -52,7 +58,7 @@ export function RetryButton({
     }
   }
 
-  const canRetry = !disabled && !loading && !isRetrying && currentRetries < maxRetries
+  const canRetry = !disabled && !loading && !isRetrying && !isCountingDown && currentRetries < maxRetries
   const isMaxRetries = currentRetries >= maxRetries
   const isActive = loading || isRetrying
 
@@ -61,6 +67,7 @@ export function RetryButton({
     if (isRetrying) return '재시도 중...'
     if (loading) return '처리 중...'
     if (isMaxRetries) return '재시도 불가'
+    if (isCountingDown) return `${formatRetryAfter(remainingMs)} 후 재시도`
     if (showRetryCount && currentRetries > 0) {
       return `다시 시도 (${currentRetries}/${maxRetries})`
     }
@@ -80,7 +87,7 @@ export function RetryButton({
     if (isMaxRetries) {
       return <AlertCircle className={cn(getIconSize())} />
     }
-    if (showDelay && delay > 0) {
+    if (isCountingDown || (showDelay && delay > 0)) {
       return <Clock className={cn(getIconSize())} />
     }
     return <RefreshCw className={cn(getIconSize())} />
@@ -15,7 +15,12 @@ import { signIn } from '@/lib/auth/actions'
 import { Loader2, Eye, EyeOff } from 'lucide-react'
 import Link from 'next/link'
 
-export function SignInForm() {
+interface SignInFormProps {
+    // 로그인 후 이동할 경로 (보호 경로에서 리다이렉트된 경우)
+    nextPath?: string
+}
+
+export function SignInForm({ nextPath = '/' }: SignInFormProps) {
     const [isLoading, setIsLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
     const [showPassword, setShowPassword] = useState(false)
@@ -90,6 +95,7 @@ export function SignInForm() {
             const formDataObj = new FormData()
             formDataObj.append('email', formData.email)
             formDataObj.append('password', formData.password)
+            formDataObj.append('next', nextPath)
 
             const result = await signIn(formDataObj)
 
@@ -217,7 +223,11 @@ export function SignInForm() {
                     <div className="text-center text-sm text-gray-600">
                         계정이 없으신가요?{' '}
                         <Link
-                            href="/signup"
+                            href={
+                                nextPath === '/'
+                                    ? '/signup'
+                                    : `/signup?next=${encodeURIComponent(nextPath)}`
+                            }
                             className="text-primary hover:underline font-medium"
                         >
                             회원가입
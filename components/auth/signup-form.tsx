@@ -13,8 +13,14 @@ import {
 } from '@/components/ui/card'
 import { signUp } from '@/lib/auth/actions'
 import { Loader2, Eye, EyeOff } from 'lucide-react'
+import { buildSignInPath } from '@/lib/auth/route-protection'
 
-export function SignUpForm() {
+interface SignUpFormProps {
+    // 로그인 후 이동할 경로 (보호 경로에서 리다이렉트된 경우)
+    nextPath?: string
+}
+
+export function SignUpForm({ nextPath = '/' }: SignUpFormProps) {
     const [isLoading, setIsLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
     const [showPassword, setShowPassword] = useState(false)
@@ -128,6 +134,7 @@ export function SignUpForm() {
             const formDataObj = new FormData()
             formDataObj.append('email', formData.email)
             formDataObj.append('password', formData.password)
+            formDataObj.append('next', nextPath)
 
             const result = await signUp(formDataObj)
 
@@ -289,7 +296,7 @@ export function SignUpForm() {
                     <div className="text-center text-sm text-gray-600">
                         이미 계정이 있으신가요?{' '}
                         <a
-                            href="/signin"
+                            href={buildSignInPath(nextPath)}
                             className="text-primary hover:underline font-medium"
                         >
                             로그인
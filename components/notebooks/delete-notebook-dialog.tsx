@@ -0,0 +1,180 @@
+// components/notebooks/delete-notebook-dialog.tsx
+// 노트북 삭제 확인 다이얼로그 컴포넌트
+// 노트북(하위 노트북 포함)을 삭제하기 전에 안에 있던 노트를 미분류로 옮길지 휴지통으로 보낼지 선택받는 모달 다이얼로그
+// 관련 파일: components/notebooks/notebook-sidebar.tsx, lib/notebooks/actions.ts, components/notes/delete-note-dialog.tsx
+
+'use client'
+
+import { useState } from 'react'
+import { Trash2Icon, Loader2Icon } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { deleteNotebook } from '@/lib/notebooks/actions'
+import type { NotebookDeleteMode } from '@/lib/notebooks/tree'
+
+interface DeleteNotebookDialogProps {
+  notebookId: string
+  notebookName: string
+  noteCount: number // 하위 노트북을 포함한 노트 수
+  hasChildren: boolean
+  onDeleteSuccess?: () => void
+  children: React.ReactNode
+}
+
+const DELETE_MODE_OPTIONS: { value: NotebookDeleteMode; label: string; description: string }[] = [
+  {
+    value: 'inbox',
+    label: '노트를 미분류로 이동',
+    description: '노트북만 삭제하고 안에 있던 노트는 미분류에 남겨둡니다.'
+  },
+  {
+    value: 'trash',
+    label: '노트도 휴지통으로 이동',
+    description: '안에 있던 노트를 휴지통으로 보냅니다. 보관 기간 동안 복원할 수 있습니다.'
+  }
+]
+
+export function DeleteNotebookDialog({
+  notebookId,
+  notebookName,
+  noteCount,
+  hasChildren,
+  onDeleteSuccess,
+  children
+}: DeleteNotebookDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [mode, setMode] = useState<NotebookDeleteMode>('inbox')
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true)
+      setError(null)
+
+      await deleteNotebook(notebookId, mode)
+
+      // 성공 시 다이얼로그 닫기 및 콜백 실행
+      setIsOpen(false)
+      onDeleteSuccess?.()
+    } catch (error) {
+      console.error('노트북 삭제 오류:', error)
+
+      // 에러 타입에 따른 메시지 설정
+      if (error instanceof Error) {
+        if (error.message === 'NOT_FOUND') {
+          setError('삭제할 노트북을 찾을 수 없습니다.')
+        } else if (error.message === 'FORBIDDEN') {
+          setError('이 노트북을 삭제할 권한이 없습니다.')
+        } else {
+          setError('노트북 삭제에 실패했습니다. 다시 시도해주세요.')
+        }
+      } else {
+        setError('알 수 없는 오류가 발생했습니다.')
+      }
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setError(null)
+      setMode('inbox')
+    }
+    setIsOpen(open)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2Icon className="h-5 w-5 text-destructive" />
+            노트북 삭제 확인
+          </DialogTitle>
+          <DialogDescription>
+            <strong>&ldquo;{notebookName}&rdquo;</strong> 노트북을 삭제하시겠습니까?
+            {hasChildren && (
+              <>
+                <br />
+                <span className="text-muted-foreground">하위 노트북도 함께 삭제됩니다.</span>
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {noteCount > 0 && (
+          <fieldset className="space-y-2" disabled={isDeleting}>
+            <legend className="mb-2 text-sm font-medium">
+              안에 있는 노트 {noteCount}개를 어떻게 할까요?
+            </legend>
+            {DELETE_MODE_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className="flex cursor-pointer items-start gap-3 rounded-md border p-3 has-[:checked]:border-primary"
+              >
+                <input
+                  type="radio"
+                  name="notebook-delete-mode"
+                  value={option.value}
+                  checked={mode === option.value}
+                  onChange={() => setMode(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={() => setIsOpen(false)}
+            disabled={isDeleting}
+          >
+            취소
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={isDeleting}
+          >
+            {isDeleting ? (
+              <>
+                <Loader2Icon className="h-4 w-4 animate-spin" />
+                삭제 중...
+              </>
+            ) : (
+              <>
+                <Trash2Icon className="h-4 w-4" />
+                삭제
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
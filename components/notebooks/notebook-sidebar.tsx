@@ -0,0 +1,415 @@
+// components/notebooks/notebook-sidebar.tsx
+// 노트 목록 사이드바의 노트북 트리 컴포넌트
+// 전체/미분류/노트북별 목록 이동, 노트북 생성·이름 변경·삭제, 드래그 앤 드롭으로 노트와 노트북 이동 기능 제공
+// 관련 파일: app/notes/page.tsx, lib/notebooks/actions.ts, lib/notebooks/tree.ts, components/notebooks/delete-notebook-dialog.tsx
+
+'use client'
+
+import { useMemo, useState, type DragEvent } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import {
+  ChevronDown,
+  ChevronRight,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Inbox,
+  Library,
+  Pencil,
+  Trash2
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  createNotebook,
+  moveNotebook,
+  moveNoteToNotebook,
+  renameNotebook
+} from '@/lib/notebooks/actions'
+import {
+  buildNotebookFilterParams,
+  buildNotebookTree,
+  canMoveNotebook,
+  getNotebookPath,
+  MAX_NOTEBOOK_NAME_LENGTH,
+  NOTE_DRAG_TYPE,
+  NOTEBOOK_DRAG_TYPE,
+  type NotebookNode,
+  type NotebookScope,
+  type NotebookTreeData
+} from '@/lib/notebooks/tree'
+import { cn } from '@/lib/utils'
+import { DeleteNotebookDialog } from './delete-notebook-dialog'
+
+interface NotebookSidebarProps {
+  tree: NotebookTreeData
+  currentScope: NotebookScope
+}
+
+// 이름 입력 중인 항목 (새 노트북 생성 또는 기존 노트북 이름 변경)
+type EditingState =
+  | { type: 'create'; parentId: string | null }
+  | { type: 'rename'; notebookId: string }
+
+// 드롭 대상 ('inbox'는 미분류)
+type DropTarget = string | 'inbox'
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'NOT_FOUND':
+        return '노트북 또는 노트를 찾을 수 없습니다.'
+      case 'FORBIDDEN':
+        return '권한이 없습니다.'
+      case 'INVALID_NAME':
+        return `노트북 이름은 1~${MAX_NOTEBOOK_NAME_LENGTH}자로 입력해주세요.`
+      case 'INVALID_MOVE':
+        return '노트북을 자기 자신이나 하위 노트북 안으로 옮길 수 없습니다.'
+    }
+  }
+  return fallback
+}
+
+export function NotebookSidebar({ tree, currentScope }: NotebookSidebarProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const nodes = useMemo(() => buildNotebookTree(tree.notebooks), [tree.notebooks])
+  const totalCount = useMemo(
+    () => tree.inboxCount + tree.notebooks.reduce((sum, notebook) => sum + notebook.noteCount, 0),
+    [tree]
+  )
+
+  // 현재 선택된 노트북의 상위 노트북은 펼친 상태로 시작
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(() =>
+    new Set(currentScope ? getNotebookPath(tree.notebooks, currentScope).map(notebook => notebook.id) : [])
+  )
+  const [editing, setEditing] = useState<EditingState | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [draggingNotebookId, setDraggingNotebookId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null)
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const navigate = (scope: NotebookScope) => {
+    const params = buildNotebookFilterParams(searchParams, scope)
+    router.push(`/notes?${params.toString()}`)
+  }
+
+  const toggleExpanded = (notebookId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(notebookId)) {
+        next.delete(notebookId)
+      } else {
+        next.add(notebookId)
+      }
+      return next
+    })
+  }
+
+  // 서버 액션 실행 후 목록 새로고침 (실패 시 사이드바에 에러 표시)
+  const runAction = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    try {
+      setIsPending(true)
+      setError(null)
+      await action()
+      router.refresh()
+      return true
+    } catch (error) {
+      console.error(fallbackMessage, error)
+      setError(getErrorMessage(error, fallbackMessage))
+      return false
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  const startCreate = (parentId: string | null) => {
+    if (parentId) {
+      setExpandedIds(prev => new Set(prev).add(parentId))
+    }
+    setEditing({ type: 'create', parentId })
+    setDraftName('')
+    setError(null)
+  }
+
+  const startRename = (notebook: NotebookNode) => {
+    setEditing({ type: 'rename', notebookId: notebook.id })
+    setDraftName(notebook.name)
+    setError(null)
+  }
+
+  const cancelEditing = () => {
+    setEditing(null)
+    setDraftName('')
+  }
+
+  const submitEditing = async () => {
+    if (!editing || isPending) return
+
+    const succeeded = editing.type === 'create'
+      ? await runAction(() => createNotebook({ name: draftName, parentId: editing.parentId }), '노트북을 만들 수 없습니다.')
+      : await runAction(() => renameNotebook(editing.notebookId, draftName), '노트북 이름을 바꿀 수 없습니다.')
+
+    if (succeeded) {
+      cancelEditing()
+    }
+  }
+
+  const handleDeleteSuccess = (notebook: NotebookNode) => {
+    // 보고 있던 노트북(또는 그 상위 노트북)이 삭제되면 전체 목록으로 이동
+    const isCurrentDeleted = currentScope
+      ? getNotebookPath(tree.notebooks, currentScope).some(item => item.id === notebook.id)
+      : false
+
+    if (isCurrentDeleted) {
+      navigate(undefined)
+    }
+    router.refresh()
+  }
+
+  // 드래그 중인 항목을 대상에 놓을 수 있는지 확인
+  const canDrop = (event: DragEvent, target: DropTarget): boolean => {
+    const types = Array.from(event.dataTransfer.types)
+
+    if (types.includes(NOTE_DRAG_TYPE)) {
+      return true
+    }
+
+    // 노트북을 미분류에 놓으면 최상위 노트북으로 이동
+    if (types.includes(NOTEBOOK_DRAG_TYPE) && draggingNotebookId) {
+      return canMoveNotebook(tree.notebooks, draggingNotebookId, target === 'inbox' ? null : target)
+    }
+
+    return false
+  }
+
+  const handleDragOver = (event: DragEvent, target: DropTarget) => {
+    if (!canDrop(event, target)) return
+
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+    setDropTarget(target)
+  }
+
+  const handleDragLeave = (event: DragEvent, target: DropTarget) => {
+    // 자식 요소로 이동할 때 발생하는 dragleave는 무시
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return
+    setDropTarget(prev => (prev === target ? null : prev))
+  }
+
+  const handleDrop = async (event: DragEvent, target: DropTarget) => {
+    event.preventDefault()
+    setDropTarget(null)
+
+    const notebookId = target === 'inbox' ? null : target
+    const noteId = event.dataTransfer.getData(NOTE_DRAG_TYPE)
+    const movedNotebookId = event.dataTransfer.getData(NOTEBOOK_DRAG_TYPE)
+
+    if (noteId) {
+      await runAction(() => moveNoteToNotebook(noteId, notebookId), '노트를 옮길 수 없습니다.')
+    } else if (movedNotebookId) {
+      const notebook = tree.notebooks.find(item => item.id === movedNotebookId)
+      if (!notebook || notebook.parentId === notebookId) return
+
+      if (notebookId) {
+        setExpandedIds(prev => new Set(prev).add(notebookId))
+      }
+      await runAction(() => moveNotebook(movedNotebookId, notebookId), '노트북을 옮길 수 없습니다.')
+    }
+  }
+
+  const handleNotebookDragStart = (event: DragEvent, notebookId: string) => {
+    event.stopPropagation()
+    event.dataTransfer.setData(NOTEBOOK_DRAG_TYPE, notebookId)
+    event.dataTransfer.effectAllowed = 'move'
+    setDraggingNotebookId(notebookId)
+  }
+
+  const handleNotebookDragEnd = () => {
+    setDraggingNotebookId(null)
+    setDropTarget(null)
+  }
+
+  const renderNameInput = (depth: number) => (
+    <form
+      className="py-1 pr-1"
+      style={{ paddingLeft: `${depth * 12 + 8}px` }}
+      onSubmit={(event) => {
+        event.preventDefault()
+        submitEditing()
+      }}
+    >
+      <Input
+        autoFocus
+        value={draftName}
+        maxLength={MAX_NOTEBOOK_NAME_LENGTH}
+        placeholder="노트북 이름"
+        disabled={isPending}
+        aria-label="노트북 이름"
+        className="h-8"
+        onChange={(event) => setDraftName(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Escape') cancelEditing()
+        }}
+        onBlur={() => {
+          if (!draftName.trim()) cancelEditing()
+        }}
+      />
+    </form>
+  )
+
+  const renderNode = (node: NotebookNode) => {
+    const isExpanded = expandedIds.has(node.id)
+    const isSelected = currentScope === node.id
+    const isRenaming = editing?.type === 'rename' && editing.notebookId === node.id
+    const isCreatingChild = editing?.type === 'create' && editing.parentId === node.id
+    const FolderIcon = isExpanded && node.children.length > 0 ? FolderOpen : Folder
+
+    return (
+      <li key={node.id}>
+        {isRenaming ? (
+          renderNameInput(node.depth)
+        ) : (
+          <div
+            draggable={!isPending}
+            onDragStart={(event) => handleNotebookDragStart(event, node.id)}
+            onDragEnd={handleNotebookDragEnd}
+            onDragOver={(event) => handleDragOver(event, node.id)}
+            onDragLeave={(event) => handleDragLeave(event, node.id)}
+            onDrop={(event) => handleDrop(event, node.id)}
+            className={cn(
+              'group flex items-center gap-1 rounded-md pr-1 text-sm transition-colors',
+              isSelected ? 'bg-gray-100 font-medium dark:bg-gray-800' : 'hover:bg-gray-50 dark:hover:bg-gray-900',
+              dropTarget === node.id && 'ring-2 ring-blue-500',
+              draggingNotebookId === node.id && 'opacity-50'
+            )}
+            style={{ paddingLeft: `${node.depth * 12}px` }}
+          >
+            <button
+              type="button"
+              onClick={() => toggleExpanded(node.id)}
+              className={cn('p-1 text-gray-400', node.children.length === 0 && 'invisible')}
+              aria-label={isExpanded ? '접기' : '펼치기'}
+              aria-expanded={isExpanded}
+            >
+              {isExpanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+            </button>
+            <button
+              type="button"
+              onClick={() => navigate(node.id)}
+              className="flex min-w-0 flex-1 items-center gap-2 py-1.5 text-left"
+              aria-current={isSelected ? 'page' : undefined}
+            >
+              <FolderIcon className="h-4 w-4 shrink-0 text-gray-500" />
+              <span className="truncate">{node.name}</span>
+              <span className="ml-auto text-xs text-gray-400">{node.totalNoteCount}</span>
+            </button>
+            <div className="hidden items-center group-hover:flex group-focus-within:flex">
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => startCreate(node.id)} disabled={isPending}>
+                <FolderPlus className="h-3.5 w-3.5" />
+                <span className="sr-only">하위 노트북 만들기</span>
+              </Button>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => startRename(node)} disabled={isPending}>
+                <Pencil className="h-3.5 w-3.5" />
+                <span className="sr-only">이름 변경</span>
+              </Button>
+              <DeleteNotebookDialog
+                notebookId={node.id}
+                notebookName={node.name}
+                noteCount={node.totalNoteCount}
+                hasChildren={node.children.length > 0}
+                onDeleteSuccess={() => handleDeleteSuccess(node)}
+              >
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
+                  disabled={isPending}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">노트북 삭제</span>
+                </Button>
+              </DeleteNotebookDialog>
+            </div>
+          </div>
+        )}
+
+        {isExpanded && (node.children.length > 0 || isCreatingChild) && (
+          <ul>
+            {node.children.map(renderNode)}
+            {isCreatingChild && <li>{renderNameInput(node.depth + 1)}</li>}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <nav aria-label="노트북" className="space-y-1">
+      <div className="mb-2 flex items-center justify-between px-2">
+        <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">노트북</span>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startCreate(null)} disabled={isPending}>
+          <FolderPlus className="h-4 w-4" />
+          <span className="sr-only">새 노트북</span>
+        </Button>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => navigate(undefined)}
+        className={cn(
+          'flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors',
+          currentScope === undefined ? 'bg-gray-100 font-medium dark:bg-gray-800' : 'hover:bg-gray-50 dark:hover:bg-gray-900'
+        )}
+        aria-current={currentScope === undefined ? 'page' : undefined}
+      >
+        <Library className="h-4 w-4 text-gray-500" />
+        모든 노트
+        <span className="ml-auto text-xs text-gray-400">{totalCount}</span>
+      </button>
+
+      <button
+        type="button"
+        onClick={() => navigate(null)}
+        onDragOver={(event) => handleDragOver(event, 'inbox')}
+        onDragLeave={(event) => handleDragLeave(event, 'inbox')}
+        onDrop={(event) => handleDrop(event, 'inbox')}
+        className={cn(
+          'flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors',
+          currentScope === null ? 'bg-gray-100 font-medium dark:bg-gray-800' : 'hover:bg-gray-50 dark:hover:bg-gray-900',
+          dropTarget === 'inbox' && 'ring-2 ring-blue-500'
+        )}
+        aria-current={currentScope === null ? 'page' : undefined}
+      >
+        <Inbox className="h-4 w-4 text-gray-500" />
+        미분류
+        <span className="ml-auto text-xs text-gray-400">{tree.inboxCount}</span>
+      </button>
+
+      <ul className="pt-1">
+        {nodes.map(renderNode)}
+        {editing?.type === 'create' && editing.parentId === null && <li>{renderNameInput(0)}</li>}
+      </ul>
+
+      {nodes.length === 0 && editing === null && (
+        <p className="px-2 py-1 text-xs text-gray-500 dark:text-gray-400">
+          노트북을 만들어 노트를 정리해보세요.
+        </p>
+      )}
+
+      {nodes.length > 0 && (
+        <p className="px-2 pt-2 text-xs text-gray-400">
+          노트 카드나 노트북을 끌어다 놓아 옮길 수 있습니다.
+        </p>
+      )}
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 border border-destructive/20 p-2" role="alert">
+          <p className="text-xs text-destructive">{error}</p>
+        </div>
+      )}
+    </nav>
+  )
+}
@@ -0,0 +1,161 @@
+// components/notes/audio-note-recorder.tsx
+// 음성 메모 녹음/업로드 컴포넌트
+// 실시간 음성 입력을 쓸 수 없는 브라우저에서도 녹음하거나 오디오 파일을 올려 전사와 요약이 포함된 노트를 만듦
+// 관련 파일: hooks/use-audio-recorder.ts, hooks/use-voice-note-upload.ts, app/notes/new/page.tsx
+
+'use client'
+
+import { useEffect, useMemo, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import { Mic, Square, Upload, RotateCcw, Loader2Icon, FileAudio } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ProgressBar } from '@/components/ai/progress-bar'
+import { useAudioRecorder } from '@/hooks/use-audio-recorder'
+import { useVoiceNoteUpload } from '@/hooks/use-voice-note-upload'
+import { AUDIO_ACCEPT, MAX_AUDIO_UPLOAD_BYTES, MAX_RECORDING_MS, formatRecordingDuration } from '@/lib/audio/upload'
+
+export function AudioNoteRecorder() {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { isSupported, status, elapsedMs, recording, error, start, stop, reset } = useAudioRecorder()
+  const { state, isUploading, upload, reset: resetUpload } = useVoiceNoteUpload()
+
+  // 녹음 미리듣기 URL (녹음이 바뀌면 이전 URL 해제)
+  const previewUrl = useMemo(() => (recording ? URL.createObjectURL(recording.blob) : null), [recording])
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl)
+    }
+  }, [previewUrl])
+
+  const openNote = (noteId: string) => {
+    router.push(`/notes/${noteId}`)
+    router.refresh()
+  }
+
+  const handleStart = () => {
+    resetUpload()
+    start()
+  }
+
+  const handleUploadRecording = async () => {
+    if (!recording) return
+    const result = await upload(recording.blob, recording.durationMs)
+    if (result) openNote(result.noteId)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    reset()
+    const result = await upload(file)
+    if (inputRef.current) inputRef.current.value = ''
+    if (result) openNote(result.noteId)
+  }
+
+  const handleReset = () => {
+    reset()
+    resetUpload()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileAudio className="h-5 w-5" />
+          녹음으로 노트 만들기
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          녹음하거나 오디오 파일(최대 {MAX_AUDIO_UPLOAD_BYTES / 1024 / 1024}MB)을 올리면 서버에서 전사하여
+          요약이 포함된 새 노트를 만듭니다. 실시간 음성 입력을 지원하지 않는 브라우저에서도 사용할 수 있습니다.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {status === 'recording' ? (
+            <Button type="button" variant="outline" onClick={stop} className="flex items-center gap-2">
+              <Square className="h-4 w-4" />
+              녹음 중지
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleStart}
+              disabled={!isSupported || status === 'requesting' || isUploading}
+              title={isSupported === false ? '이 브라우저는 녹음을 지원하지 않습니다. 오디오 파일을 올려주세요.' : undefined}
+              className="flex items-center gap-2"
+            >
+              {status === 'requesting' ? <Loader2Icon className="h-4 w-4 animate-spin" /> : <Mic className="h-4 w-4" />}
+              {recording ? '다시 녹음' : '녹음 시작'}
+            </Button>
+          )}
+
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => inputRef.current?.click()}
+            disabled={status === 'recording' || isUploading}
+            className="flex items-center gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            오디오 파일 선택
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={AUDIO_ACCEPT}
+            onChange={handleFileChange}
+            className="hidden"
+            aria-label="업로드할 오디오 파일"
+          />
+
+          {status === 'recording' && (
+            <span className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400" aria-live="polite">
+              <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" />
+              녹음 중 {formatRecordingDuration(elapsedMs)} / {formatRecordingDuration(MAX_RECORDING_MS)}
+            </span>
+          )}
+        </div>
+
+        {recording && previewUrl && (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+              <span>녹음 {formatRecordingDuration(recording.durationMs)}</span>
+              <button
+                type="button"
+                onClick={handleReset}
+                disabled={isUploading}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+              >
+                <RotateCcw className="h-3 w-3" />
+                지우기
+              </button>
+            </div>
+            <audio controls src={previewUrl} className="w-full" />
+            <Button type="button" onClick={handleUploadRecording} disabled={isUploading} className="flex items-center gap-2">
+              {isUploading ? <Loader2Icon className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              {isUploading ? '노트 만드는 중...' : '전사해서 노트 만들기'}
+            </Button>
+          </div>
+        )}
+
+        {state.status === 'loading' && (
+          <ProgressBar progress={state.progress} message={state.message} animated={false} />
+        )}
+
+        {state.status === 'success' && (
+          <p className="text-sm text-green-700 dark:text-green-400" aria-live="polite">{state.message}</p>
+        )}
+
+        {(error || state.status === 'error') && (
+          <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3">
+            <p className="text-sm text-destructive">{error ?? state.error}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,98 @@
+// components/notes/backlinks-section.tsx
+// 백링크 섹션 컴포넌트
+// 현재 노트를 [[노트 제목]]으로 링크한 다른 노트와 링크가 있는 문장을 보여주고 바로 이동할 수 있게 함
+// 관련 파일: lib/notes/link-actions.ts, app/notes/[id]/page.tsx, components/notes/related-notes-section.tsx
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Link2, FileText, RefreshCw } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { getBacklinks } from '@/lib/notes/link-actions'
+import type { BacklinkNote } from '@/lib/notes/types'
+
+interface BacklinksSectionProps {
+  noteId: string
+  noteTitle: string
+}
+
+export function BacklinksSection({ noteId, noteTitle }: BacklinksSectionProps) {
+  const [backlinks, setBacklinks] = useState<BacklinkNote[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadBacklinks = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setBacklinks(await getBacklinks(noteId))
+    } catch (error) {
+      console.error('백링크 로드 실패:', error)
+      setError('백링크를 불러올 수 없습니다.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [noteId])
+
+  useEffect(() => {
+    loadBacklinks()
+  }, [loadBacklinks])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <Link2 className="h-4 w-4" />
+            백링크
+            {!isLoading && !error && backlinks.length > 0 && (
+              <span className="text-xs font-normal text-gray-500">{backlinks.length}</span>
+            )}
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadBacklinks}
+            disabled={isLoading}
+            aria-label="백링크 새로고침"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <div className="h-4 w-2/3 bg-gray-200 rounded animate-pulse" />
+            <div className="h-4 w-1/2 bg-gray-200 rounded animate-pulse" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : backlinks.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            아직 이 노트를 링크한 노트가 없습니다. 다른 노트에서 <code>[[{noteTitle}]]</code>로 링크할 수 있습니다.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {backlinks.map(backlink => (
+              <li key={backlink.id}>
+                <Link
+                  href={`/notes/${backlink.id}`}
+                  className="flex min-w-0 items-center gap-2 text-sm text-blue-600 hover:underline"
+                >
+                  <FileText className="h-4 w-4 flex-shrink-0" />
+                  <span className="truncate">{backlink.title}</span>
+                </Link>
+                {backlink.context && (
+                  <p className="mt-1 pl-6 text-xs text-gray-500 line-clamp-2">{backlink.context}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
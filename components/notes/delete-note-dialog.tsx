@@ -1,6 +1,6 @@
 // components/notes/delete-note-dialog.tsx
 // 노트 삭제 확인 다이얼로그 컴포넌트
-// 사용자가 노트를 삭제하기 전 확인을 받는 모달 다이얼로그
+// 사용자가 노트를 휴지통으로 이동하기 전 확인을 받는 모달 다이얼로그
 // 관련 파일: components/ui/dialog.tsx, components/ui/button.tsx, lib/notes/actions.ts
 
 'use client'
@@ -87,8 +87,8 @@ export function DeleteNoteDialog({
           <DialogDescription>
             <strong>&ldquo;{noteTitle}&rdquo;</strong> 노트를 삭제하시겠습니까?
             <br />
-            <span className="text-destructive font-medium">
-              이 작업은 되돌릴 수 없습니다.
+            <span className="text-muted-foreground">
+              삭제한 노트는 휴지통으로 이동하며, 보관 기간 동안 복원할 수 있습니다.
             </span>
           </DialogDescription>
         </DialogHeader>
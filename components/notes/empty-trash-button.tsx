@@ -0,0 +1,98 @@
+// components/notes/empty-trash-button.tsx
+// 휴지통 비우기 버튼 컴포넌트
+// 확인 다이얼로그를 거쳐 휴지통의 모든 노트를 영구 삭제
+// 관련 파일: app/notes/trash/page.tsx, lib/notes/trash-actions.ts
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Trash2Icon, Loader2Icon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { emptyTrash } from '@/lib/notes/trash-actions'
+
+interface EmptyTrashButtonProps {
+  count: number
+}
+
+export function EmptyTrashButton({ count }: EmptyTrashButtonProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isEmptying, setIsEmptying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleEmpty = async () => {
+    try {
+      setIsEmptying(true)
+      setError(null)
+      await emptyTrash()
+      setIsOpen(false)
+      router.refresh()
+    } catch (error) {
+      console.error('휴지통 비우기 오류:', error)
+      setError('휴지통 비우기에 실패했습니다. 다시 시도해주세요.')
+    } finally {
+      setIsEmptying(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" className="flex items-center gap-2" disabled={count === 0}>
+          <Trash2Icon className="w-4 h-4" />
+          휴지통 비우기
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2Icon className="h-5 w-5 text-destructive" />
+            휴지통 비우기
+          </DialogTitle>
+          <DialogDescription>
+            휴지통에 있는 노트 {count}개를 모두 영구 삭제하시겠습니까?
+            <br />
+            <span className="text-destructive font-medium">
+              이 작업은 되돌릴 수 없습니다.
+            </span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isEmptying}>
+            취소
+          </Button>
+          <Button variant="destructive" onClick={handleEmpty} disabled={isEmptying}>
+            {isEmptying ? (
+              <>
+                <Loader2Icon className="h-4 w-4 animate-spin" />
+                삭제 중...
+              </>
+            ) : (
+              <>
+                <Trash2Icon className="h-4 w-4" />
+                모두 영구 삭제
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
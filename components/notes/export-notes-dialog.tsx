@@ -0,0 +1,161 @@
+// components/notes/export-notes-dialog.tsx
+// 노트 내보내기 다이얼로그 컴포넌트
+// 내보낼 형식(JSON/CSV/마크다운)을 고르고 진행률을 확인하며 노트 하나 또는 계정 전체를 다운로드
+// 관련 파일: hooks/use-notes-export.ts, lib/export/formats.ts, app/notes/page.tsx, components/notes/note-page-actions.tsx
+
+'use client'
+
+import { useState } from 'react'
+import { DownloadIcon, Loader2Icon, FileJson, FileSpreadsheet, FileText } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { ProgressBar } from '@/components/ai/progress-bar'
+import { useNotesExport } from '@/hooks/use-notes-export'
+import { cn } from '@/lib/utils'
+import type { ExportFormat } from '@/lib/export/types'
+
+interface ExportNotesDialogProps {
+  // 지정하면 해당 노트만 내보냄 (미지정 시 계정 전체)
+  noteId?: string
+  noteTitle?: string
+  children: React.ReactNode
+}
+
+const FORMAT_OPTIONS: Array<{
+  format: ExportFormat
+  label: string
+  description: string
+  singleDescription: string
+  icon: typeof FileJson
+}> = [
+  {
+    format: 'markdown',
+    label: '마크다운',
+    description: '노트별 .md 파일을 ZIP으로 묶음 (태그·요약은 front matter)',
+    singleDescription: '.md 파일 (태그·요약은 front matter)',
+    icon: FileText
+  },
+  {
+    format: 'json',
+    label: 'JSON',
+    description: '노트, 요약, 태그 전체 데이터 (백업용)',
+    singleDescription: '노트, 요약, 태그 전체 데이터',
+    icon: FileJson
+  },
+  {
+    format: 'csv',
+    label: 'CSV',
+    description: '노트 목록 메타데이터 (스프레드시트용)',
+    singleDescription: '노트 메타데이터 (스프레드시트용)',
+    icon: FileSpreadsheet
+  }
+]
+
+export function ExportNotesDialog({ noteId, noteTitle, children }: ExportNotesDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>('markdown')
+  const { state, isExporting, exportNotes, cancel, reset } = useNotesExport()
+  const isSingleNote = noteId !== undefined
+
+  const handleExport = async () => {
+    await exportNotes(format, isSingleNote ? { noteIds: [noteId], noteTitle: noteTitle ?? '' } : {})
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      cancel()
+      reset()
+    }
+    setIsOpen(open)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <DownloadIcon className="h-5 w-5" />
+            {isSingleNote ? '노트 내보내기' : '전체 노트 내보내기'}
+          </DialogTitle>
+          <DialogDescription>
+            {isSingleNote
+              ? <><strong>&ldquo;{noteTitle}&rdquo;</strong> 노트를 파일로 저장합니다.</>
+              : '휴지통을 제외한 모든 노트를 요약, 태그와 함께 파일로 저장합니다.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2" role="radiogroup" aria-label="내보내기 형식">
+          {FORMAT_OPTIONS.map(option => {
+            const Icon = option.icon
+            return (
+              <button
+                key={option.format}
+                type="button"
+                role="radio"
+                aria-checked={format === option.format}
+                onClick={() => setFormat(option.format)}
+                disabled={isExporting}
+                className={cn(
+                  'flex w-full items-start gap-3 rounded-md border p-3 text-left transition-colors',
+                  format === option.format ? 'border-blue-600 bg-blue-50 dark:bg-blue-950' : 'hover:bg-muted'
+                )}
+              >
+                <Icon className="mt-0.5 h-5 w-5 flex-shrink-0" />
+                <span>
+                  <span className="block text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {isSingleNote ? option.singleDescription : option.description}
+                  </span>
+                </span>
+              </button>
+            )
+          })}
+        </div>
+
+        {state.status === 'loading' && (
+          <ProgressBar progress={state.progress} message={state.message} animated={false} />
+        )}
+
+        {state.status === 'success' && (
+          <p className="text-sm text-green-600" aria-live="polite">{state.message}</p>
+        )}
+
+        {state.status === 'error' && (
+          <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3">
+            <p className="text-sm text-destructive">{state.error}</p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {isExporting ? '취소' : '닫기'}
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <>
+                <Loader2Icon className="h-4 w-4 animate-spin" />
+                내보내는 중...
+              </>
+            ) : (
+              <>
+                <DownloadIcon className="h-4 w-4" />
+                내보내기
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,38 @@
+// components/notes/favorites-filter.tsx
+// 노트 목록 즐겨찾기 필터 토글 버튼 컴포넌트
+// 클릭으로 즐겨찾기한 노트만 보기를 켜고 끄며, 검색/태그/노트북 필터와 함께 적용
+// 관련 파일: app/notes/page.tsx, lib/notes/favorite-params.ts, components/notes/note-flag-buttons.tsx
+
+'use client'
+
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Star } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { buildFavoritesFilterParams } from '@/lib/notes/favorite-params'
+import { cn } from '@/lib/utils'
+
+interface FavoritesFilterProps {
+  active: boolean
+}
+
+export function FavoritesFilter({ active }: FavoritesFilterProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const handleToggle = () => {
+    const params = buildFavoritesFilterParams(searchParams, !active)
+    router.push(`/notes?${params.toString()}`)
+  }
+
+  return (
+    <Button
+      variant={active ? 'default' : 'outline'}
+      className="flex items-center gap-2"
+      onClick={handleToggle}
+      aria-pressed={active}
+    >
+      <Star className={cn('w-4 h-4', active && 'fill-current')} />
+      즐겨찾기
+    </Button>
+  )
+}
@@ -0,0 +1,144 @@
+// components/notes/import-notes-form.tsx
+// 노트 가져오기 폼 컴포넌트
+// 마크다운 파일, ZIP, Evernote ENEX, Notion 내보내기를 선택해 가져오고, 진행률과 파일별 성공/중복/실패 결과를 보여줌
+// 관련 파일: hooks/use-notes-import.ts, app/notes/import/page.tsx
+
+'use client'
+
+import { useRef, useState } from 'react'
+import Link from 'next/link'
+import { Upload, Loader2Icon, CheckCircle2, CopyIcon, XCircle } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ProgressBar } from '@/components/ai/progress-bar'
+import { useNotesImport } from '@/hooks/use-notes-import'
+import type { ImportFileResult, ImportFileStatus } from '@/lib/import/types'
+
+const STATUS_LABELS: Record<ImportFileStatus, string> = {
+  imported: '가져옴',
+  duplicate: '중복',
+  failed: '실패'
+}
+
+function StatusIcon({ status }: { status: ImportFileStatus }) {
+  if (status === 'imported') return <CheckCircle2 className="h-4 w-4 flex-shrink-0 text-green-600" />
+  if (status === 'duplicate') return <CopyIcon className="h-4 w-4 flex-shrink-0 text-yellow-600" />
+  return <XCircle className="h-4 w-4 flex-shrink-0 text-red-600" />
+}
+
+function ImportResultItem({ result }: { result: ImportFileResult }) {
+  return (
+    <li className="flex items-start gap-2 text-sm">
+      <StatusIcon status={result.status} />
+      <div className="min-w-0 flex-1">
+        <p className="truncate font-medium" title={result.fileName}>{result.fileName}</p>
+        {result.status === 'failed' ? (
+          <p className="text-xs text-red-600">{result.error}</p>
+        ) : result.noteId ? (
+          <Link href={`/notes/${result.noteId}`} className="text-xs text-blue-600 hover:underline">
+            {result.status === 'duplicate' ? '같은 내용의 노트 보기' : result.title}
+          </Link>
+        ) : (
+          <p className="text-xs text-gray-500">같은 내용의 파일이 이미 포함되어 있습니다.</p>
+        )}
+      </div>
+      <span className="flex-shrink-0 text-xs text-gray-500">{STATUS_LABELS[result.status]}</span>
+    </li>
+  )
+}
+
+export function ImportNotesForm() {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([])
+  const { state, results, isImporting, importFiles, reset } = useNotesImport()
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSelectedFiles(Array.from(e.target.files ?? []))
+    reset()
+  }
+
+  const handleImport = async () => {
+    if (selectedFiles.length === 0) return
+    await importFiles(selectedFiles)
+    setSelectedFiles([])
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  const counts = {
+    imported: results.filter(result => result.status === 'imported').length,
+    duplicate: results.filter(result => result.status === 'duplicate').length,
+    failed: results.filter(result => result.status === 'failed').length
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Upload className="h-5 w-5" />
+            파일 선택
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            마크다운(.md) 파일, 마크다운 폴더를 압축한 ZIP 파일, Evernote 내보내기(.enex),
+            Notion 내보내기(Markdown &amp; CSV 형식의 ZIP)를 선택하세요.
+            front matter의 title, tags, created_at 값이 있으면 노트 제목, 태그, 작성일로 사용합니다.
+            이미 있는 노트와 본문이 같은 파일은 중복으로 건너뜁니다.
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".md,.markdown,.zip,.enex"
+            multiple
+            onChange={handleFileChange}
+            disabled={isImporting}
+            className="block w-full text-sm file:mr-4 file:rounded-md file:border-0 file:bg-gray-100 file:px-4 file:py-2 file:text-sm file:font-medium hover:file:bg-gray-200"
+            aria-label="가져올 파일"
+          />
+          <Button onClick={handleImport} disabled={isImporting || selectedFiles.length === 0}>
+            {isImporting ? (
+              <>
+                <Loader2Icon className="h-4 w-4 animate-spin" />
+                가져오는 중...
+              </>
+            ) : (
+              <>
+                <Upload className="h-4 w-4" />
+                {selectedFiles.length > 0 ? `${selectedFiles.length}개 파일 가져오기` : '가져오기'}
+              </>
+            )}
+          </Button>
+
+          {state.status === 'loading' && (
+            <ProgressBar progress={state.progress} message={state.message} animated={false} />
+          )}
+
+          {state.status === 'error' && (
+            <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3">
+              <p className="text-sm text-destructive">{state.error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {results.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">가져오기 결과</CardTitle>
+            <p className="text-sm text-gray-600 dark:text-gray-400" aria-live="polite">
+              가져옴 {counts.imported}개 · 중복 {counts.duplicate}개 · 실패 {counts.failed}개
+            </p>
+          </CardHeader>
+          <CardContent>
+            <ul className="max-h-96 space-y-3 overflow-y-auto">
+              {results.map((result, index) => (
+                <ImportResultItem key={`${result.fileName}-${index}`} result={result} />
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -1,19 +1,28 @@
 // components/notes/markdown-editor.tsx
 // 마크다운 에디터 컴포넌트
-// 마크다운 문법을 지원하는 리치 텍스트 에디터 제공
-// 관련 파일: components/notes/note-editor.tsx, lib/notes/actions.ts
+// 마크다운 문법과 음성 입력, [[노트 제목]] 위키 링크(자동완성, 미리보기 링크)를 지원하는 리치 텍스트 에디터 제공
+// 관련 파일: components/notes/note-editor.tsx, lib/notes/actions.ts, components/notes/voice-input-control.tsx, hooks/use-wiki-link-autocomplete.ts
 
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import dynamic from 'next/dynamic'
+import Link from 'next/link'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { AutoSaveIndicator, SaveStatus } from './auto-save-indicator'
 import { AITextGenerator } from '@/components/ai/ai-text-generator'
+import { RevisionHistory } from './revision-history'
+import { VoiceInputControl } from './voice-input-control'
+import { WikiLinkSuggestions } from './wiki-link-suggestions'
 import { updateNote } from '@/lib/notes/actions'
+import { resolveWikiLinks } from '@/lib/notes/link-actions'
+import { extractWikiLinkTitles, insertWikiLink, renderWikiLinks } from '@/lib/notes/wiki-links'
+import { useWikiLinkAutocomplete } from '@/hooks/use-wiki-link-autocomplete'
+import type { NoteTitleSuggestion } from '@/lib/notes/types'
 import { Note } from '@/lib/db/schema/notes'
-import { Save, Loader2, Eye, Edit3, Sparkles } from 'lucide-react'
+import { insertTranscript, type TextSelection } from '@/lib/voice/speech-recognition'
+import { Save, Loader2, Eye, Edit3, Sparkles, History } from 'lucide-react'
 
 // 동적 임포트로 마크다운 에디터 로드 (SSR 방지)
 const MDEditor = dynamic(
@@ -30,6 +39,14 @@ interface MarkdownEditorProps {
 const DEBOUNCE_DELAY = 3000 // 3초
 const MAX_RETRY_ATTEMPTS = 3
 
+// 미리보기의 노트 링크는 페이지 이동 없이 클라이언트 라우팅으로 열기
+function PreviewLink({ href, children }: React.AnchorHTMLAttributes<HTMLAnchorElement>) {
+  if (href?.startsWith('/notes/')) {
+    return <Link href={href} className="text-blue-600 dark:text-blue-400">{children}</Link>
+  }
+  return <a href={href}>{children}</a>
+}
+
 export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps) {
   const [title, setTitle] = useState(note.title)
   const [content, setContent] = useState(note.content || '')
@@ -38,21 +55,38 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
   const [errorMessage, setErrorMessage] = useState<string>('')
   const [isPreviewMode, setIsPreviewMode] = useState(false)
   const [showAIGenerator, setShowAIGenerator] = useState(false)
+  // 미리보기에서 링크로 바꿀 위키 링크 대상 (제목 비교 키 → 노트 ID)
+  const [linkTargets, setLinkTargets] = useState<Record<string, string>>({})
   
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null)
   const retryCountRef = useRef(0)
   const isInitialLoadRef = useRef(true)
+  // 서버에 저장된 제목과 본문 (이 값과 다를 때만 자동 저장)
+  const savedValuesRef = useRef({ title: note.title, content: note.content || '' })
+  // 마지막으로 확정된 제목 (제목 입력을 마친 저장에서만 이 제목을 링크한 다른 노트의 [[제목]]을 변경)
+  const committedTitleRef = useRef(note.title)
+  // 음성 입력을 삽입할 본문 커서 위치
+  const selectionRef = useRef<TextSelection | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null)
+
+  const wikiLinkAutocomplete = useWikiLinkAutocomplete({ noteId: note.id })
 
-  const performSave = useCallback(async () => {
+  const performSave = useCallback(async ({ commitTitle = false }: { commitTitle?: boolean } = {}) => {
     try {
       console.log('마크다운 자동 저장 시작:', { noteId: note.id, title, content })
       setSaveStatus('saving')
       setErrorMessage('')
 
+      // 본문은 그대로 저장 (끝 공백만 다른 본문이 변경으로 처리되어 요약과 태그가 삭제되지 않도록)
       const updatedNote = await updateNote(note.id, {
         title: title.trim() || '제목 없음',
-        content: content.trim()
-      })
+        content
+      }, commitTitle ? { previousTitle: committedTitleRef.current } : undefined)
+      savedValuesRef.current = { title, content }
+
+      if (commitTitle) {
+        committedTitleRef.current = updatedNote.title
+      }
 
       console.log('마크다운 자동 저장 성공:', updatedNote)
       setSaveStatus('saved')
@@ -75,7 +109,7 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
         retryCountRef.current += 1
         console.log(`마크다운 자동 저장 재시도 ${retryCountRef.current}/${MAX_RETRY_ATTEMPTS}`)
         setTimeout(() => {
-          performSave()
+          performSave({ commitTitle })
         }, 3000) // 3초 후 재시도
       }
     }
@@ -100,11 +134,33 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
       return
     }
     
-    // 제목이나 내용이 변경된 경우에만 자동 저장 트리거
-    if (title !== note.title || content !== (note.content || '')) {
+    // 저장된 제목이나 내용과 다른 경우에만 자동 저장 트리거
+    if (title !== savedValuesRef.current.title || content !== savedValuesRef.current.content) {
       triggerAutoSave()
     }
-  }, [title, content, note.title, note.content, triggerAutoSave])
+  }, [title, content, triggerAutoSave])
+
+  // 미리보기로 전환하면 본문의 위키 링크 대상 노트 조회
+  useEffect(() => {
+    if (!isPreviewMode) return
+
+    const titles = extractWikiLinkTitles(content)
+    if (titles.length === 0) {
+      setLinkTargets({})
+      return
+    }
+
+    let cancelled = false
+    resolveWikiLinks(titles, note.id)
+      .then(targets => {
+        if (!cancelled) setLinkTargets(targets)
+      })
+      .catch(error => console.error('위키 링크 조회 실패:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [isPreviewMode, content, note.id])
 
   // 컴포넌트 언마운트 시 타이머 정리
   useEffect(() => {
@@ -119,6 +175,24 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
     setTitle(e.target.value)
   }
 
+  // 제목 입력을 마치면(포커스 해제) 바로 저장하면서 제목 변경을 확정
+  const handleTitleCommit = () => {
+    if ((title.trim() || '제목 없음') === committedTitleRef.current) return
+
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current)
+    }
+    performSave({ commitTitle: true })
+  }
+
+  const handleTitleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // 한글 조합 중의 Enter는 무시
+    if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault()
+      e.currentTarget.blur()
+    }
+  }
+
   const handleContentChange = (value?: string) => {
     setContent(value || '')
   }
@@ -129,8 +203,8 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
       clearTimeout(debounceTimerRef.current)
     }
     
-    // 즉시 저장 실행
-    await performSave()
+    // 즉시 저장 실행 (직접 저장은 제목 변경도 확정)
+    await performSave({ commitTitle: true })
   }
 
   const togglePreviewMode = () => {
@@ -148,6 +222,79 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
     setShowAIGenerator(false)
   }
 
+  const handleVoiceTranscript = (transcript: string) => {
+    // 본문이 바뀌면 기존 자동 저장 흐름(updateNote)으로 저장됨
+    const result = insertTranscript(content, transcript, selectionRef.current)
+    selectionRef.current = { start: result.cursor, end: result.cursor }
+    setContent(result.value)
+  }
+
+  const handleContentSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart, selectionEnd } = e.currentTarget
+    textareaRef.current = e.currentTarget
+    selectionRef.current = { start: selectionStart, end: selectionEnd }
+
+    // 커서 앞에 [[ 를 입력 중이면 노트 제목 자동완성 표시
+    if (selectionStart === selectionEnd) {
+      wikiLinkAutocomplete.updateTrigger(value, selectionStart)
+    } else {
+      wikiLinkAutocomplete.close()
+    }
+  }
+
+  const handleWikiLinkSelect = (suggestion: NoteTitleSuggestion) => {
+    const { trigger } = wikiLinkAutocomplete
+    if (!trigger) return
+
+    const result = insertWikiLink(content, trigger, suggestion.title)
+    selectionRef.current = { start: result.cursor, end: result.cursor }
+    setContent(result.value)
+    wikiLinkAutocomplete.close()
+
+    // 값이 반영된 뒤 링크 뒤로 커서 이동
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(result.cursor, result.cursor)
+    })
+  }
+
+  // 자동완성이 열려 있으면 에디터 기본 단축키(Enter 목록 이어쓰기, Tab 들여쓰기)보다 먼저 처리
+  const handleContentKeyDownCapture = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { isOpen, suggestions, activeIndex, moveActive, close } = wikiLinkAutocomplete
+    if (!isOpen) return
+
+    const handled = ['ArrowDown', 'ArrowUp', 'Enter', 'Tab', 'Escape'].includes(e.key)
+    if (!handled) return
+
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (e.key === 'ArrowDown') {
+      moveActive(1)
+    } else if (e.key === 'ArrowUp') {
+      moveActive(-1)
+    } else if (e.key === 'Escape') {
+      close()
+    } else {
+      handleWikiLinkSelect(suggestions[activeIndex])
+    }
+  }
+
+  const handleRevisionRestored = (restoredNote: Note) => {
+    // 대기 중인 자동 저장이 복원 결과를 덮어쓰지 않도록 취소
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current)
+    }
+
+    // 복원은 서버에서 제목 변경까지 확정된 저장이므로 복원 결과로 다시 자동 저장하지 않음
+    committedTitleRef.current = restoredNote.title
+    savedValuesRef.current = { title: restoredNote.title, content: restoredNote.content || '' }
+    setTitle(restoredNote.title)
+    setContent(restoredNote.content || '')
+    setSaveStatus('saved')
+    setLastSaved(new Date())
+  }
+
   const hasChanges = title !== note.title || content !== (note.content || '')
 
   return (
@@ -157,6 +304,8 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
         <Input
           value={title}
           onChange={handleTitleChange}
+          onBlur={handleTitleCommit}
+          onKeyDown={handleTitleKeyDown}
           placeholder="제목을 입력하세요"
           className="text-2xl font-semibold border-none shadow-none p-0 focus-visible:ring-0"
         />
@@ -169,6 +318,22 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
             마크다운 에디터
           </h3>
           <div className="flex items-center gap-2">
+            <RevisionHistory
+              noteId={note.id}
+              currentTitle={title}
+              currentContent={content}
+              onRestored={handleRevisionRestored}
+            >
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <History className="w-4 h-4" />
+                버전 기록
+              </Button>
+            </RevisionHistory>
+            <VoiceInputControl onTranscript={handleVoiceTranscript} />
             <Button
               onClick={toggleAIGenerator}
               variant="outline"
@@ -199,18 +364,35 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
           </div>
         </div>
         
-        <div className="border rounded-lg overflow-hidden">
-          <MDEditor
-            value={content}
-            onChange={handleContentChange}
-            data-color-mode="light"
-            height={400}
-            preview={isPreviewMode ? 'preview' : 'edit'}
-            hideToolbar={false}
-            textareaProps={{
-              placeholder: '마크다운 문법을 사용하여 내용을 작성하세요...\n\n예시:\n# 제목\n## 부제목\n\n**굵은 글씨** *기울임* \n\n- 목록 항목 1\n- 목록 항목 2\n\n1. 번호 목록 1\n2. 번호 목록 2\n\n```코드 블록```\n\n[링크](https://example.com)',
-            }}
-          />
+        <div className="relative">
+          <div className="border rounded-lg overflow-hidden">
+            <MDEditor
+              // 미리보기에서는 편집할 수 없으므로 위키 링크를 노트 링크로 바꾼 본문을 표시
+              value={isPreviewMode ? renderWikiLinks(content, linkTargets) : content}
+              onChange={handleContentChange}
+              data-color-mode="light"
+              height={400}
+              preview={isPreviewMode ? 'preview' : 'edit'}
+              hideToolbar={false}
+              previewOptions={{ components: { a: PreviewLink } }}
+              textareaProps={{
+                onSelect: handleContentSelect,
+                onKeyDownCapture: handleContentKeyDownCapture,
+                onBlur: () => wikiLinkAutocomplete.close(),
+                placeholder: '마크다운 문법을 사용하여 내용을 작성하세요...\n\n예시:\n# 제목\n## 부제목\n\n**굵은 글씨** *기울임* \n\n- 목록 항목 1\n- 목록 항목 2\n\n1. 번호 목록 1\n2. 번호 목록 2\n\n```코드 블록```\n\n[링크](https://example.com)\n\n[[다른 노트 제목]]',
+              }}
+            />
+          </div>
+
+          {/* 위키 링크 자동완성 */}
+          {wikiLinkAutocomplete.isOpen && !isPreviewMode && (
+            <WikiLinkSuggestions
+              suggestions={wikiLinkAutocomplete.suggestions}
+              activeIndex={wikiLinkAutocomplete.activeIndex}
+              onSelect={handleWikiLinkSelect}
+              className="absolute bottom-3 left-3 z-10"
+            />
+          )}
         </div>
       </div>
 
@@ -239,6 +421,7 @@ export function MarkdownEditor({ note, onSave, className }: MarkdownEditorProps)
           <div><code>`코드`</code> - 인라인 코드</div>
           <div><code>```코드 블록```</code> - 코드 블록</div>
           <div><code>[링크](URL)</code> - 링크</div>
+          <div><code>[[노트 제목]]</code> - 다른 노트 링크 (<code>[[</code> 입력 시 자동완성)</div>
         </div>
       </div>
 
@@ -0,0 +1,36 @@
+// components/notes/note-audio-section.tsx
+// 노트 녹음 첨부 섹션 컴포넌트
+// 음성 메모로 만든 노트의 원본 녹음을 재생할 수 있도록 목록으로 표시
+// 관련 파일: lib/audio/attachments.ts, app/api/notes/audio/[id]/route.ts, app/notes/[id]/page.tsx
+
+import { FileAudio } from 'lucide-react'
+import { formatRecordingDuration } from '@/lib/audio/upload'
+import type { NoteAudioAttachment } from '@/lib/audio/attachments'
+
+interface NoteAudioSectionProps {
+  attachments: NoteAudioAttachment[]
+}
+
+export function NoteAudioSection({ attachments }: NoteAudioSectionProps) {
+  if (attachments.length === 0) return null
+
+  return (
+    <section className="rounded-lg border p-4" aria-label="원본 녹음">
+      <h2 className="mb-3 flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <FileAudio className="h-4 w-4" />
+        원본 녹음
+      </h2>
+      <ul className="space-y-3">
+        {attachments.map(attachment => (
+          <li key={attachment.id} className="space-y-1">
+            <audio controls preload="none" src={`/api/notes/audio/${attachment.id}`} className="w-full" />
+            <p className="text-xs text-gray-500">
+              {attachment.durationMs ? `${formatRecordingDuration(attachment.durationMs)} · ` : ''}
+              {(attachment.sizeBytes / 1024).toFixed(1)}KB
+            </p>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
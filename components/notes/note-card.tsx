@@ -1,18 +1,23 @@
 // components/notes/note-card.tsx
 // 개별 노트를 표시하는 카드 컴포넌트
-// 노트 제목, 내용 미리보기, 생성일/수정일 정보를 표시하고 삭제 기능 제공
-// 관련 파일: app/notes/page.tsx, lib/db/schema/notes.ts, components/notes/delete-note-dialog.tsx
+// 노트 제목, 내용 미리보기, 생성일/수정일 정보를 표시하고 고정/즐겨찾기 토글과 삭제 기능 제공, 사이드바 노트북으로 끌어다 놓아 이동 가능
+// 관련 파일: app/notes/page.tsx, lib/db/schema/notes.ts, components/notes/delete-note-dialog.tsx, components/notes/note-flag-buttons.tsx, components/notebooks/notebook-sidebar.tsx
 
 'use client'
 
 import Link from 'next/link'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { Trash2Icon, ExternalLinkIcon } from 'lucide-react'
 import { Note } from '@/lib/db/schema/notes'
+import type { HighlightSegment } from '@/lib/notes/search'
+import { buildTagFilterParams, parseTagsParam, toggleTag } from '@/lib/notes/tag-params'
+import { NOTE_DRAG_TYPE } from '@/lib/notebooks/tree'
 import { DeleteNoteDialog } from './delete-note-dialog'
+import { NoteFlagButtons } from './note-flag-buttons'
 
 // 동적 임포트로 마크다운 뷰어 로드 (SSR 방지)
 const MDViewer = dynamic(
@@ -22,10 +27,20 @@ const MDViewer = dynamic(
 
 interface NoteCardProps {
   note: Note
+  snippet?: HighlightSegment[] | null // 검색 결과 하이라이트 스니펫
+  tags?: string[]
 }
 
-export function NoteCard({ note }: NoteCardProps) {
+export function NoteCard({ note, snippet, tags = [] }: NoteCardProps) {
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const selectedTags = parseTagsParam(searchParams.get('tags'))
+
+  // 태그 클릭 시 현재 목록 필터에 태그 추가/제거
+  const handleTagClick = (tag: string) => {
+    const params = buildTagFilterParams(searchParams, toggleTag(selectedTags, tag))
+    router.push(`/notes?${params.toString()}`)
+  }
 
   const formatDate = (date: Date | string) => {
     const dateObj = typeof date === 'string' ? new Date(date) : date
@@ -65,8 +80,18 @@ export function NoteCard({ note }: NoteCardProps) {
     router.refresh()
   }
 
+  // 사이드바 노트북으로 옮길 수 있도록 노트 ID를 드래그 데이터로 설정
+  const handleDragStart = (event: React.DragEvent) => {
+    event.dataTransfer.setData(NOTE_DRAG_TYPE, note.id)
+    event.dataTransfer.effectAllowed = 'move'
+  }
+
   return (
-    <Card className="hover:shadow-md transition-shadow duration-200 group">
+    <Card
+      draggable
+      onDragStart={handleDragStart}
+      className="hover:shadow-md transition-shadow duration-200 group"
+    >
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between">
           <div className="flex-1 min-w-0">
@@ -83,6 +108,7 @@ export function NoteCard({ note }: NoteCardProps) {
             </CardDescription>
           </div>
           <div className="flex items-center gap-2 ml-4">
+            <NoteFlagButtons noteId={note.id} pinned={note.pinned} favorite={note.favorite} />
             <Link href={`/notes/${note.id}`}>
               <Button variant="ghost" size="sm" className="opacity-0 group-hover:opacity-100 transition-opacity">
                 <ExternalLinkIcon className="h-4 w-4" />
@@ -109,7 +135,19 @@ export function NoteCard({ note }: NoteCardProps) {
       <CardContent className="pt-0">
         <Link href={`/notes/${note.id}`} className="block">
           <div className="text-gray-600 dark:text-gray-400 line-clamp-3 leading-relaxed cursor-pointer hover:text-gray-800 dark:hover:text-gray-200 transition-colors">
-            {isMarkdown(note.content) ? (
+            {snippet ? (
+              <p>
+                {snippet.map((segment, index) => (
+                  segment.highlighted ? (
+                    <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5">
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{segment.text}</span>
+                  )
+                ))}
+              </p>
+            ) : isMarkdown(note.content) ? (
               <div className="prose prose-sm max-w-none dark:prose-invert">
                 <MDViewer 
                   source={truncateContent(note.content)} 
@@ -128,6 +166,20 @@ export function NoteCard({ note }: NoteCardProps) {
             )}
           </div>
         </Link>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-3">
+            {tags.map((tag) => (
+              <button key={tag} type="button" onClick={() => handleTagClick(tag)} aria-pressed={selectedTags.includes(tag)}>
+                <Badge
+                  variant={selectedTags.includes(tag) ? 'default' : 'secondary'}
+                  className="text-xs px-2 py-0.5 cursor-pointer"
+                >
+                  #{tag}
+                </Badge>
+              </button>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
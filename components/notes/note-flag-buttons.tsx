@@ -0,0 +1,112 @@
+// components/notes/note-flag-buttons.tsx
+// 노트 고정/즐겨찾기 토글 버튼 컴포넌트
+// 클릭 즉시 아이콘 상태를 바꾸고(낙관적 업데이트) 서버 반영에 실패하면 원래 상태로 되돌린 뒤 에러를 표시
+// 관련 파일: lib/notes/flag-actions.ts, components/notes/note-card.tsx, components/notes/note-page-actions.tsx
+
+'use client'
+
+import { useOptimistic, useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Pin, PinOff, Star } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { setNoteFavorite, setNotePinned } from '@/lib/notes/flag-actions'
+import { cn } from '@/lib/utils'
+
+type NoteFlag = 'pinned' | 'favorite'
+
+interface NoteFlagState {
+  pinned: boolean
+  favorite: boolean
+}
+
+interface NoteFlagButtonsProps extends NoteFlagState {
+  noteId: string
+  variant?: 'card' | 'page' // card: 노트 카드용 아이콘 버튼, page: 상세 페이지용 라벨 버튼
+}
+
+export function NoteFlagButtons({ noteId, pinned, favorite, variant = 'card' }: NoteFlagButtonsProps) {
+  const router = useRouter()
+  const [, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+  const [flags, setOptimisticFlags] = useOptimistic<NoteFlagState, Partial<NoteFlagState>>(
+    { pinned, favorite },
+    (state, update) => ({ ...state, ...update })
+  )
+
+  const toggle = (flag: NoteFlag) => {
+    const nextValue = !flags[flag]
+    setError(null)
+
+    startTransition(async () => {
+      setOptimisticFlags({ [flag]: nextValue })
+
+      try {
+        if (flag === 'pinned') {
+          await setNotePinned(noteId, nextValue)
+        } else {
+          await setNoteFavorite(noteId, nextValue)
+        }
+        // 고정 상태가 바뀌면 목록 순서도 바뀌므로 새로고침
+        router.refresh()
+      } catch (error) {
+        console.error('노트 상태 변경 오류:', error)
+
+        if (error instanceof Error && error.message === 'NOT_FOUND') {
+          setError('노트를 찾을 수 없습니다.')
+        } else if (error instanceof Error && error.message === 'FORBIDDEN') {
+          setError('권한이 없습니다.')
+        } else {
+          setError(flag === 'pinned' ? '고정 상태를 바꾸지 못했습니다.' : '즐겨찾기를 바꾸지 못했습니다.')
+        }
+      }
+    })
+  }
+
+  const pinLabel = flags.pinned ? '고정 해제' : '맨 위에 고정'
+  const favoriteLabel = flags.favorite ? '즐겨찾기 해제' : '즐겨찾기'
+  const PinIcon = flags.pinned && variant === 'page' ? PinOff : Pin
+
+  if (variant === 'page') {
+    return (
+      <>
+        <Button variant="outline" className="flex items-center gap-2" onClick={() => toggle('pinned')} aria-pressed={flags.pinned}>
+          <PinIcon className="w-4 h-4" />
+          {pinLabel}
+        </Button>
+        <Button variant="outline" className="flex items-center gap-2" onClick={() => toggle('favorite')} aria-pressed={flags.favorite}>
+          <Star className={cn('w-4 h-4', flags.favorite && 'fill-yellow-400 text-yellow-500')} />
+          {favoriteLabel}
+        </Button>
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+      </>
+    )
+  }
+
+  return (
+    <>
+      {error && <p className="text-xs text-destructive" role="alert">{error}</p>}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => toggle('pinned')}
+        aria-pressed={flags.pinned}
+        title={pinLabel}
+        className={cn('transition-opacity', flags.pinned ? 'text-blue-600 dark:text-blue-400' : 'opacity-0 group-hover:opacity-100')}
+      >
+        <PinIcon className={cn('h-4 w-4', flags.pinned && 'fill-current')} />
+        <span className="sr-only">{pinLabel}</span>
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => toggle('favorite')}
+        aria-pressed={flags.favorite}
+        title={favoriteLabel}
+        className={cn('transition-opacity', !flags.favorite && 'opacity-0 group-hover:opacity-100')}
+      >
+        <Star className={cn('h-4 w-4', flags.favorite && 'fill-yellow-400 text-yellow-500')} />
+        <span className="sr-only">{favoriteLabel}</span>
+      </Button>
+    </>
+  )
+}
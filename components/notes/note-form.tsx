@@ -1,11 +1,11 @@
 // components/notes/note-form.tsx
 // 노트 작성 폼 컴포넌트 (마크다운 지원)
-// 제목과 본문을 마크다운으로 입력할 수 있는 폼으로 저장/취소 기능을 제공
-// 관련 파일: app/notes/new/page.tsx, lib/notes/actions.ts, components/ui/*
+// 제목과 본문을 마크다운이나 음성으로 입력하거나 템플릿으로 채울 수 있는 폼으로 저장/취소 기능을 제공
+// 관련 파일: app/notes/new/page.tsx, lib/notes/actions.ts, components/notes/voice-input-control.tsx, components/templates/template-picker.tsx, components/ui/*
 
 'use client'
 
-import { useState } from 'react'
+import { useState, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import { Button } from '@/components/ui/button'
@@ -13,7 +13,17 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardFooter } from '@/components/ui/card'
 import { AITextGenerator } from '@/components/ai/ai-text-generator'
+import { VoiceInputControl } from './voice-input-control'
+import { TemplatePicker } from '@/components/templates/template-picker'
 import { createNote } from '@/lib/notes/actions'
+import { buildNotebookFilterParams } from '@/lib/notebooks/tree'
+import { insertTranscript, type TextSelection } from '@/lib/voice/speech-recognition'
+import {
+  applyTemplate,
+  expandTemplatePlaceholders,
+  hasTemplatePlaceholder,
+  type NoteTemplateOption
+} from '@/lib/templates/placeholders'
 import { Eye, Edit3, Sparkles } from 'lucide-react'
 
 // 동적 임포트로 마크다운 에디터 로드 (SSR 방지)
@@ -22,13 +32,22 @@ const MDEditor = dynamic(
   { ssr: false }
 )
 
-export function NoteForm() {
+interface NoteFormProps {
+  notebookId?: string // 노트를 만들 노트북 (없으면 미분류)
+  templates?: NoteTemplateOption[]
+}
+
+export function NoteForm({ notebookId, templates = [] }: NoteFormProps = {}) {
   const [title, setTitle] = useState('')
   const [content, setContent] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isPreviewMode, setIsPreviewMode] = useState(false)
   const [showAIGenerator, setShowAIGenerator] = useState(false)
+  // 적용한 템플릿 (저장할 때 본문의 {{title}}을 최종 제목으로 치환)
+  const [templateId, setTemplateId] = useState<string | null>(null)
+  // 음성 입력을 삽입할 본문 커서 위치
+  const selectionRef = useRef<TextSelection | null>(null)
   const router = useRouter()
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -37,13 +56,17 @@ export function NoteForm() {
     setError(null)
 
     try {
+      const noteTitle = title.trim() || '제목 없음'
+      const noteContent = templateId ? expandTemplatePlaceholders(content, { title: noteTitle }) : content
+
       await createNote({
-        title: title.trim() || '제목 없음',
-        content: content.trim() || ''
+        title: noteTitle,
+        content: noteContent.trim() || '',
+        notebookId
       })
       
-      // 성공 시 노트 목록으로 리다이렉트
-      router.push('/notes')
+      // 성공 시 노트 목록(노트북에 만든 경우 해당 노트북)으로 리다이렉트
+      router.push(notebookId ? `/notes?${buildNotebookFilterParams(new URLSearchParams(), notebookId).toString()}` : '/notes')
     } catch (err) {
       setError(err instanceof Error ? err.message : '노트 저장에 실패했습니다.')
     } finally {
@@ -55,6 +78,17 @@ export function NoteForm() {
     router.back()
   }
 
+  // 템플릿 선택 시 날짜 변수를 지금 시각으로 치환해 제목과 본문을 채움 (빈 노트를 고르면 입력한 내용은 유지)
+  const handleTemplateSelect = (template: NoteTemplateOption | null) => {
+    setTemplateId(template?.id ?? null)
+    if (!template) return
+
+    const applied = applyTemplate(template, new Date())
+    setTitle(applied.title)
+    setContent(applied.content)
+    selectionRef.current = null
+  }
+
   const handleContentChange = (value?: string) => {
     setContent(value || '')
   }
@@ -74,10 +108,30 @@ export function NoteForm() {
     setShowAIGenerator(false)
   }
 
+  const handleVoiceTranscript = (transcript: string) => {
+    const result = insertTranscript(content, transcript, selectionRef.current)
+    selectionRef.current = { start: result.cursor, end: result.cursor }
+    setContent(result.value)
+  }
+
+  const handleContentSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    selectionRef.current = {
+      start: e.currentTarget.selectionStart,
+      end: e.currentTarget.selectionEnd
+    }
+  }
+
   return (
     <Card className="w-full">
       <form onSubmit={handleSubmit}>
         <CardContent className="space-y-6 p-6">
+          <TemplatePicker
+            templates={templates}
+            selectedId={templateId}
+            onSelect={handleTemplateSelect}
+            disabled={isLoading}
+          />
+
           <div className="space-y-2">
             <Label htmlFor="title">제목</Label>
             <Input
@@ -95,6 +149,7 @@ export function NoteForm() {
             <div className="flex items-center justify-between">
               <Label htmlFor="content">본문 (마크다운 지원)</Label>
               <div className="flex items-center gap-2">
+                <VoiceInputControl onTranscript={handleVoiceTranscript} disabled={isLoading} />
                 <Button
                   type="button"
                   onClick={toggleAIGenerator}
@@ -138,12 +193,19 @@ export function NoteForm() {
                 preview={isPreviewMode ? 'preview' : 'edit'}
                 hideToolbar={false}
                 textareaProps={{
+                  onSelect: handleContentSelect,
                   placeholder: '마크다운 문법을 사용하여 내용을 작성하세요...\n\n예시:\n# 제목\n## 부제목\n\n**굵은 글씨** *기울임* \n\n- 목록 항목 1\n- 목록 항목 2\n\n1. 번호 목록 1\n2. 번호 목록 2\n\n```코드 블록```\n\n[링크](https://example.com)',
                 }}
               />
             </div>
           </div>
 
+          {templateId && hasTemplatePlaceholder(content, 'title') && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              본문의 <code>{'{{title}}'}</code>은 저장할 때 노트 제목으로 바뀝니다.
+            </p>
+          )}
+
           {/* AI 텍스트 생성기 */}
           {showAIGenerator && (
             <AITextGenerator
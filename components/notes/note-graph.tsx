@@ -0,0 +1,402 @@
+// components/notes/note-graph.tsx
+// 노트 그래프 시각화 컴포넌트
+// 노트를 노드로, 위키 링크와 공유 태그를 엣지로 SVG에 그리고 force-directed 배치, 확대/축소·이동, 태그 필터, 노드 클릭 시 노트 열기를 제공
+// 관련 파일: app/notes/graph/page.tsx, lib/notes/graph.ts, lib/notes/graph-layout.ts, lib/notes/graph-actions.ts
+
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState, type PointerEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { getNeighborIds, type NoteGraphData } from '@/lib/notes/graph'
+import {
+  createLayoutNodes,
+  getLayoutBounds,
+  INITIAL_ALPHA,
+  MIN_ALPHA,
+  stepLayout,
+  type LayoutNode
+} from '@/lib/notes/graph-layout'
+import { cn } from '@/lib/utils'
+
+interface NoteGraphProps {
+  graph: NoteGraphData
+}
+
+interface ViewTransform {
+  x: number
+  y: number
+  k: number // 확대 배율
+}
+
+// 드래그 상태 (배경을 끌면 화면 이동, 노드를 끌면 노드 이동)
+type DragState =
+  | { type: 'pan'; startX: number; startY: number; origin: ViewTransform }
+  | { type: 'node'; nodeId: string; startX: number; startY: number; moved: boolean }
+
+const GRAPH_HEIGHT = 600
+const MIN_ZOOM = 0.2
+const MAX_ZOOM = 4
+const ALL_TAGS_VALUE = '__all__'
+// 이 수 이하의 노트는 항상 제목을 표시하고, 더 많으면 확대하거나 마우스를 올렸을 때만 표시
+const ALWAYS_LABEL_NODE_COUNT = 60
+// 이 거리보다 적게 움직이면 드래그가 아닌 클릭으로 처리
+const CLICK_TOLERANCE_PX = 4
+// 프레임마다 진행할 시뮬레이션 단계 수
+const STEPS_PER_FRAME = 2
+
+const clampZoom = (k: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k))
+
+export function NoteGraph({ graph }: NoteGraphProps) {
+  const router = useRouter()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const layoutRef = useRef<LayoutNode[]>([])
+  const alphaRef = useRef(INITIAL_ALPHA)
+  const frameRef = useRef<number | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  // 사용자가 직접 화면을 움직이기 전까지는 배치가 끝나면 전체가 보이도록 맞춤
+  const userMovedViewRef = useRef(false)
+
+  const [width, setWidth] = useState(800)
+  const [view, setView] = useState<ViewTransform>({ x: 0, y: 0, k: 1 })
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+  const [, setFrame] = useState(0)
+
+  const { nodes, edges, tags, selectedTag, truncated } = graph
+  const nodesById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes])
+  const highlightedIds = useMemo(() => (hoveredId ? getNeighborIds(edges, hoveredId) : null), [edges, hoveredId])
+  const linkCount = edges.filter(edge => edge.linked).length
+  const tagEdgeCount = edges.filter(edge => !edge.linked).length
+
+  // 컨테이너 너비에 맞춰 SVG 크기 조정
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // 전체 노드가 화면에 들어오도록 확대 배율과 위치 조정
+  const fitToView = useCallback(() => {
+    const bounds = getLayoutBounds(layoutRef.current)
+    const graphWidth = Math.max(bounds.maxX - bounds.minX, 1) + 80
+    const graphHeight = Math.max(bounds.maxY - bounds.minY, 1) + 80
+    const k = clampZoom(Math.min(width / graphWidth, GRAPH_HEIGHT / graphHeight, 1.5))
+
+    setView({
+      k,
+      x: -((bounds.minX + bounds.maxX) / 2) * k,
+      y: -((bounds.minY + bounds.maxY) / 2) * k
+    })
+  }, [width])
+
+  // 애니메이션 루프에서 최신 엣지와 화면 맞춤 함수를 쓰도록 ref로 전달 (너비가 바뀌어도 배치를 다시 시작하지 않음)
+  const edgesRef = useRef(edges)
+  const fitToViewRef = useRef(fitToView)
+  useEffect(() => {
+    edgesRef.current = edges
+    fitToViewRef.current = fitToView
+  }, [edges, fitToView])
+
+  const runSimulation = useCallback(() => {
+    if (frameRef.current !== null) return
+
+    const tick = () => {
+      for (let i = 0; i < STEPS_PER_FRAME; i++) {
+        alphaRef.current = stepLayout(layoutRef.current, edgesRef.current, alphaRef.current)
+      }
+      setFrame(frame => frame + 1)
+
+      if (alphaRef.current > MIN_ALPHA) {
+        frameRef.current = requestAnimationFrame(tick)
+      } else {
+        frameRef.current = null
+        if (!userMovedViewRef.current) fitToViewRef.current()
+      }
+    }
+
+    frameRef.current = requestAnimationFrame(tick)
+  }, [])
+
+  // 그래프 데이터가 바뀌면 배치를 처음부터 다시 계산
+  useEffect(() => {
+    layoutRef.current = createLayoutNodes(nodes.map(node => node.id))
+    alphaRef.current = INITIAL_ALPHA
+    userMovedViewRef.current = false
+    setView({ x: 0, y: 0, k: 1 })
+    runSimulation()
+
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current)
+        frameRef.current = null
+      }
+    }
+  }, [nodes, runSimulation])
+
+  // 마우스 휠 확대/축소 (페이지 스크롤을 막기 위해 passive가 아닌 리스너로 등록)
+  const hasNodes = nodes.length > 0
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      userMovedViewRef.current = true
+
+      const rect = svg.getBoundingClientRect()
+      const cursorX = event.clientX - rect.left - rect.width / 2
+      const cursorY = event.clientY - rect.top - rect.height / 2
+
+      // 커서 아래의 지점이 그대로 유지되도록 이동량 보정
+      setView(prev => {
+        const k = clampZoom(prev.k * Math.exp(-event.deltaY * 0.001))
+        const graphX = (cursorX - prev.x) / prev.k
+        const graphY = (cursorY - prev.y) / prev.k
+        return { k, x: cursorX - graphX * k, y: cursorY - graphY * k }
+      })
+    }
+
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', handleWheel)
+  }, [hasNodes])
+
+  const zoomBy = (factor: number) => {
+    userMovedViewRef.current = true
+    setView(prev => {
+      const k = clampZoom(prev.k * factor)
+      return { k, x: (prev.x / prev.k) * k, y: (prev.y / prev.k) * k }
+    })
+  }
+
+  const handleFit = () => {
+    userMovedViewRef.current = false
+    fitToView()
+  }
+
+  const handleBackgroundPointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { type: 'pan', startX: event.clientX, startY: event.clientY, origin: view }
+  }
+
+  const handleNodePointerDown = (event: PointerEvent<SVGGElement>, nodeId: string) => {
+    if (event.button !== 0) return
+    event.stopPropagation()
+    svgRef.current?.setPointerCapture(event.pointerId)
+    dragRef.current = { type: 'node', nodeId, startX: event.clientX, startY: event.clientY, moved: false }
+  }
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    const dx = event.clientX - drag.startX
+    const dy = event.clientY - drag.startY
+
+    if (drag.type === 'pan') {
+      userMovedViewRef.current = true
+      setView({ ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy })
+      return
+    }
+
+    if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE_PX) return
+
+    // 노드를 끌면 위치를 고정하고 주변 노드가 다시 자리를 잡도록 시뮬레이션 재개
+    const node = layoutRef.current.find(item => item.id === drag.nodeId)
+    if (!node) return
+
+    const rect = event.currentTarget.getBoundingClientRect()
+    drag.moved = true
+    node.fixed = true
+    node.x = (event.clientX - rect.left - rect.width / 2 - view.x) / view.k
+    node.y = (event.clientY - rect.top - rect.height / 2 - view.y) / view.k
+    alphaRef.current = Math.max(alphaRef.current, 0.3)
+    runSimulation()
+    setFrame(frame => frame + 1)
+  }
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current
+    dragRef.current = null
+
+    if (drag?.type !== 'node') return
+
+    const node = layoutRef.current.find(item => item.id === drag.nodeId)
+    if (node) node.fixed = false
+
+    // 움직이지 않고 놓으면 노트 열기
+    if (!drag.moved) {
+      router.push(`/notes/${drag.nodeId}`)
+    }
+  }
+
+  const handleTagChange = (value: string) => {
+    const params = new URLSearchParams()
+    if (value !== ALL_TAGS_VALUE) params.set('tag', value)
+    const query = params.toString()
+    router.push(query ? `/notes/graph?${query}` : '/notes/graph')
+  }
+
+  const positions = new Map(layoutRef.current.map(node => [node.id, node]))
+  const showAllLabels = nodes.length <= ALWAYS_LABEL_NODE_COUNT || view.k >= 1.5
+
+  return (
+    <div className="space-y-4">
+      {/* 컨트롤 */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <label htmlFor="graph-tag-select" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            태그:
+          </label>
+          <Select value={selectedTag ?? ALL_TAGS_VALUE} onValueChange={handleTagChange}>
+            <SelectTrigger className="w-[200px]" id="graph-tag-select">
+              <SelectValue placeholder="전체 태그" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TAGS_VALUE}>전체 태그</SelectItem>
+              {selectedTag && !tags.some(facet => facet.tag === selectedTag) && (
+                <SelectItem value={selectedTag}>#{selectedTag}</SelectItem>
+              )}
+              {tags.map(facet => (
+                <SelectItem key={facet.tag} value={facet.tag}>
+                  #{facet.tag} ({facet.count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => zoomBy(1.25)} aria-label="확대">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => zoomBy(0.8)} aria-label="축소">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={handleFit} aria-label="전체 보기">
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* 요약 및 범례 */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+        <span>노트 {nodes.length}개 · 링크 {linkCount}개 · 태그 연결 {tagEdgeCount}개</span>
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block h-0.5 w-5 bg-blue-500" />
+          위키 링크
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block w-5 border-t-2 border-dashed border-gray-400" />
+          공유 태그
+        </span>
+        {truncated && (
+          <span className="text-orange-600">최근 수정한 노트 {nodes.length}개만 표시합니다. 태그로 범위를 좁혀보세요.</span>
+        )}
+      </div>
+
+      {/* 그래프 */}
+      <div ref={containerRef} className="overflow-hidden rounded-lg border bg-white dark:bg-gray-900">
+        {nodes.length === 0 ? (
+          <div className="flex h-[600px] items-center justify-center text-sm text-gray-500">
+            {selectedTag ? `#${selectedTag} 태그가 달린 노트가 없습니다.` : '표시할 노트가 없습니다.'}
+          </div>
+        ) : (
+          <svg
+            ref={svgRef}
+            width={width}
+            height={GRAPH_HEIGHT}
+            className="touch-none select-none cursor-grab active:cursor-grabbing"
+            onPointerDown={handleBackgroundPointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            role="img"
+            aria-label="노트 그래프"
+          >
+            <g transform={`translate(${width / 2 + view.x}, ${GRAPH_HEIGHT / 2 + view.y}) scale(${view.k})`}>
+              {/* 엣지 */}
+              {edges.map(edge => {
+                const source = positions.get(edge.source)
+                const target = positions.get(edge.target)
+                if (!source || !target) return null
+
+                const isDimmed = highlightedIds !== null && !(highlightedIds.has(edge.source) && highlightedIds.has(edge.target))
+                return (
+                  <line
+                    key={`${edge.source}:${edge.target}`}
+                    x1={source.x}
+                    y1={source.y}
+                    x2={target.x}
+                    y2={target.y}
+                    strokeWidth={(edge.linked ? 1.5 : 1) / view.k}
+                    strokeDasharray={edge.linked ? undefined : `${4 / view.k} ${3 / view.k}`}
+                    className={cn(
+                      'transition-opacity',
+                      edge.linked ? 'stroke-blue-500' : 'stroke-gray-300 dark:stroke-gray-600',
+                      isDimmed && 'opacity-10'
+                    )}
+                  >
+                    {edge.sharedTags.length > 0 && <title>{edge.sharedTags.map(tag => `#${tag}`).join(' ')}</title>}
+                  </line>
+                )
+              })}
+
+              {/* 노드 */}
+              {layoutRef.current.map(layoutNode => {
+                const node = nodesById.get(layoutNode.id)
+                if (!node) return null
+
+                const radius = 5 + Math.min(node.degree, 10) * 0.8
+                const isHovered = hoveredId === node.id
+                const isDimmed = highlightedIds !== null && !highlightedIds.has(node.id)
+                const showLabel = showAllLabels || (highlightedIds?.has(node.id) ?? false)
+
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${layoutNode.x}, ${layoutNode.y})`}
+                    className={cn('cursor-pointer transition-opacity', isDimmed && 'opacity-20')}
+                    onPointerDown={(event) => handleNodePointerDown(event, node.id)}
+                    onPointerEnter={() => setHoveredId(node.id)}
+                    onPointerLeave={() => setHoveredId(prev => (prev === node.id ? null : prev))}
+                  >
+                    <title>{node.tags.length > 0 ? `${node.title}\n${node.tags.map(tag => `#${tag}`).join(' ')}` : node.title}</title>
+                    <circle
+                      r={radius}
+                      strokeWidth={(isHovered ? 3 : 1.5) / view.k}
+                      className={cn(
+                        'stroke-white dark:stroke-gray-900',
+                        node.degree > 0 ? 'fill-blue-500' : 'fill-gray-400'
+                      )}
+                    />
+                    {showLabel && (
+                      <text
+                        y={radius + 12 / view.k}
+                        textAnchor="middle"
+                        fontSize={12 / view.k}
+                        className={cn('pointer-events-none fill-gray-700 dark:fill-gray-300', isHovered && 'font-semibold')}
+                      >
+                        {node.title.length > 24 ? `${node.title.slice(0, 24)}…` : node.title}
+                      </text>
+                    )}
+                  </g>
+                )
+              })}
+            </g>
+          </svg>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        휠로 확대/축소, 배경을 끌어 이동, 노드를 끌어 배치를 바꿀 수 있습니다. 노드를 클릭하면 노트가 열립니다.
+      </p>
+    </div>
+  )
+}
@@ -1,22 +1,27 @@
 // components/notes/note-page-actions.tsx
 // 노트 상세 페이지의 액션 버튼들을 관리하는 클라이언트 컴포넌트
-// 삭제 기능과 네비게이션 기능을 제공
-// 관련 파일: app/notes/[id]/page.tsx, components/notes/delete-note-dialog.tsx
+// 고정/즐겨찾기 토글, 템플릿으로 저장, 삭제, 내보내기 기능과 네비게이션 기능을 제공
+// 관련 파일: app/notes/[id]/page.tsx, components/notes/delete-note-dialog.tsx, components/notes/export-notes-dialog.tsx, components/notes/note-flag-buttons.tsx, components/templates/save-template-dialog.tsx
 
 'use client'
 
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
-import { ArrowLeft, Home, Trash2Icon } from 'lucide-react'
+import { ArrowLeft, Home, Trash2Icon, DownloadIcon, LayoutTemplateIcon } from 'lucide-react'
 import { DeleteNoteDialog } from './delete-note-dialog'
+import { ExportNotesDialog } from './export-notes-dialog'
+import { NoteFlagButtons } from './note-flag-buttons'
+import { SaveTemplateDialog } from '@/components/templates/save-template-dialog'
 
 interface NotePageActionsProps {
   noteId: string
   noteTitle: string
+  pinned: boolean
+  favorite: boolean
 }
 
-export function NotePageActions({ noteId, noteTitle }: NotePageActionsProps) {
+export function NotePageActions({ noteId, noteTitle, pinned, favorite }: NotePageActionsProps) {
   const router = useRouter()
 
   const handleDeleteSuccess = () => {
@@ -38,6 +43,19 @@ export function NotePageActions({ noteId, noteTitle }: NotePageActionsProps) {
           대시보드
         </Button>
       </Link>
+      <NoteFlagButtons noteId={noteId} pinned={pinned} favorite={favorite} variant="page" />
+      <SaveTemplateDialog noteId={noteId} noteTitle={noteTitle}>
+        <Button variant="outline" className="flex items-center gap-2">
+          <LayoutTemplateIcon className="w-4 h-4" />
+          템플릿으로 저장
+        </Button>
+      </SaveTemplateDialog>
+      <ExportNotesDialog noteId={noteId} noteTitle={noteTitle}>
+        <Button variant="outline" className="flex items-center gap-2">
+          <DownloadIcon className="w-4 h-4" />
+          내보내기
+        </Button>
+      </ExportNotesDialog>
       <DeleteNoteDialog
         noteId={noteId}
         noteTitle={noteTitle}
@@ -0,0 +1,93 @@
+// components/notes/related-notes-section.tsx
+// 관련 노트 섹션 컴포넌트
+// 현재 노트와 임베딩 유사도가 높은 다른 노트를 유사도 순으로 보여주고 바로 이동할 수 있게 함
+// 관련 파일: lib/notes/related-actions.ts, app/notes/[id]/page.tsx
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Sparkles, FileText, RefreshCw } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { getRelatedNotes } from '@/lib/notes/related-actions'
+import type { RelatedNote } from '@/lib/notes/types'
+
+interface RelatedNotesSectionProps {
+  noteId: string
+  limit?: number
+}
+
+export function RelatedNotesSection({ noteId, limit = 5 }: RelatedNotesSectionProps) {
+  const [relatedNotes, setRelatedNotes] = useState<RelatedNote[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRelatedNotes = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setRelatedNotes(await getRelatedNotes(noteId, limit))
+    } catch (error) {
+      console.error('관련 노트 로드 실패:', error)
+      setError('관련 노트를 불러올 수 없습니다.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [noteId, limit])
+
+  useEffect(() => {
+    loadRelatedNotes()
+  }, [loadRelatedNotes])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <Sparkles className="h-4 w-4" />
+            관련 노트
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadRelatedNotes}
+            disabled={isLoading}
+            aria-label="관련 노트 새로고침"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <div className="h-4 w-2/3 bg-gray-200 rounded animate-pulse" />
+            <div className="h-4 w-1/2 bg-gray-200 rounded animate-pulse" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : relatedNotes.length === 0 ? (
+          <p className="text-sm text-gray-500">비슷한 내용의 노트가 아직 없습니다.</p>
+        ) : (
+          <ul className="space-y-2">
+            {relatedNotes.map(note => (
+              <li key={note.id} className="flex items-center justify-between gap-3">
+                <Link
+                  href={`/notes/${note.id}`}
+                  className="flex min-w-0 items-center gap-2 text-sm text-blue-600 hover:underline"
+                >
+                  <FileText className="h-4 w-4 flex-shrink-0" />
+                  <span className="truncate">{note.title}</span>
+                </Link>
+                <span className="flex-shrink-0 text-xs text-gray-500" title="유사도">
+                  {Math.round(note.similarity * 100)}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
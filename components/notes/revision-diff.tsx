@@ -0,0 +1,94 @@
+// components/notes/revision-diff.tsx
+// 노트 버전 비교(side-by-side diff) 컴포넌트
+// 선택한 이전 버전과 현재 노트 내용을 좌우로 나란히 보여주고 변경된 줄을 강조
+// 관련 파일: lib/notes/diff.ts, components/notes/revision-history.tsx
+
+'use client'
+
+import { useMemo } from 'react'
+import { diffLines, toSideBySide, getDiffStats, SideBySideRow } from '@/lib/notes/diff'
+import { cn } from '@/lib/utils'
+
+interface RevisionDiffProps {
+  oldTitle: string
+  oldContent: string
+  newTitle: string
+  newContent: string
+  oldLabel?: string
+  newLabel?: string
+  className?: string
+}
+
+const LEFT_STYLES: Record<SideBySideRow['type'], string> = {
+  equal: '',
+  removed: 'bg-red-50 dark:bg-red-950/40',
+  added: 'bg-gray-50 dark:bg-gray-900',
+  changed: 'bg-red-50 dark:bg-red-950/40'
+}
+
+const RIGHT_STYLES: Record<SideBySideRow['type'], string> = {
+  equal: '',
+  removed: 'bg-gray-50 dark:bg-gray-900',
+  added: 'bg-green-50 dark:bg-green-950/40',
+  changed: 'bg-green-50 dark:bg-green-950/40'
+}
+
+export function RevisionDiff({
+  oldTitle,
+  oldContent,
+  newTitle,
+  newContent,
+  oldLabel = '선택한 버전',
+  newLabel = '현재 노트',
+  className
+}: RevisionDiffProps) {
+  const lines = useMemo(() => diffLines(oldContent, newContent), [oldContent, newContent])
+  const rows = useMemo(() => toSideBySide(lines), [lines])
+  const stats = useMemo(() => getDiffStats(lines), [lines])
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {/* 변경 요약 */}
+      <div className="flex items-center gap-3 text-xs">
+        <span className="text-green-700 dark:text-green-400">+{stats.added}줄</span>
+        <span className="text-red-700 dark:text-red-400">-{stats.removed}줄</span>
+        {oldTitle !== newTitle && (
+          <span className="text-gray-600 dark:text-gray-400">
+            제목 변경: &ldquo;{oldTitle}&rdquo; → &ldquo;{newTitle}&rdquo;
+          </span>
+        )}
+      </div>
+
+      {/* 좌우 비교 */}
+      <div className="border rounded-lg overflow-auto max-h-[50vh] font-mono text-xs">
+        <div className="grid grid-cols-2 sticky top-0 bg-white dark:bg-gray-950 border-b font-sans text-sm font-medium">
+          <div className="px-3 py-2 border-r">{oldLabel}</div>
+          <div className="px-3 py-2">{newLabel}</div>
+        </div>
+        {rows.length === 0 ? (
+          <p className="px-3 py-4 text-center text-gray-500 font-sans">내용이 없습니다.</p>
+        ) : (
+          rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-2">
+              <DiffCellView cell={row.left} className={cn('border-r', LEFT_STYLES[row.type])} />
+              <DiffCellView cell={row.right} className={RIGHT_STYLES[row.type]} />
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+function DiffCellView({ cell, className }: { cell?: SideBySideRow['left']; className?: string }) {
+  return (
+    <div className={cn('flex min-h-[1.5rem]', className)}>
+      <span className="w-10 shrink-0 px-2 py-0.5 text-right text-gray-400 select-none">
+        {cell?.lineNumber ?? ''}
+      </span>
+      <span className="px-2 py-0.5 whitespace-pre-wrap break-all">
+        {cell?.text ?? ''}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+// components/notes/revision-history.tsx
+// 노트 버전 기록 다이얼로그 컴포넌트
+// 저장된 버전 목록을 보여주고 현재 내용과 비교한 뒤 원클릭으로 복원할 수 있게 함
+// 관련 파일: lib/notes/revision-actions.ts, components/notes/revision-diff.tsx, components/notes/markdown-editor.tsx
+
+'use client'
+
+import { useState, useCallback } from 'react'
+import { History, Loader2, RotateCcw } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { getNoteRevisions, getNoteRevision, restoreNoteRevision } from '@/lib/notes/revision-actions'
+import { Note } from '@/lib/db/schema/notes'
+import { NoteRevision } from '@/lib/db/schema/note_revisions'
+import { RevisionDiff } from './revision-diff'
+import { cn } from '@/lib/utils'
+
+type RevisionListItem = Awaited<ReturnType<typeof getNoteRevisions>>[number]
+
+interface RevisionHistoryProps {
+  noteId: string
+  currentTitle: string
+  currentContent: string
+  onRestored?: (note: Note) => void
+  children: React.ReactNode
+}
+
+export function RevisionHistory({
+  noteId,
+  currentTitle,
+  currentContent,
+  onRestored,
+  children
+}: RevisionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [revisions, setRevisions] = useState<RevisionListItem[]>([])
+  const [selectedRevision, setSelectedRevision] = useState<NoteRevision | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const formatDate = (date: Date | string | null) => {
+    if (!date) return '알 수 없음'
+    const dateObj = typeof date === 'string' ? new Date(date) : date
+    return dateObj.toLocaleString('ko-KR', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const result = await getNoteRevisions(noteId)
+      setRevisions(result)
+    } catch (error) {
+      console.error('버전 목록 로드 오류:', error)
+      setError('버전 기록을 불러올 수 없습니다.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [noteId])
+
+  const handleSelect = async (revisionId: string) => {
+    try {
+      setError(null)
+      const revision = await getNoteRevision(noteId, revisionId)
+      setSelectedRevision(revision)
+    } catch (error) {
+      console.error('버전 로드 오류:', error)
+      setError('버전을 불러올 수 없습니다.')
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return
+
+    try {
+      setIsRestoring(true)
+      setError(null)
+      const restoredNote = await restoreNoteRevision(noteId, selectedRevision.id)
+      onRestored?.(restoredNote)
+      setIsOpen(false)
+    } catch (error) {
+      console.error('버전 복원 오류:', error)
+      setError('버전 복원에 실패했습니다. 다시 시도해주세요.')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (open) {
+      loadRevisions()
+    } else {
+      setSelectedRevision(null)
+      setError(null)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            버전 기록
+          </DialogTitle>
+          <DialogDescription>
+            이전 버전을 선택하여 현재 내용과 비교하고 복원할 수 있습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+          {/* 버전 목록 */}
+          <div className="border rounded-lg overflow-y-auto max-h-[55vh]">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">저장된 버전이 없습니다.</p>
+            ) : (
+              <ul>
+                {revisions.map((revision) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => handleSelect(revision.id)}
+                      className={cn(
+                        'w-full text-left px-3 py-2 border-b last:border-b-0 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors',
+                        selectedRevision?.id === revision.id && 'bg-blue-50 dark:bg-blue-950/40'
+                      )}
+                    >
+                      <div className="text-sm font-medium truncate">{revision.title}</div>
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        {formatDate(revision.updatedAt ?? revision.createdAt)}
+                        {revision.restoredFromId && (
+                          <Badge variant="outline" className="text-[10px] px-1.5 py-0">복원됨</Badge>
+                        )}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* 비교 화면 */}
+          <div className="min-w-0">
+            {selectedRevision ? (
+              <div className="space-y-3">
+                <RevisionDiff
+                  oldTitle={selectedRevision.title}
+                  oldContent={selectedRevision.content || ''}
+                  newTitle={currentTitle}
+                  newContent={currentContent}
+                  oldLabel={`선택한 버전 (${formatDate(selectedRevision.updatedAt ?? selectedRevision.createdAt)})`}
+                />
+                <div className="flex justify-end">
+                  <Button onClick={handleRestore} disabled={isRestoring} className="flex items-center gap-2">
+                    {isRestoring ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4" />
+                    )}
+                    {isRestoring ? '복원 중...' : '이 버전으로 복원'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center h-full min-h-[200px] text-sm text-gray-500 border rounded-lg">
+                비교할 버전을 선택하세요.
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -12,9 +12,11 @@ import { useRouter, useSearchParams } from 'next/navigation'
 
 interface SearchEmptyStateProps {
   searchQuery: string
+  tags?: string[]
+  favoritesOnly?: boolean
 }
 
-export function SearchEmptyState({ searchQuery }: SearchEmptyStateProps) {
+export function SearchEmptyState({ searchQuery, tags = [], favoritesOnly = false }: SearchEmptyStateProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
 
@@ -22,6 +24,9 @@ export function SearchEmptyState({ searchQuery }: SearchEmptyStateProps) {
   const handleClearSearch = () => {
     const params = new URLSearchParams(searchParams)
     params.delete('search')
+    params.delete('tags')
+    params.delete('tagMode')
+    params.delete('favorites')
     params.set('page', '1')
     router.push(`/notes?${params.toString()}`)
   }
@@ -38,7 +43,16 @@ export function SearchEmptyState({ searchQuery }: SearchEmptyStateProps) {
               검색 결과가 없습니다
             </h3>
             <p className="text-gray-500 dark:text-gray-400 max-w-sm">
-              <span className="font-medium">&quot;{searchQuery}&quot;</span>에 대한 검색 결과를 찾을 수 없습니다.
+              {searchQuery && (
+                <span className="font-medium">&quot;{searchQuery}&quot;</span>
+              )}
+              {searchQuery && tags.length > 0 && ' · '}
+              {tags.length > 0 && (
+                <span className="font-medium">태그 {tags.map(tag => `#${tag}`).join(', ')}</span>
+              )}
+              {searchQuery || tags.length > 0
+                ? `${favoritesOnly ? ' (즐겨찾기)' : ''}에 대한 검색 결과를 찾을 수 없습니다.`
+                : '즐겨찾기한 노트가 없습니다.'}
               <br />
               다른 검색어를 시도하거나 검색을 초기화해보세요.
             </p>
@@ -1,6 +1,6 @@
 // components/notes/sort-select.tsx
 // 노트 목록 정렬 옵션 선택 컴포넌트
-// 최신순, 오래된순, 제목순 A-Z, 제목순 Z-A 정렬 옵션을 제공
+// 최신순, 오래된순, 제목순 A-Z, 제목순 Z-A 정렬 옵션과 검색 시 관련도순 옵션을 제공
 // 관련 파일: app/notes/page.tsx, components/ui/select.tsx
 
 'use client'
@@ -17,6 +17,9 @@ const sortOptions = [
   { value: 'updated_at_asc', label: '수정일 오래된순' }
 ]
 
+// 검색어가 있을 때만 제공되는 정렬 옵션
+const relevanceOption = { value: 'relevance', label: '관련도순' }
+
 interface SortSelectProps {
   currentSort: string
 }
@@ -32,7 +35,8 @@ export function SortSelect({ currentSort }: SortSelectProps) {
     router.push(`/notes?${params.toString()}`)
   }
 
-  const currentOption = sortOptions.find(option => option.value === currentSort)
+  const options = searchParams.get('search') ? [relevanceOption, ...sortOptions] : sortOptions
+  const currentOption = options.find(option => option.value === currentSort)
 
   return (
     <div className="flex items-center gap-2">
@@ -46,7 +50,7 @@ export function SortSelect({ currentSort }: SortSelectProps) {
           </SelectValue>
         </SelectTrigger>
         <SelectContent>
-          {sortOptions.map((option) => (
+          {options.map((option) => (
             <SelectItem key={option.value} value={option.value}>
               {option.label}
             </SelectItem>
@@ -1,7 +1,7 @@
 // components/notes/summary-display.tsx
 // 요약 표시 컴포넌트
 // 노트의 AI 생성 요약을 불릿 포인트 형태로 표시하고 재생성 기능을 제공
-// 관련 파일: components/ui/card.tsx, lib/ai/summary-actions.ts
+// 관련 파일: components/ui/card.tsx, lib/ai/summary-actions.ts, components/ai/retry-button.tsx
 
 'use client'
 
@@ -11,6 +11,7 @@ import { Button } from '@/components/ui/button'
 import { regenerateSummary, deleteSummary } from '@/lib/ai/summary-actions'
 import { parseSummaryBulletPoints } from '@/lib/ai/summary-utils'
 import { RefreshCw, Trash2, Sparkles, AlertCircle, Edit2 } from 'lucide-react'
+import { RetryButton } from '@/components/ai/retry-button'
 
 interface SummaryDisplayProps {
   noteId: string
@@ -32,11 +33,14 @@ export function SummaryDisplay({
   const [isRegenerating, setIsRegenerating] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // 사용 한도 초과 시 다시 시도할 수 있을 때까지 남은 시간
+  const [retryAfterMs, setRetryAfterMs] = useState<number | undefined>(undefined)
 
   const handleRegenerate = async () => {
     try {
       setIsRegenerating(true)
       setError(null)
+      setRetryAfterMs(undefined)
       
       const result = await regenerateSummary(noteId)
       
@@ -44,6 +48,9 @@ export function SummaryDisplay({
         onSummaryChange?.(result.summary)
       } else {
         setError(result.error || '요약 재생성에 실패했습니다.')
+        if (result.code && result.retryAfter) {
+          setRetryAfterMs(result.retryAfter * 1000)
+        }
       }
     } catch (error) {
       console.error('요약 재생성 오류:', error)
@@ -147,6 +154,16 @@ export function SummaryDisplay({
           <div className="mb-4 flex items-center gap-2 rounded-md bg-red-50 p-3 text-sm text-red-700">
             <AlertCircle className="h-4 w-4" />
             <span>{error}</span>
+            {retryAfterMs !== undefined && (
+              <div className="ml-auto">
+                <RetryButton
+                  onRetry={handleRegenerate}
+                  retryAfterMs={retryAfterMs}
+                  showRetryCount={false}
+                  disabled={disabled || isDeleting}
+                />
+              </div>
+            )}
           </div>
         )}
         
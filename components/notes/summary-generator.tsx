@@ -1,19 +1,18 @@
 // components/notes/summary-generator.tsx
 // 요약 생성 버튼 컴포넌트
-// 노트 내용을 기반으로 AI 요약을 생성하는 버튼과 상태 표시를 제공
-// 관련 파일: components/ui/button.tsx, lib/ai/summary-actions.ts, components/ai/ai-status-indicator.tsx, lib/ai/error-handler.ts
+// 노트 요약을 서버 백그라운드 작업으로 생성하며 진행률, 생성 중인 요약 미리보기와 중지 기능을 제공 (페이지를 떠났다 돌아와도 진행 중인 작업을 이어서 표시)
+// 관련 파일: components/ui/button.tsx, hooks/use-ai-status.ts, lib/ai/job-actions.ts, components/ai/ai-status-indicator.tsx, lib/ai/error-handler.ts
 
 'use client'
 
 import { useState } from 'react'
 import { Button } from '@/components/ui/button'
-import { generateSummaryWithErrorHandling } from '@/lib/ai/actions'
-import { validateNoteContent } from '@/lib/ai/summary-utils'
+import { validateNoteContent, cleanSummaryText } from '@/lib/ai/summary-utils'
 import { useAIStatus } from '@/hooks/use-ai-status'
 import { useErrorHandler } from '@/hooks/use-error-handler'
 import { AIStatusIndicator } from '@/components/ai/ai-status-indicator'
 import { ErrorStatusIndicator } from '@/components/ai/error-status-indicator'
-import { Sparkles, CheckCircle } from 'lucide-react'
+import { Sparkles, CheckCircle, Square } from 'lucide-react'
 
 interface SummaryGeneratorProps {
   noteId: string
@@ -42,7 +41,6 @@ export function SummaryGenerator({
     canRetry,
     setError,
     clearError,
-    executeWithErrorHandling,
   } = useErrorHandler({
     maxRetries: 3,
     userId,
@@ -52,29 +50,17 @@ export function SummaryGenerator({
     },
   })
 
-  const { state, isProcessing, canStart, startJob, retryJob } = useAIStatus({
+  const { state, preview, isProcessing, canStart, startJob, cancelJob } = useAIStatus({
     noteId,
     type: 'summary',
-    onSuccess: () => {
+    onSuccess: (result) => {
+      if (result.summary) {
+        onSummaryGenerated?.(cleanSummaryText(result.summary))
+      }
       setSuccess(true)
       setTimeout(() => setSuccess(false), 3000)
     },
-    onError: (error) => {
-      // error가 이미 AIError 객체인지 확인
-      if (typeof error === 'object' && error !== null && 'type' in error) {
-        setError(error)
-      } else {
-        // 문자열인 경우 AIError 객체로 변환
-        setError({
-          type: 'UNKNOWN_ERROR',
-          message: typeof error === 'string' ? error : '알 수 없는 오류가 발생했습니다.',
-          retryable: true,
-          severity: 'medium',
-          details: {},
-          originalError: error
-        })
-      }
-    }
+    onError: setError
   })
 
   const handleGenerate = async () => {
@@ -92,46 +78,14 @@ export function SummaryGenerator({
       return
     }
 
-    // AI 상태 관리 시작
-    const jobStarted = startJob()
-    if (!jobStarted) {
-      setError({
-        type: 'SERVER_ERROR',
-        message: '다른 AI 작업이 진행 중입니다. 잠시 후 다시 시도해주세요.',
-        retryable: true,
-        severity: 'medium',
-      })
-      return
-    }
-
-    // 에러 핸들링과 함께 요약 생성
-    const result = await executeWithErrorHandling(
-      async () => {
-        const summaryResult = await generateSummaryWithErrorHandling(
-          noteId,
-          content,
-          userId
-        )
-
-        if (summaryResult.success && summaryResult.summary) {
-          onSummaryGenerated?.(summaryResult.summary)
-          return summaryResult.summary
-        } else {
-          throw summaryResult.error || new Error('요약 생성에 실패했습니다.')
-        }
-      },
-      { noteId, action: 'generate_summary' }
-    )
-
-    if (result.success) {
-      setSuccess(true)
-      setTimeout(() => setSuccess(false), 3000)
-    }
+    // 백그라운드 작업 등록 (완료 시 서버에서 저장, 결과는 폴링으로 전달)
+    clearError()
+    await startJob()
   }
 
   const handleRetry = async () => {
     clearError()
-    retryJob()
+    await handleGenerate()
   }
 
   // 노트 내용 길이 검증
@@ -140,32 +94,49 @@ export function SummaryGenerator({
 
   return (
     <div className="space-y-3">
-      <Button
-        onClick={handleGenerate}
-        disabled={!canGenerate}
-        className="w-full sm:w-auto"
-        variant={success ? "default" : "outline"}
-      >
-        {isProcessing || isRetrying ? (
-          <>
-            <Sparkles className="mr-2 h-4 w-4 animate-pulse" />
-            {isRetrying ? '재시도 중...' : '요약 생성 중...'}
-          </>
-        ) : success ? (
-          <>
-            <CheckCircle className="mr-2 h-4 w-4" />
-            요약 생성 완료
-          </>
-        ) : (
-          <>
-            <Sparkles className="mr-2 h-4 w-4" />
-            AI 요약 생성
-          </>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          onClick={handleGenerate}
+          disabled={!canGenerate}
+          className="w-full sm:w-auto"
+          variant={success ? "default" : "outline"}
+        >
+          {isProcessing || isRetrying ? (
+            <>
+              <Sparkles className="mr-2 h-4 w-4 animate-pulse" />
+              {isRetrying ? '재시도 중...' : '요약 생성 중...'}
+            </>
+          ) : success ? (
+            <>
+              <CheckCircle className="mr-2 h-4 w-4" />
+              요약 생성 완료
+            </>
+          ) : (
+            <>
+              <Sparkles className="mr-2 h-4 w-4" />
+              AI 요약 생성
+            </>
+          )}
+        </Button>
+
+        {isProcessing && (
+          <Button onClick={cancelJob} variant="ghost" size="sm">
+            <Square className="mr-2 h-3 w-3" />
+            중지
+          </Button>
         )}
-      </Button>
+      </div>
+
+      {/* 생성 중인 요약 미리보기 */}
+      {isProcessing && preview && (
+        <div className="rounded-md border bg-muted/40 p-3 text-sm whitespace-pre-wrap" aria-live="polite">
+          {preview}
+          <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+        </div>
+      )}
 
       {/* AI 상태 표시 */}
-      {state.status !== 'idle' && (
+      {state.status !== 'idle' && state.status !== 'success' && !(isProcessing && preview) && (
         <AIStatusIndicator
           status={state.status}
           progress={state.progress}
@@ -196,7 +167,7 @@ export function SummaryGenerator({
         </p>
       )}
 
-      {success && state.status === 'idle' && !hasError && (
+      {success && !isProcessing && !hasError && (
         <p className="text-xs text-green-600">
           요약이 성공적으로 생성되었습니다.
         </p>
@@ -1,16 +1,19 @@
 // components/notes/tag-display.tsx
 // 태그 표시 컴포넌트
 // 노트의 태그를 표시하고 관리하는 UI 컴포넌트
-// 관련 파일: components/notes/tag-generator.tsx, lib/ai/tag-actions.ts
+// 관련 파일: components/notes/tag-generator.tsx, lib/ai/tag-actions.ts, components/ai/retry-button.tsx
 
 'use client'
 
+import Link from 'next/link'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { RefreshCw, Tag, X, Edit2 } from 'lucide-react'
 import { useState } from 'react'
 import { regenerateTags, deleteTags } from '@/lib/ai/tag-actions'
+import { buildTagFilterHref } from '@/lib/notes/tag-params'
+import { RetryButton } from '@/components/ai/retry-button'
 
 interface TagDisplayProps {
   noteId: string
@@ -33,13 +36,22 @@ export function TagDisplay({
 }: TagDisplayProps) {
   const [isRegenerating, setIsRegenerating] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  // 사용 한도 초과로 재생성하지 못한 경우의 안내와 재시도 대기 시간
+  const [limitError, setLimitError] = useState<{ message: string; retryAfterMs: number } | null>(null)
 
   const handleRegenerate = async () => {
     if (isRegenerating) return
     
     setIsRegenerating(true)
     try {
-      await regenerateTags(noteId)
+      const result = await regenerateTags(noteId)
+
+      if (!result.success && result.code && result.retryAfter) {
+        setLimitError({ message: result.error || '태그 재생성에 실패했습니다.', retryAfterMs: result.retryAfter * 1000 })
+        return
+      }
+
+      setLimitError(null)
       onRegenerate?.()
     } catch (error) {
       console.error('태그 재생성 실패:', error)
@@ -138,15 +150,27 @@ export function TagDisplay({
         </div>
       </CardHeader>
       <CardContent>
+        {limitError && (
+          <div className="mb-3 flex items-center justify-between gap-2 rounded-md bg-amber-50 p-2 text-xs text-amber-800">
+            <span>{limitError.message}</span>
+            <RetryButton
+              onRetry={handleRegenerate}
+              retryAfterMs={limitError.retryAfterMs}
+              showRetryCount={false}
+              disabled={disabled || isDeleting}
+            />
+          </div>
+        )}
         <div className="flex flex-wrap gap-2">
           {tags.map((tag, index) => (
-            <Badge 
-              key={`${tag}-${index}`} 
-              variant="secondary"
-              className="text-xs px-2 py-1"
-            >
-              {tag}
-            </Badge>
+            <Link key={`${tag}-${index}`} href={buildTagFilterHref(tag)} title={`'${tag}' 태그가 있는 노트 보기`}>
+              <Badge 
+                variant="secondary"
+                className="text-xs px-2 py-1 cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-700"
+              >
+                {tag}
+              </Badge>
+            </Link>
           ))}
         </div>
       </CardContent>
@@ -0,0 +1,101 @@
+// components/notes/tag-facets.tsx
+// 노트 목록 태그 패싯 컴포넌트
+// 현재 검색/필터 결과에 포함된 태그와 개수를 보여주고 클릭으로 태그 필터를 적용/해제
+// 관련 파일: app/notes/page.tsx, lib/notes/tag-params.ts, lib/notes/tag-query.ts
+
+'use client'
+
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Tag, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { buildTagFilterParams, toggleTag, TagMatchMode } from '@/lib/notes/tag-params'
+import type { TagFacet } from '@/lib/notes/tag-query'
+import { cn } from '@/lib/utils'
+
+interface TagFacetsProps {
+  facets: TagFacet[]
+  selectedTags: string[]
+  mode: TagMatchMode
+}
+
+export function TagFacets({ facets, selectedTags, mode }: TagFacetsProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const navigate = (tags: string[], nextMode: TagMatchMode = mode) => {
+    const params = buildTagFilterParams(searchParams, tags, nextMode)
+    router.push(`/notes?${params.toString()}`)
+  }
+
+  // 선택된 태그는 결과 집합에 항상 포함되도록 패싯 목록 앞에 표시
+  const facetTags = new Set(facets.map(facet => facet.tag))
+  const items: TagFacet[] = [
+    ...selectedTags.filter(tag => !facetTags.has(tag)).map(tag => ({ tag, count: 0 })),
+    ...facets
+  ]
+
+  if (items.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <Tag className="w-4 h-4" />
+        태그:
+      </span>
+
+      {items.map(({ tag, count }) => {
+        const isSelected = selectedTags.includes(tag)
+        return (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => navigate(toggleTag(selectedTags, tag))}
+            aria-pressed={isSelected}
+          >
+            <Badge
+              variant={isSelected ? 'default' : 'secondary'}
+              className={cn('cursor-pointer text-xs px-2 py-1', !isSelected && 'hover:bg-gray-200 dark:hover:bg-gray-700')}
+            >
+              {tag}
+              <span className={cn('ml-1', isSelected ? 'opacity-80' : 'text-gray-500')}>{count}</span>
+            </Badge>
+          </button>
+        )
+      })}
+
+      {selectedTags.length > 1 && (
+        <div className="flex items-center rounded-md border text-xs overflow-hidden">
+          {(['any', 'all'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => navigate(selectedTags, option)}
+              className={cn(
+                'px-2 py-1 transition-colors',
+                mode === option ? 'bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900' : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+              )}
+            >
+              {option === 'any' ? '하나라도 포함' : '모두 포함'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedTags.length > 0 && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate([])}
+          className="h-7 px-2 text-xs"
+        >
+          <X className="w-3 h-3" />
+          필터 해제
+        </Button>
+      )}
+    </div>
+  )
+}
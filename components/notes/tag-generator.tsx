@@ -1,14 +1,13 @@
 // components/notes/tag-generator.tsx
 // 태그 생성 버튼 컴포넌트
-// 노트 내용을 기반으로 AI 태그를 생성하는 버튼과 상태 표시를 제공
-// 관련 파일: components/notes/tag-display.tsx, lib/ai/tag-actions.ts, components/ai/ai-status-indicator.tsx, lib/ai/error-handler.ts
+// 노트 태그를 서버 백그라운드 작업으로 생성하는 버튼과 상태 표시를 제공 (페이지를 떠났다 돌아와도 진행 중인 작업을 이어서 표시)
+// 관련 파일: components/notes/tag-display.tsx, hooks/use-ai-status.ts, lib/ai/job-actions.ts, components/ai/ai-status-indicator.tsx, lib/ai/error-handler.ts
 
 'use client'
 
 import { Button } from '@/components/ui/button'
 import { Tag, Loader2, CheckCircle } from 'lucide-react'
 import { useState } from 'react'
-import { generateTagsWithErrorHandling } from '@/lib/ai/actions'
 import { useAIStatus } from '@/hooks/use-ai-status'
 import { useErrorHandler } from '@/hooks/use-error-handler'
 import { AIStatusIndicator } from '@/components/ai/ai-status-indicator'
@@ -41,7 +40,6 @@ export function TagGenerator({
     canRetry,
     setError,
     clearError,
-    executeWithErrorHandling,
   } = useErrorHandler({
     maxRetries: 3,
     userId,
@@ -54,26 +52,14 @@ export function TagGenerator({
   const { state, isProcessing, canStart, startJob, retryJob } = useAIStatus({
     noteId,
     type: 'tags',
-    onSuccess: () => {
+    onSuccess: (result) => {
+      if (result.tags) {
+        onTagsGenerated?.(result.tags)
+      }
       setSuccess(true)
       setTimeout(() => setSuccess(false), 3000)
     },
-    onError: (error) => {
-      // error가 이미 AIError 객체인지 확인
-      if (typeof error === 'object' && error !== null && 'type' in error) {
-        setError(error)
-      } else {
-        // 문자열인 경우 AIError 객체로 변환
-        setError({
-          type: 'UNKNOWN_ERROR',
-          message: typeof error === 'string' ? error : '알 수 없는 오류가 발생했습니다.',
-          retryable: true,
-          severity: 'medium',
-          details: {},
-          originalError: error
-        })
-      }
-    }
+    onError: setError
   })
 
   const handleGenerateTags = async () => {
@@ -91,46 +77,14 @@ export function TagGenerator({
       return
     }
 
-    // AI 상태 관리 시작
-    const jobStarted = startJob()
-    if (!jobStarted) {
-      setError({
-        type: 'SERVER_ERROR',
-        message: '다른 AI 작업이 진행 중입니다. 잠시 후 다시 시도해주세요.',
-        retryable: true,
-        severity: 'medium',
-      })
-      return
-    }
-
-    // 에러 핸들링과 함께 태그 생성
-    const result = await executeWithErrorHandling(
-      async () => {
-        const tagsResult = await generateTagsWithErrorHandling(
-          noteId,
-          content,
-          userId
-        )
-
-        if (tagsResult.success && tagsResult.tags) {
-          onTagsGenerated?.(tagsResult.tags)
-          return tagsResult.tags
-        } else {
-          throw tagsResult.error || new Error('태그 생성에 실패했습니다.')
-        }
-      },
-      { noteId, action: 'generate_tags' }
-    )
-
-    if (result.success) {
-      setSuccess(true)
-      setTimeout(() => setSuccess(false), 3000)
-    }
+    // 백그라운드 작업 등록 (완료 시 서버에서 저장, 결과는 폴링으로 전달)
+    clearError()
+    await startJob()
   }
 
   const handleRetry = async () => {
     clearError()
-    retryJob()
+    await retryJob()
   }
 
   // 노트 내용 길이 검증
@@ -196,7 +150,7 @@ export function TagGenerator({
         </p>
       )}
 
-      {success && state.status === 'idle' && !hasError && (
+      {success && !isProcessing && !hasError && (
         <p className="text-xs text-green-600 text-center">
           태그가 성공적으로 생성되었습니다.
         </p>
@@ -0,0 +1,178 @@
+// components/notes/trash-note-card.tsx
+// 휴지통 노트 카드 컴포넌트
+// 삭제된 노트의 정보와 영구 삭제 예정일을 표시하고 복원/영구 삭제 기능을 제공
+// 관련 파일: app/notes/trash/page.tsx, lib/notes/trash-actions.ts, components/notes/note-card.tsx
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { RotateCcw, Trash2Icon, Loader2Icon } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Note } from '@/lib/db/schema/notes'
+import { restoreNote, permanentlyDeleteNote } from '@/lib/notes/trash-actions'
+
+interface TrashNoteCardProps {
+  note: Note
+  purgeAt: Date
+}
+
+export function TrashNoteCard({ note, purgeAt }: TrashNoteCardProps) {
+  const router = useRouter()
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const formatDate = (date: Date | string) => {
+    const dateObj = typeof date === 'string' ? new Date(date) : date
+    return dateObj.toLocaleDateString('ko-KR', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    })
+  }
+
+  const truncateContent = (content: string | null, maxLength: number = 120) => {
+    if (!content) return '내용이 없습니다.'
+    if (content.length <= maxLength) return content
+    return content.substring(0, maxLength) + '...'
+  }
+
+  const handleRestore = async () => {
+    try {
+      setIsRestoring(true)
+      setError(null)
+      await restoreNote(note.id)
+      router.refresh()
+    } catch (error) {
+      console.error('노트 복원 오류:', error)
+      setError('노트 복원에 실패했습니다. 다시 시도해주세요.')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const handlePermanentDelete = async () => {
+    try {
+      setIsDeleting(true)
+      setError(null)
+      await permanentlyDeleteNote(note.id)
+      setIsDialogOpen(false)
+      router.refresh()
+    } catch (error) {
+      console.error('노트 영구 삭제 오류:', error)
+      setError('노트 영구 삭제에 실패했습니다. 다시 시도해주세요.')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Card className="opacity-90">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <div className="flex-1 min-w-0">
+            <CardTitle className="text-lg text-gray-700 dark:text-gray-300">
+              {note.title}
+            </CardTitle>
+            <CardDescription className="text-sm">
+              삭제일: {note.deletedAt ? formatDate(note.deletedAt) : '알 수 없음'}
+              <span className="ml-2 text-red-500">
+                ({formatDate(purgeAt)} 영구 삭제 예정)
+              </span>
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 ml-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRestore}
+              disabled={isRestoring || isDeleting}
+              className="flex items-center gap-2"
+            >
+              {isRestoring ? (
+                <Loader2Icon className="h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4" />
+              )}
+              복원
+            </Button>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isRestoring || isDeleting}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                >
+                  <Trash2Icon className="h-4 w-4" />
+                  <span className="sr-only">영구 삭제</span>
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                  <DialogTitle className="flex items-center gap-2">
+                    <Trash2Icon className="h-5 w-5 text-destructive" />
+                    영구 삭제 확인
+                  </DialogTitle>
+                  <DialogDescription>
+                    <strong>&ldquo;{note.title}&rdquo;</strong> 노트를 영구 삭제하시겠습니까?
+                    <br />
+                    <span className="text-destructive font-medium">
+                      요약, 태그, 버전 기록이 함께 삭제되며 되돌릴 수 없습니다.
+                    </span>
+                  </DialogDescription>
+                </DialogHeader>
+                <DialogFooter className="gap-2 sm:gap-0">
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsDialogOpen(false)}
+                    disabled={isDeleting}
+                  >
+                    취소
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={handlePermanentDelete}
+                    disabled={isDeleting}
+                  >
+                    {isDeleting ? (
+                      <>
+                        <Loader2Icon className="h-4 w-4 animate-spin" />
+                        삭제 중...
+                      </>
+                    ) : (
+                      <>
+                        <Trash2Icon className="h-4 w-4" />
+                        영구 삭제
+                      </>
+                    )}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0">
+        <p className="text-gray-500 dark:text-gray-400 line-clamp-2">
+          {truncateContent(note.content)}
+        </p>
+        {error && (
+          <p className="mt-2 text-sm text-destructive">{error}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
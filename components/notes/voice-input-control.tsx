@@ -0,0 +1,120 @@
+// components/notes/voice-input-control.tsx
+// 음성 입력 컨트롤 컴포넌트
+// 시작/일시정지/재개/중지 버튼과 듣는 중 상태, 임시 인식 결과 미리보기, 권한·미지원 안내를 표시
+// 관련 파일: hooks/use-speech-recognition.ts, components/notes/note-form.tsx, components/notes/markdown-editor.tsx
+
+'use client'
+
+import { Mic, MicOff, Pause, Play, Square, Loader2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useSpeechRecognition } from '@/hooks/use-speech-recognition'
+import { UNSUPPORTED_BROWSER_MESSAGE } from '@/lib/voice/speech-recognition'
+
+interface VoiceInputControlProps {
+  // 확정된 문장을 전달받아 본문 커서 위치에 삽입
+  onTranscript: (transcript: string) => void
+  disabled?: boolean
+}
+
+export function VoiceInputControl({ onTranscript, disabled = false }: VoiceInputControlProps) {
+  const {
+    isSupported,
+    status,
+    interimTranscript,
+    error,
+    start,
+    pause,
+    resume,
+    stop,
+    clearError
+  } = useSpeechRecognition({ onFinalTranscript: onTranscript })
+
+  const isActive = status === 'listening' || status === 'paused'
+
+  // 미지원 브라우저는 안내만 하고 텍스트 입력을 계속 사용하도록 함
+  if (isSupported === false) {
+    return (
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="flex items-center gap-2"
+        disabled
+        title={UNSUPPORTED_BROWSER_MESSAGE}
+        aria-label={UNSUPPORTED_BROWSER_MESSAGE}
+      >
+        <MicOff className="w-4 h-4" />
+        음성 입력 불가
+      </Button>
+    )
+  }
+
+  return (
+    <div className="relative">
+      {isActive ? (
+        <div className="flex items-center gap-1">
+          {status === 'listening' ? (
+            <Button type="button" variant="outline" size="sm" onClick={pause} className="flex items-center gap-2">
+              <Pause className="w-4 h-4" />
+              일시정지
+            </Button>
+          ) : (
+            <Button type="button" variant="outline" size="sm" onClick={resume} className="flex items-center gap-2">
+              <Play className="w-4 h-4" />
+              계속
+            </Button>
+          )}
+          <Button type="button" variant="outline" size="sm" onClick={stop} className="flex items-center gap-2">
+            <Square className="w-4 h-4" />
+            중지
+          </Button>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={start}
+          disabled={disabled || isSupported === null || status === 'requesting'}
+          className="flex items-center gap-2"
+        >
+          {status === 'requesting' ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Mic className="w-4 h-4" />
+          )}
+          음성 입력
+        </Button>
+      )}
+
+      {(isActive || error) && (
+        <div
+          className="absolute right-0 top-full z-10 mt-2 w-72 rounded-lg border bg-white p-3 shadow-md dark:bg-gray-900"
+          role="status"
+          aria-live="polite"
+        >
+          {error ? (
+            <div className="flex items-start gap-2">
+              <p className="flex-1 text-sm text-red-600">{error}</p>
+              <button type="button" onClick={clearError} aria-label="오류 닫기" className="text-gray-400 hover:text-gray-600">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="mb-1 flex items-center gap-2 text-xs font-medium text-gray-600 dark:text-gray-400">
+                <span
+                  className={`h-2 w-2 rounded-full ${status === 'listening' ? 'animate-pulse bg-red-500' : 'bg-gray-400'}`}
+                />
+                {status === 'listening' ? '듣는 중... 말한 내용이 커서 위치에 입력됩니다.' : '일시정지됨'}
+              </div>
+              <p className="min-h-[1.25rem] text-sm italic text-gray-500">
+                {interimTranscript || (status === 'listening' ? '말씀해주세요' : '')}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
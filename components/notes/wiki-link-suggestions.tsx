@@ -0,0 +1,50 @@
+// components/notes/wiki-link-suggestions.tsx
+// [[노트 제목]] 자동완성 후보 목록 컴포넌트
+// 에디터에서 [[ 를 입력하면 사용자의 노트 제목 후보를 보여주고 클릭 또는 키보드(↑↓, Enter)로 선택하게 함
+// 관련 파일: components/notes/markdown-editor.tsx, hooks/use-wiki-link-autocomplete.ts
+
+'use client'
+
+import { FileText } from 'lucide-react'
+import type { NoteTitleSuggestion } from '@/lib/notes/types'
+import { cn } from '@/lib/utils'
+
+interface WikiLinkSuggestionsProps {
+  suggestions: NoteTitleSuggestion[]
+  activeIndex: number
+  onSelect: (suggestion: NoteTitleSuggestion) => void
+  className?: string
+}
+
+export function WikiLinkSuggestions({ suggestions, activeIndex, onSelect, className }: WikiLinkSuggestionsProps) {
+  return (
+    <div
+      className={cn('w-72 rounded-md border bg-white shadow-lg dark:bg-gray-900', className)}
+      role="listbox"
+      aria-label="링크할 노트"
+    >
+      <p className="border-b px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400">
+        링크할 노트 선택 (↑↓ 이동, Enter 선택, Esc 닫기)
+      </p>
+      <ul className="max-h-60 overflow-y-auto py-1">
+        {suggestions.map((suggestion, index) => (
+          <li key={suggestion.id} role="option" aria-selected={index === activeIndex}>
+            <button
+              type="button"
+              // 에디터 포커스가 유지되도록 mousedown 기본 동작 차단
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => onSelect(suggestion)}
+              className={cn(
+                'flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm',
+                index === activeIndex ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+              )}
+            >
+              <FileText className="h-4 w-4 shrink-0 text-gray-400" />
+              <span className="truncate">{suggestion.title}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
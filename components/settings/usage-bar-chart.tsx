@@ -0,0 +1,82 @@
+// components/settings/usage-bar-chart.tsx
+// 날짜별 AI 사용량 막대 차트 컴포넌트
+// 차트 라이브러리 없이 막대 높이로 일별 값을 표시하고, 막대에 마우스를 올리면 날짜와 값을 보여줌
+// 관련 파일: app/settings/usage/page.tsx, lib/ai/usage-stats.ts
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+
+export interface UsageChartPoint {
+  date: string // YYYY-MM-DD
+  value: number
+}
+
+interface UsageBarChartProps {
+  title: string
+  data: UsageChartPoint[]
+  unit?: string
+  decimals?: number
+  // 값이 고정 범위(예: 성공률 0-100)인 경우 최대값
+  maxValue?: number
+  barClassName?: string
+}
+
+function formatValue(value: number, decimals: number, unit?: string): string {
+  const formatted = value.toLocaleString('ko-KR', { maximumFractionDigits: decimals })
+  return unit ? `${formatted}${unit}` : formatted
+}
+
+// 축 라벨용 짧은 날짜 (MM/DD)
+function formatShortDate(date: string): string {
+  const [, month, day] = date.split('-')
+  return `${month}/${day}`
+}
+
+export function UsageBarChart({
+  title,
+  data,
+  unit,
+  decimals = 0,
+  maxValue,
+  barClassName = 'bg-blue-500'
+}: UsageBarChartProps) {
+  const max = maxValue ?? Math.max(...data.map(point => point.value), 0)
+  const total = data.reduce((sum, point) => sum + point.value, 0)
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-gray-700 dark:text-gray-300">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {total === 0 ? (
+          <div className="flex h-32 items-center justify-center text-sm text-gray-400">
+            기록이 없습니다
+          </div>
+        ) : (
+          <div className="flex h-32 items-end gap-px" role="img" aria-label={title}>
+            {data.map(point => (
+              <div
+                key={point.date}
+                className="group relative flex h-full flex-1 items-end"
+                title={`${point.date}: ${formatValue(point.value, decimals, unit)}`}
+              >
+                <div
+                  className={cn('w-full rounded-t-sm transition-opacity group-hover:opacity-70', barClassName)}
+                  style={{ height: max > 0 ? `${Math.max((point.value / max) * 100, point.value > 0 ? 2 : 0)}%` : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        {data.length > 0 && (
+          <div className="mt-2 flex justify-between text-xs text-gray-400">
+            <span>{formatShortDate(data[0].date)}</span>
+            <span>최대 {formatValue(max, decimals, unit)}</span>
+            <span>{formatShortDate(data[data.length - 1].date)}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
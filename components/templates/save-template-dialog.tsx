@@ -0,0 +1,161 @@
+// components/templates/save-template-dialog.tsx
+// 노트를 템플릿으로 저장하는 다이얼로그 컴포넌트
+// 템플릿 이름을 입력받아 현재 노트의 제목과 본문을 새 노트 작성에 쓸 템플릿으로 저장
+// 관련 파일: components/notes/note-page-actions.tsx, lib/templates/actions.ts, lib/templates/placeholders.ts
+
+'use client'
+
+import { useState } from 'react'
+import { CheckIcon, LayoutTemplateIcon, Loader2Icon } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { createNoteTemplateFromNote } from '@/lib/templates/actions'
+import { MAX_TEMPLATE_NAME_LENGTH, TEMPLATE_VARIABLES } from '@/lib/templates/placeholders'
+
+interface SaveTemplateDialogProps {
+  noteId: string
+  noteTitle: string
+  children: React.ReactNode
+}
+
+export function SaveTemplateDialog({ noteId, noteTitle, children }: SaveTemplateDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [name, setName] = useState(noteTitle)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isSaved, setIsSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      await createNoteTemplateFromNote(noteId, name)
+
+      setIsSaved(true)
+    } catch (error) {
+      console.error('템플릿 저장 오류:', error)
+
+      // 에러 타입에 따른 메시지 설정
+      if (error instanceof Error) {
+        if (error.message === 'INVALID_NAME') {
+          setError(`템플릿 이름은 1~${MAX_TEMPLATE_NAME_LENGTH}자로 입력해주세요.`)
+        } else if (error.message === 'NOT_FOUND') {
+          setError('노트를 찾을 수 없습니다.')
+        } else if (error.message === 'FORBIDDEN') {
+          setError('이 노트를 템플릿으로 저장할 권한이 없습니다.')
+        } else {
+          setError('템플릿 저장에 실패했습니다. 다시 시도해주세요.')
+        }
+      } else {
+        setError('알 수 없는 오류가 발생했습니다.')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setName(noteTitle)
+    } else {
+      setError(null)
+      setIsSaved(false)
+    }
+    setIsOpen(open)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <LayoutTemplateIcon className="h-5 w-5" />
+              템플릿으로 저장
+            </DialogTitle>
+            <DialogDescription>
+              저장된 노트의 제목과 본문을 새 노트 작성에 사용할 템플릿으로 저장합니다.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-name">템플릿 이름</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_TEMPLATE_NAME_LENGTH}
+              placeholder="예: 주간 회의록"
+              disabled={isSaving || isSaved}
+              autoFocus
+            />
+          </div>
+
+          {/* 템플릿 변수 도움말 */}
+          <div className="rounded-lg bg-gray-50 p-3 text-xs text-gray-600 dark:bg-gray-800 dark:text-gray-400">
+            <p className="mb-1">제목과 본문에 아래 변수를 넣으면 새 노트를 만들 때 바뀝니다.</p>
+            {TEMPLATE_VARIABLES.map((variable) => (
+              <div key={variable.name}>
+                <code>{`{{${variable.name}}}`}</code> - {variable.description}
+              </div>
+            ))}
+          </div>
+
+          {isSaved && (
+            <div className="rounded-md bg-green-50 p-3 text-sm text-green-700 dark:bg-green-950 dark:text-green-300">
+              템플릿을 저장했습니다. 새 노트 작성 화면에서 선택할 수 있습니다.
+            </div>
+          )}
+
+          {error && (
+            <div className="rounded-md bg-destructive/10 border border-destructive/20 p-3">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSaving}
+            >
+              {isSaved ? '닫기' : '취소'}
+            </Button>
+            {!isSaved && (
+              <Button type="submit" disabled={isSaving || name.trim().length === 0}>
+                {isSaving ? (
+                  <>
+                    <Loader2Icon className="h-4 w-4 animate-spin" />
+                    저장 중...
+                  </>
+                ) : (
+                  <>
+                    <CheckIcon className="h-4 w-4" />
+                    저장
+                  </>
+                )}
+              </Button>
+            )}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
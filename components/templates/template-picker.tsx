@@ -0,0 +1,119 @@
+// components/templates/template-picker.tsx
+// 새 노트 작성 화면의 템플릿 선택 컴포넌트
+// 사용자의 노트 템플릿 중 하나를 고르면 폼의 제목과 본문을 템플릿 내용으로 채우고, 더 이상 쓰지 않는 템플릿을 삭제할 수 있음
+// 관련 파일: components/notes/note-form.tsx, app/notes/new/page.tsx, lib/templates/actions.ts, lib/templates/placeholders.ts
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { LayoutTemplateIcon, Loader2Icon, Trash2Icon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { deleteNoteTemplate } from '@/lib/templates/actions'
+import type { NoteTemplateOption } from '@/lib/templates/placeholders'
+
+// 템플릿 없이 빈 노트로 시작하는 선택지
+const BLANK_TEMPLATE_VALUE = '__blank__'
+
+interface TemplatePickerProps {
+  templates: NoteTemplateOption[]
+  selectedId: string | null
+  onSelect: (template: NoteTemplateOption | null) => void
+  disabled?: boolean
+}
+
+export function TemplatePicker({ templates, selectedId, onSelect, disabled = false }: TemplatePickerProps) {
+  const router = useRouter()
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selectedTemplate = templates.find(template => template.id === selectedId) ?? null
+
+  const handleChange = (value: string) => {
+    setError(null)
+    onSelect(templates.find(template => template.id === value) ?? null)
+  }
+
+  const handleDelete = async () => {
+    if (!selectedTemplate) return
+
+    try {
+      setIsDeleting(true)
+      setError(null)
+
+      await deleteNoteTemplate(selectedTemplate.id)
+
+      // 입력된 내용은 그대로 두고 선택만 해제
+      onSelect(null)
+      router.refresh()
+    } catch (error) {
+      console.error('템플릿 삭제 오류:', error)
+
+      if (error instanceof Error && error.message === 'NOT_FOUND') {
+        setError('삭제할 템플릿을 찾을 수 없습니다.')
+      } else if (error instanceof Error && error.message === 'FORBIDDEN') {
+        setError('이 템플릿을 삭제할 권한이 없습니다.')
+      } else {
+        setError('템플릿 삭제에 실패했습니다. 다시 시도해주세요.')
+      }
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  if (templates.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+        <LayoutTemplateIcon className="w-4 h-4" />
+        노트 화면의 &lsquo;템플릿으로 저장&rsquo;으로 자주 쓰는 형식을 템플릿으로 만들 수 있습니다.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <label htmlFor="template-select" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          템플릿:
+        </label>
+        <Select
+          value={selectedTemplate?.id ?? BLANK_TEMPLATE_VALUE}
+          onValueChange={handleChange}
+          disabled={disabled || isDeleting}
+        >
+          <SelectTrigger className="w-[240px]" id="template-select">
+            <SelectValue placeholder="템플릿 선택">
+              {selectedTemplate?.name ?? '빈 노트'}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={BLANK_TEMPLATE_VALUE}>빈 노트</SelectItem>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedTemplate && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={handleDelete}
+            disabled={disabled || isDeleting}
+            aria-label={`${selectedTemplate.name} 템플릿 삭제`}
+            title="템플릿 삭제"
+          >
+            {isDeleting ? <Loader2Icon className="w-4 h-4 animate-spin" /> : <Trash2Icon className="w-4 h-4" />}
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        템플릿을 선택하면 입력한 제목과 본문이 템플릿 내용으로 바뀝니다.
+      </p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+ALTER TABLE "notes" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "idx_notes_user_id_deleted_at" ON "notes" USING btree ("user_id","deleted_at");
\ No newline at end of file
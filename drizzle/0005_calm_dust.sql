@@ -0,0 +1,6 @@
+-- 부분 일치(한국어 조사 포함) 검색용 trigram 인덱스를 위해 pg_trgm 확장 필요
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('simple', coalesce(title, '')), 'A') || setweight(to_tsvector('simple', coalesce(content, '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "idx_notes_search_vector" ON "notes" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "idx_notes_title_trgm" ON "notes" USING gin ("title" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "idx_notes_content_trgm" ON "notes" USING gin ("content" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "summaries" ALTER COLUMN "model" SET DATA TYPE varchar(100);
\ No newline at end of file
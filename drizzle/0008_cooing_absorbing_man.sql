@@ -0,0 +1,15 @@
+-- 임베딩 벡터 컬럼과 코사인 거리 인덱스를 위해 pgvector 확장 필요
+CREATE EXTENSION IF NOT EXISTS vector;--> statement-breakpoint
+CREATE TABLE "note_embeddings" (
+	"note_id" uuid PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"model" varchar(100) NOT NULL,
+	"content_hash" varchar(64) NOT NULL,
+	"embedding" vector(768) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "note_embeddings" ADD CONSTRAINT "note_embeddings_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_note_embeddings_user_id_model" ON "note_embeddings" USING btree ("user_id","model");--> statement-breakpoint
+CREATE INDEX "idx_note_embeddings_embedding" ON "note_embeddings" USING hnsw ("embedding" vector_cosine_ops);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "audio_attachments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"note_id" uuid,
+	"user_id" uuid NOT NULL,
+	"storage_provider" varchar(20) NOT NULL,
+	"storage_key" text NOT NULL,
+	"mime_type" varchar(100) NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"duration_ms" integer,
+	"transcription_model" varchar(100),
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "audio_attachments" ADD CONSTRAINT "audio_attachments_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_audio_attachments_note_id" ON "audio_attachments" USING btree ("note_id");--> statement-breakpoint
+CREATE INDEX "idx_audio_attachments_user_id" ON "audio_attachments" USING btree ("user_id");
\ No newline at end of file
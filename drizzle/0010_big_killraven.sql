@@ -0,0 +1,13 @@
+CREATE TABLE "ai_quotas" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"usage_date" date NOT NULL,
+	"tokens_used" integer DEFAULT 0 NOT NULL,
+	"daily_token_limit" integer,
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "ai_rate_limits" (
+	"key" varchar(200) PRIMARY KEY NOT NULL,
+	"tokens" double precision NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
@@ -0,0 +1,14 @@
+CREATE TABLE "ai_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"feature" varchar(20) NOT NULL,
+	"model" varchar(100) NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"success" boolean NOT NULL,
+	"error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_ai_usage_user_created_at" ON "ai_usage" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "ai_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"note_id" uuid NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"status" varchar(20) DEFAULT 'queued' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"message" text,
+	"result" jsonb,
+	"error" text,
+	"error_code" varchar(50),
+	"retry_after_ms" integer,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"run_after" timestamp with time zone DEFAULT now() NOT NULL,
+	"locked_at" timestamp with time zone,
+	"finished_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_jobs" ADD CONSTRAINT "ai_jobs_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_ai_jobs_status_run_after" ON "ai_jobs" USING btree ("status","run_after");--> statement-breakpoint
+CREATE INDEX "idx_ai_jobs_note_type_created_at" ON "ai_jobs" USING btree ("note_id","type","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_ai_jobs_active_note_type" ON "ai_jobs" USING btree ("note_id","type") WHERE "ai_jobs"."status" in ('queued', 'running');
\ No newline at end of file
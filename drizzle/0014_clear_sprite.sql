@@ -0,0 +1,3 @@
+ALTER TABLE "notes" ADD COLUMN "pinned" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "favorite" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_notes_user_id_favorite" ON "notes" USING btree ("user_id") WHERE "notes"."favorite";
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ai_usage" ADD COLUMN "aborted" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "error_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"error_type" text NOT NULL,
+	"error_message" text NOT NULL,
+	"error_details" jsonb,
+	"severity" text NOT NULL,
+	"context" jsonb,
+	"resolved" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
@@ -1,28 +1,35 @@
 // hooks/use-ai-status.ts
 // AI 상태 관리 React 훅
-// AI 작업 상태 추적, 상태 업데이트, 버튼 비활성화 로직
-// 관련 파일: lib/ai/status-manager.ts, lib/ai/types.ts
+// 서버 백그라운드 작업(ai_jobs)을 등록·취소하고 상태와 생성 중인 결과 미리보기를 폴링하며, 페이지를 다시 열면 진행 중인 작업을 이어서 추적
+// 관련 파일: lib/ai/job-actions.ts, lib/ai/job-utils.ts, lib/ai/types.ts
 
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { AIProcessStatus, AIProcessState, AIStatusUpdate } from '@/lib/ai/types'
-import { aiStatusManager } from '@/lib/ai/status-manager'
+import type { AIProcessState, AIJobResult, AIJobSnapshot, AIJobType } from '@/lib/ai/types'
+import type { AIError } from '@/lib/ai/error-handler-client'
+import { startAIJob, getAIJobStatus, getLatestAIJobStatus, cancelAIJob } from '@/lib/ai/job-actions'
+import { AI_JOB_POLL_INTERVAL_MS, getAIJobError, getAIJobProcessState, isActiveAIJob } from '@/lib/ai/job-utils'
 
 interface UseAIStatusOptions {
   noteId: string
-  type: 'summary' | 'tags'
+  type: AIJobType
   maxRetries?: number
-  onSuccess?: () => void
-  onError?: (error: string) => void
+  pollInterval?: number // 작업 상태 조회 간격 (ms)
+  onSuccess?: (result: AIJobResult) => void
+  onError?: (error: AIError) => void
 }
 
 interface UseAIStatusReturn {
   state: AIProcessState
+  job: AIJobSnapshot | null
+  // 처리 중인 작업이 지금까지 생성한 결과 미리보기
+  preview?: string
   isProcessing: boolean
   canStart: boolean
-  startJob: () => boolean
-  retryJob: () => boolean
+  startJob: () => Promise<boolean>
+  retryJob: () => Promise<boolean>
+  cancelJob: () => Promise<void>
   clearState: () => void
 }
 
@@ -30,6 +37,7 @@ export function useAIStatus({
   noteId,
   type,
   maxRetries = 3,
+  pollInterval = AI_JOB_POLL_INTERVAL_MS,
   onSuccess,
   onError
 }: UseAIStatusOptions): UseAIStatusReturn {
@@ -37,127 +45,187 @@ export function useAIStatus({
     status: 'idle',
     maxRetries
   })
+  const [job, setJob] = useState<AIJobSnapshot | null>(null)
 
-  const jobIdRef = useRef<string | null>(null)
-  const statusUpdateCallbackRef = useRef<(update: AIStatusUpdate) => void>(() => {})
+  // 추적 중인 작업 (폴링 응답이 취소/교체된 작업의 것인지 확인용)
+  const jobRef = useRef<AIJobSnapshot | null>(null)
+  const callbacksRef = useRef({ onSuccess, onError })
 
-  // 상태 업데이트 콜백
-  const handleStatusUpdate = useCallback((update: AIStatusUpdate) => {
+  useEffect(() => {
+    callbacksRef.current = { onSuccess, onError }
+  }, [onSuccess, onError])
+
+  // 작업 상태 반영 (진행 중이던 작업이 끝나면 성공/에러 콜백 호출)
+  const trackJob = useCallback((next: AIJobSnapshot) => {
+    const previous = jobRef.current
+    jobRef.current = next
+    setJob(next)
     setState(prevState => ({
-      ...prevState,
-      status: update.status,
-      progress: update.progress,
-      message: update.message,
-      error: update.error,
-      retryCount: update.status === 'error' ? (prevState.retryCount || 0) + 1 : prevState.retryCount
+      ...getAIJobProcessState(next),
+      retryCount: prevState.retryCount,
+      maxRetries
     }))
 
-    // 성공/에러 콜백 호출
-    if (update.status === 'success' && onSuccess) {
-      onSuccess()
-    } else if (update.status === 'error' && onError) {
-      console.log('useAIStatus - Error received:', {
-        error: update.error,
-        errorType: typeof update.error,
-        errorKeys: update.error && typeof update.error === 'object' ? Object.keys(update.error) : 'not object'
-      })
-      
-      const errorMessage = typeof update.error === 'string' 
-        ? update.error 
-        : (update.error && typeof update.error === 'object' && 'message' in update.error 
-          ? (update.error as { message: string }).message 
-          : '알 수 없는 오류가 발생했습니다.')
-      onError(errorMessage)
+    const wasActive = !previous || previous.id !== next.id || isActiveAIJob(previous.status)
+    if (!wasActive || isActiveAIJob(next.status) || next.status === 'cancelled') return
+
+    if (next.status === 'succeeded') {
+      callbacksRef.current.onSuccess?.(next.result ?? {})
+    } else {
+      callbacksRef.current.onError?.(getAIJobError(next))
     }
-  }, [onSuccess, onError])
+  }, [maxRetries])
 
-  // 상태 업데이트 콜백 참조 업데이트
-  useEffect(() => {
-    statusUpdateCallbackRef.current = handleStatusUpdate
-  }, [handleStatusUpdate])
+  // 작업 상태를 알 수 없게 된 경우 (등록 실패, 조회 실패)
+  const failTracking = useCallback((message: string) => {
+    jobRef.current = null
+    setJob(null)
+    setState(prevState => ({ ...prevState, status: 'error', error: message, message: undefined }))
+    callbacksRef.current.onError?.({
+      type: 'SERVER_ERROR',
+      message,
+      retryable: true,
+      severity: 'medium',
+      context: { noteId }
+    })
+  }, [noteId])
 
-  // 컴포넌트 언마운트 시 작업 정리
+  // 페이지를 다시 열었을 때 진행 중인 작업 이어받기
   useEffect(() => {
+    let cancelled = false
+
+    getLatestAIJobStatus(noteId, type)
+      .then(result => {
+        if (cancelled || jobRef.current || !result.success || !result.job) return
+        if (isActiveAIJob(result.job.status)) {
+          trackJob(result.job)
+        }
+      })
+      .catch(error => {
+        console.error('AI 작업 상태 조회 실패:', error)
+      })
+
     return () => {
-      if (jobIdRef.current) {
-        // 작업이 진행 중이면 완료 처리
-        const job = aiStatusManager.getJob(jobIdRef.current)
-        if (job && job.status === 'loading') {
-          aiStatusManager.failJob(jobIdRef.current, new Error('사용자가 페이지를 떠났습니다.'))
+      cancelled = true
+    }
+  }, [noteId, type, trackJob])
+
+  // 진행 중인 작업 상태 폴링 (새 상태를 받을 때마다 다음 조회 예약)
+  useEffect(() => {
+    if (!job || !isActiveAIJob(job.status)) return
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const result = await getAIJobStatus(job.id)
+        if (cancelled || jobRef.current?.id !== job.id) return
+
+        if (result.success && result.job) {
+          trackJob(result.job)
+        } else {
+          failTracking(result.error || 'AI 작업 상태를 불러올 수 없습니다.')
+        }
+      } catch (error) {
+        // 일시적인 네트워크 오류는 다음 주기에 다시 조회
+        console.error('AI 작업 상태 조회 실패:', error)
+        if (!cancelled && jobRef.current?.id === job.id) {
+          setJob({ ...job })
         }
       }
+    }, pollInterval)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
     }
-  }, [])
+  }, [job, pollInterval, trackJob, failTracking])
 
-  // 작업 시작
-  const startJob = useCallback((): boolean => {
-    if (state.status === 'loading') return false
+  // 작업 등록 (같은 노트의 같은 작업이 진행 중이면 서버가 기존 작업을 반환)
+  const enqueue = useCallback(async (message: string): Promise<boolean> => {
+    setState(prevState => ({
+      ...prevState,
+      status: 'loading',
+      progress: 0,
+      message,
+      error: undefined
+    }))
+
+    try {
+      const result = await startAIJob(noteId, type)
+      if (!result.success || !result.job) {
+        failTracking(result.error || 'AI 작업을 시작할 수 없습니다.')
+        return false
+      }
 
-    const jobId = `${type}-${noteId}-${Date.now()}`
-    const success = aiStatusManager.startJob(
-      jobId,
-      type,
-      noteId,
-      handleStatusUpdate
-    )
-
-    if (success) {
-      jobIdRef.current = jobId
-      setState(prevState => ({
-        ...prevState,
-        status: 'loading',
-        progress: 0,
-        message: 'AI 처리를 시작합니다...',
-        retryCount: 0
-      }))
+      trackJob(result.job)
+      return true
+    } catch (error) {
+      console.error('AI 작업 등록 실패:', error)
+      failTracking('AI 작업을 시작할 수 없습니다.')
+      return false
     }
+  }, [noteId, type, trackJob, failTracking])
 
-    return success
-  }, [noteId, type, state.status, handleStatusUpdate])
+  // 작업 시작
+  const startJob = useCallback(async (): Promise<boolean> => {
+    if (state.status === 'loading') return false
+
+    setState(prevState => ({ ...prevState, retryCount: 0 }))
+    return enqueue('AI 처리를 시작합니다...')
+  }, [state.status, enqueue])
 
   // 작업 재시도
-  const retryJob = useCallback((): boolean => {
-    if (!jobIdRef.current || state.status !== 'error') return false
-
-    const success = aiStatusManager.retryJob(jobIdRef.current)
-    if (success) {
-      setState(prevState => ({
-        ...prevState,
-        status: 'loading',
-        progress: 0,
-        message: '재시도 중...',
-        error: undefined
-      }))
-    }
+  const retryJob = useCallback(async (): Promise<boolean> => {
+    if (state.status !== 'error' || (state.retryCount ?? 0) >= maxRetries) return false
 
-    return success
-  }, [state.status])
+    setState(prevState => ({ ...prevState, retryCount: (prevState.retryCount ?? 0) + 1 }))
+    return enqueue('재시도 중...')
+  }, [state.status, state.retryCount, maxRetries, enqueue])
 
   // 상태 초기화
   const clearState = useCallback(() => {
-    if (jobIdRef.current) {
-      aiStatusManager.completeJob(jobIdRef.current)
-      jobIdRef.current = null
-    }
-    
+    jobRef.current = null
+    setJob(null)
     setState({
       status: 'idle',
       maxRetries
     })
   }, [maxRetries])
 
+  // 작업 취소 (서버 작업도 중단되어 결과가 저장되지 않음, 취소 요청이 실패해도 추적은 중단)
+  const cancelJob = useCallback(async () => {
+    const current = jobRef.current
+    clearState()
+    if (!current || !isActiveAIJob(current.status)) return
+
+    try {
+      const result = await cancelAIJob(current.id)
+      if (!result.success) {
+        console.error('AI 작업 취소 실패:', result.error)
+      }
+    } catch (error) {
+      console.error('AI 작업 취소 실패:', error)
+    }
+  }, [clearState])
+
+  // 생성 중인 결과 미리보기 (처리 중일 때만)
+  const preview = job?.status === 'running' ? job.result?.preview : undefined
+
   // 처리 중 여부
   const isProcessing = state.status === 'loading'
 
   // 작업 시작 가능 여부
-  const canStart = state.status === 'idle' || state.status === 'error'
+  const canStart = state.status === 'idle' || state.status === 'error' || state.status === 'success'
 
   return {
     state,
+    job,
+    preview,
     isProcessing,
     canStart,
     startJob,
     retryJob,
+    cancelJob,
     clearState
   }
 }
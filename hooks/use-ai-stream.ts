@@ -0,0 +1,144 @@
+// hooks/use-ai-stream.ts
+// AI 스트리밍 응답 React 훅
+// SSE 스트리밍 API를 호출하여 도착하는 텍스트를 점진적으로 반영하고 중단(cancel) 기능 제공
+// 관련 파일: lib/ai/sse.ts, app/api/ai-chat/stream/route.ts, app/ai-chat/page.tsx
+
+'use client'
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { readAIStreamEvents } from '@/lib/ai/sse'
+import type { ChatSource } from '@/lib/ai/chat'
+
+export type AIStreamStatus = 'done' | 'cancelled' | 'error'
+
+export interface AIStreamResult {
+  status: AIStreamStatus
+  text: string
+  model?: string
+  sources?: ChatSource[]
+  error?: string
+  code?: string
+  // 사용 한도 초과 응답의 재시도 대기 시간 (초)
+  retryAfter?: number
+}
+
+export interface UseAIStreamOptions {
+  onConversation?: (conversation: { id: string; title: string }) => void
+  onSources?: (sources: ChatSource[]) => void
+  onProgress?: (progress: number, message?: string) => void
+  onChunk?: (chunk: string, text: string) => void
+  onDone?: (text: string, model?: string) => void
+  onError?: (error: string, code?: string) => void
+}
+
+export function useAIStream(options: UseAIStreamOptions = {}) {
+  const [text, setText] = useState('')
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const optionsRef = useRef(options)
+
+  useEffect(() => {
+    optionsRef.current = options
+  }, [options])
+
+  // 언마운트 시 진행 중인 스트림 중단
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const fail = useCallback((message: string, code: string | undefined, partialText: string, retryAfter?: number): AIStreamResult => {
+    setError(message)
+    optionsRef.current.onError?.(message, code)
+    return { status: 'error', text: partialText, error: message, code, ...(retryAfter ? { retryAfter } : {}) }
+  }, [])
+
+  // 스트리밍 요청 시작 (진행 중인 요청은 중단)
+  const start = useCallback(async (url: string, body: unknown): Promise<AIStreamResult> => {
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    setText('')
+    setError(null)
+    setIsStreaming(true)
+
+    let fullText = ''
+    let sources: ChatSource[] | undefined
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      })
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}))
+        return fail(data.error || 'AI 응답 생성 중 오류가 발생했습니다.', data.code, fullText, data.retryAfter)
+      }
+
+      for await (const event of readAIStreamEvents(response.body)) {
+        if (event.type === 'conversation') {
+          optionsRef.current.onConversation?.(event.conversation)
+        } else if (event.type === 'sources') {
+          sources = event.sources
+          optionsRef.current.onSources?.(event.sources)
+        } else if (event.type === 'progress') {
+          optionsRef.current.onProgress?.(event.progress, event.message)
+        } else if (event.type === 'chunk') {
+          fullText += event.text
+          setText(fullText)
+          optionsRef.current.onChunk?.(event.text, fullText)
+        } else if (event.type === 'done') {
+          fullText = event.text
+          setText(fullText)
+          optionsRef.current.onDone?.(fullText, event.model)
+          return { status: 'done', text: fullText, model: event.model, sources }
+        } else {
+          return fail(event.error, event.code, fullText)
+        }
+      }
+
+      // done 이벤트 없이 연결이 끊긴 경우
+      if (controller.signal.aborted) {
+        return { status: 'cancelled', text: fullText }
+      }
+      return fail('응답 스트림이 예기치 않게 종료되었습니다.', undefined, fullText)
+    } catch (streamError) {
+      if (controller.signal.aborted) {
+        return { status: 'cancelled', text: fullText }
+      }
+
+      console.error('AI 스트리밍 요청 오류:', streamError)
+      return fail('네트워크 오류가 발생했습니다.', 'NETWORK_ERROR', fullText)
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setIsStreaming(false)
+      }
+    }
+  }, [fail])
+
+  // 진행 중인 스트림 중단
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  const reset = useCallback(() => {
+    abortControllerRef.current?.abort()
+    setText('')
+    setError(null)
+  }, [])
+
+  return {
+    text,
+    isStreaming,
+    error,
+    start,
+    cancel,
+    reset
+  }
+}
@@ -0,0 +1,140 @@
+// hooks/use-audio-recorder.ts
+// 브라우저 녹음 React 훅
+// MediaRecorder로 마이크 녹음을 시작/중지하고 경과 시간과 완성된 녹음(Blob)을 관리
+// 관련 파일: lib/audio/upload.ts, lib/voice/speech-recognition.ts, components/notes/audio-note-recorder.tsx
+
+'use client'
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { MAX_RECORDING_MS, RECORDER_MIME_TYPES } from '@/lib/audio/upload'
+import { getMicrophoneErrorMessage } from '@/lib/voice/speech-recognition'
+
+export type AudioRecorderStatus = 'idle' | 'requesting' | 'recording' | 'recorded' | 'error'
+
+export interface AudioRecording {
+  blob: Blob
+  durationMs: number
+}
+
+// 브라우저가 지원하는 첫 번째 녹음 형식 (없으면 브라우저 기본값)
+function getRecorderMimeType(): string | undefined {
+  return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+}
+
+export function useAudioRecorder() {
+  // 서버 렌더링 결과와 어긋나지 않도록 지원 여부는 마운트 후 확인
+  const [isSupported, setIsSupported] = useState<boolean | null>(null)
+  const [status, setStatus] = useState<AudioRecorderStatus>('idle')
+  const [elapsedMs, setElapsedMs] = useState(0)
+  const [recording, setRecording] = useState<AudioRecording | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const startedAtRef = useRef(0)
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  useEffect(() => {
+    setIsSupported(typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia)
+  }, [])
+
+  // 타이머와 마이크 스트림 정리
+  const releaseResources = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current)
+      timerRef.current = null
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+  }, [])
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop()
+    }
+  }, [])
+
+  const start = useCallback(async () => {
+    if (status === 'requesting' || status === 'recording') return
+
+    setError(null)
+    setRecording(null)
+    setElapsedMs(0)
+    setStatus('requesting')
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch (error) {
+      setError(getMicrophoneErrorMessage(error instanceof Error ? error.name : ''))
+      setStatus('error')
+      return
+    }
+
+    const mimeType = getRecorderMimeType()
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    const chunks: Blob[] = []
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+
+    recorder.onstop = () => {
+      const durationMs = Date.now() - startedAtRef.current
+      releaseResources()
+      setElapsedMs(durationMs)
+      setRecording({ blob: new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }), durationMs })
+      setStatus('recorded')
+    }
+
+    recorder.onerror = () => {
+      releaseResources()
+      setError('녹음 중 오류가 발생했습니다. 다시 시도해주세요.')
+      setStatus('error')
+    }
+
+    streamRef.current = stream
+    recorderRef.current = recorder
+    startedAtRef.current = Date.now()
+    recorder.start(1000)
+    setStatus('recording')
+
+    // 경과 시간 갱신 및 최대 길이 도달 시 자동 중지
+    timerRef.current = setInterval(() => {
+      const elapsed = Date.now() - startedAtRef.current
+      setElapsedMs(elapsed)
+      if (elapsed >= MAX_RECORDING_MS) stop()
+    }, 250)
+  }, [status, releaseResources, stop])
+
+  const reset = useCallback(() => {
+    setRecording(null)
+    setElapsedMs(0)
+    setError(null)
+    setStatus('idle')
+  }, [])
+
+  // 언마운트 시 녹음 중단 및 마이크 해제
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current
+      if (recorder) {
+        recorder.onstop = null
+        if (recorder.state === 'recording') recorder.stop()
+      }
+      releaseResources()
+    }
+  }, [releaseResources])
+
+  return {
+    isSupported,
+    status,
+    isRecording: status === 'recording',
+    elapsedMs,
+    recording,
+    error,
+    start,
+    stop,
+    reset
+  }
+}
@@ -0,0 +1,54 @@
+// hooks/use-countdown.ts
+// 재시도 대기 카운트다운 훅
+// 서버가 알려준 대기 시간(retryAfter)이 끝날 때까지 남은 시간을 1초 단위로 갱신
+// 관련 파일: components/ai/retry-button.tsx, app/ai-chat/page.tsx, lib/ai/rate-limit.ts
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+export function useCountdown(durationMs?: number) {
+  const [endsAt, setEndsAt] = useState<number | null>(null)
+  const [remainingMs, setRemainingMs] = useState(0)
+
+  const start = useCallback((ms: number) => {
+    if (ms > 0) {
+      setEndsAt(Date.now() + ms)
+      setRemainingMs(ms)
+    } else {
+      setEndsAt(null)
+      setRemainingMs(0)
+    }
+  }, [])
+
+  const clear = useCallback(() => start(0), [start])
+
+  // 대기 시간이 새로 주어지면 카운트다운 다시 시작
+  useEffect(() => {
+    if (durationMs !== undefined) {
+      start(durationMs)
+    }
+  }, [durationMs, start])
+
+  useEffect(() => {
+    if (endsAt === null) return
+
+    const timer = setInterval(() => {
+      const remaining = Math.max(0, endsAt - Date.now())
+      setRemainingMs(remaining)
+
+      if (remaining === 0) {
+        setEndsAt(null)
+      }
+    }, 1000)
+
+    return () => clearInterval(timer)
+  }, [endsAt])
+
+  return {
+    remainingMs,
+    isCountingDown: remainingMs > 0,
+    start,
+    clear
+  }
+}
@@ -0,0 +1,145 @@
+// hooks/use-notes-export.ts
+// 노트 내보내기 React 훅
+// 노트를 나누어 불러오며 진행률을 갱신하고, 선택한 형식의 파일을 브라우저에서 만들어 다운로드
+// 관련 파일: lib/export/actions.ts, lib/export/formats.ts, components/notes/export-notes-dialog.tsx
+
+'use client'
+
+import { useState, useCallback, useRef } from 'react'
+import { getExportNotes } from '@/lib/export/actions'
+import {
+  buildJSONExport,
+  buildCSVExport,
+  buildMarkdownFile,
+  buildMarkdownZip,
+  buildExportFileName
+} from '@/lib/export/formats'
+import type { ExportFormat, ExportNote } from '@/lib/export/types'
+
+// 한 번에 불러올 노트 수
+const EXPORT_BATCH_SIZE = 100
+
+export type ExportStatus = 'idle' | 'loading' | 'success' | 'error'
+
+export interface ExportState {
+  status: ExportStatus
+  progress: number // 0-100
+  message?: string
+  error?: string
+}
+
+interface ExportTarget {
+  // 지정하면 해당 노트만 내보냄 (미지정 시 계정 전체)
+  noteIds?: string[]
+  // 노트 하나를 내보낼 때 파일명으로 사용
+  noteTitle?: string
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+function buildExportBlob(format: ExportFormat, notes: ExportNote[], singleNote: boolean): Blob {
+  if (format === 'json') {
+    return new Blob([buildJSONExport(notes)], { type: 'application/json' })
+  }
+  if (format === 'csv') {
+    return new Blob([buildCSVExport(notes)], { type: 'text/csv;charset=utf-8' })
+  }
+  if (singleNote) {
+    return new Blob([buildMarkdownFile(notes[0])], { type: 'text/markdown;charset=utf-8' })
+  }
+
+  const zip = buildMarkdownZip(notes)
+  return new Blob([zip.buffer as ArrayBuffer], { type: 'application/zip' })
+}
+
+export function useNotesExport() {
+  const [state, setState] = useState<ExportState>({ status: 'idle', progress: 0 })
+  const cancelledRef = useRef(false)
+
+  const exportNotes = useCallback(async (format: ExportFormat, target: ExportTarget = {}): Promise<boolean> => {
+    cancelledRef.current = false
+    setState({ status: 'loading', progress: 0, message: '내보낼 노트를 확인하고 있습니다...' })
+
+    try {
+      const collected: ExportNote[] = []
+      let total = 0
+
+      // 대용량 계정도 요청 하나가 너무 커지지 않도록 나누어 조회
+      do {
+        const batch = await getExportNotes({
+          noteIds: target.noteIds,
+          offset: collected.length,
+          limit: EXPORT_BATCH_SIZE
+        })
+        if (cancelledRef.current) {
+          setState({ status: 'idle', progress: 0 })
+          return false
+        }
+
+        total = batch.total
+        collected.push(...batch.notes)
+        if (batch.notes.length === 0) break
+
+        setState({
+          status: 'loading',
+          progress: Math.round((collected.length / Math.max(total, 1)) * 80),
+          message: `노트를 불러오고 있습니다... (${collected.length}/${total})`
+        })
+      } while (collected.length < total)
+
+      if (collected.length === 0) {
+        setState({ status: 'error', progress: 0, error: '내보낼 노트가 없습니다.' })
+        return false
+      }
+
+      setState({ status: 'loading', progress: 85, message: '파일을 만들고 있습니다...' })
+      // 진행률 표시가 먼저 그려지도록 한 프레임 양보
+      await new Promise(resolve => setTimeout(resolve, 0))
+
+      const singleNote = target.noteTitle !== undefined && collected.length === 1
+      const blob = buildExportBlob(format, collected, singleNote)
+      downloadBlob(blob, buildExportFileName(format, new Date(), singleNote ? target.noteTitle : undefined))
+
+      setState({
+        status: 'success',
+        progress: 100,
+        message: `${collected.length}개의 노트를 내보냈습니다.`
+      })
+      return true
+    } catch (error) {
+      console.error('노트 내보내기 오류:', error)
+      setState({
+        status: 'error',
+        progress: 0,
+        error: error instanceof Error ? error.message : '내보내기에 실패했습니다.'
+      })
+      return false
+    }
+  }, [])
+
+  // 진행 중인 내보내기 중단 (다음 조회가 끝나면 중단됨)
+  const cancel = useCallback(() => {
+    cancelledRef.current = true
+  }, [])
+
+  const reset = useCallback(() => {
+    setState({ status: 'idle', progress: 0 })
+  }, [])
+
+  return {
+    state,
+    isExporting: state.status === 'loading',
+    exportNotes,
+    cancel,
+    reset
+  }
+}
@@ -0,0 +1,135 @@
+// hooks/use-notes-import.ts
+// 노트 가져오기 React 훅
+// 선택한 마크다운/ZIP/ENEX 파일을 브라우저에서 읽어 나누어 서버로 보내고, 진행률과 파일별 결과를 모음
+// 관련 파일: lib/import/actions.ts, lib/import/archive.ts, lib/import/enex.ts, components/notes/import-notes-form.tsx
+
+'use client'
+
+import { useState, useCallback } from 'react'
+import { importNotes } from '@/lib/import/actions'
+import { extractImportFilesFromZip } from '@/lib/import/archive'
+import { convertEnexFile } from '@/lib/import/enex'
+import { chunkImportFiles, isMarkdownFileName, MAX_IMPORT_FILE_LENGTH } from '@/lib/import/markdown'
+import type { ImportFileInput, ImportFileResult } from '@/lib/import/types'
+
+export type ImportStatus = 'idle' | 'loading' | 'success' | 'error'
+
+export interface ImportState {
+  status: ImportStatus
+  progress: number // 0-100
+  message?: string
+  error?: string
+}
+
+const failed = (fileName: string, error: string): ImportFileResult => ({ fileName, status: 'failed', error })
+
+// 선택한 파일을 가져오기 대상 목록으로 변환 (읽을 수 없는 파일은 바로 실패로 기록)
+async function readImportFiles(files: File[]) {
+  const inputs: ImportFileInput[] = []
+  const failures: ImportFileResult[] = []
+
+  for (const file of files) {
+    try {
+      // ZIP(마크다운 묶음, Notion 내보내기)과 ENEX는 노트별 파일로 나누어 처리
+      const isZip = /\.zip$/i.test(file.name)
+      if (isZip || /\.enex$/i.test(file.name)) {
+        const entries = isZip
+          ? extractImportFilesFromZip(file.name, new Uint8Array(await file.arrayBuffer()))
+          : convertEnexFile(file.name, await file.text())
+        if (entries.length === 0) {
+          failures.push(failed(file.name, isZip ? '압축 파일에 마크다운 파일이 없습니다.' : '파일에 노트가 없습니다.'))
+        }
+        for (const entry of entries) {
+          if (entry.content.length > MAX_IMPORT_FILE_LENGTH) {
+            failures.push(failed(entry.fileName, '파일이 너무 큽니다.'))
+          } else {
+            inputs.push(entry)
+          }
+        }
+      } else if (isMarkdownFileName(file.name)) {
+        const content = await file.text()
+        if (content.length > MAX_IMPORT_FILE_LENGTH) {
+          failures.push(failed(file.name, '파일이 너무 큽니다.'))
+        } else {
+          inputs.push({ fileName: file.name, content })
+        }
+      } else {
+        failures.push(failed(file.name, '지원하지 않는 파일 형식입니다. (.md, .zip, .enex)'))
+      }
+    } catch (error) {
+      console.error('가져오기 파일 읽기 오류:', error)
+      failures.push(failed(file.name, '파일을 읽을 수 없습니다.'))
+    }
+  }
+
+  return { inputs, failures }
+}
+
+export function useNotesImport() {
+  const [state, setState] = useState<ImportState>({ status: 'idle', progress: 0 })
+  const [results, setResults] = useState<ImportFileResult[]>([])
+
+  const importFiles = useCallback(async (files: File[]): Promise<boolean> => {
+    setResults([])
+    setState({ status: 'loading', progress: 0, message: '파일을 읽고 있습니다...' })
+
+    try {
+      const { inputs, failures } = await readImportFiles(files)
+      const collected: ImportFileResult[] = [...failures]
+      setResults([...collected])
+
+      const batches = chunkImportFiles(inputs)
+      let processed = 0
+
+      for (const batch of batches) {
+        setState({
+          status: 'loading',
+          progress: Math.round((processed / Math.max(inputs.length, 1)) * 100),
+          message: `노트를 가져오고 있습니다... (${processed}/${inputs.length})`
+        })
+
+        try {
+          const { results: batchResults } = await importNotes(batch)
+          collected.push(...batchResults)
+        } catch (error) {
+          // 요청 하나가 실패해도 나머지 파일은 계속 가져옴
+          console.error('노트 가져오기 요청 오류:', error)
+          const message = error instanceof Error ? error.message : '노트를 저장하지 못했습니다.'
+          collected.push(...batch.map(file => failed(file.fileName, message)))
+        }
+
+        processed += batch.length
+        setResults([...collected])
+      }
+
+      const importedCount = collected.filter(result => result.status === 'imported').length
+      setState({
+        status: 'success',
+        progress: 100,
+        message: `${importedCount}개의 노트를 가져왔습니다.`
+      })
+      return importedCount > 0
+    } catch (error) {
+      console.error('노트 가져오기 오류:', error)
+      setState({
+        status: 'error',
+        progress: 0,
+        error: error instanceof Error ? error.message : '가져오기에 실패했습니다.'
+      })
+      return false
+    }
+  }, [])
+
+  const reset = useCallback(() => {
+    setState({ status: 'idle', progress: 0 })
+    setResults([])
+  }, [])
+
+  return {
+    state,
+    results,
+    isImporting: state.status === 'loading',
+    importFiles,
+    reset
+  }
+}
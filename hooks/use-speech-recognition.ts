@@ -0,0 +1,177 @@
+// hooks/use-speech-recognition.ts
+// 음성 인식 React 훅
+// Web Speech API의 시작/일시정지/재개/중지 상태와 임시 인식 결과를 관리하고 확정된 문장을 콜백으로 전달
+// 관련 파일: lib/voice/speech-recognition.ts, components/notes/voice-input-control.tsx
+
+'use client'
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import {
+  getSpeechRecognition,
+  getSpeechErrorMessage,
+  requestMicrophoneAccess,
+  collectTranscripts,
+  SPEECH_RECOGNITION_LANG,
+  UNSUPPORTED_BROWSER_MESSAGE,
+  type SpeechRecognitionLike
+} from '@/lib/voice/speech-recognition'
+
+export type SpeechRecognitionStatus = 'idle' | 'requesting' | 'listening' | 'paused' | 'error'
+
+interface UseSpeechRecognitionOptions {
+  // 문장이 확정될 때마다 호출
+  onFinalTranscript: (transcript: string) => void
+  lang?: string
+}
+
+export function useSpeechRecognition({ onFinalTranscript, lang = SPEECH_RECOGNITION_LANG }: UseSpeechRecognitionOptions) {
+  // 서버 렌더링 결과와 어긋나지 않도록 지원 여부는 마운트 후 확인
+  const [isSupported, setIsSupported] = useState<boolean | null>(null)
+  const [status, setStatus] = useState<SpeechRecognitionStatus>('idle')
+  const [interimTranscript, setInterimTranscript] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null)
+  const statusRef = useRef<SpeechRecognitionStatus>('idle')
+  const onFinalTranscriptRef = useRef(onFinalTranscript)
+
+  useEffect(() => {
+    onFinalTranscriptRef.current = onFinalTranscript
+  }, [onFinalTranscript])
+
+  useEffect(() => {
+    setIsSupported(getSpeechRecognition() !== null)
+  }, [])
+
+  const updateStatus = useCallback((next: SpeechRecognitionStatus) => {
+    statusRef.current = next
+    setStatus(next)
+  }, [])
+
+  const fail = useCallback((message: string) => {
+    setError(message)
+    setInterimTranscript('')
+    updateStatus('error')
+  }, [updateStatus])
+
+  const createRecognition = useCallback((): SpeechRecognitionLike | null => {
+    const Recognition = getSpeechRecognition()
+    if (!Recognition) return null
+
+    const recognition = new Recognition()
+    recognition.lang = lang
+    recognition.continuous = true
+    recognition.interimResults = true
+
+    recognition.onresult = (event) => {
+      const { finalText, interimText } = collectTranscripts(event)
+      if (finalText) onFinalTranscriptRef.current(finalText)
+      setInterimTranscript(interimText)
+    }
+
+    recognition.onerror = (event) => {
+      // 일시정지/중지로 인한 중단과 침묵 구간은 오류로 보지 않음 (onend에서 계속 듣기)
+      if (event.error === 'aborted' || event.error === 'no-speech') return
+      console.error('음성 인식 오류:', event.error, event.message)
+      fail(getSpeechErrorMessage(event.error))
+    }
+
+    recognition.onend = () => {
+      setInterimTranscript('')
+      // 브라우저가 침묵 후 인식을 스스로 끝낸 경우 다시 시작
+      if (statusRef.current === 'listening') {
+        try {
+          recognition.start()
+        } catch (error) {
+          console.error('음성 인식 재시작 실패:', error)
+          updateStatus('idle')
+        }
+      }
+    }
+
+    return recognition
+  }, [lang, fail, updateStatus])
+
+  const start = useCallback(async () => {
+    if (statusRef.current === 'listening' || statusRef.current === 'requesting') return
+
+    const recognition = recognitionRef.current ?? createRecognition()
+    if (!recognition) {
+      fail(UNSUPPORTED_BROWSER_MESSAGE)
+      return
+    }
+    recognitionRef.current = recognition
+
+    setError(null)
+    updateStatus('requesting')
+
+    const permissionError = await requestMicrophoneAccess()
+    if (permissionError) {
+      fail(permissionError)
+      return
+    }
+
+    updateStatus('listening')
+    try {
+      recognition.start()
+    } catch (error) {
+      // 이미 시작된 경우 InvalidStateError가 발생하므로 무시
+      console.error('음성 인식 시작 오류:', error)
+    }
+  }, [createRecognition, fail, updateStatus])
+
+  // Web Speech API에는 일시정지가 없으므로 인식을 멈추고 상태만 유지 (멈출 때 남은 결과는 확정되어 전달됨)
+  const pause = useCallback(() => {
+    if (statusRef.current !== 'listening') return
+    updateStatus('paused')
+    recognitionRef.current?.stop()
+  }, [updateStatus])
+
+  const resume = useCallback(() => {
+    if (statusRef.current !== 'paused') return
+    updateStatus('listening')
+    try {
+      recognitionRef.current?.start()
+    } catch (error) {
+      console.error('음성 인식 재개 오류:', error)
+    }
+  }, [updateStatus])
+
+  const stop = useCallback(() => {
+    const wasActive = statusRef.current === 'listening' || statusRef.current === 'paused'
+    updateStatus('idle')
+    if (wasActive) recognitionRef.current?.stop()
+  }, [updateStatus])
+
+  const clearError = useCallback(() => {
+    setError(null)
+    if (statusRef.current === 'error') updateStatus('idle')
+  }, [updateStatus])
+
+  // 언마운트 시 인식 중단
+  useEffect(() => {
+    return () => {
+      const recognition = recognitionRef.current
+      if (recognition) {
+        statusRef.current = 'idle'
+        recognition.onresult = null
+        recognition.onerror = null
+        recognition.onend = null
+        recognition.abort()
+      }
+    }
+  }, [])
+
+  return {
+    isSupported,
+    status,
+    isListening: status === 'listening',
+    interimTranscript,
+    error,
+    start,
+    pause,
+    resume,
+    stop,
+    clearError
+  }
+}
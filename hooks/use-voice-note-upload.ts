@@ -0,0 +1,82 @@
+// hooks/use-voice-note-upload.ts
+// 음성 메모 업로드 React 훅
+// 녹음(또는 선택한 오디오 파일)을 업로드하고 전사·노트 생성·요약 단계의 진행 상태와 결과를 관리
+// 관련 파일: app/api/notes/audio/route.ts, lib/audio/upload.ts, components/notes/audio-note-recorder.tsx
+
+'use client'
+
+import { useState, useCallback } from 'react'
+import { validateAudioUpload, getAudioExtension } from '@/lib/audio/upload'
+import type { VoiceNoteResult } from '@/lib/audio/voice-note'
+
+export type VoiceNoteUploadStatus = 'idle' | 'loading' | 'success' | 'error'
+
+export interface VoiceNoteUploadState {
+  status: VoiceNoteUploadStatus
+  progress: number // 0-100
+  message?: string
+  error?: string
+}
+
+export function useVoiceNoteUpload() {
+  const [state, setState] = useState<VoiceNoteUploadState>({ status: 'idle', progress: 0 })
+  const [result, setResult] = useState<VoiceNoteResult | null>(null)
+
+  const upload = useCallback(async (audio: Blob, durationMs?: number): Promise<VoiceNoteResult | null> => {
+    setResult(null)
+
+    const validationError = validateAudioUpload(audio)
+    if (validationError) {
+      setState({ status: 'error', progress: 0, error: validationError })
+      return null
+    }
+
+    setState({ status: 'loading', progress: 20, message: '녹음을 업로드하고 전사하는 중입니다...' })
+
+    try {
+      const formData = new FormData()
+      const fileName = audio instanceof File ? audio.name : `recording.${getAudioExtension(audio.type) ?? 'webm'}`
+      formData.append('audio', audio, fileName)
+      if (durationMs) formData.append('durationMs', String(Math.round(durationMs)))
+
+      const response = await fetch('/api/notes/audio', { method: 'POST', body: formData })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || '음성 메모를 만들지 못했습니다.')
+      }
+
+      const voiceNote = data as VoiceNoteResult
+      setResult(voiceNote)
+      setState({
+        status: 'success',
+        progress: 100,
+        message: voiceNote.summaryError
+          ? `노트를 만들었습니다. 요약은 생성되지 않았습니다: ${voiceNote.summaryError}`
+          : '전사와 요약이 포함된 노트를 만들었습니다.'
+      })
+      return voiceNote
+    } catch (error) {
+      console.error('음성 메모 업로드 오류:', error)
+      setState({
+        status: 'error',
+        progress: 0,
+        error: error instanceof Error ? error.message : '음성 메모를 만들지 못했습니다.'
+      })
+      return null
+    }
+  }, [])
+
+  const reset = useCallback(() => {
+    setState({ status: 'idle', progress: 0 })
+    setResult(null)
+  }, [])
+
+  return {
+    state,
+    result,
+    isUploading: state.status === 'loading',
+    upload,
+    reset
+  }
+}
@@ -0,0 +1,79 @@
+// hooks/use-wiki-link-autocomplete.ts
+// [[노트 제목]] 자동완성 React 훅
+// 커서 앞의 닫히지 않은 [[ 입력을 감지해 사용자의 노트 제목 후보를 불러오고, 키보드로 후보를 선택할 수 있는 상태를 관리
+// 관련 파일: lib/notes/wiki-links.ts, lib/notes/link-actions.ts, components/notes/markdown-editor.tsx, components/notes/wiki-link-suggestions.tsx
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { searchNoteTitles } from '@/lib/notes/link-actions'
+import { getWikiLinkTrigger, type WikiLinkTrigger } from '@/lib/notes/wiki-links'
+import type { NoteTitleSuggestion } from '@/lib/notes/types'
+
+// 입력 중 서버 요청을 줄이기 위한 대기 시간
+const SEARCH_DEBOUNCE_MS = 150
+
+interface UseWikiLinkAutocompleteOptions {
+  noteId: string // 현재 노트 (후보에서 제외)
+}
+
+export function useWikiLinkAutocomplete({ noteId }: UseWikiLinkAutocompleteOptions) {
+  const [trigger, setTrigger] = useState<WikiLinkTrigger | null>(null)
+  const [suggestions, setSuggestions] = useState<NoteTitleSuggestion[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const query = trigger?.query ?? null
+
+  useEffect(() => {
+    if (query === null) {
+      setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchNoteTitles(query, noteId)
+        if (!cancelled) {
+          setSuggestions(results)
+          setActiveIndex(0)
+        }
+      } catch (error) {
+        console.error('위키 링크 자동완성 오류:', error)
+        if (!cancelled) setSuggestions([])
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, noteId])
+
+  // 본문과 커서 위치가 바뀔 때마다 [[ 입력 여부 확인
+  const updateTrigger = useCallback((text: string, cursor: number) => {
+    setTrigger(getWikiLinkTrigger(text, cursor))
+  }, [])
+
+  const close = useCallback(() => {
+    setTrigger(null)
+  }, [])
+
+  // 후보 목록에서 선택 위치 이동 (끝에서 처음으로 순환)
+  const moveActive = useCallback((delta: number) => {
+    setActiveIndex(prev => {
+      if (suggestions.length === 0) return 0
+      return (prev + delta + suggestions.length) % suggestions.length
+    })
+  }, [suggestions.length])
+
+  return {
+    trigger,
+    suggestions,
+    activeIndex,
+    isOpen: trigger !== null && suggestions.length > 0,
+    updateTrigger,
+    moveActive,
+    close
+  }
+}
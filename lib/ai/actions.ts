@@ -1,15 +1,19 @@
 // lib/ai/actions.ts
 // AI 서비스 서버 액션
-// Next.js 서버 액션을 통한 Gemini API 호출 함수들
-// 관련 파일: lib/ai/gemini-client.ts, lib/notes/actions.ts, lib/ai/status-manager.ts, lib/ai/error-handler.ts
+// Next.js 서버 액션을 통한 AI 제공자 호출 함수들
+// 관련 파일: lib/ai/provider-registry.ts, lib/notes/actions.ts, lib/ai/job-actions.ts, lib/ai/error-handler.ts
 
 'use server'
 
-import { getGeminiClient } from './gemini-client'
+import { getAIProvider, getModelLabel } from './provider-registry'
 import { GeminiError } from './errors'
 import { AIProcessState } from './types'
 import { AIError, classifyError, logError, getUserFriendlyMessage } from './error-handler'
 import { RetryManager } from './retry-manager'
+import { summarizeContent, needsChunkedSummary } from './map-reduce-summary'
+import { estimateTokens } from './utils'
+import { enforceAILimits } from './usage-limits'
+import { trackAIUsage } from './usage-log'
 
 // 기본 텍스트 생성 서버 액션
 export async function generateText(prompt: string): Promise<{
@@ -25,7 +29,7 @@ export async function generateText(prompt: string): Promise<{
       }
     }
 
-    const client = getGeminiClient()
+    const client = getAIProvider()
     const text = await client.generateText(prompt)
     
     return {
@@ -51,7 +55,7 @@ export async function checkAIHealth(): Promise<{
   error?: string
 }> {
   try {
-    const client = getGeminiClient()
+    const client = getAIProvider()
     const isHealthy = await client.healthCheck()
     
     return {
@@ -83,7 +87,7 @@ export async function getAIUsageStats(): Promise<{
   error?: string
 }> {
   try {
-    const client = getGeminiClient()
+    const client = getAIProvider()
     const stats = client.getUsageStats()
     
     return {
@@ -121,7 +125,7 @@ ${content}
 
 요약:`
 
-    const client = getGeminiClient()
+    const client = getAIProvider()
     const summary = await client.generateText(prompt)
     
     return {
@@ -162,7 +166,7 @@ ${content}
 
 태그:`
 
-    const client = getGeminiClient()
+    const client = getAIProvider()
     const response = await client.generateText(prompt)
     
     // 응답에서 태그 추출
@@ -225,22 +229,17 @@ export async function generateSummaryWithStatus(
       }
     }
 
-    // 진행률 업데이트
-    onStatusUpdate({
-      status: 'loading',
-      progress: 60,
-      message: 'AI가 요약을 생성하고 있습니다...'
-    })
-
-    const prompt = `다음 노트 내용을 3-5개의 불릿 포인트로 요약해주세요. 핵심 내용만 간결하게 정리해주세요.
-
-노트 내용:
-${content}
-
-요약:`
+    // 진행률 업데이트 (긴 노트는 조각별 요약 진행률을 summarizeContent가 전달)
+    if (!needsChunkedSummary(content)) {
+      onStatusUpdate({
+        status: 'loading',
+        progress: 60,
+        message: 'AI가 요약을 생성하고 있습니다...'
+      })
+    }
 
-    const client = getGeminiClient()
-    const summary = await client.generateText(prompt)
+    const client = getAIProvider()
+    const summary = await summarizeContent(client, content, onStatusUpdate)
 
     // 진행률 업데이트
     onStatusUpdate({
@@ -331,7 +330,7 @@ ${content}
 
 태그:`
 
-    const client = getGeminiClient()
+    const client = getAIProvider()
     const response = await client.generateText(prompt)
     
     // 응답에서 태그 추출
@@ -436,8 +435,14 @@ ${content}
 
 요약:`
 
-    const client = getGeminiClient()
-    const summary = await client.generateText(prompt)
+    await enforceAILimits(userId, estimateTokens(prompt))
+
+    const client = getAIProvider()
+    const summary = await trackAIUsage(
+      { userId, feature: 'summary', model: getModelLabel(client) },
+      prompt,
+      () => client.generateText(prompt)
+    )
 
     onStatusUpdate?.({
       status: 'loading',
@@ -529,8 +534,14 @@ ${content}
 
 태그:`
 
-    const client = getGeminiClient()
-    const response = await client.generateText(prompt)
+    await enforceAILimits(userId, estimateTokens(prompt))
+
+    const client = getAIProvider()
+    const response = await trackAIUsage(
+      { userId, feature: 'tags', model: getModelLabel(client) },
+      prompt,
+      () => client.generateText(prompt)
+    )
     
     const tags = response
       .split(',')
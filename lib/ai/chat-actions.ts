@@ -0,0 +1,154 @@
+// lib/ai/chat-actions.ts
+// AI 대화 목록 관련 서버 액션
+// 저장된 대화 목록 조회, 대화 메시지 불러오기, 대화 이름 변경 및 삭제 기능을 제공
+// 관련 파일: lib/ai/chat-conversations.ts, lib/db/schema/chat_conversations.ts, components/ai/chat-conversation-sidebar.tsx
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { chatConversations, chatMessages, ChatConversation, ChatMessageRecord } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { and, eq, desc, asc } from 'drizzle-orm'
+import { findOwnedConversation } from './chat-conversations'
+
+const CONVERSATION_TITLE_MAX_LENGTH = 100
+
+interface ChatActionResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+export type ChatConversationSummary = Pick<ChatConversation, 'id' | 'title' | 'updatedAt'>
+export type ChatMessageView = Pick<ChatMessageRecord, 'id' | 'role' | 'content' | 'sources' | 'createdAt'>
+
+async function getAuthenticatedUser() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return null
+  }
+  return user
+}
+
+// 대화 목록 조회 (최근 대화 순)
+export async function listChatConversations(): Promise<ChatActionResult<ChatConversationSummary[]>> {
+  try {
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return { success: false, error: '인증이 필요합니다.' }
+    }
+
+    const conversations = await db
+      .select({
+        id: chatConversations.id,
+        title: chatConversations.title,
+        updatedAt: chatConversations.updatedAt
+      })
+      .from(chatConversations)
+      .where(eq(chatConversations.userId, user.id))
+      .orderBy(desc(chatConversations.updatedAt))
+
+    return { success: true, data: conversations }
+  } catch (error) {
+    console.error('대화 목록 조회 오류:', error)
+    return { success: false, error: '대화 목록을 불러올 수 없습니다.' }
+  }
+}
+
+// 대화 메시지 조회 (시간순)
+export async function getChatMessages(conversationId: string): Promise<ChatActionResult<ChatMessageView[]>> {
+  try {
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return { success: false, error: '인증이 필요합니다.' }
+    }
+
+    const conversation = await findOwnedConversation(user.id, conversationId)
+    if (!conversation) {
+      return { success: false, error: '대화를 찾을 수 없거나 권한이 없습니다.' }
+    }
+
+    const messages = await db
+      .select({
+        id: chatMessages.id,
+        role: chatMessages.role,
+        content: chatMessages.content,
+        sources: chatMessages.sources,
+        createdAt: chatMessages.createdAt
+      })
+      .from(chatMessages)
+      .where(and(eq(chatMessages.conversationId, conversationId), eq(chatMessages.userId, user.id)))
+      .orderBy(asc(chatMessages.createdAt))
+
+    return { success: true, data: messages }
+  } catch (error) {
+    console.error('대화 메시지 조회 오류:', error)
+    return { success: false, error: '대화 내용을 불러올 수 없습니다.' }
+  }
+}
+
+// 대화 이름 변경
+export async function renameChatConversation(
+  conversationId: string,
+  title: string
+): Promise<ChatActionResult<ChatConversationSummary>> {
+  try {
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return { success: false, error: '인증이 필요합니다.' }
+    }
+
+    const trimmedTitle = title.trim()
+    if (!trimmedTitle) {
+      return { success: false, error: '대화 이름을 입력해주세요.' }
+    }
+    if (trimmedTitle.length > CONVERSATION_TITLE_MAX_LENGTH) {
+      return { success: false, error: `대화 이름은 ${CONVERSATION_TITLE_MAX_LENGTH}자 이하로 입력해주세요.` }
+    }
+
+    const [updated] = await db
+      .update(chatConversations)
+      .set({ title: trimmedTitle })
+      .where(and(eq(chatConversations.id, conversationId), eq(chatConversations.userId, user.id)))
+      .returning({
+        id: chatConversations.id,
+        title: chatConversations.title,
+        updatedAt: chatConversations.updatedAt
+      })
+
+    if (!updated) {
+      return { success: false, error: '대화를 찾을 수 없거나 권한이 없습니다.' }
+    }
+
+    return { success: true, data: updated }
+  } catch (error) {
+    console.error('대화 이름 변경 오류:', error)
+    return { success: false, error: '대화 이름을 변경할 수 없습니다.' }
+  }
+}
+
+// 대화 삭제 (메시지는 외래 키 cascade로 함께 삭제)
+export async function deleteChatConversation(conversationId: string): Promise<ChatActionResult> {
+  try {
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return { success: false, error: '인증이 필요합니다.' }
+    }
+
+    const deleted = await db
+      .delete(chatConversations)
+      .where(and(eq(chatConversations.id, conversationId), eq(chatConversations.userId, user.id)))
+      .returning({ id: chatConversations.id })
+
+    if (deleted.length === 0) {
+      return { success: false, error: '대화를 찾을 수 없거나 권한이 없습니다.' }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('대화 삭제 오류:', error)
+    return { success: false, error: '대화를 삭제할 수 없습니다.' }
+  }
+}
@@ -0,0 +1,108 @@
+// lib/ai/chat-conversations.ts
+// AI 대화 저장/이어가기 서버 유틸리티
+// 대화 세션 확인·생성, 토큰 예산 안의 이전 대화 조회, 완성된 프롬프트 기준 사용 한도 확인, 사용자/AI 메시지 저장을 라우트들이 공유하도록 제공
+// 관련 파일: lib/db/schema/chat_conversations.ts, lib/db/schema/chat_messages.ts, lib/ai/note-chat.ts, lib/ai/chat-actions.ts
+
+import { db } from '@/lib/db/connection'
+import { chatConversations, chatMessages, ChatConversation } from '@/lib/db/schema'
+import { and, eq, desc } from 'drizzle-orm'
+import { prepareNoteChat } from './note-chat'
+import { enforceAILimits } from './usage-limits'
+import { estimateTokens } from './utils'
+import { buildConversationTitle, truncateHistoryToBudget, ChatHistoryMessage, ChatSource } from './chat'
+
+// 토큰 예산 계산 전에 불러올 최근 메시지 수
+const HISTORY_FETCH_LIMIT = 50
+
+interface StartChatTurnInput {
+  message: string
+  conversationId?: string
+  useNotes?: boolean
+}
+
+export interface ChatTurn {
+  conversation: Pick<ChatConversation, 'id' | 'title'>
+  prompt: string
+  sources: ChatSource[]
+}
+
+// 사용자 소유 대화 조회 (없거나 다른 사용자 대화면 null)
+export async function findOwnedConversation(userId: string, conversationId: string) {
+  const [conversation] = await db
+    .select()
+    .from(chatConversations)
+    .where(and(eq(chatConversations.id, conversationId), eq(chatConversations.userId, userId)))
+    .limit(1)
+
+  return conversation ?? null
+}
+
+// 최근 메시지를 시간순으로 조회
+async function getRecentHistory(userId: string, conversationId: string): Promise<ChatHistoryMessage[]> {
+  const rows = await db
+    .select({ role: chatMessages.role, content: chatMessages.content })
+    .from(chatMessages)
+    .where(and(eq(chatMessages.conversationId, conversationId), eq(chatMessages.userId, userId)))
+    .orderBy(desc(chatMessages.createdAt))
+    .limit(HISTORY_FETCH_LIMIT)
+
+  return rows.reverse()
+}
+
+// 대화 턴 시작: 대화 확인 → 이전 대화 + 노트 검색으로 프롬프트 구성 → 사용 한도 확인 → 대화 생성(새 대화인 경우)과 사용자 메시지 저장
+// userId는 반드시 세션에서 확인한 사용자 ID여야 함
+// 한도를 넘으면 AILimitError를 던지며, 이때는 대화나 메시지를 저장하지 않음
+export async function startChatTurn(
+  userId: string,
+  { message, conversationId, useNotes = true }: StartChatTurnInput
+): Promise<ChatTurn> {
+  let conversation: Pick<ChatConversation, 'id' | 'title'> | null = null
+  let history: ChatHistoryMessage[] = []
+
+  if (conversationId) {
+    const owned = await findOwnedConversation(userId, conversationId)
+    if (!owned) {
+      throw new Error('NOT_FOUND')
+    }
+    conversation = { id: owned.id, title: owned.title }
+    history = truncateHistoryToBudget(await getRecentHistory(userId, owned.id))
+  }
+
+  const { prompt, sources } = await prepareNoteChat(userId, message, useNotes, history)
+
+  // 메시지만이 아니라 참고 노트와 이전 대화가 포함된 실제 프롬프트 크기로 일일 한도와 분당 요청 한도 확인
+  await enforceAILimits(userId, estimateTokens(prompt))
+
+  if (!conversation) {
+    const [created] = await db
+      .insert(chatConversations)
+      .values({ userId, title: buildConversationTitle(message) })
+      .returning({ id: chatConversations.id, title: chatConversations.title })
+    conversation = created
+  }
+
+  await saveChatMessage(userId, conversation.id, { role: 'user', content: message })
+
+  return { conversation, prompt, sources }
+}
+
+// 메시지 저장 및 대화 목록 정렬 시각 갱신
+export async function saveChatMessage(
+  userId: string,
+  conversationId: string,
+  message: { role: 'user' | 'assistant'; content: string; sources?: ChatSource[]; model?: string }
+) {
+  await db.insert(chatMessages).values({
+    conversationId,
+    userId,
+    role: message.role,
+    content: message.content,
+    sources: message.sources && message.sources.length > 0 ? message.sources : null,
+    model: message.model ?? null
+  })
+
+  await db
+    .update(chatConversations)
+    .set({ updatedAt: new Date() })
+    .where(and(eq(chatConversations.id, conversationId), eq(chatConversations.userId, userId)))
+}
@@ -0,0 +1,62 @@
+// lib/ai/chat-request.ts
+// AI 대화 API 요청 검증과 오류 코드 정의
+// 요청 본문을 zod로 검증하고, API가 반환하는 오류 코드를 채팅 페이지가 사용자 메시지로 바꿀 수 있도록 공유
+// 관련 파일: lib/ai/chat-route.ts, app/api/ai-chat/route.ts, app/api/ai-chat/stream/route.ts, app/ai-chat/page.tsx
+
+import { z } from 'zod'
+
+// 메시지 최대 길이 (프롬프트에 노트 문맥과 대화 기록을 더할 여유를 남김)
+export const MAX_CHAT_MESSAGE_LENGTH = 4000
+
+export type ChatErrorCode =
+  | 'UNAUTHORIZED'
+  | 'INVALID_REQUEST'
+  | 'MESSAGE_TOO_LONG'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'QUOTA_EXCEEDED'
+  | 'CONVERSATION_NOT_FOUND'
+  | 'INTERNAL_ERROR'
+
+export const CHAT_ERROR_MESSAGES: Record<ChatErrorCode, string> = {
+  UNAUTHORIZED: '로그인이 필요합니다. 다시 로그인해주세요.',
+  INVALID_REQUEST: '요청 형식이 올바르지 않습니다. 메시지를 입력했는지 확인해주세요.',
+  MESSAGE_TOO_LONG: `메시지는 최대 ${MAX_CHAT_MESSAGE_LENGTH.toLocaleString()}자까지 보낼 수 있습니다.`,
+  RATE_LIMIT_EXCEEDED: '메시지를 너무 자주 보내고 있습니다. 잠시 후 다시 시도해주세요.',
+  QUOTA_EXCEEDED: '오늘 사용할 수 있는 AI 토큰을 모두 사용했습니다. 한도가 초기화된 뒤 다시 시도해주세요.',
+  CONVERSATION_NOT_FOUND: '대화를 찾을 수 없거나 권한이 없습니다.',
+  INTERNAL_ERROR: 'AI 응답 생성 중 오류가 발생했습니다.'
+}
+
+// 사용자 ID는 받지 않음 (세션에서만 확인)
+export const chatRequestSchema = z.object({
+  message: z.string().trim().min(1).max(MAX_CHAT_MESSAGE_LENGTH),
+  conversationId: z.uuid().optional(),
+  useNotes: z.boolean().optional().default(true)
+})
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>
+
+export type ChatRequestParseResult =
+  | { success: true; data: ChatRequest }
+  | { success: false; code: Extract<ChatErrorCode, 'INVALID_REQUEST' | 'MESSAGE_TOO_LONG'> }
+
+export function parseChatRequest(body: unknown): ChatRequestParseResult {
+  const result = chatRequestSchema.safeParse(body)
+
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  const tooLong = result.error.issues.some(issue => issue.path[0] === 'message' && issue.code === 'too_big')
+  return { success: false, code: tooLong ? 'MESSAGE_TOO_LONG' : 'INVALID_REQUEST' }
+}
+
+export function isChatErrorCode(code: unknown): code is ChatErrorCode {
+  return typeof code === 'string' && code in CHAT_ERROR_MESSAGES
+}
+
+// 오류 코드 → 사용자 메시지 (알 수 없는 코드는 서버 메시지나 기본 메시지 사용)
+export function getChatErrorMessage(code?: string, fallback?: string): string {
+  if (isChatErrorCode(code)) return CHAT_ERROR_MESSAGES[code]
+  return fallback || CHAT_ERROR_MESSAGES.INTERNAL_ERROR
+}
@@ -0,0 +1,60 @@
+// lib/ai/chat-route.ts
+// AI 대화 API 라우트 공통 처리
+// 세션으로만 사용자를 확인하고 요청 본문을 검증하며, 처리 중 오류(사용자별 빈도 제한·일일 토큰 한도 초과 포함)를 오류 코드가 포함된 응답으로 만듦
+// 관련 파일: app/api/ai-chat/route.ts, app/api/ai-chat/stream/route.ts, lib/ai/chat-request.ts, lib/ai/chat-conversations.ts, lib/ai/usage-limits.ts
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { CHAT_ERROR_MESSAGES, parseChatRequest, type ChatErrorCode, type ChatRequest } from './chat-request'
+import { toRetryAfterSeconds } from './rate-limit'
+import { AILimitError } from './errors'
+import { GeminiErrorType } from './types'
+
+type PreparedChatRequest =
+  | { ok: true; user: User; data: ChatRequest }
+  | { ok: false; response: NextResponse }
+
+// 오류 코드 응답 (사용 한도 초과인 경우 Retry-After 헤더와 재시도 대기 시간 포함)
+export function chatErrorResponse(code: ChatErrorCode, status: number, retryAfterMs?: number): NextResponse {
+  const retryAfter = retryAfterMs !== undefined ? toRetryAfterSeconds(retryAfterMs) : undefined
+
+  return NextResponse.json(
+    { error: CHAT_ERROR_MESSAGES[code], code, ...(retryAfter !== undefined ? { retryAfter } : {}) },
+    { status, headers: retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : undefined }
+  )
+}
+
+// 인증 → 본문 검증 순서로 확인
+// 사용 한도는 프롬프트(참고 노트, 이전 대화 포함)를 구성한 뒤 startChatTurn에서 확인하므로 잘못된 요청은 빈도 제한 횟수에 포함되지 않음
+export async function prepareChatRequest(request: NextRequest): Promise<PreparedChatRequest> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { ok: false, response: chatErrorResponse('UNAUTHORIZED', 401) }
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseChatRequest(body)
+
+  if (!parsed.success) {
+    return { ok: false, response: chatErrorResponse(parsed.code, parsed.code === 'MESSAGE_TOO_LONG' ? 413 : 400) }
+  }
+
+  return { ok: true, user, data: parsed.data }
+}
+
+// 처리 중 발생한 예외 → 오류 코드 응답
+export function chatRouteErrorResponse(error: unknown): NextResponse {
+  if (error instanceof AILimitError) {
+    const code = error.type === GeminiErrorType.QUOTA_EXCEEDED ? 'QUOTA_EXCEEDED' : 'RATE_LIMIT_EXCEEDED'
+    return chatErrorResponse(code, 429, error.retryAfterMs)
+  }
+
+  if (error instanceof Error && error.message === 'NOT_FOUND') {
+    return chatErrorResponse('CONVERSATION_NOT_FOUND', 404)
+  }
+
+  return chatErrorResponse('INTERNAL_ERROR', 500)
+}
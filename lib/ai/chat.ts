@@ -0,0 +1,130 @@
+// lib/ai/chat.ts
+// AI 대화 프롬프트 구성
+// 일반 응답 라우트와 스트리밍 라우트가 같은 시스템 프롬프트, 이전 대화 구성, 노트 인용 규칙을 사용하도록 공유
+// 관련 파일: app/api/ai-chat/route.ts, app/api/ai-chat/stream/route.ts, lib/ai/note-chat.ts, lib/ai/chat-conversations.ts
+
+import { estimateTokens } from './utils'
+
+export const CHAT_SYSTEM_PROMPT = `당신은 도움이 되는 AI 어시스턴트입니다. 
+사용자와 자연스럽고 친근하게 대화하며, 질문에 대해 정확하고 유용한 답변을 제공해주세요.
+한국어로 응답하며, 필요에 따라 이모지를 사용하여 친근함을 표현해주세요.
+답변은 간결하면서도 충분한 정보를 포함하도록 해주세요.`
+
+// 답변에 참고한 노트 (클라이언트에 출처로 전달)
+export interface ChatSource {
+  id: string
+  title: string
+}
+
+// 프롬프트에 넣을 노트 발췌
+export interface ChatContextNote extends ChatSource {
+  excerpt: string
+}
+
+// 프롬프트에 넣을 이전 대화 메시지
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// 프롬프트에 포함할 이전 대화의 최대 토큰 수
+export const CHAT_HISTORY_TOKEN_BUDGET = 2000
+const CONVERSATION_TITLE_MAX_LENGTH = 40
+
+// 최신 메시지부터 토큰 예산 안에 들어가는 만큼만 남김 (시간순 유지)
+export function truncateHistoryToBudget(
+  history: ChatHistoryMessage[],
+  maxTokens: number = CHAT_HISTORY_TOKEN_BUDGET
+): ChatHistoryMessage[] {
+  const kept: ChatHistoryMessage[] = []
+  let usedTokens = 0
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(history[i].content)
+    if (usedTokens + tokens > maxTokens) break
+
+    usedTokens += tokens
+    kept.unshift(history[i])
+  }
+
+  return kept
+}
+
+// 첫 메시지로 대화 제목 생성
+export function buildConversationTitle(message: string): string {
+  const firstLine = message.trim().split('\n')[0].replace(/\s+/g, ' ')
+  if (!firstLine) return '새 대화'
+
+  return firstLine.length > CONVERSATION_TITLE_MAX_LENGTH
+    ? `${firstLine.slice(0, CONVERSATION_TITLE_MAX_LENGTH)}…`
+    : firstLine
+}
+
+// 노트 링크 형식 (답변 본문에서 인용 링크로 사용)
+export function buildNoteLink(noteId: string): string {
+  return `/notes/${noteId}`
+}
+
+function buildNotesContext(contextNotes: ChatContextNote[]): string {
+  const noteBlocks = contextNotes.map((note, index) => `[노트 ${index + 1}]
+제목: ${note.title}
+링크: ${buildNoteLink(note.id)}
+내용:
+${note.excerpt}`)
+
+  return `아래는 사용자가 작성한 노트 중 질문과 관련된 내용입니다.
+노트 내용을 근거로 답변한 경우 반드시 [노트 제목](링크) 형식으로 해당 노트를 인용해주세요.
+노트에 없는 내용은 지어내지 말고, 일반 지식으로 답하는 경우 그 사실을 밝혀주세요.
+
+${noteBlocks.join('\n\n---\n\n')}`
+}
+
+function buildHistoryContext(history: ChatHistoryMessage[]): string {
+  const lines = history.map(message => `${message.role === 'user' ? '사용자' : 'AI'}: ${message.content}`)
+
+  return `아래는 지금까지의 대화입니다. 이어지는 대화로 답변해주세요.
+
+${lines.join('\n\n')}`
+}
+
+export function buildChatPrompt(
+  message: string,
+  contextNotes: ChatContextNote[] = [],
+  history: ChatHistoryMessage[] = []
+): string {
+  const historyContext = history.length > 0 ? `\n\n${buildHistoryContext(history)}` : ''
+  const context = contextNotes.length > 0 ? `\n\n${buildNotesContext(contextNotes)}` : ''
+
+  return `${CHAT_SYSTEM_PROMPT}${historyContext}${context}
+
+사용자 메시지: ${message}
+
+위 사용자 메시지에 대해 도움이 되는 답변을 해주세요.`
+}
+
+export type ChatContentSegment =
+  | { type: 'text'; text: string }
+  | { type: 'note-link'; title: string; noteId: string }
+
+// 답변 본문에서 [제목](/notes/<id>) 형식의 노트 인용만 분리 (외부 링크는 일반 텍스트로 유지)
+const NOTE_LINK_PATTERN = /\[([^\]\n]+)\]\(\/notes\/([0-9a-f-]{36})\)/gi
+
+export function splitNoteLinks(content: string): ChatContentSegment[] {
+  const segments: ChatContentSegment[] = []
+  let lastIndex = 0
+
+  for (const match of content.matchAll(NOTE_LINK_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, index) })
+    }
+    segments.push({ type: 'note-link', title: match[1], noteId: match[2] })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) })
+  }
+
+  return segments
+}
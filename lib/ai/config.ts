@@ -1,15 +1,37 @@
 // lib/ai/config.ts
 // AI 서비스 설정 관리
-// 환경변수를 통한 Gemini API 설정 및 검증
-// 관련 파일: lib/ai/types.ts, .env.local
+// 환경변수를 통한 AI 제공자 선택 및 제공자별(Gemini, OpenAI 호환, mock) 설정 검증
+// 관련 파일: lib/ai/types.ts, lib/ai/provider-registry.ts, .env.local
 
-import { GeminiConfig } from './types'
+import { GeminiConfig, AIProviderName, OpenAICompatibleConfig, MockAIConfig } from './types'
+
+export const AI_PROVIDER_NAMES: AIProviderName[] = ['gemini', 'openai-compatible', 'mock']
+
+// 사용할 AI 제공자 결정
+// AI_PROVIDER 미설정 시 Gemini 키가 있으면 gemini, 테스트 환경에서 키가 없으면 mock
+export function getAIProviderName(): AIProviderName {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase()
+
+  if (configured) {
+    if (!AI_PROVIDER_NAMES.includes(configured as AIProviderName)) {
+      throw new Error(`AI_PROVIDER는 ${AI_PROVIDER_NAMES.join(', ')} 중 하나여야 합니다.`)
+    }
+    return configured as AIProviderName
+  }
+
+  if (!process.env.GEMINI_API_KEY && process.env.NODE_ENV === 'test') {
+    return 'mock'
+  }
+
+  return 'gemini'
+}
 
 // 환경변수에서 Gemini 설정 가져오기
 export function getGeminiConfig(): GeminiConfig {
   const config: GeminiConfig = {
     apiKey: process.env.GEMINI_API_KEY || '',
     model: process.env.GEMINI_MODEL || 'gemini-2.0-flash-001',
+    embeddingModel: process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004',
     maxTokens: parseInt(process.env.GEMINI_MAX_TOKENS || '8192'),
     timeout: parseInt(process.env.GEMINI_TIMEOUT_MS || '10000'),
     debug: process.env.GEMINI_DEBUG === 'true',
@@ -74,6 +96,62 @@ export function getFinalConfig(): GeminiConfig {
   }
 }
 
+// 사용자별 분당 AI 요청 한도 (GeminiConfig.rateLimitPerMinute와 같은 값)
+// 제공자와 관계없이 적용되므로 API 키 검증 없이 계산 (GEMINI_RATE_LIMIT를 지정하면 환경별 기본값보다 우선)
+export function getRateLimitPerMinute(): number {
+  const limit = process.env.GEMINI_RATE_LIMIT
+    ? parseInt(process.env.GEMINI_RATE_LIMIT)
+    : getEnvironmentConfig().rateLimitPerMinute ?? 60
+
+  if (!(limit > 0 && limit <= 1000)) {
+    throw new Error('GEMINI_RATE_LIMIT는 1-1000 범위여야 합니다.')
+  }
+
+  return limit
+}
+
+export type AIRateLimitStoreName = 'memory' | 'postgres'
+
+export const AI_RATE_LIMIT_STORES: AIRateLimitStoreName[] = ['memory', 'postgres']
+
+// 빈도 제한 버킷 저장소 (여러 서버 인스턴스가 한도를 공유하려면 postgres)
+export function getRateLimitStoreName(): AIRateLimitStoreName {
+  const configured = process.env.AI_RATE_LIMIT_STORE?.trim().toLowerCase() || 'memory'
+
+  if (!AI_RATE_LIMIT_STORES.includes(configured as AIRateLimitStoreName)) {
+    throw new Error(`AI_RATE_LIMIT_STORE는 ${AI_RATE_LIMIT_STORES.join(', ')} 중 하나여야 합니다.`)
+  }
+
+  return configured as AIRateLimitStoreName
+}
+
+// 사용자별 일일 AI 토큰 한도 기본값 (0이면 무제한, 사용자별 값은 ai_quotas.daily_token_limit가 우선)
+export function getDailyTokenQuota(): number {
+  const quota = parseInt(process.env.AI_DAILY_TOKEN_QUOTA || '200000')
+
+  if (!(quota >= 0)) {
+    throw new Error('AI_DAILY_TOKEN_QUOTA는 0 이상의 정수여야 합니다.')
+  }
+
+  return quota
+}
+
+// 작업 등록 시 요청을 처리한 서버에서 바로 대기열을 처리할지 여부 (별도 워커 프로세스만 사용할 경우 false)
+export function isInlineAIJobWorkerEnabled(): boolean {
+  return process.env.AI_JOB_INLINE_WORKER?.trim().toLowerCase() !== 'false'
+}
+
+// 별도 워커 프로세스에서 동시에 처리할 작업 수
+export function getAIJobWorkerConcurrency(): number {
+  const concurrency = parseInt(process.env.AI_JOB_WORKER_CONCURRENCY || '2')
+
+  if (!(concurrency >= 1 && concurrency <= 10)) {
+    throw new Error('AI_JOB_WORKER_CONCURRENCY는 1-10 범위여야 합니다.')
+  }
+
+  return concurrency
+}
+
 // 설정 정보 로깅 (디버그 모드에서만)
 export function logConfig(config: GeminiConfig): void {
   if (config.debug) {
@@ -87,3 +165,51 @@ export function logConfig(config: GeminiConfig): void {
     })
   }
 }
+
+// OpenAI 호환 엔드포인트 설정 (기본값: 로컬 Ollama)
+export function getOpenAICompatibleConfig(): OpenAICompatibleConfig {
+  const config: OpenAICompatibleConfig = {
+    baseUrl: (process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+    model: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+    embeddingModel: process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL || 'nomic-embed-text',
+    transcriptionModel: process.env.OPENAI_COMPATIBLE_TRANSCRIPTION_MODEL || 'whisper-1',
+    transcriptionBaseUrl: (process.env.OPENAI_COMPATIBLE_TRANSCRIPTION_BASE_URL || '').replace(/\/+$/, ''),
+    maxTokens: parseInt(process.env.OPENAI_COMPATIBLE_MAX_TOKENS || '8192'),
+    // 로컬 모델은 응답이 느릴 수 있어 Gemini보다 긴 기본 타임아웃 사용
+    timeout: parseInt(process.env.OPENAI_COMPATIBLE_TIMEOUT_MS || '60000'),
+    debug: process.env.OPENAI_COMPATIBLE_DEBUG === 'true'
+  }
+
+  if (!/^https?:\/\//.test(config.baseUrl)) {
+    throw new Error('OPENAI_COMPATIBLE_BASE_URL은 http(s) URL이어야 합니다.')
+  }
+
+  if (config.transcriptionBaseUrl && !/^https?:\/\//.test(config.transcriptionBaseUrl)) {
+    throw new Error('OPENAI_COMPATIBLE_TRANSCRIPTION_BASE_URL은 http(s) URL이어야 합니다.')
+  }
+
+  if (!config.model.trim()) {
+    throw new Error('OPENAI_COMPATIBLE_MODEL 환경변수가 비어 있습니다.')
+  }
+
+  if (!(config.maxTokens > 0 && config.maxTokens <= 128000)) {
+    throw new Error('OPENAI_COMPATIBLE_MAX_TOKENS는 1-128000 범위여야 합니다.')
+  }
+
+  if (!(config.timeout > 0 && config.timeout <= 300000)) {
+    throw new Error('OPENAI_COMPATIBLE_TIMEOUT_MS는 1-300000 범위여야 합니다.')
+  }
+
+  return config
+}
+
+// 오프라인 mock 제공자 설정
+export function getMockAIConfig(): MockAIConfig {
+  const latencyMs = parseInt(process.env.MOCK_AI_LATENCY_MS || '0')
+
+  return {
+    model: process.env.MOCK_AI_MODEL || 'mock-1',
+    latencyMs: Number.isFinite(latencyMs) && latencyMs > 0 ? latencyMs : 0
+  }
+}
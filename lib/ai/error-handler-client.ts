@@ -3,7 +3,7 @@
 // 서버 의존성 없이 클라이언트에서 사용할 수 있는 에러 처리 로직
 // 관련 파일: lib/ai/error-handler.ts, hooks/use-error-handler.ts
 
-import { GeminiError, isRetryableError, getSafeErrorMessage } from './errors'
+import { GeminiError, AILimitError, isRetryableError, getSafeErrorMessage } from './errors'
 import { GeminiErrorType } from './types'
 
 // 확장된 AI 에러 타입 정의 (클라이언트용)
@@ -12,6 +12,8 @@ export interface AIError {
   message: string
   details?: Record<string, unknown>
   retryable: boolean
+  // 사용 한도 초과 시 다시 시도할 수 있을 때까지 남은 시간 (재시도 버튼 카운트다운에 사용)
+  retryAfterMs?: number
   severity: 'low' | 'medium' | 'high' | 'critical'
   originalError?: unknown
   context?: {
@@ -53,6 +55,7 @@ export function convertToAIError(geminiError: GeminiError, context?: AIError['co
       originalMessage: geminiError.message,
     },
     retryable: isRetryableError(geminiError),
+    ...(geminiError instanceof AILimitError ? { retryAfterMs: geminiError.retryAfterMs } : {}),
     severity: ERROR_SEVERITY_MAP[type],
     originalError: geminiError.originalError,
     context,
@@ -146,6 +149,11 @@ export function getRetryDelay(error: AIError, attempt: number): number {
   const baseDelay = 1000 // 1초
   const maxDelay = 30000 // 30초
   const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay)
+
+  // 서버가 알려준 재시도 가능 시점이 있으면 그때까지 대기
+  if (error.retryAfterMs !== undefined) {
+    return Math.max(delay, error.retryAfterMs)
+  }
   
   // 에러 타입별 추가 지연
   if (error.type === 'QUOTA_EXCEEDED') {
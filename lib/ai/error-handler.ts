@@ -6,7 +6,7 @@
 import { db } from '@/lib/db/connection'
 import { errorLogs } from '@/lib/db/schema/error_logs'
 import { eq, and, gte, desc, count } from 'drizzle-orm'
-import { GeminiError, isRetryableError, getSafeErrorMessage } from './errors'
+import { GeminiError, AILimitError, isRetryableError, getSafeErrorMessage } from './errors'
 import { GeminiErrorType } from './types'
 
 // 확장된 AI 에러 타입 정의
@@ -15,6 +15,8 @@ export interface AIError {
   message: string
   details?: Record<string, unknown>
   retryable: boolean
+  // 사용 한도 초과 시 다시 시도할 수 있을 때까지 남은 시간 (재시도 버튼 카운트다운에 사용)
+  retryAfterMs?: number
   severity: 'low' | 'medium' | 'high' | 'critical'
   originalError?: unknown
   context?: {
@@ -56,6 +58,7 @@ export function convertToAIError(geminiError: GeminiError, context?: AIError['co
       originalMessage: geminiError.message,
     },
     retryable: isRetryableError(geminiError),
+    ...(geminiError instanceof AILimitError ? { retryAfterMs: geminiError.retryAfterMs } : {}),
     severity: ERROR_SEVERITY_MAP[type],
     originalError: geminiError.originalError,
     context,
@@ -210,6 +213,11 @@ export function getRetryDelay(error: AIError, attempt: number): number {
   const baseDelay = 1000 // 1초
   const maxDelay = 30000 // 30초
   const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay)
+
+  // 서버가 알려준 재시도 가능 시점이 있으면 그때까지 대기
+  if (error.retryAfterMs !== undefined) {
+    return Math.max(delay, error.retryAfterMs)
+  }
   
   // 에러 타입별 추가 지연
   if (error.type === 'QUOTA_EXCEEDED') {
@@ -3,7 +3,7 @@
 // Gemini API 에러를 분류하고 적절한 에러 메시지를 제공
 // 관련 파일: lib/ai/types.ts, lib/ai/gemini-client.ts
 
-import { GeminiErrorType } from './types'
+import { GeminiErrorType, type AILimitErrorType } from './types'
 
 export class GeminiError extends Error {
   constructor(
@@ -16,6 +16,23 @@ export class GeminiError extends Error {
   }
 }
 
+// 사용자별 빈도 제한/일일 토큰 한도 초과 (AI 제공자 호출 전에 발생하며, 다시 시도할 수 있는 시점을 함께 전달)
+export class AILimitError extends GeminiError {
+  constructor(
+    public type: AILimitErrorType,
+    public retryAfterMs: number
+  ) {
+    super(type, type === GeminiErrorType.QUOTA_EXCEEDED ? DAILY_QUOTA_MESSAGE : ERROR_MESSAGES[type])
+    this.name = 'AILimitError'
+  }
+
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil(this.retryAfterMs / 1000))
+  }
+}
+
+const DAILY_QUOTA_MESSAGE = '오늘 사용할 수 있는 AI 토큰을 모두 사용했습니다. 한도가 초기화된 뒤 다시 시도해주세요.'
+
 // 에러 타입별 메시지 매핑
 const ERROR_MESSAGES: Record<GeminiErrorType, string> = {
   [GeminiErrorType.API_KEY_INVALID]: 'API 키가 유효하지 않습니다. 환경변수를 확인해주세요.',
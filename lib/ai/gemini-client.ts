@@ -1,10 +1,10 @@
 // lib/ai/gemini-client.ts
 // Gemini API 클라이언트 구현
 // Google Gemini API와의 통신을 담당하는 메인 클라이언트
-// 관련 파일: lib/ai/types.ts, lib/ai/errors.ts, lib/ai/config.ts, lib/ai/utils.ts
+// 관련 파일: lib/ai/types.ts, lib/ai/errors.ts, lib/ai/config.ts, lib/ai/utils.ts, lib/ai/provider-registry.ts
 
 import { GoogleGenAI } from '@google/genai'
-import { GeminiConfig, GeminiRequest, GeminiResponse, AIService, APIUsageLog, GeminiErrorType } from './types'
+import { GeminiConfig, GeminiRequest, AIProvider, AIGenerateOptions, AIStreamOptions, AIEmbeddingResult, AITranscriptionOptions, AITranscriptionResult, AIUsageStats, APIUsageLog, GeminiErrorType } from './types'
 import { GeminiError, createGeminiError, getSafeErrorMessage } from './errors'
 import { getFinalConfig, logConfig } from './config'
 import { 
@@ -15,8 +15,10 @@ import {
   measureLatency,
   truncateText 
 } from './utils'
+import { buildTranscriptionPrompt, normalizeTranscript } from './transcription'
 
-export class GeminiClient implements AIService {
+export class GeminiClient implements AIProvider {
+  readonly name = 'gemini' as const
   private client: GoogleGenAI
   private config: GeminiConfig
   private usageLogs: APIUsageLog[] = []
@@ -31,6 +33,11 @@ export class GeminiClient implements AIService {
     logConfig(this.config)
   }
 
+  // 실제 사용하는 모델명
+  get model(): string {
+    return this.config.model
+  }
+
   // 헬스체크 - API 연결 상태 확인
   async healthCheck(): Promise<boolean> {
     try {
@@ -54,13 +61,123 @@ export class GeminiClient implements AIService {
   // 옵션을 포함한 텍스트 생성
   async generateTextWithOptions(
     prompt: string, 
-    options: {
-      maxTokens?: number
-      temperature?: number
-      topP?: number
-      topK?: number
-    } = {}
+    options: AIGenerateOptions = {}
   ): Promise<string> {
+    return this.executeRequest(this.buildRequest(prompt, options))
+  }
+
+  // 스트리밍 텍스트 생성 - 응답 조각이 도착하는 대로 반환
+  async *generateTextStream(prompt: string, options: AIStreamOptions = {}): AsyncGenerator<string> {
+    const request = this.buildRequest(prompt, {
+      maxTokens: this.config.maxTokens,
+      temperature: 0.7,
+      topP: 0.9,
+      ...options
+    })
+    const startTime = Date.now()
+    let output = ''
+
+    try {
+      const stream = await this.client.models.generateContentStream({
+        model: request.model,
+        contents: request.contents,
+        config: {
+          maxOutputTokens: request.maxTokens,
+          temperature: request.temperature,
+          topP: request.topP,
+          topK: request.topK,
+          abortSignal: options.signal
+        }
+      })
+
+      for await (const chunk of stream) {
+        const text = chunk.text
+        if (text) {
+          output += text
+          yield text
+        }
+      }
+
+      this.recordUsage(request, output, Date.now() - startTime)
+    } catch (error) {
+      // 사용자가 중단한 경우 에러 없이 종료
+      if (options.signal?.aborted) {
+        this.recordUsage(request, output, Date.now() - startTime, '사용자가 생성을 중단했습니다.')
+        return
+      }
+
+      const geminiError = createGeminiError(error)
+      this.recordUsage(request, output, Date.now() - startTime, getSafeErrorMessage(geminiError))
+      throw geminiError
+    }
+  }
+
+  // 텍스트 임베딩 생성 (outputDimensionality로 저장 차원에 맞춤)
+  async generateEmbedding(text: string, dimensions: number): Promise<AIEmbeddingResult> {
+    const startTime = Date.now()
+    const request: GeminiRequest = { model: this.config.embeddingModel, contents: text }
+
+    try {
+      const response = await withRetry(() => this.client.models.embedContent({
+        model: this.config.embeddingModel,
+        contents: text,
+        config: { outputDimensionality: dimensions }
+      }))
+      const embedding = response.embeddings?.[0]?.values
+
+      if (!embedding || embedding.length !== dimensions) {
+        throw new GeminiError(
+          GeminiErrorType.UNKNOWN,
+          `임베딩 차원이 맞지 않습니다. (기대: ${dimensions}, 응답: ${embedding?.length ?? 0})`
+        )
+      }
+
+      this.recordUsage(request, '', Date.now() - startTime)
+      return { embedding, model: `${this.name}/${this.config.embeddingModel}` }
+    } catch (error) {
+      const aiError = error instanceof GeminiError ? error : createGeminiError(error)
+      this.recordUsage(request, '', Date.now() - startTime, getSafeErrorMessage(aiError))
+      throw aiError
+    }
+  }
+
+  // 녹음을 인라인 데이터로 첨부하여 생성 모델로 전사
+  async transcribeAudio(
+    audio: Uint8Array,
+    mimeType: string,
+    options: AITranscriptionOptions = {}
+  ): Promise<AITranscriptionResult> {
+    const startTime = Date.now()
+    const request: GeminiRequest = { model: this.config.model, contents: buildTranscriptionPrompt(options.language) }
+
+    try {
+      const response = await withRetry(() => this.client.models.generateContent({
+        model: request.model,
+        contents: [{
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType, data: Buffer.from(audio).toString('base64') } },
+            { text: request.contents }
+          ]
+        }],
+        config: {
+          maxOutputTokens: this.config.maxTokens,
+          temperature: 0
+        }
+      }))
+      const text = normalizeTranscript(response.text ?? '')
+
+      this.recordUsage(request, text, Date.now() - startTime)
+      return { text, model: `${this.name}/${this.config.model}` }
+    } catch (error) {
+      const aiError = error instanceof GeminiError ? error : createGeminiError(error)
+      this.recordUsage(request, '', Date.now() - startTime, getSafeErrorMessage(aiError))
+      throw aiError
+    }
+  }
+
+  // 토큰 제한 검증 후 요청 객체 생성
+  private buildRequest(prompt: string, options: AIGenerateOptions): GeminiRequest {
     // 토큰 제한 검증
     const inputTokens = estimateTokens(prompt)
     const maxTokens = options.maxTokens || this.config.maxTokens
@@ -76,7 +193,7 @@ export class GeminiClient implements AIService {
     // 토큰 제한에 맞춰 텍스트 자르기
     const processedPrompt = truncateText(prompt, validation.availableTokens)
 
-    const request: GeminiRequest = {
+    return {
       model: this.config.model,
       contents: processedPrompt,
       maxTokens: maxTokens,
@@ -84,8 +201,22 @@ export class GeminiClient implements AIService {
       topP: options.topP,
       topK: options.topK
     }
+  }
+
+  // 스트리밍 요청 사용량 기록 (error가 있으면 실패로 기록)
+  private recordUsage(request: GeminiRequest, output: string, latencyMs: number, error?: string): void {
+    const usageLog: APIUsageLog = {
+      timestamp: new Date(),
+      model: request.model,
+      inputTokens: estimateTokens(request.contents),
+      outputTokens: estimateTokens(output),
+      latencyMs,
+      success: !error,
+      error
+    }
 
-    return this.executeRequest(request)
+    this.usageLogs.push(usageLog)
+    logAPIUsage(usageLog)
   }
 
   // API 요청 실행 (재시도 로직 포함)
@@ -153,7 +284,7 @@ export class GeminiClient implements AIService {
   }
 
   // 사용량 통계 조회
-  getUsageStats() {
+  getUsageStats(): AIUsageStats {
     const totalRequests = this.usageLogs.length
     const successfulRequests = this.usageLogs.filter(log => log.success).length
     const totalTokens = this.usageLogs.reduce((sum, log) => sum + log.inputTokens + log.outputTokens, 0)
@@ -0,0 +1,172 @@
+// lib/ai/job-actions.ts
+// 백그라운드 AI 작업 Server Actions
+// 요약/태그 생성 작업을 대기열에 등록·취소하고, 작업 상태와 노트의 최근 작업을 조회 (페이지를 떠났다 돌아와도 결과 확인 가능)
+// 관련 파일: lib/ai/job-queue.ts, lib/ai/job-worker.ts, lib/ai/job-utils.ts, hooks/use-ai-status.ts
+
+'use server'
+
+import { after } from 'next/server'
+import { db } from '@/lib/db/connection'
+import { notes } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { and, eq, isNull } from 'drizzle-orm'
+import type { AIJobActionResult, AIJobType } from './types'
+import { cancelActiveAIJob, enqueueAIJob, findAIJob, findLatestAIJob } from './job-queue'
+import { drainAIJobs } from './job-worker'
+import { toAIJobSnapshot } from './job-utils'
+import { isInlineAIJobWorkerEnabled } from './config'
+
+// 작업 등록 서버 액션 (같은 노트·종류의 작업이 진행 중이면 그 작업을 반환)
+export async function startAIJob(noteId: string, type: AIJobType): Promise<AIJobActionResult> {
+  try {
+    // 사용자 인증 확인
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: '인증이 필요합니다.'
+      }
+    }
+
+    // 노트 소유권 확인
+    const [note] = await db
+      .select({ id: notes.id })
+      .from(notes)
+      .where(and(eq(notes.id, noteId), eq(notes.userId, user.id), isNull(notes.deletedAt)))
+      .limit(1)
+
+    if (!note) {
+      return {
+        success: false,
+        error: '노트를 찾을 수 없거나 권한이 없습니다.'
+      }
+    }
+
+    const job = await enqueueAIJob(user.id, noteId, type)
+
+    // 응답을 보낸 뒤 이 서버에서 대기열 처리 (별도 워커나 cron도 같은 대기열을 처리)
+    if (isInlineAIJobWorkerEnabled()) {
+      after(async () => {
+        try {
+          await drainAIJobs()
+        } catch (error) {
+          console.error('AI 작업 처리 오류:', error)
+        }
+      })
+    }
+
+    return {
+      success: true,
+      job: toAIJobSnapshot(job)
+    }
+  } catch (error) {
+    console.error('AI 작업 등록 오류:', error)
+    return {
+      success: false,
+      error: 'AI 작업을 시작할 수 없습니다.'
+    }
+  }
+}
+
+// 작업 상태 조회 서버 액션 (클라이언트 폴링용)
+export async function getAIJobStatus(jobId: string): Promise<AIJobActionResult> {
+  try {
+    // 사용자 인증 확인
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: '인증이 필요합니다.'
+      }
+    }
+
+    const job = await findAIJob(user.id, jobId)
+
+    if (!job) {
+      return {
+        success: false,
+        error: 'AI 작업을 찾을 수 없습니다.'
+      }
+    }
+
+    return {
+      success: true,
+      job: toAIJobSnapshot(job)
+    }
+  } catch (error) {
+    console.error('AI 작업 조회 오류:', error)
+    return {
+      success: false,
+      error: 'AI 작업 상태를 불러올 수 없습니다.'
+    }
+  }
+}
+
+// 작업 취소 서버 액션 (처리 중인 작업은 워커가 생성을 멈추고 결과를 저장하지 않음)
+export async function cancelAIJob(jobId: string): Promise<AIJobActionResult> {
+  try {
+    // 사용자 인증 확인
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: '인증이 필요합니다.'
+      }
+    }
+
+    const job = await cancelActiveAIJob(user.id, jobId)
+
+    if (!job) {
+      return {
+        success: false,
+        error: 'AI 작업을 찾을 수 없습니다.'
+      }
+    }
+
+    return {
+      success: true,
+      job: toAIJobSnapshot(job)
+    }
+  } catch (error) {
+    console.error('AI 작업 취소 오류:', error)
+    return {
+      success: false,
+      error: 'AI 작업을 취소할 수 없습니다.'
+    }
+  }
+}
+
+// 노트의 최근 작업 조회 서버 액션 (작업이 없으면 job 없이 성공)
+export async function getLatestAIJobStatus(noteId: string, type: AIJobType): Promise<AIJobActionResult> {
+  try {
+    // 사용자 인증 확인
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: '인증이 필요합니다.'
+      }
+    }
+
+    const job = await findLatestAIJob(user.id, noteId, type)
+
+    return {
+      success: true,
+      job: job ? toAIJobSnapshot(job) : undefined
+    }
+  } catch (error) {
+    console.error('AI 작업 조회 오류:', error)
+    return {
+      success: false,
+      error: 'AI 작업 상태를 불러올 수 없습니다.'
+    }
+  }
+}
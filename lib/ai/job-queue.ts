@@ -0,0 +1,237 @@
+// lib/ai/job-queue.ts
+// 백그라운드 AI 작업 큐 (Postgres ai_jobs 테이블)
+// 작업 등록, FOR UPDATE SKIP LOCKED로 여러 워커가 겹치지 않게 다음 작업 가져오기, 잠금 갱신과 진행률/미리보기/완료/실패/재시도 기록(가져간 워커가 아직 잠금을 가진 경우에만), 사용자 취소, 작업 조회
+// 관련 파일: lib/db/schema/ai_jobs.ts, lib/ai/job-worker.ts, lib/ai/job-actions.ts, lib/ai/job-utils.ts
+
+import { db } from '@/lib/db/connection'
+import { aiJobs, type AIJob } from '@/lib/db/schema/ai_jobs'
+import { and, desc, eq, inArray, lt, lte, or, sql } from 'drizzle-orm'
+import type { AIJobResult, AIJobType } from './types'
+import { ACTIVE_AI_JOB_STATUSES, AI_JOB_LOCK_TIMEOUT_MS, type AIJobFailure } from './job-utils'
+
+// 완료/실패한 작업 보관 기간
+const FINISHED_AI_JOB_RETENTION_DAYS = 7
+
+// 워커가 가져간 작업 (가져갈 때마다 attempts가 늘어나므로 id와 attempts로 누가 가져간 작업인지 구분)
+export type AIJobClaim = Pick<AIJob, 'id' | 'attempts'>
+
+// 아직 처리 중이고 잠금이 만료되어 다른 워커가 다시 가져가지 않은 작업만 대상으로 함
+function isHeldClaim(claim: AIJobClaim) {
+  return and(eq(aiJobs.id, claim.id), eq(aiJobs.status, 'running'), eq(aiJobs.attempts, claim.attempts))
+}
+
+// 작업 등록 (같은 노트·종류의 작업이 대기/처리 중이면 새로 만들지 않고 기존 작업 반환)
+// runAfter를 주면 그 시각 이후에 처리 (그 사이 같은 작업 요청은 대기 중인 작업으로 합쳐짐)
+export async function enqueueAIJob(userId: string, noteId: string, type: AIJobType, runAfter?: Date): Promise<AIJob> {
+  const [created] = await db
+    .insert(aiJobs)
+    .values({ userId, noteId, type, message: '대기 중입니다...', runAfter })
+    .onConflictDoNothing()
+    .returning()
+
+  if (created) {
+    return created
+  }
+
+  const [active] = await db
+    .select()
+    .from(aiJobs)
+    .where(and(
+      eq(aiJobs.noteId, noteId),
+      eq(aiJobs.type, type),
+      inArray(aiJobs.status, ACTIVE_AI_JOB_STATUSES)
+    ))
+    .limit(1)
+
+  if (!active) {
+    // 등록과 동시에 기존 작업이 끝난 경우 다시 등록
+    return enqueueAIJob(userId, noteId, type, runAfter)
+  }
+
+  return active
+}
+
+// 처리할 다음 작업 가져오기
+// 실행 시각이 된 대기 작업이나 잠금이 오래된(워커가 중단된) 처리 중 작업 하나를 잠그고 running으로 바꿈
+// 다른 워커가 잠근 행은 건너뛰므로(SKIP LOCKED) 여러 워커가 동시에 실행되어도 같은 작업을 중복 처리하지 않음
+export async function claimNextAIJob(now: Date = new Date()): Promise<AIJob | null> {
+  const staleBefore = new Date(now.getTime() - AI_JOB_LOCK_TIMEOUT_MS)
+
+  const nextJob = db
+    .select({ id: aiJobs.id })
+    .from(aiJobs)
+    .where(or(
+      and(eq(aiJobs.status, 'queued'), lte(aiJobs.runAfter, now)),
+      and(eq(aiJobs.status, 'running'), lt(aiJobs.lockedAt, staleBefore))
+    ))
+    .orderBy(aiJobs.runAfter)
+    .limit(1)
+    .for('update', { skipLocked: true })
+
+  const [job] = await db
+    .update(aiJobs)
+    .set({
+      status: 'running',
+      attempts: sql`${aiJobs.attempts} + 1`,
+      progress: 0,
+      message: 'AI 처리를 시작합니다...',
+      lockedAt: now,
+      updatedAt: now
+    })
+    .where(inArray(aiJobs.id, nextJob))
+    .returning()
+
+  return job ?? null
+}
+
+// 잠금 갱신 (잠금을 잃었으면 false)
+export async function renewAIJobLock(claim: AIJobClaim): Promise<boolean> {
+  const now = new Date()
+  const renewed = await db
+    .update(aiJobs)
+    .set({ lockedAt: now, updatedAt: now })
+    .where(isHeldClaim(claim))
+    .returning({ id: aiJobs.id })
+
+  return renewed.length > 0
+}
+
+// 진행률 갱신 (잠금도 함께 갱신하며, 잠금을 잃었으면 false)
+export async function updateAIJobProgress(claim: AIJobClaim, progress: number, message?: string): Promise<boolean> {
+  const now = new Date()
+  const updated = await db
+    .update(aiJobs)
+    .set({ progress: Math.round(progress), message, lockedAt: now, updatedAt: now })
+    .where(isHeldClaim(claim))
+    .returning({ id: aiJobs.id })
+
+  return updated.length > 0
+}
+
+// 생성 중인 결과 미리보기 기록 (잠금도 함께 갱신하며, 잠금을 잃었거나 취소되었으면 false)
+export async function updateAIJobPreview(claim: AIJobClaim, preview: string): Promise<boolean> {
+  const now = new Date()
+  const updated = await db
+    .update(aiJobs)
+    .set({ result: { preview }, lockedAt: now, updatedAt: now })
+    .where(isHeldClaim(claim))
+    .returning({ id: aiJobs.id })
+
+  return updated.length > 0
+}
+
+// 완료 처리 (잠금을 잃었으면 기록하지 않고 false)
+export async function completeAIJob(claim: AIJobClaim, result: AIJobResult): Promise<boolean> {
+  const now = new Date()
+  const completed = await db
+    .update(aiJobs)
+    .set({
+      status: 'succeeded',
+      progress: 100,
+      message: '완료되었습니다.',
+      result,
+      error: null,
+      errorCode: null,
+      retryAfterMs: null,
+      lockedAt: null,
+      finishedAt: now,
+      updatedAt: now
+    })
+    .where(isHeldClaim(claim))
+    .returning({ id: aiJobs.id })
+
+  return completed.length > 0
+}
+
+// 실패 처리 (재시도 가능한 실패면 대기 시간 뒤에 다시 처리되도록 대기열로 되돌림, 잠금을 잃었으면 기록하지 않고 false)
+export async function failAIJob(claim: AIJobClaim, failure: AIJobFailure): Promise<boolean> {
+  const now = new Date()
+
+  if (failure.retry) {
+    const requeued = await db
+      .update(aiJobs)
+      .set({
+        status: 'queued',
+        message: `${failure.error} 잠시 후 다시 시도합니다.`,
+        runAfter: new Date(now.getTime() + (failure.retryDelayMs ?? 0)),
+        lockedAt: null,
+        updatedAt: now
+      })
+      .where(isHeldClaim(claim))
+      .returning({ id: aiJobs.id })
+
+    return requeued.length > 0
+  }
+
+  const failed = await db
+    .update(aiJobs)
+    .set({
+      status: 'failed',
+      message: null,
+      error: failure.error,
+      errorCode: failure.code ?? null,
+      retryAfterMs: failure.retryAfterMs ?? null,
+      lockedAt: null,
+      finishedAt: now,
+      updatedAt: now
+    })
+    .where(isHeldClaim(claim))
+    .returning({ id: aiJobs.id })
+
+  return failed.length > 0
+}
+
+// 사용자의 대기/처리 중인 작업 취소 (이미 끝난 작업은 그대로 두고 현재 상태 반환)
+// 처리 중인 워커는 다음 진행률·미리보기 기록이나 잠금 갱신에서 취소를 알아채고 생성을 멈추며, 결과는 기록되지 않음
+export async function cancelActiveAIJob(userId: string, jobId: string): Promise<AIJob | null> {
+  const now = new Date()
+  const [cancelled] = await db
+    .update(aiJobs)
+    .set({
+      status: 'cancelled',
+      message: '취소되었습니다.',
+      result: null,
+      lockedAt: null,
+      finishedAt: now,
+      updatedAt: now
+    })
+    .where(and(eq(aiJobs.id, jobId), eq(aiJobs.userId, userId), inArray(aiJobs.status, ACTIVE_AI_JOB_STATUSES)))
+    .returning()
+
+  return cancelled ?? findAIJob(userId, jobId)
+}
+
+// 사용자의 작업 조회
+export async function findAIJob(userId: string, jobId: string): Promise<AIJob | null> {
+  const [job] = await db
+    .select()
+    .from(aiJobs)
+    .where(and(eq(aiJobs.id, jobId), eq(aiJobs.userId, userId)))
+    .limit(1)
+
+  return job ?? null
+}
+
+// 노트의 가장 최근 작업 조회 (페이지를 다시 열었을 때 진행 중이거나 방금 끝난 작업 이어받기)
+export async function findLatestAIJob(userId: string, noteId: string, type: AIJobType): Promise<AIJob | null> {
+  const [job] = await db
+    .select()
+    .from(aiJobs)
+    .where(and(eq(aiJobs.userId, userId), eq(aiJobs.noteId, noteId), eq(aiJobs.type, type)))
+    .orderBy(desc(aiJobs.createdAt))
+    .limit(1)
+
+  return job ?? null
+}
+
+// 보관 기간이 지난 완료/실패/취소 작업 삭제
+export async function purgeFinishedAIJobs(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - FINISHED_AI_JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+
+  const deleted = await db
+    .delete(aiJobs)
+    .where(and(inArray(aiJobs.status, ['succeeded', 'failed', 'cancelled']), lt(aiJobs.finishedAt, cutoff)))
+    .returning({ id: aiJobs.id })
+
+  return deleted.length
+}
@@ -0,0 +1,138 @@
+// lib/ai/job-utils.ts
+// 백그라운드 AI 작업 상태 변환 및 재시도 정책
+// DB 작업 행을 클라이언트용 상태로 바꾸고, 작업 실패 시 다시 대기열에 넣을지(지연 시간 포함) 실패로 끝낼지 결정
+// 관련 파일: lib/ai/job-queue.ts, lib/ai/job-worker.ts, hooks/use-ai-status.ts, lib/ai/errors.ts
+
+import type { AIJob } from '@/lib/db/schema/ai_jobs'
+import { GeminiErrorType, type AIJobSnapshot, type AIJobStatus, type AILimitErrorType, type AIProcessState } from './types'
+import { GeminiError, AILimitError, isRetryableError, getSafeErrorMessage } from './errors'
+import type { AIError } from './error-handler-client'
+
+// 작업당 최대 처리 시도 횟수 (일시적인 오류만 재시도)
+export const AI_JOB_MAX_ATTEMPTS = 3
+
+// 처리 중인 작업의 잠금이 이보다 오래되면 워커가 중단된 것으로 보고 다시 가져감
+export const AI_JOB_LOCK_TIMEOUT_MS = 5 * 60 * 1000
+
+// 처리 중인 작업의 잠금 갱신 간격 (진행률 기록이 없는 긴 AI 호출 중에도 잠금이 만료되지 않도록 잠금 시간보다 충분히 짧게 설정)
+export const AI_JOB_HEARTBEAT_INTERVAL_MS = 60 * 1000
+
+// 처리 중인 요약 작업의 미리보기 기록 최소 간격 (조각마다 DB에 쓰지 않도록 폴링 간격 안에서 한 번 정도만 기록)
+export const AI_JOB_PREVIEW_INTERVAL_MS = 1000
+
+// 클라이언트 작업 상태 폴링 간격
+export const AI_JOB_POLL_INTERVAL_MS = 1500
+
+const AI_JOB_RETRY_BASE_DELAY_MS = 5000
+const AI_JOB_RETRY_MAX_DELAY_MS = 60000
+
+export const ACTIVE_AI_JOB_STATUSES: AIJobStatus[] = ['queued', 'running']
+
+export function isActiveAIJob(status: AIJobStatus): boolean {
+  return ACTIVE_AI_JOB_STATUSES.includes(status)
+}
+
+// 재시도 대기 시간 (시도 횟수마다 두 배, 최대 1분)
+export function getAIJobRetryDelay(attempts: number): number {
+  return Math.min(AI_JOB_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), AI_JOB_RETRY_MAX_DELAY_MS)
+}
+
+export interface AIJobFailure {
+  retry: boolean
+  retryDelayMs?: number // retry일 때 다시 처리하기까지 대기 시간
+  error: string
+  code?: AILimitErrorType
+  retryAfterMs?: number // 한도 초과로 실패한 경우 사용자가 다시 시도할 수 있을 때까지 남은 시간
+}
+
+// 작업 실패 처리 방식 결정
+// 분당 요청 한도 초과와 시간 초과/네트워크 오류는 최대 시도 횟수까지 다시 대기열에 넣고, 일일 한도 초과와 그 밖의 오류는 바로 실패 처리
+export function classifyAIJobFailure(
+  error: unknown,
+  attempts: number,
+  maxAttempts: number = AI_JOB_MAX_ATTEMPTS
+): AIJobFailure {
+  const canRetry = attempts < maxAttempts
+
+  if (error instanceof AILimitError) {
+    if (error.type === GeminiErrorType.RATE_LIMIT_EXCEEDED && canRetry) {
+      return { retry: true, retryDelayMs: error.retryAfterMs, error: error.message }
+    }
+    return { retry: false, error: error.message, code: error.type, retryAfterMs: error.retryAfterMs }
+  }
+
+  if (error instanceof GeminiError) {
+    if (isRetryableError(error) && canRetry) {
+      return { retry: true, retryDelayMs: getAIJobRetryDelay(attempts), error: getSafeErrorMessage(error) }
+    }
+    return { retry: false, error: getSafeErrorMessage(error) }
+  }
+
+  return { retry: false, error: 'AI 작업 처리 중 오류가 발생했습니다.' }
+}
+
+// DB 작업 행을 클라이언트에 전달할 상태로 변환
+export function toAIJobSnapshot(job: AIJob): AIJobSnapshot {
+  return {
+    id: job.id,
+    noteId: job.noteId,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    message: job.message ?? undefined,
+    result: job.result ?? undefined,
+    error: job.error ?? undefined,
+    code: (job.errorCode as AILimitErrorType | null) ?? undefined,
+    retryAfterMs: job.retryAfterMs ?? undefined,
+    attempts: job.attempts,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString()
+  }
+}
+
+// 작업 상태를 AI 상태 표시용 상태로 변환
+export function getAIJobProcessState(job: AIJobSnapshot): AIProcessState {
+  switch (job.status) {
+    case 'queued':
+      return {
+        status: 'loading',
+        progress: 0,
+        message: job.attempts > 0 ? (job.message ?? '잠시 후 다시 시도합니다...') : '대기 중입니다...'
+      }
+    case 'running':
+      return { status: 'loading', progress: job.progress, message: job.message ?? 'AI 처리 중...' }
+    case 'succeeded':
+      return { status: 'success', progress: 100, message: job.message ?? '완료되었습니다.' }
+    case 'failed':
+      return { status: 'error', error: job.error ?? '알 수 없는 오류가 발생했습니다.' }
+    case 'cancelled':
+      return { status: 'idle' }
+  }
+}
+
+// 실패한 작업을 에러 표시용 AIError로 변환
+// 한도 초과로 실패한 경우 실패 시각부터 지난 시간을 빼서 남은 대기 시간을 계산 (페이지를 다시 열었을 때도 카운트다운이 맞도록)
+export function getAIJobError(job: AIJobSnapshot, now: number = Date.now()): AIError {
+  const message = job.error ?? '알 수 없는 오류가 발생했습니다.'
+
+  if (job.code) {
+    const elapsedMs = Math.max(0, now - new Date(job.updatedAt).getTime())
+
+    return {
+      type: 'QUOTA_EXCEEDED',
+      message,
+      retryable: true,
+      retryAfterMs: job.retryAfterMs !== undefined ? Math.max(0, job.retryAfterMs - elapsedMs) : undefined,
+      severity: 'high',
+      context: { noteId: job.noteId }
+    }
+  }
+
+  return {
+    type: 'SERVER_ERROR',
+    message,
+    retryable: true,
+    severity: 'medium',
+    context: { noteId: job.noteId }
+  }
+}
@@ -0,0 +1,229 @@
+// lib/ai/job-worker.ts
+// 백그라운드 AI 작업 워커
+// ai_jobs 대기열에서 작업을 하나씩 가져와 요약/태그 생성, 노트 임베딩 계산을 하고 결과를 기록하며, 일시적인 오류는 대기 시간 뒤 다시 처리
+// 처리 중 작업이 취소되거나 잠금을 잃으면 생성을 중단
+// 실행 시각이 미래인 작업(노트 임베딩)은 인라인 워커가 그 시각에 대기열을 다시 처리하도록 예약
+// 관련 파일: lib/ai/job-queue.ts, lib/ai/summary-generation.ts, lib/ai/tag-generation.ts, lib/notes/embeddings.ts, app/api/cron/ai-jobs/route.ts, scripts/ai-job-worker.ts
+
+import { db } from '@/lib/db/connection'
+import { notes } from '@/lib/db/schema/notes'
+import type { AIJob } from '@/lib/db/schema/ai_jobs'
+import { and, eq, isNull } from 'drizzle-orm'
+import type { AIJobResult, AIJobType } from './types'
+import { createNoteSummary } from './summary-generation'
+import { createNoteTags } from './tag-generation'
+import { upsertNoteEmbedding } from '@/lib/notes/embeddings'
+import { claimNextAIJob, completeAIJob, failAIJob, renewAIJobLock, updateAIJobPreview, updateAIJobProgress } from './job-queue'
+import { isInlineAIJobWorkerEnabled } from './config'
+import { AI_JOB_HEARTBEAT_INTERVAL_MS, AI_JOB_MAX_ATTEMPTS, AI_JOB_PREVIEW_INTERVAL_MS, classifyAIJobFailure } from './job-utils'
+
+type AIJobOutcome =
+  | { success: true; result: AIJobResult }
+  | { success: false; error: string }
+
+interface AIJobNote {
+  title: string
+  content: string
+}
+
+interface AIJobContext {
+  onProgress: (progress: number, message?: string) => void
+  onPreview: (text: string) => void
+  // 작업이 취소되었거나 다른 워커가 다시 가져가 이 워커가 잠금을 잃으면 중단됨
+  signal: AbortSignal
+}
+
+type AIJobHandler = (job: AIJob, note: AIJobNote, context: AIJobContext) => Promise<AIJobOutcome>
+
+// 작업 종류별 처리 (노트의 현재 내용으로 강제 재생성)
+const handlers: Record<AIJobType, AIJobHandler> = {
+  summary: async (job, { content }, { onProgress, onPreview, signal }) => {
+    const result = await createNoteSummary(
+      job.userId,
+      { noteId: job.noteId, content, forceRegenerate: true },
+      {
+        onProgress: state => onProgress(state.progress ?? 0, state.message),
+        onPreview,
+        signal
+      }
+    )
+
+    return result.success
+      ? { success: true, result: { summary: result.summary } }
+      : { success: false, error: result.error || '요약 생성에 실패했습니다.' }
+  },
+  tags: async (job, { content }) => {
+    const result = await createNoteTags(job.userId, { noteId: job.noteId, content, forceRegenerate: true })
+
+    return result.success
+      ? { success: true, result: { tags: result.tags } }
+      : { success: false, error: result.error || '태그 생성에 실패했습니다.' }
+  },
+  // 노트 저장 후 예약된 임베딩 재계산 (입력이 그대로면 계산 생략)
+  embedding: async (job, { title, content }) => {
+    await upsertNoteEmbedding({ id: job.noteId, userId: job.userId, title, content })
+    return { success: true, result: {} }
+  }
+}
+
+// 가져온 작업 하나 처리
+async function processAIJob(job: AIJob): Promise<void> {
+  // 처리 도중 워커가 중단되어 다시 가져온 작업이 시도 횟수를 넘긴 경우
+  if (job.attempts > AI_JOB_MAX_ATTEMPTS) {
+    await failAIJob(job, { retry: false, error: 'AI 작업이 여러 번 중단되어 처리하지 못했습니다.' })
+    return
+  }
+
+  const [note] = await db
+    .select({ title: notes.title, content: notes.content })
+    .from(notes)
+    .where(and(eq(notes.id, job.noteId), eq(notes.userId, job.userId), isNull(notes.deletedAt)))
+    .limit(1)
+
+  if (!note) {
+    await failAIJob(job, { retry: false, error: '노트를 찾을 수 없거나 권한이 없습니다.' })
+    return
+  }
+
+  // 진행률·미리보기 기록이나 잠금 갱신에서 작업이 취소되었거나 잠금을 잃은 것을 알게 되면 처리를 중단
+  const controller = new AbortController()
+  const keepClaim = (write: Promise<boolean>, label: string) => {
+    write
+      .then(held => {
+        if (!held) controller.abort()
+      })
+      // 기록 자체가 실패한 경우는 작업 처리를 멈추지 않음
+      .catch(error => {
+        console.error(`AI 작업 ${label} 기록 오류:`, error)
+      })
+  }
+
+  const onProgress = (progress: number, message?: string) => {
+    keepClaim(updateAIJobProgress(job, progress, message), '진행률')
+  }
+
+  let lastPreviewAt = 0
+  const onPreview = (text: string) => {
+    const now = Date.now()
+    if (now - lastPreviewAt < AI_JOB_PREVIEW_INTERVAL_MS) return
+    lastPreviewAt = now
+    keepClaim(updateAIJobPreview(job, text), '미리보기')
+  }
+
+  // 진행률 기록이 없는 긴 AI 호출 중에도 잠금이 만료되어 다른 워커가 같은 작업을 다시 가져가지 않도록 주기적으로 잠금 갱신
+  const heartbeat = setInterval(() => {
+    keepClaim(renewAIJobLock(job), '잠금 갱신')
+  }, AI_JOB_HEARTBEAT_INTERVAL_MS)
+
+  try {
+    const outcome = await handlers[job.type](
+      job,
+      { title: note.title, content: note.content ?? '' },
+      { onProgress, onPreview, signal: controller.signal }
+    )
+
+    const recorded = outcome.success
+      ? await completeAIJob(job, outcome.result)
+      : await failAIJob(job, { retry: false, error: outcome.error })
+
+    if (!recorded) {
+      console.warn('취소되었거나 잠금을 잃은 AI 작업이라 결과를 기록하지 않았습니다:', { jobId: job.id, type: job.type })
+    }
+  } catch (error) {
+    // 취소되었거나 잠금을 잃어 중단한 경우는 기록할 작업이 없음
+    if (controller.signal.aborted) return
+    console.error('AI 작업 처리 오류:', { jobId: job.id, type: job.type, error })
+    await failAIJob(job, classifyAIJobFailure(error, job.attempts))
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+// 대기열에서 작업 하나를 가져와 처리 (처리할 작업이 없으면 false)
+export async function runNextAIJob(): Promise<boolean> {
+  const job = await claimNextAIJob()
+  if (!job) return false
+
+  await processAIJob(job)
+  return true
+}
+
+export interface DrainAIJobsOptions {
+  maxJobs?: number
+  timeBudgetMs?: number // 이 시간이 지나면 새 작업을 가져오지 않음 (서버리스 실행 시간 제한 대비)
+}
+
+// 대기열이 빌 때까지(또는 제한에 닿을 때까지) 작업 처리 후 처리한 작업 수 반환
+export async function drainAIJobs({ maxJobs = 10, timeBudgetMs = 50000 }: DrainAIJobsOptions = {}): Promise<number> {
+  const deadline = Date.now() + timeBudgetMs
+  let processed = 0
+
+  while (processed < maxJobs && Date.now() < deadline) {
+    if (!(await runNextAIJob())) break
+    processed++
+  }
+
+  return processed
+}
+
+// 예약된 인라인 대기열 처리 중 가장 늦은 시각 (이보다 이른 작업은 그때 함께 처리됨)
+let scheduledDrainAt = 0
+
+// 실행 시각이 된 작업을 이 서버에서 처리하도록 대기열 처리 예약 (인라인 워커를 사용하는 경우)
+// 작업 등록 직후의 대기열 처리는 실행 시각 전이라 이 작업을 건너뛰므로, 서버 프로세스가 유지되는 동안 그 시각에 다시 처리
+// 서버리스처럼 프로세스가 유지되지 않는 환경에서는 정기 실행 API(/api/cron/ai-jobs)나 별도 워커가 처리
+export function scheduleAIJobDrain(runAfter: Date): void {
+  if (!isInlineAIJobWorkerEnabled()) return
+
+  const runAt = runAfter.getTime()
+  if (runAt <= scheduledDrainAt) return
+  scheduledDrainAt = runAt
+
+  const timer = setTimeout(() => {
+    if (scheduledDrainAt === runAt) {
+      scheduledDrainAt = 0
+    }
+    drainAIJobs().catch(error => {
+      console.error('AI 작업 처리 오류:', error)
+    })
+  }, Math.max(0, runAt - Date.now()))
+
+  // 예약된 처리가 서버 프로세스 종료를 막지 않도록 함
+  timer.unref?.()
+}
+
+export interface AIJobWorkerOptions {
+  concurrency?: number
+  pollIntervalMs?: number // 대기열이 비었을 때 다시 확인하기까지 대기 시간
+  signal?: AbortSignal
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+// 상시 실행 워커 루프 (signal이 중단될 때까지 대기열을 계속 처리)
+export async function runAIJobWorker({
+  concurrency = 1,
+  pollIntervalMs = 2000,
+  signal
+}: AIJobWorkerOptions = {}): Promise<void> {
+  const loop = async () => {
+    while (!signal?.aborted) {
+      try {
+        if (await runNextAIJob()) continue
+      } catch (error) {
+        console.error('AI 작업 워커 오류:', error)
+      }
+      await wait(pollIntervalMs, signal)
+    }
+  }
+
+  await Promise.all(Array.from({ length: concurrency }, loop))
+}
@@ -0,0 +1,70 @@
+// lib/ai/local-embedding.ts
+// 로컬 결정적 임베딩 (feature hashing)
+// 임베딩 API를 쓸 수 없을 때(mock 제공자, API 오류, 오프라인) 같은 입력에 항상 같은 벡터를 만들어 유사 노트 검색을 유지
+// 관련 파일: lib/ai/mock-client.ts, lib/notes/embeddings.ts
+
+// 저장된 임베딩의 모델 식별자 (같은 모델끼리만 유사도 비교)
+export const LOCAL_EMBEDDING_MODEL = 'local/hash-v1'
+
+// FNV-1a 32비트 해시
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// 단어와 단어 내부 글자 2-gram을 특징으로 사용 (조사가 붙은 한국어 단어도 겹치는 특징이 생기도록)
+export function extractEmbeddingFeatures(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 0)
+
+  const features: string[] = []
+  for (const word of words) {
+    features.push(`w:${word}`)
+    for (let i = 0; i < word.length - 1; i++) {
+      features.push(`b:${word.slice(i, i + 2)}`)
+    }
+  }
+  return features
+}
+
+// 특징을 부호 있는 해시로 벡터에 누적한 뒤 L2 정규화
+export function createLocalEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+
+  for (const feature of extractEmbeddingFeatures(text)) {
+    const hash = hashString(feature)
+    const sign = (hash & 1) === 0 ? 1 : -1
+    // 단어 특징이 글자 2-gram보다 의미 비중이 크도록 가중치 부여
+    const weight = feature.startsWith('w:') ? 2 : 1
+    vector[(hash >>> 1) % dimensions] += sign * weight
+  }
+
+  return normalizeVector(vector)
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? vector.map(value => value / norm) : vector
+}
+
+// 코사인 유사도 (-1 ~ 1, 영벡터는 0)
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
@@ -0,0 +1,86 @@
+// lib/ai/map-reduce-summary.ts
+// 긴 노트 map-reduce 요약
+// 토큰 예산을 넘는 노트는 조각별로 요약(map)한 뒤 합쳐서 최종 요약(reduce)하여 앞부분만 요약되는 문제를 방지
+// 관련 파일: lib/ai/summary-chunking.ts, lib/ai/summary-utils.ts, lib/ai/summary-generation.ts, lib/ai/actions.ts
+
+import { AIProvider, AIProcessState } from './types'
+import { estimateTokens } from './utils'
+import type { AIStreamEvent } from './sse'
+import { splitIntoChunks } from './summary-chunking'
+import {
+  buildSummaryPrompt,
+  buildChunkSummaryPrompt,
+  buildCombineSummaryPrompt,
+  cleanSummaryText
+} from './summary-utils'
+
+// 한 번의 요청에 넣을 노트 내용의 최대 토큰 수 (프롬프트·응답 여유분을 고려해 모델 한도보다 작게 설정)
+export const SUMMARY_CHUNK_MAX_TOKENS = 3000
+// 부분 요약을 다시 요약하는 최대 단계 수
+const MAX_SUMMARY_ROUNDS = 3
+
+export type SummaryProgressEvent = Extract<AIStreamEvent, { type: 'progress' }>
+
+// 프롬프트 하나에 대한 AI 호출 (호출마다 사용량을 기록하려는 쪽에서 감싸서 전달)
+export type SummaryTextGenerator = (prompt: string) => Promise<string>
+
+export function needsChunkedSummary(content: string, maxTokens: number = SUMMARY_CHUNK_MAX_TOKENS): boolean {
+  return estimateTokens(content) > maxTokens
+}
+
+// 최종 요약 프롬프트 준비 (긴 노트는 부분 요약을 생성하며 진행률을 알림)
+// 최종 요약 호출을 직접 스트리밍하려는 쪽(요약 작업)에서 사용
+export async function* prepareSummaryPrompt(
+  generate: SummaryTextGenerator,
+  content: string,
+  maxTokens: number
+): AsyncGenerator<SummaryProgressEvent, string> {
+  if (!needsChunkedSummary(content, maxTokens)) {
+    return buildSummaryPrompt(content)
+  }
+
+  let text = content
+  for (let round = 1; ; round++) {
+    const chunks = splitIntoChunks(text, maxTokens)
+    const partialSummaries: string[] = []
+
+    for (const [index, chunk] of chunks.entries()) {
+      yield {
+        type: 'progress',
+        // 첫 단계가 대부분의 시간을 차지하므로 10-80% 구간을 배정
+        progress: round === 1 ? 10 + Math.round((70 * index) / chunks.length) : 80,
+        message: `긴 노트를 나누어 요약하고 있습니다... (${index + 1}/${chunks.length})`
+      }
+
+      const partial = await generate(buildChunkSummaryPrompt(chunk, index + 1, chunks.length))
+      partialSummaries.push(cleanSummaryText(partial))
+    }
+
+    // 부분 요약이 여전히 예산을 넘으면 한 단계 더 요약
+    if (!needsChunkedSummary(partialSummaries.join('\n\n'), maxTokens) || round >= MAX_SUMMARY_ROUNDS) {
+      yield { type: 'progress', progress: 85, message: '부분 요약을 하나로 합치고 있습니다...' }
+      return buildCombineSummaryPrompt(partialSummaries)
+    }
+    text = partialSummaries.join('\n\n')
+  }
+}
+
+// 노트 요약 생성 (진행률은 AIProcessState 형태로 전달)
+// 부분 요약과 최종 요약의 AI 호출은 모두 generate를 거치므로 호출마다 따로 기록할 수 있음
+export async function summarizeContent(
+  client: AIProvider,
+  content: string,
+  onProgress?: (state: AIProcessState) => void,
+  maxTokens: number = SUMMARY_CHUNK_MAX_TOKENS,
+  generate: SummaryTextGenerator = prompt => client.generateText(prompt)
+): Promise<string> {
+  const steps = prepareSummaryPrompt(generate, content, maxTokens)
+
+  let step = await steps.next()
+  while (!step.done) {
+    onProgress?.({ status: 'loading', progress: step.value.progress, message: step.value.message })
+    step = await steps.next()
+  }
+
+  return generate(step.value)
+}
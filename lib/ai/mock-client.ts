@@ -0,0 +1,188 @@
+// lib/ai/mock-client.ts
+// 오프라인 결정적(deterministic) mock AI 클라이언트
+// API 키나 네트워크 없이 앱과 테스트를 실행할 수 있도록 같은 프롬프트에 항상 같은 응답을 반환
+// 관련 파일: lib/ai/types.ts, lib/ai/config.ts, lib/ai/provider-registry.ts, lib/ai/transcription.ts
+
+import { MockAIConfig, AIProvider, AIGenerateOptions, AIStreamOptions, AIEmbeddingResult, AITranscriptionOptions, AITranscriptionResult, AIUsageStats, APIUsageLog, GeminiErrorType } from './types'
+import { GeminiError } from './errors'
+import { getMockAIConfig } from './config'
+import { estimateTokens, logAPIUsage, sleep, calculateUsageStats } from './utils'
+import { createLocalEmbedding, LOCAL_EMBEDDING_MODEL } from './local-embedding'
+import { transcribeLocally, LOCAL_TRANSCRIPTION_MODEL } from './transcription'
+
+// 키워드 추출 시 제외할 흔한 단어
+const STOPWORDS = new Set([
+  '그리고', '그러나', '하지만', '또한', '그래서', '이것', '저것', '그것', '있는', '있다', '없는', '없다',
+  '하는', '한다', '했다', '합니다', '입니다', '있습니다', '위해', '대한', '에서', '으로', '에게',
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'you', 'your'
+])
+
+// 프롬프트에서 사용자 입력 부분 추출 (노트 내용 또는 사용자 메시지)
+export function extractPromptBody(prompt: string): string {
+  const noteMatch = prompt.match(/노트 내용:\s*\n([\s\S]*?)(?:\n\s*\n[^\n]*:\s*)?$/)
+  if (noteMatch) return noteMatch[1].trim()
+
+  const messageMatch = prompt.match(/사용자 메시지:\s*([\s\S]*?)(?:\n\s*\n|$)/)
+  if (messageMatch) return messageMatch[1].trim()
+
+  return prompt.trim()
+}
+
+// 등장 빈도순(동률이면 먼저 나온 순) 키워드 추출
+export function extractKeywords(text: string, limit: number): string[] {
+  const counts = new Map<string, { count: number; firstIndex: number }>()
+
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= 2 && !STOPWORDS.has(word) && !/^\d+$/.test(word))
+    .forEach((word, index) => {
+      const entry = counts.get(word)
+      if (entry) {
+        entry.count++
+      } else {
+        counts.set(word, { count: 1, firstIndex: index })
+      }
+    })
+
+  return Array.from(counts.entries())
+    .sort(([, a], [, b]) => b.count - a.count || a.firstIndex - b.firstIndex)
+    .slice(0, limit)
+    .map(([word]) => word)
+}
+
+// 문장 단위 분리 (마크다운 기호 제거)
+function extractSentences(text: string): string[] {
+  return text
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/[*_`>]/g, '')
+    .split(/(?<=[.!?。])\s+|\n+/)
+    .map(sentence => sentence.replace(/^\s*[-+]\s+/, '').trim())
+    .filter(sentence => sentence.length > 0)
+}
+
+// 프롬프트 유형에 맞는 결정적 응답 생성
+export function buildMockResponse(prompt: string): string {
+  const body = extractPromptBody(prompt)
+  // 노트 본문에 포함된 단어가 아닌 지시문으로 요청 유형 판단
+  const instructions = prompt.replace(body, '')
+
+  if (instructions.includes('태그')) {
+    const tags = extractKeywords(body, 6)
+    return tags.length > 0 ? tags.join(', ') : 'note'
+  }
+
+  if (instructions.includes('요약')) {
+    const sentences = extractSentences(body).slice(0, 5)
+    if (sentences.length === 0) return '• 내용이 없습니다.'
+    return sentences
+      .map(sentence => `• ${sentence.length > 50 ? `${sentence.slice(0, 49)}…` : sentence}`)
+      .join('\n')
+  }
+
+  const keywords = extractKeywords(body, 3)
+  return keywords.length > 0
+    ? `[mock 응답] "${keywords.join(', ')}"에 대한 질문을 받았습니다. 오프라인 mock 제공자가 응답하고 있습니다.`
+    : '[mock 응답] 오프라인 mock 제공자가 응답하고 있습니다.'
+}
+
+export class MockAIClient implements AIProvider {
+  readonly name = 'mock' as const
+  private config: MockAIConfig
+  private usageLogs: APIUsageLog[] = []
+
+  constructor(config: MockAIConfig = getMockAIConfig()) {
+    this.config = config
+  }
+
+  get model(): string {
+    return this.config.model
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    return this.generateTextWithOptions(prompt)
+  }
+
+  async generateTextWithOptions(prompt: string, options: AIGenerateOptions = {}): Promise<string> {
+    if (this.config.latencyMs > 0) {
+      await sleep(this.config.latencyMs)
+    }
+
+    return this.respond(prompt, options)
+  }
+
+  // 결정적 응답을 단어 단위 조각으로 나누어 반환
+  async *generateTextStream(prompt: string, options: AIStreamOptions = {}): AsyncGenerator<string> {
+    const chunks = this.respond(prompt, options).match(/\S+\s*/g) ?? []
+    // 지연 시간을 조각 수만큼 나누어 실제 스트리밍처럼 보이게 함
+    const chunkDelay = chunks.length > 0 ? Math.floor(this.config.latencyMs / chunks.length) : 0
+
+    for (const chunk of chunks) {
+      if (options.signal?.aborted) return
+      if (chunkDelay > 0) await sleep(chunkDelay)
+      yield chunk
+    }
+  }
+
+  // 로컬 결정적 임베딩 (임베딩 API 실패 시 대체값과 같은 모델 식별자를 사용해 서로 비교 가능)
+  async generateEmbedding(text: string, dimensions: number): Promise<AIEmbeddingResult> {
+    return { embedding: createLocalEmbedding(text, dimensions), model: LOCAL_EMBEDDING_MODEL }
+  }
+
+  // 등록된 로컬 전사기로 전사 (기본값은 결정적 자리표시 전사)
+  async transcribeAudio(
+    audio: Uint8Array,
+    mimeType: string,
+    options: AITranscriptionOptions = {}
+  ): Promise<AITranscriptionResult> {
+    if (audio.byteLength === 0) {
+      throw new GeminiError(GeminiErrorType.UNKNOWN, '녹음 파일이 비어있습니다.')
+    }
+
+    return { text: await transcribeLocally(audio, mimeType, options), model: LOCAL_TRANSCRIPTION_MODEL }
+  }
+
+  // 응답 생성 및 사용량 기록
+  private respond(prompt: string, options: AIGenerateOptions): string {
+    if (!prompt.trim()) {
+      throw new GeminiError(GeminiErrorType.UNKNOWN, '프롬프트가 비어있습니다.')
+    }
+
+    let result = buildMockResponse(prompt)
+    if (options.maxTokens && estimateTokens(result) > options.maxTokens) {
+      result = result.slice(0, options.maxTokens * 4)
+    }
+
+    const log: APIUsageLog = {
+      timestamp: new Date(),
+      model: this.config.model,
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(result),
+      latencyMs: this.config.latencyMs,
+      success: true
+    }
+    this.usageLogs.push(log)
+    logAPIUsage(log)
+
+    return result
+  }
+
+  estimateTokens(text: string): number {
+    return estimateTokens(text)
+  }
+
+  getUsageStats(): AIUsageStats {
+    return {
+      ...calculateUsageStats(this.usageLogs),
+      recentLogs: this.usageLogs.slice(-10)
+    }
+  }
+
+  clearUsageLogs(): void {
+    this.usageLogs = []
+  }
+}
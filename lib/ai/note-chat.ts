@@ -0,0 +1,37 @@
+// lib/ai/note-chat.ts
+// 노트 기반 AI 대화 준비 (retrieval-augmented prompt)
+// 인증된 사용자 본인의 노트에서 관련 내용을 찾아 프롬프트에 넣고 인용 출처 목록을 만듦
+// 관련 파일: lib/notes/retrieval.ts, lib/ai/chat.ts, lib/ai/chat-conversations.ts
+
+import { retrieveRelevantNotes } from '@/lib/notes/retrieval'
+import { buildChatPrompt, ChatHistoryMessage, ChatSource } from './chat'
+
+export interface NoteChatPrompt {
+  prompt: string
+  sources: ChatSource[]
+}
+
+// userId는 반드시 세션에서 확인한 사용자 ID여야 함
+export async function prepareNoteChat(
+  userId: string,
+  message: string,
+  useNotes: boolean = true,
+  history: ChatHistoryMessage[] = []
+): Promise<NoteChatPrompt> {
+  if (!useNotes) {
+    return { prompt: buildChatPrompt(message, [], history), sources: [] }
+  }
+
+  try {
+    const relevantNotes = await retrieveRelevantNotes(userId, message)
+
+    return {
+      prompt: buildChatPrompt(message, relevantNotes, history),
+      sources: relevantNotes.map(({ id, title }) => ({ id, title }))
+    }
+  } catch (error) {
+    // 노트 검색에 실패해도 일반 대화는 계속 진행
+    console.error('노트 검색 오류:', error)
+    return { prompt: buildChatPrompt(message, [], history), sources: [] }
+  }
+}
@@ -0,0 +1,354 @@
+// lib/ai/openai-compatible-client.ts
+// OpenAI 호환 Chat Completions API 클라이언트
+// Ollama, llama.cpp server 등 /v1/chat/completions, /v1/embeddings, /v1/audio/transcriptions 를 제공하는 로컬/자체 호스팅 모델과 통신
+// 관련 파일: lib/ai/types.ts, lib/ai/config.ts, lib/ai/provider-registry.ts, lib/ai/gemini-client.ts
+
+import { OpenAICompatibleConfig, AIProvider, AIGenerateOptions, AIStreamOptions, AIEmbeddingResult, AITranscriptionOptions, AITranscriptionResult, AIUsageStats, APIUsageLog, GeminiErrorType } from './types'
+import { GeminiError, createGeminiError, getSafeErrorMessage } from './errors'
+import { getOpenAICompatibleConfig } from './config'
+import {
+  estimateTokens,
+  validateTokenLimit,
+  logAPIUsage,
+  withRetry,
+  measureLatency,
+  truncateText,
+  calculateUsageStats
+} from './utils'
+import { readSSEData } from './sse'
+import { normalizeTranscript, TRANSCRIPTION_LANGUAGE } from './transcription'
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null }
+    finish_reason?: string | null
+  }>
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null }
+    finish_reason?: string | null
+  }>
+  error?: { message?: string } | string
+}
+
+interface EmbeddingResponse {
+  data?: Array<{ embedding?: number[] }>
+}
+
+interface TranscriptionResponse {
+  text?: string
+}
+
+export class OpenAICompatibleClient implements AIProvider {
+  readonly name = 'openai-compatible' as const
+  private config: OpenAICompatibleConfig
+  private usageLogs: APIUsageLog[] = []
+
+  constructor(config: OpenAICompatibleConfig = getOpenAICompatibleConfig()) {
+    this.config = config
+
+    if (this.config.debug) {
+      console.log('[OpenAI Compatible Config]', {
+        baseUrl: this.config.baseUrl,
+        model: this.config.model,
+        maxTokens: this.config.maxTokens,
+        timeout: this.config.timeout,
+        hasApiKey: !!this.config.apiKey
+      })
+    }
+  }
+
+  get model(): string {
+    return this.config.model
+  }
+
+  // 헬스체크 - 엔드포인트 연결 상태 확인
+  async healthCheck(): Promise<boolean> {
+    try {
+      const result = await this.generateText('Hello')
+      return !!result && result.length > 0
+    } catch (error) {
+      console.error('OpenAI 호환 엔드포인트 헬스체크 실패:', error)
+      return false
+    }
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    return this.generateTextWithOptions(prompt, {
+      maxTokens: this.config.maxTokens,
+      temperature: 0.7,
+      topP: 0.9
+    })
+  }
+
+  async generateTextWithOptions(prompt: string, options: AIGenerateOptions = {}): Promise<string> {
+    const { processedPrompt, maxTokens } = this.preparePrompt(prompt, options)
+    const startTime = Date.now()
+
+    try {
+      const { result, latency } = await measureLatency(() =>
+        withRetry(() => this.requestCompletion(processedPrompt, { ...options, maxTokens }))
+      )
+
+      this.recordUsage(processedPrompt, result, latency)
+
+      return result
+    } catch (error) {
+      const geminiError = error instanceof GeminiError ? error : createGeminiError(error)
+      this.recordUsage(processedPrompt, '', Date.now() - startTime, getSafeErrorMessage(geminiError))
+      throw geminiError
+    }
+  }
+
+  // 스트리밍 텍스트 생성 (stream: true, delta 조각 단위로 반환)
+  async *generateTextStream(prompt: string, options: AIStreamOptions = {}): AsyncGenerator<string> {
+    const { processedPrompt, maxTokens } = this.preparePrompt(prompt, {
+      maxTokens: this.config.maxTokens,
+      temperature: 0.7,
+      topP: 0.9,
+      ...options
+    })
+    const startTime = Date.now()
+    let output = ''
+
+    try {
+      const response = await this.postCompletion(processedPrompt, { ...options, maxTokens }, true, options.signal)
+
+      if (!response.body) {
+        throw createGeminiError(new Error('network connection failed: empty stream body'))
+      }
+
+      for await (const payload of readSSEData(response.body)) {
+        if (payload === '[DONE]') break
+
+        let chunk: ChatCompletionChunk
+        try {
+          chunk = JSON.parse(payload) as ChatCompletionChunk
+        } catch {
+          continue
+        }
+
+        const choice = chunk.choices?.[0]
+        if (choice?.finish_reason === 'content_filter') {
+          throw new GeminiError(GeminiErrorType.CONTENT_FILTERED, '요청한 내용이 정책에 의해 차단되었습니다.')
+        }
+
+        const text = choice?.delta?.content
+        if (text) {
+          output += text
+          yield text
+        }
+      }
+
+      this.recordUsage(processedPrompt, output, Date.now() - startTime)
+    } catch (error) {
+      if (options.signal?.aborted) {
+        this.recordUsage(processedPrompt, output, Date.now() - startTime, '사용자가 생성을 중단했습니다.')
+        return
+      }
+
+      const geminiError = error instanceof GeminiError ? error : createGeminiError(error)
+      this.recordUsage(processedPrompt, output, Date.now() - startTime, getSafeErrorMessage(geminiError))
+      throw geminiError
+    }
+  }
+
+  // /embeddings 요청 (dimensions를 지원하지 않는 서버도 있어 벡터 길이를 검증)
+  async generateEmbedding(text: string, dimensions: number): Promise<AIEmbeddingResult> {
+    const startTime = Date.now()
+
+    try {
+      const response = await this.post('/embeddings', {
+        model: this.config.embeddingModel,
+        input: text,
+        dimensions
+      })
+      const data = (await response.json().catch(() => ({}))) as EmbeddingResponse
+      const embedding = data.data?.[0]?.embedding
+
+      if (!embedding || embedding.length !== dimensions) {
+        throw new GeminiError(
+          GeminiErrorType.UNKNOWN,
+          `임베딩 차원이 맞지 않습니다. (기대: ${dimensions}, 응답: ${embedding?.length ?? 0})`
+        )
+      }
+
+      this.recordUsage(text, '', Date.now() - startTime, undefined, this.config.embeddingModel)
+      return { embedding, model: `${this.name}/${this.config.embeddingModel}` }
+    } catch (error) {
+      const aiError = error instanceof GeminiError ? error : createGeminiError(error)
+      this.recordUsage(text, '', Date.now() - startTime, getSafeErrorMessage(aiError), this.config.embeddingModel)
+      throw aiError
+    }
+  }
+
+  // /audio/transcriptions 멀티파트 요청 (whisper 호환 서버)
+  async transcribeAudio(
+    audio: Uint8Array,
+    mimeType: string,
+    options: AITranscriptionOptions = {}
+  ): Promise<AITranscriptionResult> {
+    const startTime = Date.now()
+    const model = this.config.transcriptionModel
+
+    try {
+      const extension = mimeType.split(/[/;]/)[1] || 'webm'
+      const form = new FormData()
+      form.append('file', new Blob([new Uint8Array(audio)], { type: mimeType }), `audio.${extension}`)
+      form.append('model', model)
+      form.append('language', options.language || TRANSCRIPTION_LANGUAGE)
+      form.append('response_format', 'json')
+
+      const response = await this.post(
+        '/audio/transcriptions',
+        form,
+        undefined,
+        this.config.transcriptionBaseUrl || this.config.baseUrl
+      )
+      const data = (await response.json().catch(() => ({}))) as TranscriptionResponse
+      const text = normalizeTranscript(data.text ?? '')
+
+      this.recordUsage('', text, Date.now() - startTime, undefined, model)
+      return { text, model: `${this.name}/${model}` }
+    } catch (error) {
+      const aiError = error instanceof GeminiError ? error : createGeminiError(error)
+      this.recordUsage('', '', Date.now() - startTime, getSafeErrorMessage(aiError), model)
+      throw aiError
+    }
+  }
+
+  // 프롬프트 검증 및 토큰 제한에 맞춰 자르기
+  private preparePrompt(prompt: string, options: AIGenerateOptions): { processedPrompt: string; maxTokens: number } {
+    if (!prompt.trim()) {
+      throw new GeminiError(GeminiErrorType.UNKNOWN, '프롬프트가 비어있습니다.')
+    }
+
+    const inputTokens = estimateTokens(prompt)
+    const maxTokens = options.maxTokens || this.config.maxTokens
+    const validation = validateTokenLimit(inputTokens, maxTokens)
+
+    if (!validation.isValid) {
+      throw new GeminiError(
+        GeminiErrorType.QUOTA_EXCEEDED,
+        `입력 텍스트가 너무 깁니다. 최대 ${validation.availableTokens} 토큰까지 허용됩니다.`
+      )
+    }
+
+    return { processedPrompt: truncateText(prompt, validation.availableTokens), maxTokens }
+  }
+
+  // /chat/completions 단일 요청
+  private async requestCompletion(prompt: string, options: AIGenerateOptions): Promise<string> {
+    const response = await this.postCompletion(prompt, options, false)
+    const data = (await response.json().catch(() => ({}))) as ChatCompletionResponse
+
+    const choice = data.choices?.[0]
+    if (choice?.finish_reason === 'content_filter') {
+      throw new GeminiError(GeminiErrorType.CONTENT_FILTERED, '요청한 내용이 정책에 의해 차단되었습니다.')
+    }
+
+    return choice?.message?.content?.trim() ?? ''
+  }
+
+  // /chat/completions POST 요청
+  private postCompletion(
+    prompt: string,
+    options: AIGenerateOptions,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return this.post('/chat/completions', {
+      model: this.config.model,
+      messages: [{ role: 'user', content: prompt }],
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      top_p: options.topP,
+      stream
+    }, signal)
+  }
+
+  // 엔드포인트 POST 요청 (타임아웃은 응답 헤더 수신까지만 적용, FormData는 멀티파트로 전송)
+  private async post(
+    path: string,
+    body: Record<string, unknown> | FormData,
+    signal?: AbortSignal,
+    baseUrl: string = this.config.baseUrl
+  ): Promise<Response> {
+    const timeoutController = new AbortController()
+    const timer = setTimeout(() => timeoutController.abort(), this.config.timeout)
+    // 호출자 signal은 응답 본문(스트림)을 읽는 동안에도 연결을 끊을 수 있도록 함께 전달
+    const fetchSignal = signal ? AbortSignal.any([signal, timeoutController.signal]) : timeoutController.signal
+
+    try {
+      const isForm = body instanceof FormData
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          // 멀티파트 경계(boundary)는 fetch가 Content-Type에 직접 지정
+          ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+        },
+        body: isForm ? body : JSON.stringify(body),
+        signal: fetchSignal
+      })
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as ChatCompletionResponse
+        const detail = typeof data.error === 'string' ? data.error : data.error?.message
+        // createGeminiError가 status로 에러를 분류하도록 상태 코드를 함께 전달
+        throw createGeminiError(Object.assign(new Error(detail || response.statusText), { status: response.status }))
+      }
+
+      return response
+    } catch (error) {
+      if (error instanceof GeminiError) throw error
+
+      if (timeoutController.signal.aborted && !signal?.aborted) {
+        throw createGeminiError(Object.assign(new Error('request timed out'), { status: 408 }))
+      }
+
+      // fetch 자체가 실패한 경우 (엔드포인트 미실행 등)
+      throw createGeminiError(new Error(`network connection failed: ${(error as Error)?.message ?? error}`))
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private recordUsage(
+    prompt: string,
+    output: string,
+    latencyMs: number,
+    error?: string,
+    model: string = this.config.model
+  ): void {
+    const log: APIUsageLog = {
+      timestamp: new Date(),
+      model,
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(output),
+      latencyMs,
+      success: !error,
+      error
+    }
+
+    this.usageLogs.push(log)
+    logAPIUsage(log)
+  }
+
+  estimateTokens(text: string): number {
+    return estimateTokens(text)
+  }
+
+  getUsageStats(): AIUsageStats {
+    return {
+      ...calculateUsageStats(this.usageLogs),
+      recentLogs: this.usageLogs.slice(-10)
+    }
+  }
+
+  clearUsageLogs(): void {
+    this.usageLogs = []
+  }
+}
@@ -0,0 +1,58 @@
+// lib/ai/provider-registry.ts
+// AI 제공자 레지스트리
+// AI_PROVIDER 설정에 따라 Gemini, OpenAI 호환 엔드포인트, 오프라인 mock 중 하나를 선택하여 제공
+// 관련 파일: lib/ai/config.ts, lib/ai/gemini-client.ts, lib/ai/openai-compatible-client.ts, lib/ai/mock-client.ts
+
+import { AIProvider, AIProviderName } from './types'
+import { getAIProviderName } from './config'
+import { GeminiClient } from './gemini-client'
+import { OpenAICompatibleClient } from './openai-compatible-client'
+import { MockAIClient } from './mock-client'
+
+export type AIProviderFactory = () => AIProvider
+
+// summaries.model 컬럼 길이
+export const MODEL_LABEL_MAX_LENGTH = 100
+
+const providerFactories: Record<AIProviderName, AIProviderFactory> = {
+  gemini: () => new GeminiClient(),
+  'openai-compatible': () => new OpenAICompatibleClient(),
+  mock: () => new MockAIClient()
+}
+
+let providerInstance: AIProvider | null = null
+
+// 현재 설정된 제공자 인스턴스 (설정이 바뀌면 새로 생성)
+export function getAIProvider(): AIProvider {
+  const name = getAIProviderName()
+
+  if (!providerInstance || providerInstance.name !== name) {
+    providerInstance = createAIProvider(name)
+  }
+
+  return providerInstance
+}
+
+// 새 제공자 인스턴스 생성
+export function createAIProvider(name: AIProviderName = getAIProviderName()): AIProvider {
+  return providerFactories[name]()
+}
+
+// 제공자 구현 교체 (테스트나 커스텀 엔드포인트용)
+export function registerAIProvider(name: AIProviderName, factory: AIProviderFactory): void {
+  providerFactories[name] = factory
+
+  if (providerInstance?.name === name) {
+    providerInstance = null
+  }
+}
+
+// 캐시된 제공자 인스턴스 초기화
+export function resetAIProvider(): void {
+  providerInstance = null
+}
+
+// 생성 결과에 기록할 "제공자/모델" 라벨 (예: gemini/gemini-2.0-flash-001)
+export function getModelLabel(provider: Pick<AIProvider, 'name' | 'model'>): string {
+  return `${provider.name}/${provider.model}`.slice(0, MODEL_LABEL_MAX_LENGTH)
+}
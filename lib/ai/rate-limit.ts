@@ -0,0 +1,149 @@
+// lib/ai/rate-limit.ts
+// 사용자별 AI 요청 빈도 제한과 일일 토큰 한도 계산
+// 토큰 버킷(분당 rateLimitPerMinute개 충전)으로 요청을 제한하고, 버킷 상태는 저장소(메모리/Postgres)에 보관하여 여러 인스턴스에서도 공유 가능
+// 관련 파일: lib/ai/config.ts, lib/ai/usage-limits.ts, lib/ai/chat-route.ts
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // 거부된 경우 다음 요청이 가능해질 때까지 남은 시간
+  retryAfterMs: number
+}
+
+// 버킷에 남은 토큰 수와 마지막 계산 시각
+export interface TokenBucket {
+  tokens: number
+  updatedAt: number
+}
+
+// 버킷 상태 저장소 (키별로 토큰 하나를 원자적으로 꺼냄)
+export interface RateLimitStore {
+  take(key: string, capacity: number, windowMs: number, now: number): Promise<RateLimitResult>
+  reset(key?: string): Promise<void>
+}
+
+export interface RateLimiter {
+  check(key: string, now?: number): Promise<RateLimitResult>
+  reset(key?: string): Promise<void>
+}
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000
+
+// 경과 시간만큼 충전한 뒤 토큰 하나를 꺼냄 (windowMs 동안 capacity개가 고르게 충전되고, 처음 요청하는 키는 가득 찬 버킷으로 시작)
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  capacity: number,
+  now: number,
+  windowMs: number = RATE_LIMIT_WINDOW_MS
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const refillPerMs = capacity / windowMs
+  const available = bucket
+    ? Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs)
+    : capacity
+
+  if (available >= 1) {
+    return {
+      bucket: { tokens: available - 1, updatedAt: now },
+      result: { allowed: true, remaining: Math.floor(available - 1), retryAfterMs: 0 }
+    }
+  }
+
+  return {
+    bucket: { tokens: available, updatedAt: now },
+    result: { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - available) / refillPerMs) }
+  }
+}
+
+// 서버 인스턴스 메모리에 버킷을 보관하는 저장소 (단일 인스턴스 배포용)
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, TokenBucket>()
+
+  return {
+    async take(key, capacity, windowMs, now) {
+      const { bucket, result } = takeToken(buckets.get(key), capacity, now, windowMs)
+      buckets.set(key, bucket)
+      return result
+    },
+
+    async reset(key) {
+      if (key) {
+        buckets.delete(key)
+      } else {
+        buckets.clear()
+      }
+    }
+  }
+}
+
+// 토큰 버킷 방식 제한기 (한도는 함수로 받아 환경변수 변경을 매 요청 반영)
+export function createRateLimiter(
+  limit: number | (() => number),
+  store: RateLimitStore = createMemoryRateLimitStore(),
+  windowMs: number = RATE_LIMIT_WINDOW_MS
+): RateLimiter {
+  const getLimit = typeof limit === 'function' ? limit : () => limit
+
+  return {
+    check(key, now = Date.now()) {
+      return store.take(key, getLimit(), windowMs, now)
+    },
+
+    reset(key) {
+      return store.reset(key)
+    }
+  }
+}
+
+// Retry-After 헤더와 응답 본문에 쓰는 초 단위 대기 시간 (최소 1초)
+export function toRetryAfterSeconds(retryAfterMs: number): number {
+  return Math.max(1, Math.ceil(retryAfterMs / 1000))
+}
+
+export interface DailyQuotaResult {
+  allowed: boolean
+  remaining: number
+  retryAfterMs: number
+}
+
+// 일일 사용량 집계 기준 날짜 (UTC, YYYY-MM-DD)
+export function getUsageDate(now: number = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10)
+}
+
+// 다음 UTC 자정(일일 한도 초기화)까지 남은 시간
+export function getMsUntilQuotaReset(now: number = Date.now()): number {
+  const nextMidnight = new Date(now)
+  nextMidnight.setUTCHours(24, 0, 0, 0)
+  return nextMidnight.getTime() - now
+}
+
+// 오늘 사용한 토큰에 이번 요청 예상 토큰을 더해 한도를 넘는지 확인 (한도가 0 이하면 무제한)
+export function checkDailyQuota(
+  used: number,
+  limit: number,
+  estimatedTokens: number = 0,
+  now: number = Date.now()
+): DailyQuotaResult {
+  if (limit <= 0) {
+    return { allowed: true, remaining: Infinity, retryAfterMs: 0 }
+  }
+
+  const remaining = Math.max(0, limit - used)
+  if (used >= limit || used + estimatedTokens > limit) {
+    return { allowed: false, remaining, retryAfterMs: getMsUntilQuotaReset(now) }
+  }
+
+  return { allowed: true, remaining, retryAfterMs: 0 }
+}
+
+// 남은 대기 시간 표시 (예: 42초, 3분 5초, 5시간 12분)
+export function formatRetryAfter(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  if (hours > 0) return minutes > 0 ? `${hours}시간 ${minutes}분` : `${hours}시간`
+  if (minutes > 0) return seconds > 0 ? `${minutes}분 ${seconds}초` : `${minutes}분`
+  return `${seconds}초`
+}
@@ -0,0 +1,81 @@
+// lib/ai/sse.ts
+// Server-Sent Events 인코딩/파싱 유틸리티
+// AI 스트리밍 응답을 서버(라우트, OpenAI 호환 클라이언트)와 브라우저(useAIStream)가 같은 형식으로 주고받도록 함
+// 관련 파일: lib/ai/stream-response.ts, lib/ai/openai-compatible-client.ts, hooks/use-ai-stream.ts
+
+import type { ChatSource } from './chat'
+
+// 앱 내부 스트리밍 이벤트 (conversation/sources: 저장된 대화와 답변에 참고한 노트, 첫 조각보다 먼저 전송)
+// progress: 텍스트 생성 전 준비 단계(긴 노트 부분 요약 등)의 진행률
+export type AIStreamEvent =
+  | { type: 'conversation'; conversation: { id: string; title: string } }
+  | { type: 'sources'; sources: ChatSource[] }
+  | { type: 'progress'; progress: number; message?: string }
+  | { type: 'chunk'; text: string }
+  | { type: 'done'; text: string; model?: string }
+  | { type: 'error'; error: string; code?: string }
+
+// 이벤트를 SSE 메시지 문자열로 변환
+export function encodeSSEEvent(event: AIStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`
+}
+
+// 버퍼에서 완성된 SSE 메시지의 data 값을 추출하고 남은 부분을 반환
+export function parseSSEBuffer(buffer: string): { data: string[]; rest: string } {
+  const normalized = buffer.replace(/\r\n/g, '\n')
+  const messages = normalized.split('\n\n')
+  const rest = messages.pop() ?? ''
+
+  const data = messages
+    .map(message =>
+      message
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).replace(/^ /, ''))
+        .join('\n')
+    )
+    .filter(payload => payload.length > 0)
+
+  return { data, rest }
+}
+
+// 바이트 스트림에서 SSE data 값을 순서대로 읽기
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const { data, rest } = parseSSEBuffer(buffer)
+      buffer = rest
+
+      for (const payload of data) {
+        yield payload
+      }
+    }
+
+    // 마지막 메시지가 빈 줄 없이 끝난 경우
+    const { data } = parseSSEBuffer(`${buffer}${decoder.decode()}\n\n`)
+    for (const payload of data) {
+      yield payload
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// 앱 내부 스트리밍 이벤트 읽기 (형식이 잘못된 메시지는 무시)
+export async function* readAIStreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<AIStreamEvent> {
+  for await (const payload of readSSEData(body)) {
+    try {
+      yield JSON.parse(payload) as AIStreamEvent
+    } catch {
+      console.error('스트리밍 이벤트 파싱 오류:', payload)
+    }
+  }
+}
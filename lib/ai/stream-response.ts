@@ -0,0 +1,113 @@
+// lib/ai/stream-response.ts
+// AI 텍스트 스트림을 SSE 응답으로 변환하는 서버 유틸리티
+// 클라이언트가 읽는 속도에 맞춰 조각을 전달하고, 연결이 끊기면 생성도 중단 (완료/오류/중단 중 하나의 콜백만 한 번 호출)
+// 관련 파일: lib/ai/sse.ts, app/api/ai-chat/stream/route.ts
+
+import { encodeSSEEvent, AIStreamEvent } from './sse'
+import { GeminiError, getSafeErrorMessage } from './errors'
+
+interface AIStreamResponseOptions {
+  // 생성 중단 signal (요청 signal) - 중단된 경우 onComplete를 호출하지 않음
+  signal?: AbortSignal
+  model?: string
+  // 생성 결과보다 먼저 보낼 이벤트 (예: 참고한 노트 목록)
+  initialEvents?: AIStreamEvent[]
+  // 생성이 끝난 뒤 전체 텍스트로 실행할 작업 (예: DB 저장)
+  onComplete?: (text: string) => Promise<void>
+  // 생성 중 오류가 난 뒤 실행할 작업 (예: 실패 기록) - 중단된 경우에는 호출하지 않음
+  onError?: (error: unknown) => Promise<void>
+  // 클라이언트가 done 이벤트 전에 연결을 끊었을 때 그때까지 생성된 텍스트로 실행할 작업 (예: 사용량 기록)
+  onAbort?: (text: string) => Promise<void>
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // 프록시(nginx 등) 버퍼링 비활성화
+  'X-Accel-Buffering': 'no'
+}
+
+// stream은 텍스트 조각 외에 진행률 등 이벤트를 섞어 보낼 수 있음 (이벤트는 그대로 전달)
+export function createAIStreamResponse(
+  stream: AsyncIterable<string | AIStreamEvent>,
+  { signal, model, initialEvents = [], onComplete, onError, onAbort }: AIStreamResponseOptions = {}
+): Response {
+  const encoder = new TextEncoder()
+  const iterator = stream[Symbol.asyncIterator]()
+  let text = ''
+  // 완료/오류/중단 처리를 이미 했는지 (연결 종료와 마지막 조각 처리가 겹쳐도 한 번만 기록)
+  let settled = false
+
+  const settle = () => {
+    if (settled) return false
+    settled = true
+    return true
+  }
+
+  const handleAbort = async () => {
+    if (!settle()) return
+    await onAbort?.(text).catch(callbackError => console.error('AI 스트리밍 중단 처리 실패:', callbackError))
+  }
+
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: AIStreamEvent) => {
+    controller.enqueue(encoder.encode(encodeSSEEvent(event)))
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      initialEvents.forEach(event => send(controller, event))
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next()
+
+        if (!done) {
+          if (typeof value === 'string') {
+            text += value
+            send(controller, { type: 'chunk', text: value })
+          } else {
+            send(controller, value)
+          }
+          return
+        }
+
+        if (signal?.aborted) {
+          await handleAbort()
+          controller.close()
+          return
+        }
+
+        if (!settle()) return
+        await onComplete?.(text)
+        send(controller, { type: 'done', text, model })
+        controller.close()
+      } catch (error) {
+        console.error('AI 스트리밍 오류:', error)
+
+        if (signal?.aborted) {
+          await handleAbort()
+          controller.close()
+          return
+        }
+
+        if (!settle()) return
+        await onError?.(error).catch(callbackError => console.error('AI 스트리밍 오류 처리 실패:', callbackError))
+
+        send(controller, {
+          type: 'error',
+          error: error instanceof GeminiError ? getSafeErrorMessage(error) : 'AI 응답 생성 중 오류가 발생했습니다.',
+          code: error instanceof GeminiError ? error.type : undefined
+        })
+        controller.close()
+      }
+    },
+    async cancel() {
+      // 클라이언트 연결 종료 시 제공자 스트림 정리 후 받은 부분까지 기록
+      await handleAbort()
+      await iterator.return?.()
+    }
+  })
+
+  return new Response(body, { headers: SSE_HEADERS })
+}
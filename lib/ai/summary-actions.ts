@@ -1,13 +1,12 @@
 // lib/ai/summary-actions.ts
 // 요약 생성 관련 서버 액션
 // 노트 내용을 기반으로 AI 요약을 생성하고 데이터베이스에 저장하는 서버 액션들
-// 관련 파일: lib/ai/gemini-client.ts, lib/db/schema/summaries.ts, lib/notes/actions.ts
+// 관련 파일: lib/ai/summary-generation.ts, lib/ai/map-reduce-summary.ts, lib/db/schema/summaries.ts, lib/notes/actions.ts
 
 'use server'
 
 import { db } from '@/lib/db/connection'
 import { summaries, notes } from '@/lib/db/schema'
-import { getGeminiClient } from './gemini-client'
 import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { eq, and, desc } from 'drizzle-orm'
@@ -15,8 +14,8 @@ import {
   SummaryResult, 
   SummaryGenerationRequest
 } from './types'
-import { validateNoteContent } from './summary-utils'
-import { GeminiError } from './errors'
+import { GeminiError, AILimitError } from './errors'
+import { createNoteSummary } from './summary-generation'
 
 // 기존 요약 조회
 export async function getSummary(noteId: string): Promise<SummaryResult> {
@@ -79,8 +78,6 @@ export async function getSummary(noteId: string): Promise<SummaryResult> {
 // 요약 생성 서버 액션
 export async function generateSummary(request: SummaryGenerationRequest): Promise<SummaryResult> {
   try {
-    const { noteId, content, forceRegenerate = false } = request
-
     // 사용자 인증 확인
     const supabase = await createClient()
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -92,82 +89,26 @@ export async function generateSummary(request: SummaryGenerationRequest): Promis
       }
     }
 
-    // 노트 소유권 확인
-    const [note] = await db
-      .select({ id: notes.id, userId: notes.userId, content: notes.content })
-      .from(notes)
-      .where(and(eq(notes.id, noteId), eq(notes.userId, user.id)))
-      .limit(1)
+    const result = await createNoteSummary(user.id, request)
 
-    if (!note) {
-      return {
-        success: false,
-        error: '노트를 찾을 수 없거나 권한이 없습니다.'
-      }
+    // 캐시 무효화
+    if (result.success) {
+      revalidatePath(`/notes/${request.noteId}`)
+      revalidatePath('/notes')
     }
 
-    // 노트 내용 길이 검증
-    const validation = validateNoteContent(content)
-    if (!validation.isValid) {
+    return result
+  } catch (error) {
+    console.error('요약 생성 오류:', error)
+
+    if (error instanceof AILimitError) {
       return {
         success: false,
-        error: validation.reason
+        error: error.message,
+        code: error.type,
+        retryAfter: error.retryAfterSeconds
       }
     }
-
-    // 중복 요약 생성 방지 (강제 재생성이 아닌 경우)
-    if (!forceRegenerate) {
-      const [existingSummary] = await db
-        .select()
-        .from(summaries)
-        .where(eq(summaries.noteId, noteId))
-        .orderBy(desc(summaries.createdAt))
-        .limit(1)
-
-      if (existingSummary) {
-        return {
-          success: true,
-          summary: existingSummary.content,
-          noteId
-        }
-      }
-    }
-
-    // Gemini API를 통한 요약 생성
-    const client = getGeminiClient()
-    
-    const prompt = `다음 노트 내용을 3-6개의 불릿 포인트로 요약해주세요. 
-각 불릿 포인트는 20-50자 내외로 간결하게 작성해주세요.
-핵심 내용만 정리하여 요약해주세요.
-
-노트 내용:
-${content}
-
-요약 (불릿 포인트 형식으로 작성):`
-
-    const summaryText = await client.generateText(prompt)
-
-    // 요약 데이터베이스 저장
-    const [newSummary] = await db
-      .insert(summaries)
-      .values({
-        noteId,
-        model: 'gemini-2.0-flash-001',
-        content: summaryText
-      })
-      .returning()
-
-    // 캐시 무효화
-    revalidatePath(`/notes/${noteId}`)
-    revalidatePath('/notes')
-
-    return {
-      success: true,
-      summary: newSummary.content,
-      noteId
-    }
-  } catch (error) {
-    console.error('요약 생성 오류:', error)
     
     return {
       success: false,
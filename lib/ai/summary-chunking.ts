@@ -0,0 +1,86 @@
+// lib/ai/summary-chunking.ts
+// 긴 노트 요약용 분할 유틸리티
+// 마크다운 제목 → 문단 → 줄 순서로 나누어 각 조각이 토큰 예산을 넘지 않게 만들고, 인접한 작은 조각은 다시 합침
+// 관련 파일: lib/ai/map-reduce-summary.ts, lib/ai/summary-utils.ts, lib/ai/utils.ts
+
+import { estimateTokens } from './utils'
+
+const HEADING_PATTERN = /^#{1,6}\s/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+
+// 마크다운 제목 기준으로 섹션 분리 (코드 블록 안의 # 줄은 제목으로 보지 않음)
+export function splitByHeadings(content: string): string[] {
+  const sections: string[] = []
+  let current: string[] = []
+  let inFence = false
+
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence
+    }
+
+    if (!inFence && HEADING_PATTERN.test(line) && current.some(existing => existing.trim())) {
+      sections.push(current.join('\n').trim())
+      current = []
+    }
+    current.push(line)
+  }
+
+  if (current.some(line => line.trim())) {
+    sections.push(current.join('\n').trim())
+  }
+
+  return sections
+}
+
+// 글자 수 기준으로 강제 분할 (줄바꿈 없이 긴 텍스트용)
+function splitByLength(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * 4
+  const pieces: string[] = []
+  for (let start = 0; start < text.length; start += maxChars) {
+    pieces.push(text.slice(start, start + maxChars))
+  }
+  return pieces
+}
+
+// 예산을 넘는 텍스트를 구분자 단위로 나눔 (구분자 단위도 크면 다음 단계로)
+function splitOversized(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text]
+
+  const paragraphs = text.split(/\n\s*\n/).filter(part => part.trim())
+  if (paragraphs.length > 1) {
+    return paragraphs.flatMap(paragraph => splitOversized(paragraph, maxTokens))
+  }
+
+  const lines = text.split('\n').filter(part => part.trim())
+  if (lines.length > 1) {
+    return lines.flatMap(line => splitOversized(line, maxTokens))
+  }
+
+  return splitByLength(text, maxTokens)
+}
+
+// 인접한 조각을 예산 안에서 최대한 합침 (문서 순서 유지)
+function mergePieces(pieces: string[], maxTokens: number): string[] {
+  const chunks: string[] = []
+  let current = ''
+
+  for (const piece of pieces) {
+    const candidate = current ? `${current}\n\n${piece}` : piece
+    if (current && estimateTokens(candidate) > maxTokens) {
+      chunks.push(current)
+      current = piece
+    } else {
+      current = candidate
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
+
+// 노트를 토큰 예산 이하의 조각들로 분할
+export function splitIntoChunks(content: string, maxTokens: number): string[] {
+  const pieces = splitByHeadings(content).flatMap(section => splitOversized(section, maxTokens))
+  return mergePieces(pieces, maxTokens)
+}
@@ -0,0 +1,132 @@
+// lib/ai/summary-generation.ts
+// 노트 요약 생성 핵심 로직
+// 세션 대신 사용자 ID를 받아 소유권 확인, 내용 검증, 사용 한도 확인, 요약 생성(최종 요약은 스트리밍하며 미리보기 전달)과 저장을 수행 (서버 액션과 백그라운드 작업 워커에서 공통 사용)
+// 관련 파일: lib/ai/summary-actions.ts, lib/ai/job-worker.ts, lib/ai/map-reduce-summary.ts, lib/db/schema/summaries.ts
+
+import { db } from '@/lib/db/connection'
+import { summaries, notes } from '@/lib/db/schema'
+import { getAIProvider, getModelLabel } from './provider-registry'
+import { eq, and, desc } from 'drizzle-orm'
+import type { AIProcessState, SummaryResult, SummaryGenerationRequest } from './types'
+import { validateNoteContent } from './summary-utils'
+import { prepareSummaryPrompt, SUMMARY_CHUNK_MAX_TOKENS } from './map-reduce-summary'
+import { estimateTokens } from './utils'
+import { enforceAILimits } from './usage-limits'
+import { trackAIUsage } from './usage-log'
+
+export interface NoteSummaryOptions {
+  onProgress?: (state: AIProcessState) => void
+  // 최종 요약이 생성되는 동안 지금까지 받은 요약 텍스트 전달
+  onPreview?: (text: string) => void
+  // 중단되면 최종 요약 생성을 멈추고 요약을 저장하지 않음
+  signal?: AbortSignal
+}
+
+const SUMMARY_CANCELLED_RESULT: SummaryResult = {
+  success: false,
+  error: '요약 생성이 취소되었습니다.'
+}
+
+// 요약 생성 후 저장
+// 소유권/내용 검증 실패와 취소는 실패 결과로 반환하고, AI 호출 오류(GeminiError, AILimitError)는 호출한 쪽에서 처리하도록 그대로 던짐
+export async function createNoteSummary(
+  userId: string,
+  request: SummaryGenerationRequest,
+  { onProgress, onPreview, signal }: NoteSummaryOptions = {}
+): Promise<SummaryResult> {
+  const { noteId, content, forceRegenerate = false } = request
+
+  // 노트 소유권 확인
+  const [note] = await db
+    .select({ id: notes.id, userId: notes.userId, content: notes.content })
+    .from(notes)
+    .where(and(eq(notes.id, noteId), eq(notes.userId, userId)))
+    .limit(1)
+
+  if (!note) {
+    return {
+      success: false,
+      error: '노트를 찾을 수 없거나 권한이 없습니다.'
+    }
+  }
+
+  // 노트 내용 길이 검증
+  const validation = validateNoteContent(content)
+  if (!validation.isValid) {
+    return {
+      success: false,
+      error: validation.reason
+    }
+  }
+
+  // 중복 요약 생성 방지 (강제 재생성이 아닌 경우)
+  if (!forceRegenerate) {
+    const [existingSummary] = await db
+      .select()
+      .from(summaries)
+      .where(eq(summaries.noteId, noteId))
+      .orderBy(desc(summaries.createdAt))
+      .limit(1)
+
+    if (existingSummary) {
+      return {
+        success: true,
+        summary: existingSummary.content,
+        noteId
+      }
+    }
+  }
+
+  // 사용자별 일일 토큰 한도와 분당 요청 한도 확인
+  await enforceAILimits(userId, estimateTokens(content))
+
+  // AI 제공자를 통한 요약 생성
+  const client = getAIProvider()
+
+  // 부분 요약과 최종 요약 호출을 각각 사용량으로 기록하여 실제 호출 수와 토큰이 남도록 함
+  const usageContext = { userId, feature: 'summary' as const, model: getModelLabel(client) }
+
+  // 긴 노트는 조각별 요약 후 합침 (앞부분만 요약되는 문제 방지)
+  const steps = prepareSummaryPrompt(
+    prompt => trackAIUsage(usageContext, prompt, () => client.generateText(prompt)),
+    content,
+    SUMMARY_CHUNK_MAX_TOKENS
+  )
+
+  let step = await steps.next()
+  while (!step.done) {
+    if (signal?.aborted) return SUMMARY_CANCELLED_RESULT
+    onProgress?.({ status: 'loading', progress: step.value.progress, message: step.value.message })
+    step = await steps.next()
+  }
+  if (signal?.aborted) return SUMMARY_CANCELLED_RESULT
+
+  // 최종 요약은 스트리밍으로 받아 미리보기로 전달
+  onProgress?.({ status: 'loading', progress: 90, message: '요약을 작성하고 있습니다...' })
+  const finalPrompt = step.value
+  const summaryText = await trackAIUsage(usageContext, finalPrompt, async () => {
+    let text = ''
+    for await (const piece of client.generateTextStream(finalPrompt, { signal })) {
+      text += piece
+      onPreview?.(text)
+    }
+    return text
+  })
+  if (signal?.aborted) return SUMMARY_CANCELLED_RESULT
+
+  // 요약 데이터베이스 저장
+  const [newSummary] = await db
+    .insert(summaries)
+    .values({
+      noteId,
+      model: getModelLabel(client),
+      content: summaryText
+    })
+    .returning()
+
+  return {
+    success: true,
+    summary: newSummary.content,
+    noteId
+  }
+}
@@ -1,10 +1,48 @@
 // lib/ai/summary-utils.ts
 // 요약 관련 유틸리티 함수들
 // 요약 생성에 필요한 검증 및 헬퍼 함수들을 제공
-// 관련 파일: lib/ai/summary-actions.ts, lib/ai/types.ts
+// 관련 파일: lib/ai/summary-actions.ts, lib/ai/types.ts, lib/ai/map-reduce-summary.ts, lib/ai/summary-generation.ts
 
 import { SummaryValidationResult } from './types'
 
+// 요약 생성 프롬프트 (요약 작업과 일반 요약 액션이 공유)
+export function buildSummaryPrompt(content: string): string {
+  return `다음 노트 내용을 3-6개의 불릿 포인트로 요약해주세요. 
+각 불릿 포인트는 20-50자 내외로 간결하게 작성해주세요.
+핵심 내용만 정리하여 요약해주세요.
+
+노트 내용:
+${content}
+
+요약 (불릿 포인트 형식으로 작성):`
+}
+
+// 긴 노트의 부분 요약 프롬프트 (map 단계)
+export function buildChunkSummaryPrompt(chunk: string, index: number, total: number): string {
+  return `다음은 긴 노트를 나눈 부분 중 ${index}/${total}번째 부분입니다.
+이 부분의 핵심 내용을 2-5개의 불릿 포인트로 요약해주세요.
+결정 사항, 일정, 담당자 등 구체적인 정보는 빠뜨리지 말아주세요.
+
+노트 내용:
+${chunk}
+
+요약 (불릿 포인트 형식으로 작성):`
+}
+
+// 부분 요약들을 하나로 합치는 프롬프트 (reduce 단계)
+export function buildCombineSummaryPrompt(partialSummaries: string[]): string {
+  const sections = partialSummaries.map((summary, index) => `[${index + 1}부분]\n${summary}`)
+
+  return `다음은 긴 노트를 부분별로 요약한 내용입니다.
+중복을 제거하고 노트 전체 흐름이 드러나도록 3-6개의 불릿 포인트로 최종 요약해주세요.
+각 불릿 포인트는 20-50자 내외로 간결하게 작성해주세요.
+
+노트 내용:
+${sections.join('\n\n')}
+
+요약 (불릿 포인트 형식으로 작성):`
+}
+
 // 노트 내용 길이 검증 함수
 export function validateNoteContent(content: string): SummaryValidationResult {
   const minLength = 100
@@ -0,0 +1,156 @@
+// lib/ai/tag-generation.ts
+// 노트 태그 생성 핵심 로직
+// 세션 대신 사용자 ID를 받아 소유권 확인, 내용 검증, 사용 한도 확인, 태그 생성과 저장을 수행 (서버 액션과 백그라운드 작업 워커에서 공통 사용)
+// 관련 파일: lib/ai/tag-actions.ts, lib/ai/job-worker.ts, lib/db/schema/note_tags.ts
+
+import { db } from '@/lib/db/connection'
+import { noteTags, notes } from '@/lib/db/schema'
+import { getAIProvider, getModelLabel } from './provider-registry'
+import { eq, and, desc } from 'drizzle-orm'
+import type { TagResult, TagGenerationRequest } from './types'
+import { estimateTokens } from './utils'
+import { enforceAILimits } from './usage-limits'
+import { trackAIUsage } from './usage-log'
+
+// 노트 내용 길이 검증 함수
+export function validateNoteContentForTags(content: string): { isValid: boolean; reason?: string } {
+  const minLength = 100
+  const currentLength = content.trim().length
+
+  if (currentLength < minLength) {
+    return {
+      isValid: false,
+      reason: `태그 생성을 위해서는 최소 ${minLength}자 이상의 내용이 필요합니다. (현재: ${currentLength}자)`
+    }
+  }
+
+  return { isValid: true }
+}
+
+// 태그 생성 후 저장 (기존 태그에 없는 태그만 추가)
+// 소유권/내용 검증 실패는 실패 결과로 반환하고, AI 호출 오류(GeminiError, AILimitError)는 호출한 쪽에서 처리하도록 그대로 던짐
+export async function createNoteTags(userId: string, request: TagGenerationRequest): Promise<TagResult> {
+  const { noteId, content, forceRegenerate = false } = request
+
+  // 노트 소유권 확인
+  const [note] = await db
+    .select({ id: notes.id, userId: notes.userId, content: notes.content })
+    .from(notes)
+    .where(and(eq(notes.id, noteId), eq(notes.userId, userId)))
+    .limit(1)
+
+  if (!note) {
+    return {
+      success: false,
+      error: '노트를 찾을 수 없거나 권한이 없습니다.'
+    }
+  }
+
+  // 노트 내용 길이 검증
+  const validation = validateNoteContentForTags(content)
+  if (!validation.isValid) {
+    return {
+      success: false,
+      error: validation.reason
+    }
+  }
+
+  // 중복 태그 생성 방지 (강제 재생성이 아닌 경우)
+  if (!forceRegenerate) {
+    const existingTags = await db
+      .select({ tag: noteTags.tag })
+      .from(noteTags)
+      .where(eq(noteTags.noteId, noteId))
+      .limit(1)
+
+    if (existingTags.length > 0) {
+      const allTags = await db
+        .select({ tag: noteTags.tag })
+        .from(noteTags)
+        .where(eq(noteTags.noteId, noteId))
+        .orderBy(desc(noteTags.createdAt))
+
+      return {
+        success: true,
+        tags: allTags.map(t => t.tag),
+        noteId
+      }
+    }
+  }
+
+  // 사용자별 일일 토큰 한도와 분당 요청 한도 확인
+  await enforceAILimits(userId, estimateTokens(content))
+
+  // AI 제공자를 통한 태그 생성
+  const client = getAIProvider()
+
+  const prompt = `다음 노트 내용을 분석하여 관련성 높은 태그를 최대 6개까지 생성해주세요.
+태그는 1-3단어로 구성하고, 쉼표로 구분하여 한 줄로 출력해주세요.
+노트 내용의 핵심 키워드를 반영한 태그를 생성해주세요.
+
+노트 내용:
+${content}
+
+태그:`
+
+  const response = await trackAIUsage(
+    { userId, feature: 'tags', model: getModelLabel(client) },
+    prompt,
+    () => client.generateText(prompt)
+  )
+
+  // 응답에서 태그 추출 및 정리
+  const tags = response
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => tag.length > 0 && tag.length <= 50) // 1-50자 제한
+    .slice(0, 6) // 최대 6개로 제한
+    .map(tag => tag.toLowerCase()) // 소문자로 정규화
+
+  if (tags.length === 0) {
+    return {
+      success: false,
+      error: '유효한 태그를 생성할 수 없습니다.'
+    }
+  }
+
+  // 기존 태그와 중복 검사
+  const existingTags = await db
+    .select({ tag: noteTags.tag })
+    .from(noteTags)
+    .where(eq(noteTags.noteId, noteId))
+
+  const existingTagSet = new Set(existingTags.map(t => t.tag.toLowerCase()))
+  const newTags = tags.filter(tag => !existingTagSet.has(tag))
+
+  if (newTags.length === 0) {
+    return {
+      success: true,
+      tags: existingTags.map(t => t.tag),
+      noteId
+    }
+  }
+
+  // 태그 데이터베이스 저장
+  const tagInserts = newTags.map(tag => ({
+    noteId,
+    tag
+  }))
+
+  await db
+    .insert(noteTags)
+    .values(tagInserts)
+
+  // 모든 태그 조회하여 반환
+  const allTags = await db
+    .select({ tag: noteTags.tag })
+    .from(noteTags)
+    .where(eq(noteTags.noteId, noteId))
+    .orderBy(desc(noteTags.createdAt))
+
+  return {
+    success: true,
+    tags: allTags.map(t => t.tag),
+    noteId
+  }
+}
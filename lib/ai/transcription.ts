@@ -0,0 +1,67 @@
+// lib/ai/transcription.ts
+// 음성 전사 공통 유틸리티와 로컬 대체 전사기
+// 제공자별 전사 프롬프트/결과 정리를 공유하고, mock 제공자가 사용할 로컬 전사기를 교체할 수 있게 함
+// 관련 파일: lib/ai/mock-client.ts, lib/ai/gemini-client.ts, lib/ai/openai-compatible-client.ts, lib/audio/voice-note.ts
+
+import type { AITranscriptionOptions } from './types'
+
+// 전사 기본 언어 (ISO-639-1)
+export const TRANSCRIPTION_LANGUAGE = 'ko'
+
+// 저장된 결과에 기록할 로컬 전사기 모델 식별자
+export const LOCAL_TRANSCRIPTION_MODEL = 'local/transcriber'
+
+// 로컬 전사기: 녹음 데이터를 받아 전사 텍스트를 반환 (whisper.cpp 바인딩 등으로 교체 가능)
+export type LocalTranscriber = (
+  audio: Uint8Array,
+  mimeType: string,
+  options: AITranscriptionOptions
+) => Promise<string>
+
+// 오디오 입력을 받는 생성 모델용 전사 지시문
+export function buildTranscriptionPrompt(language: string = TRANSCRIPTION_LANGUAGE): string {
+  return [
+    `다음 녹음을 들리는 그대로 ${language === 'ko' ? '한국어' : language} 텍스트로 받아써주세요.`,
+    '설명, 요약, 따옴표, 화자 표시 없이 전사한 본문만 출력하세요.',
+    '알아들을 수 있는 말이 없으면 아무것도 출력하지 마세요.'
+  ].join('\n')
+}
+
+// 전사 결과 정리 (줄 끝 공백과 3줄 이상 빈 줄 제거)
+export function normalizeTranscript(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// 기본 로컬 전사기: 실제 인식 없이 녹음 정보로 결정적인 자리표시 전사를 만듦 (오프라인/테스트용)
+export const placeholderTranscriber: LocalTranscriber = async (audio, mimeType) => {
+  const format = mimeType.split(/[/;]/)[1] || 'audio'
+  const sizeKB = (audio.byteLength / 1024).toFixed(1)
+  return `[mock 전사] ${format} 형식의 ${sizeKB}KB 녹음입니다. 실제 전사를 하려면 AI 제공자를 설정하거나 로컬 전사기를 등록해주세요.`
+}
+
+let localTranscriber: LocalTranscriber = placeholderTranscriber
+
+// 로컬 전사기 교체 (테스트나 자체 호스팅 음성 인식 엔진 연결용)
+export function registerLocalTranscriber(transcriber: LocalTranscriber): void {
+  localTranscriber = transcriber
+}
+
+// 기본 자리표시 전사기로 되돌림
+export function resetLocalTranscriber(): void {
+  localTranscriber = placeholderTranscriber
+}
+
+// 등록된 로컬 전사기로 전사
+export async function transcribeLocally(
+  audio: Uint8Array,
+  mimeType: string,
+  options: AITranscriptionOptions = {}
+): Promise<string> {
+  return normalizeTranscript(await localTranscriber(audio, mimeType, options))
+}
@@ -1,7 +1,7 @@
 // lib/ai/types.ts
 // AI 서비스 관련 타입 정의
 // Gemini API 요청/응답 타입과 AI 서비스 공통 인터페이스를 정의
-// 관련 파일: lib/ai/gemini-client.ts, lib/ai/errors.ts, lib/ai/config.ts
+// 관련 파일: lib/ai/gemini-client.ts, lib/ai/provider-registry.ts, lib/ai/errors.ts, lib/ai/config.ts
 
 // Gemini API 기본 타입
 export interface GeminiRequest {
@@ -34,16 +34,98 @@ export interface AIService {
   estimateTokens(text: string): number
 }
 
+// AI 제공자 식별자 (AI_PROVIDER 환경변수 값)
+export type AIProviderName = 'gemini' | 'openai-compatible' | 'mock'
+
+// 텍스트 생성 옵션
+export interface AIGenerateOptions {
+  maxTokens?: number
+  temperature?: number
+  topP?: number
+  topK?: number
+}
+
+// 스트리밍 생성 옵션 (signal로 생성 중단)
+export interface AIStreamOptions extends AIGenerateOptions {
+  signal?: AbortSignal
+}
+
+// 제공자별 사용량 통계
+export interface AIUsageStats {
+  totalRequests: number
+  successRate: number
+  averageLatency: number
+  totalTokens: number
+  recentLogs: APIUsageLog[]
+}
+
+// 임베딩 결과 (model: 같은 모델로 만든 벡터끼리만 비교하기 위한 식별자)
+export interface AIEmbeddingResult {
+  embedding: number[]
+  model: string
+}
+
+// 음성 전사 옵션 (language: ISO-639-1 코드)
+export interface AITranscriptionOptions {
+  language?: string
+}
+
+// 음성 전사 결과 (model: 전사에 사용된 "제공자/모델" 라벨)
+export interface AITranscriptionResult {
+  text: string
+  model: string
+}
+
+// 레지스트리에서 선택되는 AI 제공자 인터페이스
+// name/model은 요약 등 생성 결과에 실제 사용된 모델을 기록하는 데 사용
+export interface AIProvider extends AIService {
+  readonly name: AIProviderName
+  readonly model: string
+  generateTextWithOptions(prompt: string, options?: AIGenerateOptions): Promise<string>
+  // 생성된 텍스트를 도착하는 순서대로 조각(chunk) 단위로 반환
+  generateTextStream(prompt: string, options?: AIStreamOptions): AsyncIterable<string>
+  // 텍스트 임베딩 생성 (dimensions 길이의 벡터)
+  generateEmbedding(text: string, dimensions: number): Promise<AIEmbeddingResult>
+  // 녹음 파일을 텍스트로 전사
+  transcribeAudio(audio: Uint8Array, mimeType: string, options?: AITranscriptionOptions): Promise<AITranscriptionResult>
+  getUsageStats(): AIUsageStats
+  clearUsageLogs(): void
+}
+
 // 설정 관련 타입
 export interface GeminiConfig {
   apiKey: string
   model: string
+  embeddingModel: string
   maxTokens: number
   timeout: number
   debug: boolean
   rateLimitPerMinute: number
 }
 
+// OpenAI 호환 HTTP 엔드포인트 설정 (Ollama, llama.cpp server 등)
+export interface OpenAICompatibleConfig {
+  baseUrl: string
+  apiKey: string
+  model: string
+  embeddingModel: string
+  transcriptionModel: string
+  // 전사 전용 엔드포인트 (채팅 서버가 /audio/transcriptions를 제공하지 않는 경우, 예: Ollama + whisper 서버)
+  transcriptionBaseUrl: string
+  maxTokens: number
+  timeout: number
+  debug: boolean
+}
+
+// 오프라인 mock 제공자 설정
+export interface MockAIConfig {
+  model: string
+  latencyMs: number
+}
+
+// 사용량을 집계하는 AI 기능 구분
+export type AIUsageFeature = 'summary' | 'tags' | 'chat' | 'embedding'
+
 // 사용량 로깅 타입
 export interface APIUsageLog {
   timestamp: Date
@@ -54,6 +136,7 @@ export interface APIUsageLog {
   success: boolean
   error?: string
   userId?: string
+  feature?: AIUsageFeature
 }
 
 // 에러 타입
@@ -67,6 +150,9 @@ export enum GeminiErrorType {
   UNKNOWN = 'UNKNOWN'
 }
 
+// 사용자별 빈도 제한/일일 토큰 한도 초과 오류 종류
+export type AILimitErrorType = GeminiErrorType.RATE_LIMIT_EXCEEDED | GeminiErrorType.QUOTA_EXCEEDED
+
 // 재시도 설정 타입
 export interface RetryConfig {
   maxRetries: number
@@ -89,6 +175,9 @@ export interface SummaryResult {
   summary?: string
   error?: string
   noteId?: string
+  // 빈도 제한/일일 한도 초과 시 오류 종류와 다시 시도할 수 있을 때까지 남은 초
+  code?: AILimitErrorType
+  retryAfter?: number
 }
 
 export interface SummaryGenerationRequest {
@@ -110,6 +199,9 @@ export interface TagResult {
   tags?: string[]
   error?: string
   noteId?: string
+  // 빈도 제한/일일 한도 초과 시 오류 종류와 다시 시도할 수 있을 때까지 남은 초
+  code?: AILimitErrorType
+  retryAfter?: number
 }
 
 export interface TagGenerationRequest {
@@ -137,19 +229,37 @@ export interface AIProcessState {
   maxRetries?: number
 }
 
-export interface AIJob {
-  id: string
-  type: 'summary' | 'tags'
-  noteId: string
-  status: AIProcessStatus
-  startTime: number
-  timeout?: number
+// 백그라운드 AI 작업 (ai_jobs 테이블) 관련 타입
+export type AIJobType = 'summary' | 'tags' | 'embedding'
+
+export type AIJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface AIJobResult {
+  summary?: string
+  tags?: string[]
+  // 처리 중인 요약 작업이 지금까지 생성한 최종 요약 미리보기 (완료되면 summary로 바뀜)
+  preview?: string
 }
 
-export interface AIStatusUpdate {
-  jobId: string
-  status: AIProcessStatus
-  progress?: number
+// 클라이언트에 전달하는 작업 상태 (폴링 응답)
+export interface AIJobSnapshot {
+  id: string
+  noteId: string
+  type: AIJobType
+  status: AIJobStatus
+  progress: number
   message?: string
-  error?: unknown
-}
\ No newline at end of file
+  result?: AIJobResult
+  error?: string
+  // 빈도 제한/일일 한도 초과로 실패한 경우 오류 종류와 다시 시도할 수 있을 때까지 남은 ms
+  code?: AILimitErrorType
+  retryAfterMs?: number
+  attempts: number
+  createdAt: string
+  updatedAt: string
+}
+export interface AIJobActionResult {
+  success: boolean
+  job?: AIJobSnapshot
+  error?: string
+}
@@ -0,0 +1,50 @@
+// lib/ai/usage-actions.ts
+// AI 사용량 대시보드 Server Actions
+// 로그인한 사용자의 최근 AI 사용 기록과 오늘의 토큰 한도 사용량을 대시보드용으로 집계
+// 관련 파일: lib/ai/usage-log.ts, lib/ai/usage-stats.ts, lib/ai/usage-limits.ts, app/settings/usage/page.tsx
+
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { getUsageLogs } from './usage-log'
+import { getDailyTokenUsage } from './usage-limits'
+import { calculateUsageStats } from './utils'
+import {
+  USAGE_DASHBOARD_DAYS,
+  getUsageRangeStart,
+  groupUsageByDay,
+  groupUsageByFeature,
+  type DailyUsageStats,
+  type FeatureUsageStats,
+  type UsageStats
+} from './usage-stats'
+
+export interface UsageDashboard {
+  days: DailyUsageStats[]
+  features: FeatureUsageStats[]
+  totals: UsageStats
+  // 오늘(UTC) 사용한 토큰과 일일 한도 (한도 0은 무제한)
+  quota: { used: number; limit: number }
+}
+
+export async function getUsageDashboard(days: number = USAGE_DASHBOARD_DAYS): Promise<UsageDashboard> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('인증이 필요합니다.')
+  }
+
+  const now = Date.now()
+  const [logs, quota] = await Promise.all([
+    getUsageLogs(user.id, getUsageRangeStart(days, now)),
+    getDailyTokenUsage(user.id, now)
+  ])
+
+  return {
+    days: groupUsageByDay(logs, days, now),
+    features: groupUsageByFeature(logs),
+    totals: calculateUsageStats(logs),
+    quota
+  }
+}
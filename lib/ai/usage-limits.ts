@@ -0,0 +1,128 @@
+// lib/ai/usage-limits.ts
+// 사용자별 AI 사용 제한 적용
+// AI 제공자를 호출하기 전에 일일 토큰 한도와 분당 요청 한도를 확인하고, 호출 후 사용한 토큰을 DB에 누적
+// 관련 파일: lib/ai/rate-limit.ts, lib/db/schema/ai_rate_limits.ts, lib/db/schema/ai_quotas.ts, lib/ai/summary-actions.ts, lib/ai/tag-actions.ts, lib/ai/chat-route.ts
+
+import { eq, sql } from 'drizzle-orm'
+import { db } from '@/lib/db/connection'
+import { aiQuotas, aiRateLimits } from '@/lib/db/schema'
+import { getDailyTokenQuota, getRateLimitPerMinute, getRateLimitStoreName, type AIRateLimitStoreName } from './config'
+import {
+  checkDailyQuota,
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getUsageDate,
+  takeToken,
+  type RateLimiter,
+  type RateLimitStore
+} from './rate-limit'
+import { AILimitError } from './errors'
+import { GeminiErrorType } from './types'
+
+// Postgres에 버킷을 보관하는 저장소 (행 잠금으로 인스턴스 간 동시 요청을 직렬화)
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    async take(key, capacity, windowMs, now) {
+      return db.transaction(async (tx) => {
+        await tx
+          .insert(aiRateLimits)
+          .values({ key, tokens: capacity, updatedAt: new Date(now) })
+          .onConflictDoNothing()
+
+        const [row] = await tx
+          .select()
+          .from(aiRateLimits)
+          .where(eq(aiRateLimits.key, key))
+          .for('update')
+
+        const { bucket, result } = takeToken(
+          row ? { tokens: row.tokens, updatedAt: row.updatedAt.getTime() } : undefined,
+          capacity,
+          now,
+          windowMs
+        )
+
+        await tx
+          .update(aiRateLimits)
+          .set({ tokens: bucket.tokens, updatedAt: new Date(bucket.updatedAt) })
+          .where(eq(aiRateLimits.key, key))
+
+        return result
+      })
+    },
+
+    async reset(key) {
+      if (key) {
+        await db.delete(aiRateLimits).where(eq(aiRateLimits.key, key))
+      } else {
+        await db.delete(aiRateLimits)
+      }
+    }
+  }
+}
+
+const rateLimitStores: Record<AIRateLimitStoreName, () => RateLimitStore> = {
+  memory: createMemoryRateLimitStore,
+  postgres: createPostgresRateLimitStore
+}
+
+let aiRateLimiter: RateLimiter | null = null
+
+// 요약·태그·대화가 함께 쓰는 사용자별 제한기
+export function getAIRateLimiter(): RateLimiter {
+  if (!aiRateLimiter) {
+    aiRateLimiter = createRateLimiter(() => getRateLimitPerMinute(), rateLimitStores[getRateLimitStoreName()]())
+  }
+  return aiRateLimiter
+}
+
+// 오늘 사용한 토큰과 적용할 한도 (날짜가 바뀐 기록은 0으로 계산)
+export async function getDailyTokenUsage(userId: string, now: number = Date.now()): Promise<{ used: number; limit: number }> {
+  const [quota] = await db
+    .select({ usageDate: aiQuotas.usageDate, tokensUsed: aiQuotas.tokensUsed, dailyTokenLimit: aiQuotas.dailyTokenLimit })
+    .from(aiQuotas)
+    .where(eq(aiQuotas.userId, userId))
+    .limit(1)
+
+  return {
+    used: quota && quota.usageDate === getUsageDate(now) ? quota.tokensUsed : 0,
+    limit: quota?.dailyTokenLimit ?? getDailyTokenQuota()
+  }
+}
+
+// AI 호출 전 제한 확인 (일일 한도를 먼저 확인하여 한도 초과 요청이 분당 요청 수를 소모하지 않도록 함)
+export async function enforceAILimits(userId: string, estimatedTokens: number = 0): Promise<void> {
+  const { used, limit } = await getDailyTokenUsage(userId)
+  const quota = checkDailyQuota(used, limit, estimatedTokens)
+  if (!quota.allowed) {
+    throw new AILimitError(GeminiErrorType.QUOTA_EXCEEDED, quota.retryAfterMs)
+  }
+
+  const rateLimit = await getAIRateLimiter().check(userId)
+  if (!rateLimit.allowed) {
+    throw new AILimitError(GeminiErrorType.RATE_LIMIT_EXCEEDED, rateLimit.retryAfterMs)
+  }
+}
+
+// AI 호출 후 사용한 토큰 누적 (기록 실패가 이미 생성된 결과를 버리게 하지 않도록 오류는 로그만 남김)
+export async function recordAITokenUsage(userId: string, tokens: number): Promise<void> {
+  if (tokens <= 0) return
+
+  const usageDate = getUsageDate()
+
+  try {
+    await db
+      .insert(aiQuotas)
+      .values({ userId, usageDate, tokensUsed: tokens })
+      .onConflictDoUpdate({
+        target: aiQuotas.userId,
+        set: {
+          tokensUsed: sql`case when ${aiQuotas.usageDate} = ${usageDate} then ${aiQuotas.tokensUsed} + ${tokens} else ${tokens} end`,
+          usageDate,
+          updatedAt: new Date()
+        }
+      })
+  } catch (error) {
+    console.error('AI 토큰 사용량 기록 오류:', error)
+  }
+}
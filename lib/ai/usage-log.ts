@@ -0,0 +1,99 @@
+// lib/ai/usage-log.ts
+// AI 호출 사용량 영구 기록
+// 요약·태그·대화 호출마다 사용자, 기능, 모델, 토큰 수, 응답 시간을 ai_usage 테이블에 남기고 성공한 호출의 토큰을 일일 한도에 누적
+// 관련 파일: lib/db/schema/ai_usage.ts, lib/ai/usage-limits.ts, lib/ai/usage-stats.ts, lib/ai/usage-actions.ts
+
+import { and, asc, eq, gte } from 'drizzle-orm'
+import { db } from '@/lib/db/connection'
+import { aiUsage } from '@/lib/db/schema'
+import { recordAITokenUsage } from './usage-limits'
+import { GeminiError, getSafeErrorMessage } from './errors'
+import { estimateTokens, sanitizeErrorMessage } from './utils'
+import type { APIUsageLog, AIUsageFeature } from './types'
+
+export interface AIUsageContext {
+  userId: string
+  feature: AIUsageFeature
+  model: string
+}
+
+export interface AIUsageRecord {
+  input: string
+  output: string
+  latencyMs: number
+  // 실패한 호출이면 사용자에게 보여도 안전한 오류 메시지
+  error?: string
+  // 클라이언트가 응답 도중 연결을 끊은 호출 (output은 그때까지 생성된 부분)
+  aborted?: boolean
+}
+
+// 호출 한 번의 사용량 기록 (기록 실패가 이미 생성된 결과를 버리게 하지 않도록 오류는 로그만 남김)
+// 중단된 호출은 제공자 호출 자체는 실패하지 않았으므로 성공으로 남기고, 생성된 부분까지의 토큰을 일일 한도에 누적
+export async function recordAIUsage(context: AIUsageContext, { input, output, latencyMs, error, aborted = false }: AIUsageRecord): Promise<void> {
+  const inputTokens = estimateTokens(input)
+  const outputTokens = error ? 0 : estimateTokens(output)
+
+  try {
+    await db.insert(aiUsage).values({
+      userId: context.userId,
+      feature: context.feature,
+      model: context.model,
+      inputTokens,
+      outputTokens,
+      latencyMs: Math.round(latencyMs),
+      success: !error,
+      error,
+      aborted
+    })
+  } catch (recordError) {
+    console.error('AI 사용량 기록 오류:', recordError)
+  }
+
+  if (!error) {
+    await recordAITokenUsage(context.userId, inputTokens + outputTokens)
+  }
+}
+
+// AI 호출을 실행하면서 응답 시간과 성공 여부를 기록 (실패한 호출도 기록한 뒤 오류를 그대로 전달)
+export async function trackAIUsage(
+  context: AIUsageContext,
+  input: string,
+  operation: () => Promise<string>
+): Promise<string> {
+  const startTime = Date.now()
+
+  try {
+    const output = await operation()
+    await recordAIUsage(context, { input, output, latencyMs: Date.now() - startTime })
+    return output
+  } catch (error) {
+    await recordAIUsage(context, {
+      input,
+      output: '',
+      latencyMs: Date.now() - startTime,
+      error: error instanceof GeminiError ? getSafeErrorMessage(error) : sanitizeErrorMessage(error)
+    })
+    throw error
+  }
+}
+
+// 사용자의 기간 내 사용량 기록 (오래된 순)
+export async function getUsageLogs(userId: string, since: Date): Promise<APIUsageLog[]> {
+  const rows = await db
+    .select()
+    .from(aiUsage)
+    .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, since)))
+    .orderBy(asc(aiUsage.createdAt))
+
+  return rows.map(row => ({
+    timestamp: row.createdAt,
+    model: row.model,
+    inputTokens: row.inputTokens,
+    outputTokens: row.outputTokens,
+    latencyMs: row.latencyMs,
+    success: row.success,
+    error: row.error ?? undefined,
+    userId: row.userId,
+    feature: row.feature as AIUsageFeature
+  }))
+}
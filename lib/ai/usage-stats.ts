@@ -0,0 +1,67 @@
+// lib/ai/usage-stats.ts
+// AI 사용량 대시보드 집계
+// ai_usage 기록을 날짜(UTC)별·기능별로 나눈 뒤 calculateUsageStats로 요청 수, 토큰, 성공률, 평균 응답 시간을 계산
+// 관련 파일: lib/ai/utils.ts, lib/ai/usage-log.ts, lib/ai/usage-actions.ts, app/settings/usage/page.tsx
+
+import { calculateUsageStats } from './utils'
+import { getUsageDate } from './rate-limit'
+import type { APIUsageLog, AIUsageFeature } from './types'
+
+// 대시보드에 표시할 기간 (오늘 포함)
+export const USAGE_DASHBOARD_DAYS = 30
+
+export const USAGE_FEATURES: AIUsageFeature[] = ['summary', 'tags', 'chat', 'embedding']
+
+export const USAGE_FEATURE_LABELS: Record<AIUsageFeature, string> = {
+  summary: '요약',
+  tags: '태그',
+  chat: '대화',
+  embedding: '임베딩'
+}
+
+export type UsageStats = ReturnType<typeof calculateUsageStats>
+
+export interface DailyUsageStats extends UsageStats {
+  date: string // YYYY-MM-DD (UTC)
+}
+
+export interface FeatureUsageStats extends UsageStats {
+  feature: AIUsageFeature
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 집계 시작 시각 (days일 전 UTC 자정, 오늘 포함)
+export function getUsageRangeStart(days: number = USAGE_DASHBOARD_DAYS, now: number = Date.now()): Date {
+  const today = new Date(now)
+  today.setUTCHours(0, 0, 0, 0)
+  return new Date(today.getTime() - (days - 1) * DAY_MS)
+}
+
+// 날짜별 통계 (기록이 없는 날도 0으로 채워 차트의 x축이 끊기지 않도록 함)
+export function groupUsageByDay(
+  logs: APIUsageLog[],
+  days: number = USAGE_DASHBOARD_DAYS,
+  now: number = Date.now()
+): DailyUsageStats[] {
+  const start = getUsageRangeStart(days, now).getTime()
+  const logsByDate = new Map<string, APIUsageLog[]>()
+
+  for (const log of logs) {
+    const date = getUsageDate(log.timestamp.getTime())
+    logsByDate.set(date, [...(logsByDate.get(date) ?? []), log])
+  }
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = getUsageDate(start + index * DAY_MS)
+    return { date, ...calculateUsageStats(logsByDate.get(date) ?? []) }
+  })
+}
+
+// 기능별 통계 (기록이 없는 기능도 포함)
+export function groupUsageByFeature(logs: APIUsageLog[]): FeatureUsageStats[] {
+  return USAGE_FEATURES.map(feature => ({
+    feature,
+    ...calculateUsageStats(logs.filter(log => log.feature === feature))
+  }))
+}
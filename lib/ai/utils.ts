@@ -30,7 +30,8 @@ export function validateTokenLimit(
   }
 }
 
-// 사용량 로깅
+// 사용량 로깅 (제공자 클라이언트의 디버그 출력용)
+// 사용자·기능별 영구 기록은 호출하는 쪽에서 lib/ai/usage-log.ts의 trackAIUsage로 ai_usage 테이블에 남김
 export function logAPIUsage(log: APIUsageLog): void {
   // 개발 환경에서는 콘솔 출력
   if (process.env.NODE_ENV === 'development') {
@@ -39,9 +40,6 @@ export function logAPIUsage(log: APIUsageLog): void {
       timestamp: log.timestamp.toISOString()
     })
   }
-
-  // 프로덕션에서는 실제 로깅 시스템으로 전송
-  // TODO: 로깅 시스템 연동 (예: Winston, Pino 등)
 }
 
 // 재시도 로직
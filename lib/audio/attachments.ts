@@ -0,0 +1,85 @@
+// lib/audio/attachments.ts
+// 음성 첨부 파일 조회 및 정리
+// 노트별 녹음 목록과 재생용 파일 조회, 노트 영구 삭제 후 남은 저장소 파일 정리를 담당
+// 관련 파일: lib/db/schema/audio_attachments.ts, lib/audio/storage.ts, app/api/notes/audio/[id]/route.ts, lib/notes/trash.ts
+
+import { db } from '@/lib/db/connection'
+import { audioAttachments } from '@/lib/db/schema/audio_attachments'
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm'
+import { getAudioStorage, isAudioStorageName } from './storage'
+
+export interface NoteAudioAttachment {
+  id: string
+  mimeType: string
+  sizeBytes: number
+  durationMs: number | null
+  createdAt: Date | null
+}
+
+// 노트에 연결된 녹음 목록 (오래된 순)
+export async function getNoteAudioAttachments(userId: string, noteId: string): Promise<NoteAudioAttachment[]> {
+  return db
+    .select({
+      id: audioAttachments.id,
+      mimeType: audioAttachments.mimeType,
+      sizeBytes: audioAttachments.sizeBytes,
+      durationMs: audioAttachments.durationMs,
+      createdAt: audioAttachments.createdAt
+    })
+    .from(audioAttachments)
+    .where(and(eq(audioAttachments.userId, userId), eq(audioAttachments.noteId, noteId)))
+    .orderBy(asc(audioAttachments.createdAt))
+}
+
+// 재생용 녹음 파일 조회 (본인 첨부 파일이 아니면 null)
+export async function readAudioAttachment(
+  userId: string,
+  attachmentId: string
+): Promise<{ data: Uint8Array; mimeType: string } | null> {
+  const [attachment] = await db
+    .select()
+    .from(audioAttachments)
+    .where(and(eq(audioAttachments.id, attachmentId), eq(audioAttachments.userId, userId)))
+    .limit(1)
+
+  if (!attachment || !isAudioStorageName(attachment.storageProvider)) {
+    return null
+  }
+
+  const data = await getAudioStorage(attachment.storageProvider).read(attachment.storageKey)
+  return { data, mimeType: attachment.mimeType }
+}
+
+// 노트가 영구 삭제되어 연결이 끊긴 녹음 파일 정리
+// userId를 지정하면 해당 사용자의 파일만, 생략하면 전체 사용자 대상 (cron 전용)
+// 파일 삭제에 실패한 항목은 다음 정리 때 다시 시도하도록 남겨둠
+export async function purgeDetachedAudio(userId?: string): Promise<number> {
+  const detachedCondition = isNull(audioAttachments.noteId)
+  const detached = await db
+    .select({
+      id: audioAttachments.id,
+      storageProvider: audioAttachments.storageProvider,
+      storageKey: audioAttachments.storageKey
+    })
+    .from(audioAttachments)
+    .where(userId ? and(eq(audioAttachments.userId, userId), detachedCondition) : detachedCondition)
+
+  const removedIds: string[] = []
+  for (const attachment of detached) {
+    try {
+      if (isAudioStorageName(attachment.storageProvider)) {
+        await getAudioStorage(attachment.storageProvider).delete(attachment.storageKey)
+      }
+      removedIds.push(attachment.id)
+    } catch (error) {
+      console.error('녹음 파일 정리 오류:', { attachmentId: attachment.id, error })
+    }
+  }
+
+  if (removedIds.length > 0) {
+    await db.delete(audioAttachments).where(inArray(audioAttachments.id, removedIds))
+    console.log('연결이 끊긴 녹음 파일 정리:', { count: removedIds.length, userId: userId ?? 'all' })
+  }
+
+  return removedIds.length
+}
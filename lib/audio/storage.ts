@@ -0,0 +1,134 @@
+// lib/audio/storage.ts
+// 음성 첨부 파일 저장소
+// AUDIO_STORAGE 설정에 따라 로컬 파일 시스템 또는 Supabase Storage에 녹음 파일을 저장/조회/삭제
+// 관련 파일: lib/audio/voice-note.ts, lib/audio/attachments.ts, lib/db/schema/audio_attachments.ts, .env.example
+
+import { mkdir, readFile, writeFile, rm } from 'node:fs/promises'
+import path from 'node:path'
+import { createClient as createSupabaseClient, type SupabaseClient } from '@supabase/supabase-js'
+
+export type AudioStorageName = 'local' | 'supabase'
+
+export const AUDIO_STORAGE_NAMES: AudioStorageName[] = ['local', 'supabase']
+
+// 녹음 파일 저장소 인터페이스 (key는 buildAudioStorageKey로 만든 "<userId>/<파일명>")
+export interface AudioStorage {
+  readonly name: AudioStorageName
+  save(key: string, data: Uint8Array, contentType: string): Promise<void>
+  read(key: string): Promise<Uint8Array>
+  delete(key: string): Promise<void>
+}
+
+export type AudioStorageFactory = () => AudioStorage
+
+// 경로 조작 방지를 위해 저장 키 형식 검증
+const STORAGE_KEY_PATTERN = /^[\w-]+\/[\w-]+\.[a-z0-9]+$/
+
+function assertStorageKey(key: string): void {
+  if (!STORAGE_KEY_PATTERN.test(key)) {
+    throw new Error(`잘못된 오디오 저장 키입니다: ${key}`)
+  }
+}
+
+// 로컬 디렉터리 저장소 (개발/자체 호스팅용)
+export class LocalAudioStorage implements AudioStorage {
+  readonly name = 'local' as const
+
+  constructor(private readonly rootDir: string = process.env.AUDIO_STORAGE_DIR || path.join(process.cwd(), '.data', 'audio')) {}
+
+  async save(key: string, data: Uint8Array): Promise<void> {
+    const filePath = this.resolve(key)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, data)
+  }
+
+  async read(key: string): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(this.resolve(key)))
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true })
+  }
+
+  private resolve(key: string): string {
+    assertStorageKey(key)
+    return path.join(this.rootDir, key)
+  }
+}
+
+// Supabase Storage 버킷 저장소
+// 서버에서만 사용하며 키를 사용자 폴더로 제한하므로 service role 키로 접근 (cron 정리 작업에서도 동작)
+export class SupabaseAudioStorage implements AudioStorage {
+  readonly name = 'supabase' as const
+  private client: SupabaseClient
+  private bucket: string
+
+  constructor(bucket: string = process.env.AUDIO_STORAGE_BUCKET || 'audio-notes') {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+    if (!url || !serviceRoleKey) {
+      throw new Error('AUDIO_STORAGE=supabase에는 NEXT_PUBLIC_SUPABASE_URL과 SUPABASE_SERVICE_ROLE_KEY가 필요합니다.')
+    }
+
+    this.client = createSupabaseClient(url, serviceRoleKey, { auth: { persistSession: false } })
+    this.bucket = bucket
+  }
+
+  async save(key: string, data: Uint8Array, contentType: string): Promise<void> {
+    assertStorageKey(key)
+    const { error } = await this.client.storage.from(this.bucket).upload(key, data, { contentType, upsert: false })
+    if (error) throw new Error(`오디오 파일 업로드 실패: ${error.message}`)
+  }
+
+  async read(key: string): Promise<Uint8Array> {
+    assertStorageKey(key)
+    const { data, error } = await this.client.storage.from(this.bucket).download(key)
+    if (error || !data) throw new Error(`오디오 파일 다운로드 실패: ${error?.message ?? '데이터 없음'}`)
+    return new Uint8Array(await data.arrayBuffer())
+  }
+
+  async delete(key: string): Promise<void> {
+    assertStorageKey(key)
+    const { error } = await this.client.storage.from(this.bucket).remove([key])
+    if (error) throw new Error(`오디오 파일 삭제 실패: ${error.message}`)
+  }
+}
+
+const storageFactories: Record<AudioStorageName, AudioStorageFactory> = {
+  local: () => new LocalAudioStorage(),
+  supabase: () => new SupabaseAudioStorage()
+}
+
+const storageInstances = new Map<AudioStorageName, AudioStorage>()
+
+// 사용할 저장소 결정 (미설정 시 local)
+export function getAudioStorageName(): AudioStorageName {
+  const configured = process.env.AUDIO_STORAGE?.trim().toLowerCase() || 'local'
+
+  if (!AUDIO_STORAGE_NAMES.includes(configured as AudioStorageName)) {
+    throw new Error(`AUDIO_STORAGE는 ${AUDIO_STORAGE_NAMES.join(', ')} 중 하나여야 합니다.`)
+  }
+
+  return configured as AudioStorageName
+}
+
+// 저장소 인스턴스 (기존 첨부 파일은 저장 당시의 저장소 이름으로 조회)
+export function getAudioStorage(name: AudioStorageName = getAudioStorageName()): AudioStorage {
+  let storage = storageInstances.get(name)
+  if (!storage) {
+    storage = storageFactories[name]()
+    storageInstances.set(name, storage)
+  }
+  return storage
+}
+
+// 저장소 구현 교체 (테스트나 다른 객체 저장소 연결용)
+export function registerAudioStorage(name: AudioStorageName, factory: AudioStorageFactory): void {
+  storageFactories[name] = factory
+  storageInstances.delete(name)
+}
+
+export function isAudioStorageName(value: string): value is AudioStorageName {
+  return AUDIO_STORAGE_NAMES.includes(value as AudioStorageName)
+}
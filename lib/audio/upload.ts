@@ -0,0 +1,85 @@
+// lib/audio/upload.ts
+// 음성 메모 업로드 공통 규칙
+// 허용 형식/크기 검증, MIME 타입 정리, 저장 키와 노트 제목 생성을 클라이언트와 서버에서 함께 사용
+// 관련 파일: app/api/notes/audio/route.ts, lib/audio/voice-note.ts, components/notes/audio-note-recorder.tsx
+
+// 업로드 최대 크기 (Gemini 인라인 오디오 한도 20MB보다 작게 유지)
+export const MAX_AUDIO_UPLOAD_BYTES = 10 * 1024 * 1024
+
+// 허용하는 오디오 형식과 저장 확장자 (브라우저 MediaRecorder 출력 + 일반 녹음 파일)
+export const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/flac': 'flac'
+}
+
+// 파일 선택 input의 accept 값
+export const AUDIO_ACCEPT = Object.keys(AUDIO_EXTENSIONS).join(',')
+
+// 브라우저 녹음 시 선호 형식 (지원되는 첫 번째 형식 사용)
+export const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus']
+
+// 브라우저 녹음 최대 길이 (opus 기준 업로드 한도 안에 들어가도록 제한)
+export const MAX_RECORDING_MS = 10 * 60 * 1000
+
+const VOICE_NOTE_TITLE_MAX_LENGTH = 50
+
+// 코덱 등 매개변수를 제외한 MIME 타입 (예: audio/webm;codecs=opus → audio/webm)
+export function normalizeAudioMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase()
+}
+
+export function getAudioExtension(mimeType: string): string | null {
+  return AUDIO_EXTENSIONS[normalizeAudioMimeType(mimeType)] ?? null
+}
+
+// 업로드 파일 검증 (통과 시 null, 실패 시 오류 메시지)
+export function validateAudioUpload(file: { size: number; type: string }): string | null {
+  if (!getAudioExtension(file.type)) {
+    return '지원하지 않는 오디오 형식입니다. (webm, ogg, m4a, mp3, wav, flac)'
+  }
+
+  if (file.size === 0) {
+    return '녹음 파일이 비어있습니다.'
+  }
+
+  if (file.size > MAX_AUDIO_UPLOAD_BYTES) {
+    return `녹음 파일은 최대 ${MAX_AUDIO_UPLOAD_BYTES / 1024 / 1024}MB까지 업로드할 수 있습니다.`
+  }
+
+  return null
+}
+
+// 사용자별 폴더 아래 저장 키 생성 (예: <userId>/<id>.webm)
+export function buildAudioStorageKey(userId: string, id: string, mimeType: string): string {
+  return `${userId}/${id}.${getAudioExtension(mimeType) ?? 'bin'}`
+}
+
+// 전사 첫 문장으로 노트 제목 생성 (전사가 비어 있으면 녹음 시각 사용)
+export function buildVoiceNoteTitle(transcript: string, recordedAt: Date = new Date()): string {
+  const firstSentence = transcript
+    .trim()
+    .split(/(?<=[.!?。])\s+|\n+/)[0]
+    ?.replace(/[.!?。]+$/, '')
+    .trim()
+
+  if (firstSentence) {
+    return firstSentence.length > VOICE_NOTE_TITLE_MAX_LENGTH
+      ? `${firstSentence.slice(0, VOICE_NOTE_TITLE_MAX_LENGTH - 1)}…`
+      : firstSentence
+  }
+
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `음성 메모 ${recordedAt.getFullYear()}-${pad(recordedAt.getMonth() + 1)}-${pad(recordedAt.getDate())} ${pad(recordedAt.getHours())}:${pad(recordedAt.getMinutes())}`
+}
+
+// 녹음 길이 표시 (예: 75000 → 1:15)
+export function formatRecordingDuration(durationMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(durationMs / 1000))
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`
+}
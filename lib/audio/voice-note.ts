@@ -0,0 +1,89 @@
+// lib/audio/voice-note.ts
+// 녹음 파일로 음성 메모 노트를 만드는 서버 파이프라인
+// 녹음 저장 → AI 제공자 전사 → 전사 본문으로 노트 생성 → 녹음 첨부 기록 → generateSummary로 요약 생성 순서로 처리
+// 관련 파일: app/api/notes/audio/route.ts, lib/audio/storage.ts, lib/audio/upload.ts, lib/ai/summary-actions.ts, lib/notes/actions.ts
+
+import { randomUUID } from 'node:crypto'
+import { db } from '@/lib/db/connection'
+import { audioAttachments } from '@/lib/db/schema/audio_attachments'
+import { getAIProvider } from '@/lib/ai/provider-registry'
+import { generateSummary } from '@/lib/ai/summary-actions'
+import { createNote } from '@/lib/notes/actions'
+import { getAudioStorage } from './storage'
+import { buildAudioStorageKey, buildVoiceNoteTitle, normalizeAudioMimeType } from './upload'
+
+export interface CreateVoiceNoteInput {
+  audio: Uint8Array
+  mimeType: string
+  durationMs?: number | null
+}
+
+export interface VoiceNoteResult {
+  noteId: string
+  title: string
+  transcript: string
+  summary?: string
+  // 요약 실패(본문이 짧은 경우 등)는 노트 생성을 막지 않고 사유만 전달
+  summaryError?: string
+}
+
+// 녹음에서 인식된 말이 없을 때 (노트를 만들지 않음)
+export class EmptyTranscriptError extends Error {
+  constructor() {
+    super('녹음에서 인식된 내용이 없습니다. 조금 더 크게 말하거나 다시 녹음해주세요.')
+    this.name = 'EmptyTranscriptError'
+  }
+}
+
+export async function createVoiceNote(userId: string, input: CreateVoiceNoteInput): Promise<VoiceNoteResult> {
+  const mimeType = normalizeAudioMimeType(input.mimeType)
+  const storage = getAudioStorage()
+  const storageKey = buildAudioStorageKey(userId, randomUUID(), mimeType)
+
+  await storage.save(storageKey, input.audio, mimeType)
+
+  let noteId: string
+  let title: string
+  let transcript: string
+  try {
+    const provider = getAIProvider()
+    const transcription = await provider.transcribeAudio(input.audio, mimeType)
+    transcript = transcription.text
+
+    if (!transcript) {
+      throw new EmptyTranscriptError()
+    }
+
+    title = buildVoiceNoteTitle(transcript)
+    const note = await createNote({ title, content: transcript })
+    noteId = note.id
+
+    await db.insert(audioAttachments).values({
+      noteId,
+      userId,
+      storageProvider: storage.name,
+      storageKey,
+      mimeType,
+      sizeBytes: input.audio.byteLength,
+      durationMs: input.durationMs ? Math.round(input.durationMs) : null,
+      transcriptionModel: transcription.model
+    })
+  } catch (error) {
+    // 노트에 연결되지 못한 녹음 파일은 바로 삭제
+    await storage.delete(storageKey).catch(deleteError => {
+      console.error('녹음 파일 삭제 오류:', deleteError)
+    })
+    throw error
+  }
+
+  const summaryResult = await generateSummary({ noteId, content: transcript })
+
+  return {
+    noteId,
+    title,
+    transcript,
+    ...(summaryResult.success
+      ? { summary: summaryResult.summary }
+      : { summaryError: summaryResult.error })
+  }
+}
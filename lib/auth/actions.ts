@@ -2,12 +2,14 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { sanitizeNextPath, NEXT_PARAM } from './route-protection'
 
 export async function signUp(formData: FormData) {
     const supabase = await createClient()
 
     const email = formData.get('email') as string
     const password = formData.get('password') as string
+    const next = sanitizeNextPath(formData.get('next'), '')
 
     // 서버 사이드 유효성 검사
     if (!email || !password) {
@@ -35,9 +37,10 @@ export async function signUp(formData: FormData) {
         email,
         password,
         options: {
+            // 인증 링크를 누르면 원래 가려던 경로로 이동 (없으면 온보딩)
             emailRedirectTo: `${
                 process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
-            }/auth/callback`
+            }/auth/callback${next ? `?${NEXT_PARAM}=${encodeURIComponent(next)}` : ''}`
         }
     })
 
@@ -64,8 +67,8 @@ export async function signUp(formData: FormData) {
         // 이메일 인증이 필요한 경우
         redirect('/auth/verify-email')
     } else {
-        // 이메일 인증이 완료된 경우 온보딩으로
-        redirect('/onboarding')
+        // 이메일 인증이 완료된 경우 원래 가려던 경로 또는 온보딩으로
+        redirect(next || '/onboarding')
     }
 }
 
@@ -74,6 +77,7 @@ export async function signIn(formData: FormData) {
 
     const email = formData.get('email') as string
     const password = formData.get('password') as string
+    const next = sanitizeNextPath(formData.get('next'))
 
     // 서버 사이드 유효성 검사
     if (!email || !password) {
@@ -113,7 +117,8 @@ export async function signIn(formData: FormData) {
         }
     }
 
-    redirect('/')
+    // 보호 경로에서 리다이렉트된 경우 원래 경로로 복귀
+    redirect(next)
 }
 
 export async function signOut() {
@@ -0,0 +1,87 @@
+// lib/auth/route-protection.ts
+// 인증이 필요한 경로 판별과 로그인 후 이동 경로(next) 처리
+// 미들웨어, 로그인/회원가입 액션, 인증 콜백이 같은 규칙으로 보호 경로와 안전한 리다이렉트 대상을 판단하도록 함
+// 관련 파일: middleware.ts, lib/supabase/middleware.ts, lib/auth/actions.ts, app/auth/callback/route.ts
+
+// AUTH_PROTECTED_ROUTES 미설정 시 보호할 경로 접두사 ('/'는 홈 화면만 의미)
+export const DEFAULT_PROTECTED_ROUTE_PREFIXES = ['/', '/notes', '/ai-chat', '/settings', '/test-ai', '/test-db']
+
+// 로그인한 사용자는 접근할 필요가 없는 인증 페이지
+export const AUTH_ROUTES = ['/signin', '/signup']
+
+export const SIGN_IN_PATH = '/signin'
+
+// 로그인 후 돌아갈 경로를 전달하는 쿼리 파라미터 이름
+export const NEXT_PARAM = 'next'
+
+// 쉼표로 구분된 보호 경로 접두사 설정 파싱 (예: "/notes, /ai-chat")
+export function parseProtectedRoutePrefixes(value: string | undefined): string[] {
+  if (!value?.trim()) return DEFAULT_PROTECTED_ROUTE_PREFIXES
+
+  const prefixes = value
+    .split(',')
+    .map(prefix => prefix.trim())
+    .filter(prefix => prefix.startsWith('/'))
+    .map(prefix => prefix.replace(/\/+$/, '') || '/')
+
+  return prefixes.length > 0 ? Array.from(new Set(prefixes)) : DEFAULT_PROTECTED_ROUTE_PREFIXES
+}
+
+export function getProtectedRoutePrefixes(): string[] {
+  return parseProtectedRoutePrefixes(process.env.AUTH_PROTECTED_ROUTES)
+}
+
+// 경로가 접두사 자체이거나 그 하위 경로인지 확인 (/notes는 /notes/1과 일치, /notesx와는 불일치)
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  if (prefix === '/') return pathname === '/'
+  return pathname === prefix || pathname.startsWith(`${prefix}/`)
+}
+
+export function isProtectedPath(pathname: string, prefixes: string[] = getProtectedRoutePrefixes()): boolean {
+  return prefixes.some(prefix => matchesPrefix(pathname, prefix))
+}
+
+export function isAuthPath(pathname: string): boolean {
+  return AUTH_ROUTES.some(route => matchesPrefix(pathname, route))
+}
+
+// next 값 해석에만 쓰는 임의의 기준 주소 (해석 후 출처가 바뀌면 외부 주소)
+const NEXT_PATH_BASE_URL = 'http://localhost'
+
+// URL 파서는 탭과 줄바꿈을 지우므로("/\t/evil.com" → "//evil.com") 제어 문자와 공백은 모두 거부
+const UNSAFE_NEXT_PATH_PATTERN = /[\x00-\x1f\x7f\s]/
+
+// 외부 사이트로 보내는 오픈 리다이렉트를 막기 위해 같은 사이트의 절대 경로만 허용
+export function sanitizeNextPath(value: FormDataEntryValue | string | null | undefined, fallback: string = '/'): string {
+  if (typeof value !== 'string') return fallback
+
+  const next = value.trim()
+  if (
+    !next.startsWith('/') ||
+    next.startsWith('//') ||
+    next.startsWith('/\\') ||
+    UNSAFE_NEXT_PATH_PATTERN.test(next) ||
+    !isSameOriginPath(next)
+  ) {
+    return fallback
+  }
+
+  // 인증 페이지로 돌아가면 다시 리다이렉트되므로 기본 경로 사용
+  const pathname = next.split(/[?#]/)[0]
+  return isAuthPath(pathname) ? fallback : next
+}
+
+// 리다이렉트에서 쓰는 것과 같은 방식으로 해석해 출처가 그대로인지 확인
+function isSameOriginPath(path: string): boolean {
+  try {
+    return new URL(path, NEXT_PATH_BASE_URL).origin === NEXT_PATH_BASE_URL
+  } catch {
+    return false
+  }
+}
+
+// 로그인 페이지 경로 (next가 기본 경로가 아니면 쿼리로 전달)
+export function buildSignInPath(nextPath?: string | null): string {
+  const next = sanitizeNextPath(nextPath)
+  return next === '/' ? SIGN_IN_PATH : `${SIGN_IN_PATH}?${NEXT_PARAM}=${encodeURIComponent(next)}`
+}
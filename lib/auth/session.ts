@@ -0,0 +1,20 @@
+// lib/auth/session.ts
+// 서버 컴포넌트용 로그인 사용자 조회
+// 경로 보호는 미들웨어가 담당하고, 페이지는 사용자 정보를 얻으면서 세션이 없는 예외 상황만 로그인 페이지로 보냄
+// 관련 파일: middleware.ts, lib/supabase/middleware.ts, lib/auth/route-protection.ts
+
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { buildSignInPath } from './route-protection'
+
+// 로그인한 사용자 반환 (세션이 없으면 nextPath를 유지한 채 로그인 페이지로 이동)
+export async function requireUser(nextPath?: string) {
+  const supabase = await createClient()
+  const { data: { user }, error } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    redirect(buildSignInPath(nextPath))
+  }
+
+  return user
+}
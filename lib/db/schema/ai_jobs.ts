@@ -0,0 +1,44 @@
+// lib/db/schema/ai_jobs.ts
+// AI 백그라운드 작업 큐 테이블 스키마 정의
+// 요약/태그 생성, 노트 임베딩 계산 요청을 작업으로 저장하고 워커가 FOR UPDATE SKIP LOCKED로 하나씩 가져가 처리하며, 진행률과 결과를 기록
+// 관련 파일: lib/ai/job-queue.ts, lib/ai/job-worker.ts, lib/ai/job-actions.ts, hooks/use-ai-status.ts
+
+import { pgTable, uuid, varchar, integer, text, jsonb, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+import { notes } from './notes'
+import type { AIJobResult, AIJobStatus, AIJobType } from '@/lib/ai/types'
+
+export const aiJobs = pgTable('ai_jobs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull(),
+  noteId: uuid('note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+  type: varchar('type', { length: 20 }).notNull().$type<AIJobType>(),
+  status: varchar('status', { length: 20 }).notNull().default('queued').$type<AIJobStatus>(),
+  progress: integer('progress').notNull().default(0), // 0-100
+  message: text('message'),
+  result: jsonb('result').$type<AIJobResult>(),
+  error: text('error'),
+  errorCode: varchar('error_code', { length: 50 }), // 한도 초과 시 GeminiErrorType
+  retryAfterMs: integer('retry_after_ms'),
+  attempts: integer('attempts').notNull().default(0),
+  runAfter: timestamp('run_after', { withTimezone: true }).defaultNow().notNull(), // 재시도 대기 중이면 이 시각 이후에 처리
+  lockedAt: timestamp('locked_at', { withTimezone: true }), // 워커가 작업을 가져가거나 마지막으로 잠금을 갱신한 시각 (오래되면 다시 가져감)
+  finishedAt: timestamp('finished_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => ({
+  statusRunAfterIdx: index('idx_ai_jobs_status_run_after').on(table.status, table.runAfter),
+  noteTypeCreatedAtIdx: index('idx_ai_jobs_note_type_created_at').on(table.noteId, table.type, table.createdAt),
+  // 노트별·종류별로 대기/처리 중인 작업은 하나만 허용 (중복 요청은 기존 작업을 재사용)
+  activeNoteTypeIdx: uniqueIndex('idx_ai_jobs_active_note_type')
+    .on(table.noteId, table.type)
+    .where(sql`${table.status} in ('queued', 'running')`)
+}))
+
+// Zod 스키마 자동 생성
+export const insertAIJobSchema = createInsertSchema(aiJobs)
+export const selectAIJobSchema = createSelectSchema(aiJobs)
+
+export type AIJob = typeof aiJobs.$inferSelect
+export type NewAIJob = typeof aiJobs.$inferInsert
@@ -0,0 +1,22 @@
+// lib/db/schema/ai_quotas.ts
+// 사용자별 일일 AI 토큰 한도 테이블 스키마 정의
+// 오늘(UTC) 사용한 토큰 수와 사용자별 한도를 보관하며, 날짜가 바뀌면 다음 기록 시 사용량이 초기화됨
+// 관련 파일: lib/ai/usage-limits.ts, lib/ai/config.ts
+
+import { pgTable, uuid, date, integer, timestamp } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+
+export const aiQuotas = pgTable('ai_quotas', {
+  userId: uuid('user_id').primaryKey(),
+  usageDate: date('usage_date', { mode: 'string' }).notNull(), // tokensUsed가 집계된 날짜
+  tokensUsed: integer('tokens_used').notNull().default(0),
+  dailyTokenLimit: integer('daily_token_limit'), // null이면 AI_DAILY_TOKEN_QUOTA 사용
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+})
+
+// Zod 스키마 자동 생성
+export const insertAIQuotaSchema = createInsertSchema(aiQuotas)
+export const selectAIQuotaSchema = createSelectSchema(aiQuotas)
+
+export type AIQuota = typeof aiQuotas.$inferSelect
+export type NewAIQuota = typeof aiQuotas.$inferInsert
@@ -0,0 +1,15 @@
+// lib/db/schema/ai_rate_limits.ts
+// AI 요청 빈도 제한 버킷 테이블 스키마 정의
+// AI_RATE_LIMIT_STORE=postgres일 때 여러 서버 인스턴스가 사용자별 토큰 버킷 상태를 공유하도록 보관
+// 관련 파일: lib/ai/usage-limits.ts, lib/ai/rate-limit.ts
+
+import { pgTable, varchar, doublePrecision, timestamp } from 'drizzle-orm/pg-core'
+
+export const aiRateLimits = pgTable('ai_rate_limits', {
+  key: varchar('key', { length: 200 }).primaryKey(), // 제한 대상 키 (사용자 ID)
+  tokens: doublePrecision('tokens').notNull(), // 마지막 계산 시점에 남은 토큰 (충전 중 소수 포함)
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull()
+})
+
+export type AIRateLimit = typeof aiRateLimits.$inferSelect
+export type NewAIRateLimit = typeof aiRateLimits.$inferInsert
@@ -0,0 +1,30 @@
+// lib/db/schema/ai_usage.ts
+// AI 호출 사용량 기록 테이블 스키마 정의
+// 사용자·기능(요약/태그/대화)별로 모델, 토큰 수, 응답 시간, 성공 여부, 중단 여부를 호출마다 남겨 사용량 대시보드에서 집계
+// 관련 파일: lib/ai/usage-log.ts, lib/ai/usage-stats.ts, app/settings/usage/page.tsx
+
+import { pgTable, uuid, varchar, integer, boolean, text, timestamp, index } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+
+export const aiUsage = pgTable('ai_usage', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull(),
+  feature: varchar('feature', { length: 20 }).notNull(), // summary | tags | chat | embedding
+  model: varchar('model', { length: 100 }).notNull(), // 제공자/모델 (예: gemini/gemini-2.0-flash-001)
+  inputTokens: integer('input_tokens').notNull().default(0),
+  outputTokens: integer('output_tokens').notNull().default(0),
+  latencyMs: integer('latency_ms').notNull(),
+  success: boolean('success').notNull(),
+  error: text('error'),
+  aborted: boolean('aborted').notNull().default(false), // 클라이언트가 응답 도중 연결을 끊은 호출 (받은 부분까지 토큰 집계)
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => ({
+  userCreatedAtIdx: index('idx_ai_usage_user_created_at').on(table.userId, table.createdAt)
+}))
+
+// Zod 스키마 자동 생성
+export const insertAIUsageSchema = createInsertSchema(aiUsage)
+export const selectAIUsageSchema = createSelectSchema(aiUsage)
+
+export type AIUsage = typeof aiUsage.$inferSelect
+export type NewAIUsage = typeof aiUsage.$inferInsert
@@ -0,0 +1,32 @@
+// lib/db/schema/audio_attachments.ts
+// 음성 첨부 파일 테이블 스키마 정의
+// 업로드된 녹음 파일의 저장 위치와 전사 정보를 노트와 연결하여 보관 (파일 본체는 오디오 저장소에 있음)
+// 관련 파일: lib/db/schema/notes.ts, lib/audio/storage.ts, lib/audio/attachments.ts
+
+import { pgTable, uuid, varchar, text, integer, timestamp, index } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+import { notes } from './notes'
+
+export const audioAttachments = pgTable('audio_attachments', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  // 노트가 영구 삭제되면 null이 되고, 저장소 파일과 함께 정리됨 (purgeDetachedAudio)
+  noteId: uuid('note_id').references(() => notes.id, { onDelete: 'set null' }),
+  userId: uuid('user_id').notNull(),
+  storageProvider: varchar('storage_provider', { length: 20 }).notNull(), // local | supabase
+  storageKey: text('storage_key').notNull(),
+  mimeType: varchar('mime_type', { length: 100 }).notNull(),
+  sizeBytes: integer('size_bytes').notNull(),
+  durationMs: integer('duration_ms'), // 브라우저 녹음인 경우에만 기록
+  transcriptionModel: varchar('transcription_model', { length: 100 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow()
+}, (table) => ({
+  noteIdIdx: index('idx_audio_attachments_note_id').on(table.noteId),
+  userIdIdx: index('idx_audio_attachments_user_id').on(table.userId)
+}))
+
+// Zod 스키마 자동 생성
+export const insertAudioAttachmentSchema = createInsertSchema(audioAttachments)
+export const selectAudioAttachmentSchema = createSelectSchema(audioAttachments)
+
+export type AudioAttachment = typeof audioAttachments.$inferSelect
+export type NewAudioAttachment = typeof audioAttachments.$inferInsert
@@ -0,0 +1,24 @@
+// lib/db/schema/chat_conversations.ts
+// AI 대화 세션 테이블 스키마 정의
+// 새로고침 후에도 이전 대화를 이어갈 수 있도록 사용자별 대화 목록을 보관
+// 관련 파일: lib/db/schema/chat_messages.ts, lib/ai/chat-conversations.ts, lib/ai/chat-actions.ts
+
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+
+export const chatConversations = pgTable('chat_conversations', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull(),
+  title: varchar('title', { length: 100 }).notNull().default('새 대화'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow() // 마지막 메시지 시각 (목록 정렬용)
+}, (table) => ({
+  userIdUpdatedAtIdx: index('idx_chat_conversations_user_id_updated_at').on(table.userId, table.updatedAt)
+}))
+
+// Zod 스키마 자동 생성
+export const insertChatConversationSchema = createInsertSchema(chatConversations)
+export const selectChatConversationSchema = createSelectSchema(chatConversations)
+
+export type ChatConversation = typeof chatConversations.$inferSelect
+export type NewChatConversation = typeof chatConversations.$inferInsert
@@ -0,0 +1,29 @@
+// lib/db/schema/chat_messages.ts
+// AI 대화 메시지 테이블 스키마 정의
+// 대화별 사용자/AI 메시지와 답변에 참고한 노트 목록을 순서대로 보관
+// 관련 파일: lib/db/schema/chat_conversations.ts, lib/ai/chat-conversations.ts, lib/ai/chat.ts
+
+import { pgTable, uuid, text, varchar, timestamp, jsonb, index } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+import { chatConversations } from './chat_conversations'
+import type { ChatSource } from '@/lib/ai/chat'
+
+export const chatMessages = pgTable('chat_messages', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  conversationId: uuid('conversation_id').notNull().references(() => chatConversations.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull(),
+  role: varchar('role', { length: 20 }).notNull().$type<'user' | 'assistant'>(),
+  content: text('content').notNull(),
+  sources: jsonb('sources').$type<ChatSource[]>(), // 답변에 참고한 노트 (AI 메시지만)
+  model: varchar('model', { length: 100 }), // 제공자/모델 (AI 메시지만)
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow()
+}, (table) => ({
+  conversationIdCreatedAtIdx: index('idx_chat_messages_conversation_id_created_at').on(table.conversationId, table.createdAt)
+}))
+
+// Zod 스키마 자동 생성
+export const insertChatMessageSchema = createInsertSchema(chatMessages)
+export const selectChatMessageSchema = createSelectSchema(chatMessages)
+
+export type ChatMessageRecord = typeof chatMessages.$inferSelect
+export type NewChatMessageRecord = typeof chatMessages.$inferInsert
@@ -4,6 +4,18 @@
 // 관련 파일: lib/db/connection.ts, drizzle.config.ts
 
 export * from './notes'
+export * from './notebooks'
 export * from './summaries'
 export * from './note_tags'
+export * from './note_links'
+export * from './note_templates'
 export * from './error_logs'
+export * from './note_revisions'
+export * from './chat_conversations'
+export * from './chat_messages'
+export * from './note_embeddings'
+export * from './audio_attachments'
+export * from './ai_rate_limits'
+export * from './ai_quotas'
+export * from './ai_usage'
+export * from './ai_jobs'
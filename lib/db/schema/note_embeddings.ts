@@ -0,0 +1,31 @@
+// lib/db/schema/note_embeddings.ts
+// 노트 임베딩 테이블 스키마 정의 (pgvector)
+// 노트 제목/본문의 의미 벡터를 보관하여 코사인 유사도로 관련 노트를 찾을 수 있게 함
+// 관련 파일: lib/db/schema/notes.ts, lib/notes/embeddings.ts, lib/notes/related-actions.ts
+
+import { pgTable, uuid, varchar, timestamp, vector, index } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+import { notes } from './notes'
+
+// 임베딩 차원 (모든 제공자와 로컬 대체 임베딩이 이 길이로 생성)
+export const NOTE_EMBEDDING_DIMENSIONS = 768
+
+export const noteEmbeddings = pgTable('note_embeddings', {
+  noteId: uuid('note_id').primaryKey().references(() => notes.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull(),
+  model: varchar('model', { length: 100 }).notNull(), // 임베딩 모델 (같은 모델끼리만 유사도 비교)
+  contentHash: varchar('content_hash', { length: 64 }).notNull(), // 입력 텍스트 해시 (변경 없으면 재계산 생략)
+  embedding: vector('embedding', { dimensions: NOTE_EMBEDDING_DIMENSIONS }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+}, (table) => ({
+  userIdModelIdx: index('idx_note_embeddings_user_id_model').on(table.userId, table.model),
+  embeddingIdx: index('idx_note_embeddings_embedding').using('hnsw', table.embedding.op('vector_cosine_ops'))
+}))
+
+// Zod 스키마 자동 생성
+export const insertNoteEmbeddingSchema = createInsertSchema(noteEmbeddings)
+export const selectNoteEmbeddingSchema = createSelectSchema(noteEmbeddings)
+
+export type NoteEmbedding = typeof noteEmbeddings.$inferSelect
+export type NewNoteEmbedding = typeof noteEmbeddings.$inferInsert
@@ -0,0 +1,25 @@
+// lib/db/schema/note_links.ts
+// 노트 간 위키 링크 데이터 모델 스키마 정의
+// 본문의 [[노트 제목]] 링크를 링크한 노트(source) → 대상 노트(target) 관계로 저장해 백링크 조회와 제목 변경 시 링크 갱신에 사용
+// 관련 파일: lib/db/schema/notes.ts, lib/notes/links.ts, lib/notes/link-actions.ts
+
+import { pgTable, uuid, timestamp, index, primaryKey } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+import { notes } from './notes'
+
+export const noteLinks = pgTable('note_links', {
+  sourceNoteId: uuid('source_note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+  targetNoteId: uuid('target_note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow()
+}, (table) => ({
+  pk: primaryKey({ columns: [table.sourceNoteId, table.targetNoteId] }),
+  targetNoteIdIdx: index('idx_note_links_target_note_id').on(table.targetNoteId)
+}))
+
+// Zod 스키마 자동 생성
+export const insertNoteLinkSchema = createInsertSchema(noteLinks)
+export const selectNoteLinkSchema = createSelectSchema(noteLinks)
+
+export type NoteLink = typeof noteLinks.$inferSelect
+export type NewNoteLink = typeof noteLinks.$inferInsert
@@ -0,0 +1,28 @@
+// lib/db/schema/note_revisions.ts
+// 노트 버전 기록 테이블 스키마 정의
+// 자동 저장으로 덮어쓰이는 노트 제목/본문의 스냅샷을 보관하여 이전 상태로 복원할 수 있게 함
+// 관련 파일: lib/db/schema/notes.ts, lib/notes/revisions.ts, lib/notes/revision-actions.ts
+
+import { pgTable, uuid, text, timestamp, index } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+import { notes } from './notes'
+
+export const noteRevisions = pgTable('note_revisions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  noteId: uuid('note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull(),
+  title: text('title').notNull(),
+  content: text('content'),
+  restoredFromId: uuid('restored_from_id'), // 복원으로 생성된 버전인 경우 원본 버전 ID
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
+}, (table) => ({
+  noteIdCreatedAtIdx: index('idx_note_revisions_note_id_created_at').on(table.noteId, table.createdAt)
+}))
+
+// Zod 스키마 자동 생성
+export const insertNoteRevisionSchema = createInsertSchema(noteRevisions)
+export const selectNoteRevisionSchema = createSelectSchema(noteRevisions)
+
+export type NoteRevision = typeof noteRevisions.$inferSelect
+export type NewNoteRevision = typeof noteRevisions.$inferInsert
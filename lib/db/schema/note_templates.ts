@@ -0,0 +1,26 @@
+// lib/db/schema/note_templates.ts
+// 노트 템플릿 테이블 스키마 정의
+// 회의록, 일일 일지, 버그 리포트처럼 반복해서 쓰는 노트 형식을 사용자별로 저장하며, 제목과 본문에 {{date}}, {{title}} 같은 변수를 넣을 수 있음
+// 관련 파일: lib/templates/actions.ts, lib/templates/placeholders.ts, components/templates/template-picker.tsx
+
+import { pgTable, uuid, varchar, text, timestamp, index } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+
+export const noteTemplates = pgTable('note_templates', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull(),
+  name: varchar('name', { length: 100 }).notNull(), // 템플릿 선택 목록에 표시되는 이름
+  title: text('title').notNull().default(''), // 새 노트 제목 (변수 포함 가능)
+  content: text('content').notNull().default(''), // 새 노트 본문 (변수 포함 가능)
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => ({
+  userIdIdx: index('idx_note_templates_user_id').on(table.userId)
+}))
+
+// Zod 스키마 자동 생성
+export const insertNoteTemplateSchema = createInsertSchema(noteTemplates)
+export const selectNoteTemplateSchema = createSelectSchema(noteTemplates)
+
+export type NoteTemplate = typeof noteTemplates.$inferSelect
+export type NewNoteTemplate = typeof noteTemplates.$inferInsert
@@ -0,0 +1,25 @@
+// lib/db/schema/notebooks.ts
+// 노트북(폴더) 테이블 스키마 정의
+// 노트를 계층적으로 정리하기 위한 노트북으로, parent_id로 하위 노트북을 중첩하며 상위 노트북을 삭제하면 하위 노트북도 함께 삭제됨
+// 관련 파일: lib/db/schema/notes.ts, lib/notebooks/actions.ts, lib/notebooks/tree.ts, components/notebooks/notebook-sidebar.tsx
+
+import { pgTable, uuid, varchar, timestamp, index, type AnyPgColumn } from 'drizzle-orm/pg-core'
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+
+export const notebooks = pgTable('notebooks', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull(),
+  parentId: uuid('parent_id').references((): AnyPgColumn => notebooks.id, { onDelete: 'cascade' }), // null이면 최상위 노트북
+  name: varchar('name', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => ({
+  userParentIdx: index('idx_notebooks_user_parent').on(table.userId, table.parentId)
+}))
+
+// Zod 스키마 자동 생성
+export const insertNotebookSchema = createInsertSchema(notebooks)
+export const selectNotebookSchema = createSelectSchema(notebooks)
+
+export type Notebook = typeof notebooks.$inferSelect
+export type NewNotebook = typeof notebooks.$inferInsert
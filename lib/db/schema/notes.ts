@@ -1,23 +1,62 @@
 // lib/db/schema/notes.ts
 // 노트 데이터 모델 스키마 정의
 // Drizzle ORM을 사용하여 PostgreSQL 테이블 구조를 정의하고 TypeScript 타입을 자동 생성
-// 관련 파일: drizzle.config.ts, lib/db/connection.ts, lib/notes/actions.ts
+// 관련 파일: drizzle.config.ts, lib/db/connection.ts, lib/notes/actions.ts, lib/db/schema/notebooks.ts
 
-import { pgTable, uuid, text, timestamp } from 'drizzle-orm/pg-core'
+import { pgTable, uuid, text, timestamp, boolean, index, customType } from 'drizzle-orm/pg-core'
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
+import { sql } from 'drizzle-orm'
+import { notebooks } from './notebooks'
+
+// PostgreSQL tsvector 타입 (전문 검색용)
+const tsvector = customType<{ data: string }>({
+    dataType() {
+        return 'tsvector'
+    }
+})
 
 export const notes = pgTable('notes', {
     id: uuid('id').defaultRandom().primaryKey(),
     userId: uuid('user_id').notNull(),
     title: text('title').notNull().default('제목 없음'),
     content: text('content'),
+    notebookId: uuid('notebook_id').references(() => notebooks.id, { onDelete: 'set null' }), // null이면 미분류 노트
+    pinned: boolean('pinned').notNull().default(false), // 고정 노트는 정렬과 관계없이 목록 맨 위에 표시
+    favorite: boolean('favorite').notNull().default(false),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
-    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
-})
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+    deletedAt: timestamp('deleted_at', { withTimezone: true }), // 휴지통 이동 시각 (null이면 활성 노트)
+    // 전문 검색용 생성 컬럼 (제목 가중치 A, 본문 가중치 B)
+    // 한국어 형태소 사전이 없으므로 'simple' 설정을 사용하고, 조사가 붙은 부분 일치는 pg_trgm 인덱스로 보완
+    searchVector: tsvector('search_vector').generatedAlwaysAs(
+        sql`setweight(to_tsvector('simple', coalesce(title, '')), 'A') || setweight(to_tsvector('simple', coalesce(content, '')), 'B')`
+    )
+}, (table) => ({
+    userIdDeletedAtIdx: index('idx_notes_user_id_deleted_at').on(table.userId, table.deletedAt),
+    notebookIdIdx: index('idx_notes_notebook_id').on(table.notebookId),
+    userIdFavoriteIdx: index('idx_notes_user_id_favorite').on(table.userId).where(sql`${table.favorite}`),
+    searchVectorIdx: index('idx_notes_search_vector').using('gin', table.searchVector),
+    titleTrgmIdx: index('idx_notes_title_trgm').using('gin', table.title.op('gin_trgm_ops')),
+    contentTrgmIdx: index('idx_notes_content_trgm').using('gin', table.content.op('gin_trgm_ops'))
+}))
+
+// 검색용 생성 컬럼을 제외한 조회 컬럼 (목록/상세 조회 시 tsvector 전송 방지)
+export const noteColumns = {
+    id: notes.id,
+    userId: notes.userId,
+    title: notes.title,
+    content: notes.content,
+    notebookId: notes.notebookId,
+    pinned: notes.pinned,
+    favorite: notes.favorite,
+    createdAt: notes.createdAt,
+    updatedAt: notes.updatedAt,
+    deletedAt: notes.deletedAt
+}
 
 // Zod 스키마 자동 생성
 export const insertNoteSchema = createInsertSchema(notes)
 export const selectNoteSchema = createSelectSchema(notes)
 
-export type Note = typeof notes.$inferSelect
+export type Note = Omit<typeof notes.$inferSelect, 'searchVector'>
 export type NewNote = typeof notes.$inferInsert
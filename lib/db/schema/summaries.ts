@@ -10,7 +10,7 @@ import { notes } from './notes'
 export const summaries = pgTable('summaries', {
   id: uuid('id').defaultRandom().primaryKey(),
   noteId: uuid('note_id').notNull().references(() => notes.id, { onDelete: 'cascade' }),
-  model: varchar('model', { length: 50 }).notNull(),
+  model: varchar('model', { length: 100 }).notNull(), // 제공자/모델 (예: gemini/gemini-2.0-flash-001)
   content: text('content').notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow()
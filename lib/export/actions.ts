@@ -0,0 +1,107 @@
+// lib/export/actions.ts
+// 데이터 내보내기 Server Actions
+// 인증된 사용자의 노트를 요약·태그와 함께 일정 개수씩 조회하여 클라이언트에서 파일을 만들 수 있게 제공
+// 관련 파일: lib/export/types.ts, lib/export/formats.ts, hooks/use-notes-export.ts
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { notes, summaries } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { and, asc, desc, eq, inArray, isNull, sql } from 'drizzle-orm'
+import { getTagsForNotes } from '@/lib/notes/tag-query'
+import type { ExportNote, ExportNotesBatch, ExportSummary } from './types'
+
+// 한 번에 조회할 수 있는 최대 노트 수 (대용량 계정은 여러 번 나누어 조회)
+const MAX_EXPORT_BATCH_SIZE = 200
+
+interface GetExportNotesOptions {
+  noteIds?: string[]
+  offset?: number
+  limit?: number
+}
+
+const toISO = (date: Date | null) => (date ? date.toISOString() : null)
+
+export async function getExportNotes({
+  noteIds,
+  offset = 0,
+  limit = 100
+}: GetExportNotesOptions = {}): Promise<ExportNotesBatch> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('인증이 필요합니다.')
+    }
+
+    if (noteIds && noteIds.length === 0) {
+      return { notes: [], total: 0 }
+    }
+
+    // 휴지통 노트는 제외, 선택한 노트만 내보내는 경우 해당 ID로 제한
+    const whereCondition = and(
+      eq(notes.userId, user.id),
+      isNull(notes.deletedAt),
+      noteIds ? inArray(notes.id, noteIds) : undefined
+    )
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(notes)
+      .where(whereCondition)
+
+    const rows = await db
+      .select({
+        id: notes.id,
+        title: notes.title,
+        content: notes.content,
+        createdAt: notes.createdAt,
+        updatedAt: notes.updatedAt
+      })
+      .from(notes)
+      .where(whereCondition)
+      .orderBy(asc(notes.createdAt), asc(notes.id))
+      .offset(Math.max(0, offset))
+      .limit(Math.min(Math.max(1, limit), MAX_EXPORT_BATCH_SIZE))
+
+    const ids = rows.map(row => row.id)
+    const tagsByNote = await getTagsForNotes(ids)
+
+    const summariesByNote = new Map<string, ExportSummary[]>()
+    if (ids.length > 0) {
+      const summaryRows = await db
+        .select({
+          noteId: summaries.noteId,
+          model: summaries.model,
+          content: summaries.content,
+          createdAt: summaries.createdAt
+        })
+        .from(summaries)
+        .where(inArray(summaries.noteId, ids))
+        .orderBy(desc(summaries.createdAt))
+
+      summaryRows.forEach(({ noteId, createdAt, ...summary }) => {
+        const list = summariesByNote.get(noteId) ?? []
+        list.push({ ...summary, createdAt: toISO(createdAt) })
+        summariesByNote.set(noteId, list)
+      })
+    }
+
+    const exportNotes: ExportNote[] = rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      content: row.content ?? '',
+      createdAt: toISO(row.createdAt),
+      updatedAt: toISO(row.updatedAt),
+      tags: tagsByNote.get(row.id) ?? [],
+      summaries: summariesByNote.get(row.id) ?? []
+    }))
+
+    return { notes: exportNotes, total: Number(total) }
+  } catch (error) {
+    console.error('내보내기 데이터 조회 오류:', error)
+    throw new Error('내보낼 노트를 불러올 수 없습니다.')
+  }
+}
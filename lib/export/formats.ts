@@ -0,0 +1,113 @@
+// lib/export/formats.ts
+// 내보내기 파일 생성 유틸리티 (클라이언트/서버 공용)
+// 노트 데이터를 JSON 덤프, CSV 메타데이터, YAML front matter가 포함된 마크다운 ZIP으로 변환
+// 관련 파일: lib/export/types.ts, hooks/use-notes-export.ts, lib/import/front-matter.ts
+
+import { zipSync, strToU8 } from 'fflate'
+import type { ExportFormat, ExportNote } from './types'
+
+export const EXPORT_FORMAT_VERSION = 1
+
+const FILE_NAME_MAX_LENGTH = 80
+
+// 전체 데이터 JSON (summaries, tags 포함)
+export function buildJSONExport(notes: ExportNote[], exportedAt: Date = new Date()): string {
+  return JSON.stringify({
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    noteCount: notes.length,
+    notes
+  }, null, 2)
+}
+
+// CSV 값 이스케이프 (스프레드시트 수식 실행 방지 포함)
+export function escapeCSVValue(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+const CSV_COLUMNS = ['id', 'title', 'tags', 'summary', 'content_length', 'created_at', 'updated_at']
+
+// 노트 메타데이터 CSV (Excel에서 한글이 깨지지 않도록 BOM 포함)
+export function buildCSVExport(notes: ExportNote[]): string {
+  const rows = notes.map(note => [
+    note.id,
+    note.title,
+    note.tags.join('; '),
+    note.summaries[0]?.content ?? '',
+    String(note.content.length),
+    note.createdAt ?? '',
+    note.updatedAt ?? ''
+  ].map(escapeCSVValue).join(','))
+
+  return `\uFEFF${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`
+}
+
+// YAML 문자열 값 (JSON 문자열은 YAML 큰따옴표 문자열과 호환)
+function yamlString(value: string): string {
+  return JSON.stringify(value)
+}
+
+// 여러 줄 값은 블록 스칼라로 표현
+function yamlBlock(value: string): string {
+  return `|\n${value.split('\n').map(line => `  ${line}`).join('\n')}`
+}
+
+// 노트 하나를 YAML front matter가 포함된 마크다운으로 변환
+export function buildMarkdownFile(note: ExportNote): string {
+  const frontMatter = [
+    `id: ${yamlString(note.id)}`,
+    `title: ${yamlString(note.title)}`,
+    `tags: [${note.tags.map(yamlString).join(', ')}]`,
+    note.createdAt ? `created_at: ${yamlString(note.createdAt)}` : null,
+    note.updatedAt ? `updated_at: ${yamlString(note.updatedAt)}` : null,
+    note.summaries[0] ? `summary: ${yamlBlock(note.summaries[0].content)}` : null
+  ].filter((line): line is string => line !== null)
+
+  return `---\n${frontMatter.join('\n')}\n---\n\n${note.content}\n`
+}
+
+// 파일 시스템에서 사용할 수 없는 문자를 제거한 파일명 (중복 시 번호 추가)
+export function buildMarkdownFileName(title: string, usedNames: Set<string>): string {
+  const base = title
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .slice(0, FILE_NAME_MAX_LENGTH)
+    .trim() || '제목 없음'
+
+  let name = `${base}.md`
+  for (let i = 2; usedNames.has(name.toLowerCase()); i++) {
+    name = `${base} (${i}).md`
+  }
+  usedNames.add(name.toLowerCase())
+  return name
+}
+
+// 노트별 마크다운 파일을 ZIP으로 묶음
+export function buildMarkdownZip(notes: ExportNote[]): Uint8Array {
+  const usedNames = new Set<string>()
+  const files: Record<string, Uint8Array> = {}
+
+  for (const note of notes) {
+    files[buildMarkdownFileName(note.title, usedNames)] = strToU8(buildMarkdownFile(note))
+  }
+
+  return zipSync(files, { level: 6 })
+}
+
+// 다운로드 파일명 (예: notes-2025-01-31.zip, 회의록.md)
+export function buildExportFileName(format: ExportFormat, date: Date = new Date(), noteTitle?: string): string {
+  const stamp = date.toISOString().slice(0, 10)
+
+  if (noteTitle !== undefined && format === 'markdown') {
+    return buildMarkdownFileName(noteTitle, new Set())
+  }
+
+  const base = noteTitle !== undefined
+    ? buildMarkdownFileName(noteTitle, new Set()).replace(/\.md$/, '')
+    : `notes-${stamp}`
+
+  return format === 'markdown' ? `${base}.zip` : `${base}.${format}`
+}
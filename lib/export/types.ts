@@ -0,0 +1,31 @@
+// lib/export/types.ts
+// 데이터 내보내기 관련 타입 정의
+// 서버 액션이 반환하는 내보내기용 노트 형태와 클라이언트 파일 생성 옵션을 공유
+// 관련 파일: lib/export/actions.ts, lib/export/formats.ts, hooks/use-notes-export.ts
+
+// 내보내기 형식 (json: 전체 데이터, csv: 노트 메타데이터, markdown: 노트별 .md 파일 ZIP)
+export type ExportFormat = 'json' | 'csv' | 'markdown'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'markdown']
+
+export interface ExportSummary {
+  model: string
+  content: string
+  createdAt: string | null
+}
+
+// 내보내기용 노트 (날짜는 직렬화 가능한 ISO 문자열)
+export interface ExportNote {
+  id: string
+  title: string
+  content: string
+  createdAt: string | null
+  updatedAt: string | null
+  tags: string[]
+  summaries: ExportSummary[] // 최신순
+}
+
+export interface ExportNotesBatch {
+  notes: ExportNote[]
+  total: number
+}
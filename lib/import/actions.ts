@@ -0,0 +1,176 @@
+// lib/import/actions.ts
+// 노트 가져오기 Server Actions
+// 마크다운 파일을 노트로 변환해 내용 해시로 중복을 거르고, 노트·태그·최초 버전을 트랜잭션으로 함께 저장
+// 관련 파일: lib/import/markdown.ts, lib/import/types.ts, hooks/use-notes-import.ts
+
+'use server'
+
+import { createHash } from 'crypto'
+import { db } from '@/lib/db/connection'
+import { notes, noteTags, noteRevisions } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm'
+import { refreshNoteLinks } from '@/lib/notes/links'
+import { parseMarkdownNote, IMPORT_BATCH_SIZE, MAX_IMPORT_FILE_LENGTH } from './markdown'
+import type { ImportFileInput, ImportFileResult, ImportNotesResult, ParsedImportNote } from './types'
+
+interface ImportCandidate {
+  index: number
+  note: ParsedImportNote
+  contentHash: string
+}
+
+// DB에서 계산하는 해시와 같은 방식 (UTF-8 본문의 SHA-256)
+function hashImportContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex')
+}
+
+const contentHashExpression = sql<string>`encode(sha256(convert_to(coalesce(${notes.content}, ''), 'UTF8')), 'hex')`
+
+export async function importNotes(files: ImportFileInput[]): Promise<ImportNotesResult> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('인증이 필요합니다.')
+  }
+
+  if (!Array.isArray(files) || files.length === 0) {
+    return { results: [] }
+  }
+
+  if (files.length > IMPORT_BATCH_SIZE) {
+    throw new Error(`한 번에 최대 ${IMPORT_BATCH_SIZE}개의 파일만 가져올 수 있습니다.`)
+  }
+
+  const results: ImportFileResult[] = files.map(file => ({ fileName: String(file?.fileName ?? ''), status: 'failed' }))
+  const candidates: ImportCandidate[] = []
+
+  // 1. 파일별 파싱 (실패한 파일만 실패로 기록하고 나머지는 계속 진행)
+  files.forEach((file, index) => {
+    if (typeof file?.content !== 'string') {
+      results[index].error = '파일을 읽을 수 없습니다.'
+      return
+    }
+    if (file.content.length > MAX_IMPORT_FILE_LENGTH) {
+      results[index].error = `파일이 너무 큽니다. (최대 ${MAX_IMPORT_FILE_LENGTH.toLocaleString()}자)`
+      return
+    }
+
+    const note = parseMarkdownNote(results[index].fileName, file.content)
+    results[index].title = note.title
+    if (note.content.trim().length === 0) {
+      results[index].error = '본문이 비어 있습니다.'
+      return
+    }
+
+    candidates.push({ index, note, contentHash: hashImportContent(note.content) })
+  })
+
+  try {
+    // 2. 이미 있는 노트와 내용 해시 비교 (휴지통의 노트는 제외)
+    const hashes = [...new Set(candidates.map(candidate => candidate.contentHash))]
+    const existingNotes = hashes.length > 0
+      ? await db
+          .select({ id: notes.id, contentHash: contentHashExpression })
+          .from(notes)
+          .where(and(
+            eq(notes.userId, user.id),
+            isNull(notes.deletedAt),
+            inArray(contentHashExpression, hashes)
+          ))
+      : []
+
+    const existingByHash = new Map(existingNotes.map(note => [note.contentHash, note.id]))
+    const toInsert = new Map<string, ImportCandidate>()
+    const batchDuplicates: ImportCandidate[] = []
+
+    for (const candidate of candidates) {
+      const existingId = existingByHash.get(candidate.contentHash)
+      if (existingId) {
+        results[candidate.index] = { ...results[candidate.index], status: 'duplicate', noteId: existingId }
+      } else if (toInsert.has(candidate.contentHash)) {
+        // 같은 요청 안의 중복은 먼저 나온 파일만 저장
+        batchDuplicates.push(candidate)
+      } else {
+        toInsert.set(candidate.contentHash, candidate)
+      }
+    }
+
+    // 3. 노트, 태그, 최초 버전을 하나의 트랜잭션으로 저장
+    const insertedIds = await db.transaction(async (tx) => {
+      const ids = new Map<string, string>()
+
+      for (const { note, contentHash } of toInsert.values()) {
+        const now = new Date()
+        const [created] = await tx
+          .insert(notes)
+          .values({
+            userId: user.id,
+            title: note.title,
+            content: note.content,
+            createdAt: note.createdAt ?? now,
+            updatedAt: note.updatedAt ?? now
+          })
+          .returning({ id: notes.id, updatedAt: notes.updatedAt })
+
+        if (note.tags.length > 0) {
+          await tx.insert(noteTags).values(note.tags.map(tag => ({ noteId: created.id, tag })))
+        }
+
+        await tx.insert(noteRevisions).values({
+          noteId: created.id,
+          userId: user.id,
+          title: note.title,
+          content: note.content,
+          createdAt: created.updatedAt ?? now,
+          updatedAt: created.updatedAt ?? now
+        })
+
+        ids.set(contentHash, created.id)
+      }
+
+      return ids
+    })
+
+    // 가져온 노트끼리의 [[노트 제목]] 링크도 연결되도록 모든 노트를 저장한 뒤 링크 갱신 (가져온 제목을 먼저 링크해 둔 기존 노트도 연결)
+    for (const { note, contentHash } of toInsert.values()) {
+      const noteId = insertedIds.get(contentHash)
+      if (noteId) {
+        await refreshNoteLinks({ id: noteId, userId: user.id, title: note.title, content: note.content }, { created: true })
+      }
+    }
+
+    for (const candidate of toInsert.values()) {
+      results[candidate.index] = {
+        ...results[candidate.index],
+        status: 'imported',
+        noteId: insertedIds.get(candidate.contentHash)
+      }
+    }
+    for (const candidate of batchDuplicates) {
+      results[candidate.index] = {
+        ...results[candidate.index],
+        status: 'duplicate',
+        noteId: insertedIds.get(candidate.contentHash)
+      }
+    }
+  } catch (error) {
+    console.error('노트 가져오기 저장 오류:', error)
+    for (const candidate of candidates) {
+      results[candidate.index] = {
+        ...results[candidate.index],
+        status: 'failed',
+        noteId: undefined,
+        error: '노트를 저장하지 못했습니다.'
+      }
+    }
+  }
+
+  if (results.some(result => result.status === 'imported')) {
+    revalidatePath('/notes')
+  }
+
+  return { results }
+}
@@ -0,0 +1,57 @@
+// lib/import/archive.ts
+// ZIP 압축 파일에서 가져오기 대상 파일 추출 (브라우저에서 사용)
+// 폴더 구조째 압축한 마크다운 묶음이나 Notion 내보내기(중첩 ZIP 포함)를 풀어 가져오기 대상 파일 목록으로 변환
+// 관련 파일: lib/import/markdown.ts, lib/import/notion.ts, hooks/use-notes-import.ts
+
+import { unzipSync, strFromU8 } from 'fflate'
+import { isMarkdownFileName } from './markdown'
+import { convertNotionExport, isNotionExport } from './notion'
+import type { ImportFileInput } from './types'
+
+// Notion은 큰 내보내기를 ZIP 안의 ZIP("Part-1.zip")으로 나누므로 한 단계까지만 풀어 봄
+const MAX_NESTED_ZIP_DEPTH = 1
+
+function isArchiveEntry(path: string, depth: number): boolean {
+  const segments = path.split('/')
+  const name = segments[segments.length - 1]
+  if (name.startsWith('.') || segments.includes('__MACOSX')) return false
+
+  return isMarkdownFileName(path)
+    || /\.csv$/i.test(name)
+    || (depth < MAX_NESTED_ZIP_DEPTH && /\.zip$/i.test(name))
+}
+
+// 압축 파일 안의 마크다운·CSV 파일 내용 (경로 → UTF-8 문자열)
+function readZipEntries(data: Uint8Array, depth: number = 0): Record<string, string> {
+  const files = unzipSync(data, { filter: file => isArchiveEntry(file.name, depth) })
+  const entries: Record<string, string> = {}
+
+  for (const [path, bytes] of Object.entries(files)) {
+    if (/\.zip$/i.test(path)) {
+      for (const [nestedPath, content] of Object.entries(readZipEntries(bytes, depth + 1))) {
+        entries[`${path}/${nestedPath}`] = content
+      }
+    } else {
+      entries[path] = strFromU8(bytes)
+    }
+  }
+
+  return entries
+}
+
+// 압축 파일 안의 노트 파일을 경로순으로 반환 (파일명은 "압축파일명/내부 경로")
+export function extractImportFilesFromZip(archiveName: string, data: Uint8Array): ImportFileInput[] {
+  const entries = readZipEntries(data)
+
+  if (isNotionExport(Object.keys(entries))) {
+    return convertNotionExport(archiveName, entries)
+  }
+
+  return Object.keys(entries)
+    .filter(isMarkdownFileName)
+    .sort((a, b) => a.localeCompare(b))
+    .map(path => ({
+      fileName: `${archiveName}/${path}`,
+      content: entries[path]
+    }))
+}
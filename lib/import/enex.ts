@@ -0,0 +1,61 @@
+// lib/import/enex.ts
+// Evernote ENEX 내보내기 파일 파서 (클라이언트/서버 공용)
+// ENEX XML의 노트별 제목, ENML 본문, 태그, 작성·수정 시각을 읽어 가져오기용 마크다운 파일로 변환
+// 관련 파일: lib/import/enml.ts, lib/import/markdown.ts, hooks/use-notes-import.ts
+
+import { decodeEntities, enmlToMarkdown } from './enml'
+import { buildImportMarkdown } from './markdown'
+import type { ImportFileInput, ParsedImportNote } from './types'
+
+const NOTE_PATTERN = /<note>([\s\S]*?)<\/note>/g
+const TAG_PATTERN = /<tag>([\s\S]*?)<\/tag>/g
+
+// 요소 하나의 텍스트 (CDATA 또는 문자 참조로 이스케이프된 값 모두 지원)
+function readElement(xml: string, name: string): string | null {
+  const match = new RegExp(`<${name}>([\\s\\S]*?)</${name}>`).exec(xml)
+  if (!match) return null
+
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(match[1])
+  return cdata ? cdata[1] : decodeEntities(match[1])
+}
+
+// ENEX 시각 형식 (20240105T150405Z) 해석
+export function parseEnexDate(value: string | null): Date | null {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value.trim()) : null
+  if (!match) return null
+
+  const [, year, month, day, hour, minute, second] = match.map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// ENEX 파일에 들어 있는 노트 목록
+export function parseEnex(xml: string): ParsedImportNote[] {
+  const parsed: ParsedImportNote[] = []
+
+  for (const match of xml.matchAll(NOTE_PATTERN)) {
+    // 첨부 파일(base64) 데이터는 사용하지 않으므로 먼저 제거
+    const noteXml = match[1].replace(/<resource>[\s\S]*?<\/resource>/g, '')
+    const tags = [...noteXml.matchAll(TAG_PATTERN)]
+      .map(tag => decodeEntities(tag[1]).trim())
+      .filter(tag => tag.length > 0)
+
+    parsed.push({
+      title: (readElement(noteXml, 'title') ?? '').trim(),
+      content: enmlToMarkdown(readElement(noteXml, 'content') ?? ''),
+      tags,
+      createdAt: parseEnexDate(readElement(noteXml, 'created')),
+      updatedAt: parseEnexDate(readElement(noteXml, 'updated'))
+    })
+  }
+
+  return parsed
+}
+
+// ENEX 파일을 노트별 가져오기 파일로 변환 (파일명은 "ENEX파일명/노트 제목")
+export function convertEnexFile(fileName: string, xml: string): ImportFileInput[] {
+  return parseEnex(xml).map((note, index) => ({
+    fileName: `${fileName}/${note.title || `노트 ${index + 1}`}`,
+    content: buildImportMarkdown(note)
+  }))
+}
@@ -0,0 +1,244 @@
+// lib/import/enml.ts
+// Evernote ENML(XHTML) → 마크다운 변환기 (클라이언트/서버 공용)
+// DOM 없이 동작하도록 간단한 태그 트리를 만든 뒤 제목, 목록, 체크박스, 코드 블록, 표 등을 마크다운으로 옮김
+// 관련 파일: lib/import/enex.ts
+
+interface ElementNode {
+  type: 'element'
+  name: string
+  attrs: Record<string, string>
+  children: MarkupNode[]
+}
+
+interface TextNode {
+  type: 'text'
+  text: string
+}
+
+type MarkupNode = ElementNode | TextNode
+
+interface RenderContext {
+  listDepth: number
+  inPre: boolean
+}
+
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'en-media', 'en-todo', 'input', 'meta', 'link', 'col', 'area', 'wbr'])
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'title'])
+const PARAGRAPH_ELEMENTS = new Set(['p', 'div', 'section', 'article', 'center', 'font', 'en-note', 'body', 'html'])
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g
+const ATTRIBUTE_PATTERN = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+// XML/HTML 문자 참조 해석
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isNaN(codePoint) || codePoint > 0x10ffff ? match : String.fromCodePoint(codePoint)
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const match of raw.matchAll(ATTRIBUTE_PATTERN)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attrs
+}
+
+// 태그 트리 생성 (닫히지 않은 태그는 상위 태그가 닫힐 때 함께 닫음)
+function parseMarkup(markup: string): ElementNode {
+  const root: ElementNode = { type: 'element', name: '#root', attrs: {}, children: [] }
+  const stack: ElementNode[] = [root]
+  let lastIndex = 0
+
+  const appendText = (text: string) => {
+    if (text.length > 0) stack[stack.length - 1].children.push({ type: 'text', text })
+  }
+
+  for (const match of markup.matchAll(TOKEN_PATTERN)) {
+    appendText(decodeEntities(markup.slice(lastIndex, match.index)))
+    lastIndex = (match.index ?? 0) + match[0].length
+
+    const [, cdata, closing, rawName, rawAttrs, selfClosing] = match
+    if (cdata !== undefined) {
+      appendText(cdata)
+      continue
+    }
+    if (!rawName) continue
+
+    const name = rawName.toLowerCase()
+    if (closing) {
+      const openIndex = stack.map(node => node.name).lastIndexOf(name)
+      if (openIndex > 0) stack.length = openIndex
+      continue
+    }
+
+    const element: ElementNode = { type: 'element', name, attrs: parseAttributes(rawAttrs ?? ''), children: [] }
+    stack[stack.length - 1].children.push(element)
+    if (!selfClosing && !VOID_ELEMENTS.has(name)) stack.push(element)
+  }
+  appendText(decodeEntities(markup.slice(lastIndex)))
+
+  return root
+}
+
+function textContent(node: MarkupNode): string {
+  return node.type === 'text' ? node.text : node.children.map(textContent).join('')
+}
+
+function wrapInline(marker: string, inner: string): string {
+  const trimmed = inner.trim()
+  return trimmed ? `${marker}${trimmed}${marker}` : inner
+}
+
+function block(inner: string): string {
+  const trimmed = inner.trim()
+  return trimmed ? `\n\n${trimmed}\n\n` : '\n\n'
+}
+
+function renderTable(table: ElementNode, context: RenderContext): string {
+  const rows: string[][] = []
+  const collectRows = (node: ElementNode) => {
+    for (const child of node.children) {
+      if (child.type !== 'element') continue
+      if (child.name === 'tr') {
+        rows.push(child.children
+          .filter((cell): cell is ElementNode => cell.type === 'element' && (cell.name === 'td' || cell.name === 'th'))
+          .map(cell => renderChildren(cell.children, context).replace(/\s*\n+\s*/g, ' ').replace(/\|/g, '\\|').trim()))
+      } else if (child.name !== 'table') {
+        collectRows(child)
+      }
+    }
+  }
+  collectRows(table)
+  if (rows.length === 0) return ''
+
+  const columnCount = Math.max(...rows.map(row => row.length))
+  const lines = rows.map(row => `| ${Array.from({ length: columnCount }, (_, i) => row[i] ?? '').join(' | ')} |`)
+  lines.splice(1, 0, `| ${Array.from({ length: columnCount }, () => '---').join(' | ')} |`)
+
+  return block(lines.join('\n'))
+}
+
+function renderList(list: ElementNode, context: RenderContext): string {
+  const ordered = list.name === 'ol'
+  const indent = '  '.repeat(context.listDepth)
+  const nestedContext = { ...context, listDepth: context.listDepth + 1 }
+  let index = 0
+
+  const items = list.children
+    .filter((child): child is ElementNode => child.type === 'element' && child.name === 'li')
+    .map(item => {
+      index += 1
+      const marker = ordered ? `${index}. ` : '- '
+      const [first, ...rest] = renderChildren(item.children, nestedContext).trim().split('\n')
+      return [`${indent}${marker}${first ?? ''}`, ...rest.filter(line => line.trim().length > 0)].join('\n')
+    })
+
+  return context.listDepth > 0 ? `\n${items.join('\n')}\n` : block(items.join('\n'))
+}
+
+function renderElement(node: ElementNode, context: RenderContext): string {
+  const { name, attrs } = node
+
+  if (SKIPPED_ELEMENTS.has(name)) return ''
+
+  if (context.inPre) {
+    if (name === 'br') return '\n'
+    const inner = renderChildren(node.children, context)
+    return name === 'div' || name === 'p' ? `${inner}\n` : inner
+  }
+
+  // Evernote 코드 블록은 스타일 속성이 붙은 div로 저장됨
+  if (name === 'pre' || (name === 'div' && /-en-codeblock\s*:\s*true/.test(attrs.style ?? ''))) {
+    const code = renderChildren(node.children, { ...context, inPre: true }).replace(/\n+$/, '')
+    return `\n\n\`\`\`\n${code}\n\`\`\`\n\n`
+  }
+
+  const headingMatch = /^h([1-6])$/.exec(name)
+  if (headingMatch) {
+    const inner = renderChildren(node.children, context).replace(/\s+/g, ' ').trim()
+    return inner ? `\n\n${'#'.repeat(Number(headingMatch[1]))} ${inner}\n\n` : ''
+  }
+
+  switch (name) {
+    case 'br':
+      return '\n'
+    case 'hr':
+      return '\n\n---\n\n'
+    case 'b':
+    case 'strong':
+      return wrapInline('**', renderChildren(node.children, context))
+    case 'i':
+    case 'em':
+      return wrapInline('_', renderChildren(node.children, context))
+    case 's':
+    case 'strike':
+    case 'del':
+      return wrapInline('~~', renderChildren(node.children, context))
+    case 'code':
+      return wrapInline('`', textContent(node))
+    case 'a': {
+      const text = renderChildren(node.children, context).trim()
+      const href = attrs.href ?? ''
+      if (!href) return text
+      return text && text !== href ? `[${text}](${href})` : `<${href}>`
+    }
+    case 'img':
+      return attrs.src ? `![${attrs.alt ?? ''}](${attrs.src})` : ''
+    case 'en-todo':
+      return `${context.listDepth === 0 ? '- ' : ''}[${attrs.checked === 'true' ? 'x' : ' '}] `
+    case 'en-media':
+      return '_(첨부 파일)_'
+    case 'en-crypt':
+      return '_(암호화된 내용)_'
+    case 'ul':
+    case 'ol':
+      return renderList(node, context)
+    case 'table':
+      return renderTable(node, context)
+    case 'blockquote': {
+      const inner = renderChildren(node.children, context).trim()
+      return block(inner.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n'))
+    }
+  }
+
+  const inner = renderChildren(node.children, context)
+  return PARAGRAPH_ELEMENTS.has(name) ? block(inner) : inner
+}
+
+function renderChildren(children: MarkupNode[], context: RenderContext): string {
+  return children
+    .map(child => {
+      if (child.type === 'element') return renderElement(child, context)
+      return context.inPre ? child.text : child.text.replace(/\s+/g, ' ')
+    })
+    .join('')
+}
+
+// ENML 문서를 마크다운으로 변환
+export function enmlToMarkdown(enml: string): string {
+  const root = parseMarkup(enml)
+
+  return renderChildren(root.children, { listDepth: 0, inPre: false })
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\s*\n/, '')
+    .trim()
+}
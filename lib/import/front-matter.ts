@@ -0,0 +1,133 @@
+// lib/import/front-matter.ts
+// 마크다운 YAML front matter 파서 (클라이언트/서버 공용)
+// 노트 가져오기에 필요한 YAML 부분집합(문자열, 목록, 블록 스칼라)만 해석하여 외부 의존성 없이 메타데이터를 추출
+// 관련 파일: lib/import/markdown.ts, lib/export/formats.ts
+
+export type FrontMatterValue = string | string[]
+
+export interface FrontMatterResult {
+  data: Record<string, FrontMatterValue>
+  body: string
+}
+
+const KEY_PATTERN = /^([A-Za-z0-9_-]+)\s*:(?:\s+(.*))?$/
+const LIST_ITEM_PATTERN = /^\s*-(?:\s+(.*))?$/
+const BLOCK_SCALAR_PATTERN = /^[|>][+-]?$/
+
+// 따옴표로 감싼 스칼라 값 해석
+export function parseYamlScalar(raw: string): string {
+  const value = raw.trim()
+
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return value.slice(1, -1)
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+
+  // 따옴표 없는 값의 행 끝 주석 제거
+  return value.replace(/\s+#.*$/, '')
+}
+
+// [a, "b, c"] 형태의 흐름 목록 해석 (따옴표 안의 쉼표는 구분자로 보지 않음)
+function parseFlowList(raw: string): string[] {
+  const inner = raw.trim().slice(1, -1)
+  const items: string[] = []
+  let current = ''
+  let quote: string | null = null
+
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i]
+    if (quote) {
+      if (char === '\\' && quote === '"' && i + 1 < inner.length) {
+        current += char + inner[++i]
+        continue
+      }
+      if (char === quote) quote = null
+      current += char
+    } else if (char === '"' || char === "'") {
+      quote = char
+      current += char
+    } else if (char === ',') {
+      items.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  items.push(current)
+
+  return items.map(parseYamlScalar).filter(item => item.length > 0)
+}
+
+// 들여쓰기된 블록 스칼라(| 또는 >) 해석
+function parseBlockScalar(indicator: string, lines: string[]): string {
+  const indents = lines
+    .filter(line => line.trim().length > 0)
+    .map(line => line.length - line.trimStart().length)
+  const indent = indents.length > 0 ? Math.min(...indents) : 0
+  const dedented = lines.map(line => line.slice(indent))
+
+  const text = indicator.startsWith('>')
+    ? dedented.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ')
+    : dedented.join('\n')
+
+  return text.replace(/\n+$/, '')
+}
+
+// 문서 앞의 --- 로 둘러싼 front matter와 본문을 분리
+export function parseFrontMatter(text: string): FrontMatterResult {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const lines = normalized.split('\n')
+
+  if (lines[0]?.trim() !== '---') {
+    return { data: {}, body: normalized }
+  }
+
+  const endIndex = lines.findIndex((line, index) => index > 0 && (line.trim() === '---' || line.trim() === '...'))
+  if (endIndex === -1) {
+    return { data: {}, body: normalized }
+  }
+
+  const data: Record<string, FrontMatterValue> = {}
+  const headerLines = lines.slice(1, endIndex)
+
+  for (let i = 0; i < headerLines.length; i++) {
+    const line = headerLines[i]
+    if (line.trim().length === 0 || line.trimStart().startsWith('#')) continue
+
+    const match = KEY_PATTERN.exec(line)
+    if (!match) continue
+
+    const key = match[1].toLowerCase()
+    const rawValue = (match[2] ?? '').trim()
+
+    // 다음 키가 나오기 전까지의 들여쓰기된 행 (값이 비어 있으면 들여쓰지 않은 "- 항목" 목록도 허용)
+    const nested: string[] = []
+    const isNestedLine = (next: string) =>
+      next.trim().length === 0 || /^\s/.test(next) || (rawValue.length === 0 && LIST_ITEM_PATTERN.test(next))
+    while (i + 1 < headerLines.length && isNestedLine(headerLines[i + 1])) {
+      nested.push(headerLines[++i])
+    }
+
+    if (BLOCK_SCALAR_PATTERN.test(rawValue)) {
+      data[key] = parseBlockScalar(rawValue, nested)
+    } else if (rawValue.startsWith('[') && rawValue.endsWith(']')) {
+      data[key] = parseFlowList(rawValue)
+    } else if (rawValue.length === 0 && nested.some(item => LIST_ITEM_PATTERN.test(item))) {
+      data[key] = nested
+        .map(item => LIST_ITEM_PATTERN.exec(item))
+        .filter((item): item is RegExpExecArray => item !== null)
+        .map(item => parseYamlScalar(item[1] ?? ''))
+        .filter(item => item.length > 0)
+    } else {
+      data[key] = parseYamlScalar(rawValue)
+    }
+  }
+
+  return { data, body: lines.slice(endIndex + 1).join('\n') }
+}
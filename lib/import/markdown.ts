@@ -0,0 +1,120 @@
+// lib/import/markdown.ts
+// 마크다운 파일을 노트로 변환하는 유틸리티 (클라이언트/서버 공용)
+// front matter의 제목·태그·작성일을 읽고, 없으면 첫 제목이나 파일명으로 대신하며 요청 크기에 맞게 파일을 나눔
+// 관련 파일: lib/import/front-matter.ts, lib/import/actions.ts, hooks/use-notes-import.ts
+
+import { parseFrontMatter, type FrontMatterValue } from './front-matter'
+import type { ImportFileInput, ParsedImportNote } from './types'
+
+// 파일 하나의 최대 글자 수 (서버 액션 요청 크기 제한 고려)
+export const MAX_IMPORT_FILE_LENGTH = 200_000
+// 요청 하나에 담을 최대 파일 수와 글자 수
+export const IMPORT_BATCH_SIZE = 20
+export const IMPORT_BATCH_MAX_LENGTH = 250_000
+
+// 노트 하나에 저장할 수 있는 태그 규칙 (note_tags.tag varchar(50), 최대 6개)
+const MAX_TAGS_PER_NOTE = 6
+const MAX_TAG_LENGTH = 50
+
+const MARKDOWN_EXTENSION_PATTERN = /\.(md|markdown)$/i
+
+// 가져올 수 있는 마크다운 파일인지 확인 (macOS 메타데이터와 숨김 파일 제외)
+export function isMarkdownFileName(path: string): boolean {
+  const segments = path.split('/')
+  const name = segments[segments.length - 1]
+  return MARKDOWN_EXTENSION_PATTERN.test(name)
+    && !name.startsWith('.')
+    && !segments.includes('__MACOSX')
+}
+
+function firstValue(data: Record<string, FrontMatterValue>, keys: string[]): FrontMatterValue | undefined {
+  for (const key of keys) {
+    if (data[key] !== undefined && data[key] !== '') return data[key]
+  }
+  return undefined
+}
+
+function parseDateValue(value: FrontMatterValue | undefined): Date | null {
+  if (typeof value !== 'string') return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// 태그 정리: "#" 제거, 공백 정리, 중복 제거, 길이/개수 제한
+export function normalizeImportTags(value: FrontMatterValue | undefined): string[] {
+  if (value === undefined) return []
+
+  const rawTags = Array.isArray(value) ? value : value.split(/[,\s]+/)
+  const tags = rawTags
+    .map(tag => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH).trim())
+    .filter(tag => tag.length > 0)
+
+  return [...new Set(tags)].slice(0, MAX_TAGS_PER_NOTE)
+}
+
+// 파일 경로에서 확장자를 뺀 파일명
+function titleFromFileName(fileName: string): string {
+  const name = fileName.split('/').pop() ?? fileName
+  return name.replace(MARKDOWN_EXTENSION_PATTERN, '').trim()
+}
+
+// 마크다운 파일 하나를 노트 데이터로 변환
+export function parseMarkdownNote(fileName: string, text: string): ParsedImportNote {
+  const { data, body } = parseFrontMatter(text)
+  const content = body.replace(/^\s*\n/, '').trimEnd()
+
+  const frontMatterTitle = firstValue(data, ['title'])
+  const headingTitle = /^#\s+(.+?)\s*#*\s*$/m.exec(content)?.[1]
+  const title = (typeof frontMatterTitle === 'string' ? frontMatterTitle.trim() : '')
+    || headingTitle
+    || titleFromFileName(fileName)
+    || '제목 없음'
+
+  const createdAt = parseDateValue(firstValue(data, ['created_at', 'created', 'date']))
+  const updatedAt = parseDateValue(firstValue(data, ['updated_at', 'updated', 'modified'])) ?? createdAt
+
+  return {
+    title,
+    content,
+    tags: normalizeImportTags(firstValue(data, ['tags', 'tag'])),
+    createdAt,
+    updatedAt
+  }
+}
+
+// 다른 형식(ENEX, Notion)에서 변환한 노트를 front matter가 포함된 마크다운으로 직렬화
+// (서버에서 parseMarkdownNote로 다시 읽어 일반 마크다운 파일과 같은 경로로 저장)
+export function buildImportMarkdown(note: ParsedImportNote): string {
+  const frontMatter = [
+    note.title ? `title: ${JSON.stringify(note.title)}` : null,
+    `tags: [${note.tags.map(tag => JSON.stringify(tag)).join(', ')}]`,
+    note.createdAt ? `created_at: ${JSON.stringify(note.createdAt.toISOString())}` : null,
+    note.updatedAt ? `updated_at: ${JSON.stringify(note.updatedAt.toISOString())}` : null
+  ].filter((line): line is string => line !== null)
+
+  return `---\n${frontMatter.join('\n')}\n---\n\n${note.content}\n`
+}
+
+// 서버 액션 요청 하나가 너무 커지지 않도록 파일 수와 글자 수 기준으로 나눔
+export function chunkImportFiles(
+  files: ImportFileInput[],
+  maxCount: number = IMPORT_BATCH_SIZE,
+  maxLength: number = IMPORT_BATCH_MAX_LENGTH
+): ImportFileInput[][] {
+  const batches: ImportFileInput[][] = []
+  let current: ImportFileInput[] = []
+  let currentLength = 0
+
+  for (const file of files) {
+    if (current.length > 0 && (current.length >= maxCount || currentLength + file.content.length > maxLength)) {
+      batches.push(current)
+      current = []
+      currentLength = 0
+    }
+    current.push(file)
+    currentLength += file.content.length
+  }
+  if (current.length > 0) batches.push(current)
+
+  return batches
+}
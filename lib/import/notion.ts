@@ -0,0 +1,198 @@
+// lib/import/notion.ts
+// Notion "Markdown & CSV" 내보내기 변환기 (클라이언트/서버 공용)
+// 페이지 마크다운의 제목·속성 줄과 데이터베이스 CSV의 태그·작성일을 합쳐 가져오기용 마크다운 파일로 변환
+// 관련 파일: lib/import/archive.ts, lib/import/markdown.ts, hooks/use-notes-import.ts
+
+import { buildImportMarkdown, isMarkdownFileName, normalizeImportTags } from './markdown'
+import type { ImportFileInput, ParsedImportNote } from './types'
+
+// Notion 내보내기 파일명 끝의 페이지 ID (예: "회의록 0123456789abcdef0123456789abcdef.md")
+const NOTION_ID_PATTERN = /\s+[0-9a-f]{32}(?:_all)?$/i
+const PROPERTY_LINE_PATTERN = /^([^:\n]{1,40}):\s+(.*)$/
+
+const TAG_PROPERTIES = new Set(['tags', 'tag', 'labels', 'keywords', '태그', '키워드'])
+const CREATED_PROPERTIES = new Set(['created', 'created time', 'created at', 'date created', 'date', '생성 일시', '생성일', '날짜'])
+const UPDATED_PROPERTIES = new Set(['last edited time', 'last edited', 'updated', 'updated at', '최종 편집 일시', '수정일'])
+
+interface NotionRowProperties {
+  tags: string[]
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+const baseName = (path: string) => path.split('/').pop() ?? path
+const dirName = (path: string) => path.split('/').slice(0, -1).join('/')
+const withoutExtension = (name: string) => name.replace(/\.(md|markdown|csv)$/i, '')
+
+// Notion 페이지 ID를 뺀 이름
+export function stripNotionId(name: string): string {
+  return name.replace(NOTION_ID_PATTERN, '').trim()
+}
+
+// 압축 파일이 Notion 내보내기인지 확인 (페이지 ID가 붙은 파일명)
+export function isNotionExport(paths: string[]): boolean {
+  return paths.some(path => NOTION_ID_PATTERN.test(withoutExtension(baseName(path))))
+}
+
+// Notion 날짜 속성 해석 ("January 5, 2024 3:04 PM", "2024년 1월 5일 오후 3:04", 범위는 시작 날짜만)
+export function parseNotionDate(value: string): Date | null {
+  const korean = /(\d{4})년\s*(\d{1,2})월\s*(\d{1,2})일(?:\s*(오전|오후)\s*(\d{1,2}):(\d{2}))?/.exec(value)
+  if (korean) {
+    let hour = Number(korean[5] ?? 0)
+    if (korean[4] === '오후' && hour < 12) hour += 12
+    if (korean[4] === '오전' && hour === 12) hour = 0
+    return new Date(Number(korean[1]), Number(korean[2]) - 1, Number(korean[3]), hour, Number(korean[6] ?? 0))
+  }
+
+  const start = value.split('→')[0].trim()
+  if (!start) return null
+  const date = new Date(start)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// RFC 4180 CSV 파서 (따옴표 안의 쉼표·줄바꿈 지원)
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim().length > 0))
+}
+
+function findColumn(header: string[], names: Set<string>): number {
+  return header.findIndex(column => names.has(column.trim().toLowerCase()))
+}
+
+// 데이터베이스 CSV의 행 속성 (키: "행 페이지가 들어 있는 폴더/제목")
+function collectDatabaseRows(entries: Record<string, string>): Map<string, NotionRowProperties> {
+  const rowsByPage = new Map<string, NotionRowProperties>()
+
+  for (const [path, text] of Object.entries(entries)) {
+    if (!/\.csv$/i.test(path)) continue
+
+    const [header, ...rows] = parseCSV(text)
+    if (!header) continue
+
+    const tagColumn = findColumn(header, TAG_PROPERTIES)
+    const createdColumn = findColumn(header, CREATED_PROPERTIES)
+    const updatedColumn = findColumn(header, UPDATED_PROPERTIES)
+    // 행 페이지는 CSV와 같은 이름의 폴더에 저장됨 ("_all" 접미사는 전체 보기 CSV)
+    const pageDir = [dirName(path), withoutExtension(baseName(path)).replace(/_all$/i, '')].filter(Boolean).join('/')
+
+    for (const row of rows) {
+      const title = (row[0] ?? '').trim()
+      if (!title) continue
+      rowsByPage.set(`${pageDir}/${title}`, {
+        tags: tagColumn >= 0 ? normalizeImportTags((row[tagColumn] ?? '').split(',')) : [],
+        createdAt: createdColumn >= 0 ? parseNotionDate(row[createdColumn] ?? '') : null,
+        updatedAt: updatedColumn >= 0 ? parseNotionDate(row[updatedColumn] ?? '') : null
+      })
+    }
+  }
+
+  return rowsByPage
+}
+
+// 내보내기 안의 다른 페이지·첨부 파일을 가리키는 상대 링크 정리
+function cleanRelativeLinks(content: string): string {
+  return content
+    .replace(/!\[[^\]]*\]\((?!https?:)[^)]+\)/g, '_(첨부 파일)_')
+    .replace(/\[([^\]]+)\]\((?!https?:|mailto:)[^)]+\.(?:md|csv)\)/g, '$1')
+}
+
+// Notion 페이지 마크다운 하나를 노트 데이터로 변환
+export function parseNotionPage(path: string, text: string, row?: NotionRowProperties): ParsedImportNote {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n')
+  let title = stripNotionId(withoutExtension(baseName(path)))
+  let index = 0
+
+  // 첫 줄의 "# 제목"은 페이지 제목
+  if (/^#\s+/.test(lines[0] ?? '')) {
+    title = lines[0].replace(/^#\s+/, '').trim() || title
+    index = 1
+  }
+  while (index < lines.length && lines[index].trim() === '') index++
+
+  // 제목 아래의 "속성: 값" 줄 (데이터베이스 행 페이지)
+  const propertyLines: Array<{ key: string; value: string; line: string }> = []
+  let end = index
+  while (end < lines.length && PROPERTY_LINE_PATTERN.test(lines[end])) {
+    const [, key, value] = PROPERTY_LINE_PATTERN.exec(lines[end])!
+    propertyLines.push({ key: key.trim().toLowerCase(), value: value.trim(), line: lines[end] })
+    end++
+  }
+
+  const isKnownProperty = (key: string) =>
+    TAG_PROPERTIES.has(key) || CREATED_PROPERTIES.has(key) || UPDATED_PROPERTIES.has(key)
+  const hasPropertyBlock = propertyLines.some(property => isKnownProperty(property.key))
+  const property = (names: Set<string>) => propertyLines.find(item => names.has(item.key))?.value
+
+  // 알 수 있는 속성만 노트 메타데이터로 옮기고 나머지 속성 줄은 본문에 남김
+  const remainingLines = hasPropertyBlock
+    ? propertyLines.filter(item => !isKnownProperty(item.key)).map(item => item.line)
+    : propertyLines.map(item => item.line)
+  const content = cleanRelativeLinks([...remainingLines, ...lines.slice(end)].join('\n').trim())
+
+  const tagValue = hasPropertyBlock ? property(TAG_PROPERTIES) : undefined
+  const createdValue = hasPropertyBlock ? property(CREATED_PROPERTIES) : undefined
+  const updatedValue = hasPropertyBlock ? property(UPDATED_PROPERTIES) : undefined
+  const createdAt = row?.createdAt ?? (createdValue ? parseNotionDate(createdValue) : null)
+
+  return {
+    title,
+    content,
+    tags: row && row.tags.length > 0 ? row.tags : normalizeImportTags(tagValue?.split(',')),
+    createdAt,
+    updatedAt: row?.updatedAt ?? (updatedValue ? parseNotionDate(updatedValue) : null) ?? createdAt
+  }
+}
+
+// Notion 내보내기 압축 파일의 페이지를 가져오기 파일로 변환 (경로 → 파일 내용)
+export function convertNotionExport(archiveName: string, entries: Record<string, string>): ImportFileInput[] {
+  const rowsByPage = collectDatabaseRows(entries)
+
+  return Object.keys(entries)
+    .filter(isMarkdownFileName)
+    .sort((a, b) => a.localeCompare(b))
+    .map(path => {
+      const firstLine = entries[path].replace(/^\uFEFF/, '').split('\n', 1)[0]
+      const headingTitle = /^#\s+(.+)$/.exec(firstLine)?.[1].trim()
+      const lookupTitle = headingTitle || stripNotionId(withoutExtension(baseName(path)))
+      const note = parseNotionPage(path, entries[path], rowsByPage.get(`${dirName(path)}/${lookupTitle}`))
+
+      return { fileName: `${archiveName}/${path}`, content: buildImportMarkdown(note) }
+    })
+}
@@ -0,0 +1,34 @@
+// lib/import/types.ts
+// 노트 가져오기 관련 타입 정의
+// 클라이언트가 읽은 파일, 파싱된 노트, 파일별 가져오기 결과의 형태를 서버 액션과 공유
+// 관련 파일: lib/import/actions.ts, lib/import/markdown.ts, hooks/use-notes-import.ts
+
+// 브라우저에서 읽은 가져오기 대상 파일 (ZIP 내부 파일은 "압축파일명/경로" 형태의 이름)
+export interface ImportFileInput {
+  fileName: string
+  content: string
+}
+
+// 파일에서 추출한 노트 데이터
+export interface ParsedImportNote {
+  title: string
+  content: string
+  tags: string[]
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+// imported: 새 노트 생성, duplicate: 같은 내용의 노트가 이미 있음, failed: 읽기/저장 실패
+export type ImportFileStatus = 'imported' | 'duplicate' | 'failed'
+
+export interface ImportFileResult {
+  fileName: string
+  status: ImportFileStatus
+  title?: string
+  noteId?: string // imported: 생성된 노트, duplicate: 이미 있는 노트
+  error?: string
+}
+
+export interface ImportNotesResult {
+  results: ImportFileResult[]
+}
@@ -0,0 +1,254 @@
+// lib/notebooks/actions.ts
+// 노트북 관련 Server Actions
+// 노트북 트리 조회, 생성, 이름 변경, 이동(중첩), 노트를 노트북으로 이동, 노트북 삭제(안의 노트는 미분류 또는 휴지통으로) 기능을 제공
+// 관련 파일: lib/notebooks/query.ts, lib/notebooks/tree.ts, lib/db/schema/notebooks.ts, components/notebooks/notebook-sidebar.tsx
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { notes, notebooks, type Notebook } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { and, eq, inArray, isNull } from 'drizzle-orm'
+import { getNotebookTreeData } from './query'
+import {
+  canMoveNotebook,
+  getNotebookSubtreeIds,
+  isNotebookDeleteMode,
+  normalizeNotebookName,
+  type NotebookDeleteMode,
+  type NotebookTreeData
+} from './tree'
+
+const KNOWN_ERRORS = ['NOT_FOUND', 'FORBIDDEN', 'INVALID_NAME', 'INVALID_MOVE', 'INVALID_MODE']
+
+// 사용자 인증 확인
+async function getAuthenticatedUser() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('인증이 필요합니다.')
+  }
+
+  return user
+}
+
+// 사용자 소유 노트북 조회 및 권한 검증
+async function getOwnedNotebook(notebookId: string, userId: string): Promise<Notebook> {
+  const [notebook] = await db
+    .select()
+    .from(notebooks)
+    .where(eq(notebooks.id, notebookId))
+    .limit(1)
+
+  if (!notebook) {
+    throw new Error('NOT_FOUND')
+  }
+
+  if (notebook.userId !== userId) {
+    throw new Error('FORBIDDEN')
+  }
+
+  return notebook
+}
+
+function rethrowKnownError(error: unknown, fallbackMessage: string): never {
+  if (error instanceof Error && KNOWN_ERRORS.includes(error.message)) {
+    throw error
+  }
+
+  throw new Error(fallbackMessage)
+}
+
+// 사이드바용 노트북 목록 조회
+export async function getNotebookTree(): Promise<NotebookTreeData> {
+  try {
+    const user = await getAuthenticatedUser()
+    return await getNotebookTreeData(user.id)
+  } catch (error) {
+    console.error('노트북 조회 오류:', error)
+    throw new Error('노트북을 불러올 수 없습니다.')
+  }
+}
+
+// 노트북 생성 (parentId가 있으면 그 노트북의 하위 노트북으로 생성)
+export async function createNotebook(data: { name: string; parentId?: string | null }) {
+  try {
+    const user = await getAuthenticatedUser()
+
+    const name = normalizeNotebookName(data.name)
+    if (!name) {
+      throw new Error('INVALID_NAME')
+    }
+
+    if (data.parentId) {
+      await getOwnedNotebook(data.parentId, user.id)
+    }
+
+    const [notebook] = await db
+      .insert(notebooks)
+      .values({ userId: user.id, parentId: data.parentId ?? null, name })
+      .returning()
+
+    // 캐시 무효화
+    revalidatePath('/notes')
+
+    return notebook
+  } catch (error) {
+    console.error('노트북 생성 오류:', error)
+    rethrowKnownError(error, '노트북을 만들 수 없습니다.')
+  }
+}
+
+// 노트북 이름 변경
+export async function renameNotebook(notebookId: string, newName: string) {
+  try {
+    const user = await getAuthenticatedUser()
+    await getOwnedNotebook(notebookId, user.id)
+
+    const name = normalizeNotebookName(newName)
+    if (!name) {
+      throw new Error('INVALID_NAME')
+    }
+
+    const [notebook] = await db
+      .update(notebooks)
+      .set({ name, updatedAt: new Date() })
+      .where(eq(notebooks.id, notebookId))
+      .returning()
+
+    // 캐시 무효화
+    revalidatePath('/notes')
+
+    return notebook
+  } catch (error) {
+    console.error('노트북 이름 변경 오류:', error)
+    rethrowKnownError(error, '노트북 이름을 바꿀 수 없습니다.')
+  }
+}
+
+// 노트북을 다른 노트북 아래(또는 최상위)로 이동
+export async function moveNotebook(notebookId: string, parentId: string | null) {
+  try {
+    const user = await getAuthenticatedUser()
+    await getOwnedNotebook(notebookId, user.id)
+
+    if (parentId) {
+      await getOwnedNotebook(parentId, user.id)
+    }
+
+    // 자기 자신이나 하위 노트북 아래로 옮기면 순환이 생기므로 거부
+    const userNotebooks = await db
+      .select({ id: notebooks.id, parentId: notebooks.parentId })
+      .from(notebooks)
+      .where(eq(notebooks.userId, user.id))
+
+    if (!canMoveNotebook(userNotebooks, notebookId, parentId)) {
+      throw new Error('INVALID_MOVE')
+    }
+
+    const [notebook] = await db
+      .update(notebooks)
+      .set({ parentId, updatedAt: new Date() })
+      .where(eq(notebooks.id, notebookId))
+      .returning()
+
+    // 캐시 무효화
+    revalidatePath('/notes')
+
+    return notebook
+  } catch (error) {
+    console.error('노트북 이동 오류:', error)
+    rethrowKnownError(error, '노트북을 옮길 수 없습니다.')
+  }
+}
+
+// 노트를 노트북으로 이동 (notebookId가 null이면 미분류로 이동)
+export async function moveNoteToNotebook(noteId: string, notebookId: string | null) {
+  try {
+    const user = await getAuthenticatedUser()
+
+    const [existingNote] = await db
+      .select({ id: notes.id, userId: notes.userId, deletedAt: notes.deletedAt })
+      .from(notes)
+      .where(eq(notes.id, noteId))
+      .limit(1)
+
+    if (!existingNote || existingNote.deletedAt) {
+      throw new Error('NOT_FOUND')
+    }
+
+    if (existingNote.userId !== user.id) {
+      throw new Error('FORBIDDEN')
+    }
+
+    if (notebookId) {
+      await getOwnedNotebook(notebookId, user.id)
+    }
+
+    // 노트 정리 위치만 바뀌므로 수정일(updatedAt)은 유지
+    await db
+      .update(notes)
+      .set({ notebookId })
+      .where(eq(notes.id, noteId))
+
+    // 캐시 무효화
+    revalidatePath('/notes')
+    revalidatePath(`/notes/${noteId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('노트 이동 오류:', error)
+    rethrowKnownError(error, '노트를 옮길 수 없습니다.')
+  }
+}
+
+// 노트북 삭제 (하위 노트북 포함)
+// - inbox: 안에 있던 노트를 미분류로 이동
+// - trash: 안에 있던 노트를 휴지통으로 이동 (복원하면 미분류로 돌아옴)
+export async function deleteNotebook(notebookId: string, mode: NotebookDeleteMode) {
+  try {
+    const user = await getAuthenticatedUser()
+
+    // 알 수 없는 방식이면 노트를 옮기지 않고 거부
+    if (!isNotebookDeleteMode(mode)) {
+      throw new Error('INVALID_MODE')
+    }
+
+    await getOwnedNotebook(notebookId, user.id)
+
+    const userNotebooks = await db
+      .select({ id: notebooks.id, parentId: notebooks.parentId })
+      .from(notebooks)
+      .where(eq(notebooks.userId, user.id))
+
+    const subtreeIds = getNotebookSubtreeIds(userNotebooks, notebookId)
+
+    const movedCount = await db.transaction(async (tx) => {
+      const moved = await tx
+        .update(notes)
+        .set(mode === 'trash' ? { notebookId: null, deletedAt: new Date() } : { notebookId: null })
+        .where(and(eq(notes.userId, user.id), inArray(notes.notebookId, subtreeIds), isNull(notes.deletedAt)))
+        .returning({ id: notes.id })
+
+      // 하위 노트북은 외래 키(on delete cascade)로 함께 삭제되고, 휴지통에 있던 노트는 연결만 해제됨(on delete set null)
+      await tx
+        .delete(notebooks)
+        .where(eq(notebooks.id, notebookId))
+
+      return moved.length
+    })
+
+    // 캐시 무효화
+    revalidatePath('/notes')
+    if (mode === 'trash') {
+      revalidatePath('/notes/trash')
+    }
+
+    return { success: true, movedCount }
+  } catch (error) {
+    console.error('노트북 삭제 오류:', error)
+    rethrowKnownError(error, '노트북을 삭제할 수 없습니다.')
+  }
+}
@@ -0,0 +1,53 @@
+// lib/notebooks/query.ts
+// 노트북 범위 필터 조건과 노트북 목록 집계 쿼리
+// 노트 목록을 노트북(하위 노트북 포함)이나 미분류로 제한하는 조건과, 사이드바용 노트북별 노트 수를 계산
+// 관련 파일: lib/notebooks/actions.ts, lib/notes/actions.ts, lib/db/schema/notebooks.ts, lib/notebooks/tree.ts
+
+import { db } from '@/lib/db/connection'
+import { notes } from '@/lib/db/schema/notes'
+import { notebooks } from '@/lib/db/schema/notebooks'
+import { and, asc, eq, isNull, sql, SQL } from 'drizzle-orm'
+import type { NotebookScope, NotebookTreeData } from './tree'
+
+// 노트북 범위 조건
+// - undefined: 제한 없음
+// - null: 노트북에 속하지 않은 노트 (미분류)
+// - 노트북 ID: 해당 노트북과 모든 하위 노트북의 노트 (다른 사용자의 노트북이면 결과 없음)
+export function buildNotebookScopeCondition(userId: string, scope: NotebookScope): SQL | undefined {
+  if (scope === undefined) return undefined
+  if (scope === null) return isNull(notes.notebookId)
+
+  return sql`${notes.notebookId} in (
+    with recursive subtree(id) as (
+      select id from ${notebooks} where id = ${scope} and user_id = ${userId}
+      union all
+      select child.id from ${notebooks} child join subtree on child.parent_id = subtree.id
+    )
+    select id from subtree
+  )`
+}
+
+// 사용자의 노트북 목록과 노트북별(휴지통 제외) 노트 수, 미분류 노트 수
+export async function getNotebookTreeData(userId: string): Promise<NotebookTreeData> {
+  const activeNoteCondition = and(eq(notes.userId, userId), isNull(notes.deletedAt))
+
+  const [rows, countRows] = await Promise.all([
+    db
+      .select({ id: notebooks.id, parentId: notebooks.parentId, name: notebooks.name })
+      .from(notebooks)
+      .where(eq(notebooks.userId, userId))
+      .orderBy(asc(notebooks.name)),
+    db
+      .select({ notebookId: notes.notebookId, count: sql<number>`count(*)::int` })
+      .from(notes)
+      .where(activeNoteCondition)
+      .groupBy(notes.notebookId)
+  ])
+
+  const countByNotebook = new Map(countRows.map(row => [row.notebookId, Number(row.count)]))
+
+  return {
+    notebooks: rows.map(row => ({ ...row, noteCount: countByNotebook.get(row.id) ?? 0 })),
+    inboxCount: countByNotebook.get(null) ?? 0
+  }
+}
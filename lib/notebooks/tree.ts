@@ -0,0 +1,144 @@
+// lib/notebooks/tree.ts
+// 노트북 트리 구성 및 이동 검증 유틸리티
+// 평면 노트북 목록을 사이드바용 트리로 만들고, 하위 노트북 탐색과 순환 이동 방지, 노트 목록 URL 파라미터 처리를 담당
+// 관련 파일: lib/notebooks/actions.ts, components/notebooks/notebook-sidebar.tsx, app/notes/page.tsx
+
+// 노트북 이름 최대 길이 (notebooks.name 컬럼과 동일)
+export const MAX_NOTEBOOK_NAME_LENGTH = 100
+
+// ?notebook=inbox 는 노트북에 속하지 않은 노트
+export const INBOX_NOTEBOOK_PARAM = 'inbox'
+
+// 사이드바 드래그 앤 드롭 데이터 형식 (노트 카드 → 노트북, 노트북 → 다른 노트북)
+export const NOTE_DRAG_TYPE = 'application/x-note-id'
+export const NOTEBOOK_DRAG_TYPE = 'application/x-notebook-id'
+
+// 노트북 삭제 시 안에 있던 노트 처리 방식 (미분류로 이동 또는 휴지통으로 이동)
+export type NotebookDeleteMode = 'inbox' | 'trash'
+
+const NOTEBOOK_DELETE_MODES: NotebookDeleteMode[] = ['inbox', 'trash']
+
+// 노트 목록의 노트북 범위 (undefined: 전체, null: 미분류, string: 노트북과 하위 노트북)
+export type NotebookScope = string | null | undefined
+
+export interface NotebookSummary {
+  id: string
+  parentId: string | null
+  name: string
+  noteCount: number // 이 노트북에 직접 속한 노트 수 (하위 노트북 제외)
+}
+
+export interface NotebookNode extends NotebookSummary {
+  depth: number
+  totalNoteCount: number // 하위 노트북을 포함한 노트 수
+  children: NotebookNode[]
+}
+
+export interface NotebookTreeData {
+  notebooks: NotebookSummary[]
+  inboxCount: number
+}
+
+// 평면 목록을 이름순 트리로 변환 (부모를 찾을 수 없는 노트북은 최상위로 표시)
+export function buildNotebookTree(notebooks: NotebookSummary[]): NotebookNode[] {
+  const ids = new Set(notebooks.map(notebook => notebook.id))
+  const childrenByParent = new Map<string | null, NotebookSummary[]>()
+
+  for (const notebook of notebooks) {
+    const parentId = notebook.parentId && ids.has(notebook.parentId) ? notebook.parentId : null
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), notebook])
+  }
+
+  const build = (parentId: string | null, depth: number, visited: Set<string>): NotebookNode[] =>
+    (childrenByParent.get(parentId) ?? [])
+      .filter(notebook => !visited.has(notebook.id))
+      .sort((a, b) => a.name.localeCompare(b.name, 'ko'))
+      .map(notebook => {
+        const children = build(notebook.id, depth + 1, new Set(visited).add(notebook.id))
+        return {
+          ...notebook,
+          depth,
+          totalNoteCount: notebook.noteCount + children.reduce((sum, child) => sum + child.totalNoteCount, 0),
+          children
+        }
+      })
+
+  return build(null, 0, new Set())
+}
+
+// 노트북과 모든 하위 노트북 ID (자기 자신 포함)
+export function getNotebookSubtreeIds(notebooks: Pick<NotebookSummary, 'id' | 'parentId'>[], notebookId: string): string[] {
+  const result = [notebookId]
+  const visited = new Set(result)
+
+  for (let index = 0; index < result.length; index++) {
+    for (const notebook of notebooks) {
+      if (notebook.parentId === result[index] && !visited.has(notebook.id)) {
+        visited.add(notebook.id)
+        result.push(notebook.id)
+      }
+    }
+  }
+
+  return result
+}
+
+// 노트북을 새 부모 아래로 옮길 수 있는지 확인 (자기 자신이나 하위 노트북 아래로는 이동 불가)
+export function canMoveNotebook(
+  notebooks: Pick<NotebookSummary, 'id' | 'parentId'>[],
+  notebookId: string,
+  newParentId: string | null
+): boolean {
+  if (newParentId === null) return true
+  return !getNotebookSubtreeIds(notebooks, notebookId).includes(newParentId)
+}
+
+// 최상위부터 해당 노트북까지의 경로 (헤더 경로 표시용)
+export function getNotebookPath<T extends Pick<NotebookSummary, 'id' | 'parentId'>>(notebooks: T[], notebookId: string): T[] {
+  const byId = new Map(notebooks.map(notebook => [notebook.id, notebook]))
+  const path: T[] = []
+  let current = byId.get(notebookId)
+
+  while (current && !path.includes(current)) {
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+
+  return path
+}
+
+// 노트북 이름 정리 (앞뒤 공백 제거, 비어 있거나 너무 길면 null)
+export function normalizeNotebookName(name: string): string | null {
+  const trimmed = name.trim()
+  return trimmed.length > 0 && trimmed.length <= MAX_NOTEBOOK_NAME_LENGTH ? trimmed : null
+}
+
+// 클라이언트에서 받은 노트북 삭제 방식이 허용된 값인지 확인
+export function isNotebookDeleteMode(value: unknown): value is NotebookDeleteMode {
+  return NOTEBOOK_DELETE_MODES.some(mode => mode === value)
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// ?notebook 파라미터를 노트 목록 범위로 변환 (형식이 잘못된 값은 전체로 취급)
+export function parseNotebookParam(param?: string | null): NotebookScope {
+  if (!param) return undefined
+  if (param === INBOX_NOTEBOOK_PARAM) return null
+  return UUID_PATTERN.test(param) ? param : undefined
+}
+
+// 현재 URL 파라미터에 노트북 범위를 적용한 새 파라미터 생성
+export function buildNotebookFilterParams(current: URLSearchParams, scope: NotebookScope): URLSearchParams {
+  const params = new URLSearchParams(current)
+
+  if (scope === undefined) {
+    params.delete('notebook')
+  } else {
+    params.set('notebook', scope ?? INBOX_NOTEBOOK_PARAM)
+  }
+
+  // 범위 변경 시 첫 페이지로 이동
+  params.set('page', '1')
+
+  return params
+}
@@ -6,12 +6,32 @@
 'use server'
 
 import { db } from '@/lib/db/connection'
-import { notes, insertNoteSchema, summaries, noteTags } from '@/lib/db/schema'
+import { notes, noteColumns, insertNoteSchema, summaries, noteTags, notebooks } from '@/lib/db/schema'
 import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
-import { eq, desc, sql, ilike, and, or } from 'drizzle-orm'
+import { eq, desc, sql, and, isNull } from 'drizzle-orm'
+import { recordNoteRevision } from './revisions'
+import { scheduleNoteEmbedding } from './embeddings'
+import { scheduleAIJobDrain } from '@/lib/ai/job-worker'
+import { refreshNoteLinks } from './links'
+import { buildSearchCondition, buildRankExpression, buildHighlightSnippet } from './search'
+import { buildTagFilterCondition, getTagFacets, getTagsForNotes } from './tag-query'
+import type { NoteSortBy, NoteSearchResult } from './types'
+import type { TagMatchMode } from './tag-params'
+import { buildNotebookScopeCondition } from '@/lib/notebooks/query'
+import type { NotebookScope } from '@/lib/notebooks/tree'
+
+// 임베딩은 백그라운드 작업으로 계산 (예약 실패가 노트 저장을 막지 않도록 오류는 기록만 함)
+async function refreshNoteEmbedding(note: { id: string; userId: string }) {
+  try {
+    const job = await scheduleNoteEmbedding(note)
+    scheduleAIJobDrain(job.runAfter)
+  } catch (error) {
+    console.error('노트 임베딩 예약 오류:', error)
+  }
+}
 
-export async function createNote(data: { title: string; content: string }) {
+export async function createNote(data: { title: string; content: string; notebookId?: string | null }) {
   try {
     console.log('노트 생성 시작:', data)
     
@@ -25,20 +45,43 @@ export async function createNote(data: { title: string; content: string }) {
       throw new Error('인증이 필요합니다.')
     }
 
+    // 노트북에 만드는 경우 노트북 소유권 확인
+    if (data.notebookId) {
+      const [notebook] = await db
+        .select({ id: notebooks.id })
+        .from(notebooks)
+        .where(and(eq(notebooks.id, data.notebookId), eq(notebooks.userId, user.id)))
+        .limit(1)
+
+      if (!notebook) {
+        throw new Error('노트북을 찾을 수 없습니다.')
+      }
+    }
+
     // 데이터 검증
     const validatedData = insertNoteSchema.parse({
       title: data.title || '제목 없음',
       content: data.content || '',
-      userId: user.id
+      userId: user.id,
+      notebookId: data.notebookId ?? null
     })
 
     console.log('검증된 데이터:', validatedData)
 
     // 노트 생성
     console.log('데이터베이스에 노트 저장 시도...')
-    const [newNote] = await db.insert(notes).values(validatedData).returning()
+    const [newNote] = await db.insert(notes).values(validatedData).returning(noteColumns)
     console.log('노트 저장 성공:', newNote)
 
+    // 최초 버전 기록
+    await recordNoteRevision(newNote)
+
+    // 관련 노트 검색용 임베딩 계산
+    await refreshNoteEmbedding(newNote)
+
+    // 본문의 [[노트 제목]] 링크 저장 (이 제목을 먼저 링크해 둔 다른 노트도 연결)
+    await refreshNoteLinks(newNote, { created: true })
+
     // 캐시 무효화
     revalidatePath('/notes')
     
@@ -66,9 +109,9 @@ export async function getNotes() {
 
     // 사용자의 노트 조회
     const userNotes = await db
-      .select()
+      .select(noteColumns)
       .from(notes)
-      .where(eq(notes.userId, user.id))
+      .where(and(eq(notes.userId, user.id), isNull(notes.deletedAt)))
       .orderBy(desc(notes.updatedAt))
 
     return userNotes
@@ -109,20 +152,23 @@ export async function getNotesPaginated({
     
     const orderBy = sortOrder === 'asc' ? orderByColumn : desc(orderByColumn)
 
+    // 휴지통에 있는 노트는 제외
+    const activeNotesCondition = and(eq(notes.userId, user.id), isNull(notes.deletedAt))
+
     // 전체 노트 수 조회 (페이지네이션용)
     const [totalCountResult] = await db
       .select({ count: sql<number>`count(*)` })
       .from(notes)
-      .where(eq(notes.userId, user.id))
+      .where(activeNotesCondition)
 
     const totalCount = totalCountResult?.count || 0
     const totalPages = Math.ceil(totalCount / limit)
 
     // 페이지네이션된 노트 조회
     const userNotes = await db
-      .select()
+      .select(noteColumns)
       .from(notes)
-      .where(eq(notes.userId, user.id))
+      .where(activeNotesCondition)
       .orderBy(orderBy)
       .limit(limit)
       .offset(offset)
@@ -150,13 +196,21 @@ export async function getNotesWithSearchAndSort({
   limit = 10,
   search = '',
   sortBy = 'created_at',
-  sortOrder = 'desc'
+  sortOrder = 'desc',
+  tags = [],
+  tagMode = 'any',
+  notebookId,
+  favoritesOnly = false
 }: {
   page?: number
   limit?: number
   search?: string
-  sortBy?: 'created_at' | 'updated_at' | 'title'
+  sortBy?: NoteSortBy
   sortOrder?: 'asc' | 'desc'
+  tags?: string[]
+  tagMode?: TagMatchMode
+  notebookId?: NotebookScope // undefined: 전체, null: 미분류, ID: 노트북과 하위 노트북
+  favoritesOnly?: boolean
 }) {
   // 사용자 인증 확인
   const supabase = await createClient()
@@ -167,32 +221,32 @@ export async function getNotesWithSearchAndSort({
     throw new Error('인증이 필요합니다.')
   }
 
-  console.log('노트 목록 조회 시작:', { page, limit, search, sortBy, sortOrder, userId: user.id })
+  console.log('노트 목록 조회 시작:', { page, limit, search, sortBy, sortOrder, tags, tagMode, notebookId, favoritesOnly, userId: user.id })
 
   try {
     // 페이지네이션 계산
     const offset = (page - 1) * limit
-
-    // 정렬 옵션 설정
+    const searchQuery = search.trim()
+
+    // 검색, 태그, 노트북, 즐겨찾기 필터 조건 설정 (휴지통에 있는 노트는 제외)
+    const whereCondition = and(
+      eq(notes.userId, user.id),
+      isNull(notes.deletedAt),
+      searchQuery ? buildSearchCondition(searchQuery) : undefined,
+      buildTagFilterCondition(tags, tagMode),
+      buildNotebookScopeCondition(user.id, notebookId),
+      favoritesOnly ? eq(notes.favorite, true) : undefined
+    )
+
+    // 정렬 옵션 설정 (고정 노트는 항상 맨 위, 관련도순은 검색어가 있을 때만 적용)
+    const rank = searchQuery ? buildRankExpression(searchQuery) : null
     const orderByColumn = sortBy === 'title' ? notes.title : 
                          sortBy === 'updated_at' ? notes.updatedAt : 
                          notes.createdAt
     
-    const orderBy = sortOrder === 'asc' ? orderByColumn : desc(orderByColumn)
-
-    // 검색 조건 설정
-    let whereCondition = eq(notes.userId, user.id)
-    
-    if (search.trim()) {
-      const searchPattern = `%${search.trim()}%`
-      whereCondition = and(
-        eq(notes.userId, user.id),
-        or(
-          ilike(notes.title, searchPattern),
-          ilike(notes.content, searchPattern)
-        )
-      )!
-    }
+    const orderBy = sortBy === 'relevance' && rank
+      ? [desc(notes.pinned), desc(rank), desc(notes.updatedAt)]
+      : [desc(notes.pinned), sortOrder === 'asc' ? orderByColumn : desc(orderByColumn)]
 
     // 전체 노트 수 조회 (검색 조건 포함)
     const [totalCountResult] = await db
@@ -200,18 +254,31 @@ export async function getNotesWithSearchAndSort({
       .from(notes)
       .where(whereCondition)
 
-    const totalCount = totalCountResult?.count || 0
+    const totalCount = Number(totalCountResult?.count || 0)
     const totalPages = Math.ceil(totalCount / limit)
 
     // 검색 및 정렬된 노트 조회
-    const userNotes = await db
-      .select()
+    const rows = await db
+      .select({ ...noteColumns, rank: rank ?? sql<number | null>`null` })
       .from(notes)
       .where(whereCondition)
-      .orderBy(orderBy)
+      .orderBy(...orderBy)
       .limit(limit)
       .offset(offset)
 
+    // 노트별 태그와 현재 결과 집합의 태그 패싯 조회
+    const [tagsByNote, tagFacets] = await Promise.all([
+      getTagsForNotes(rows.map(row => row.id)),
+      getTagFacets(whereCondition)
+    ])
+
+    // 검색어가 있으면 본문 하이라이트 스니펫 생성
+    const userNotes: NoteSearchResult[] = rows.map(row => ({
+      ...row,
+      tags: tagsByNote.get(row.id) ?? [],
+      snippet: searchQuery ? buildHighlightSnippet(row.content, searchQuery) : null
+    }))
+
     console.log('노트 목록 조회 완료:', {
       notesCount: userNotes.length,
       noteIds: userNotes.map(note => note.id),
@@ -229,7 +296,11 @@ export async function getNotesWithSearchAndSort({
         hasNextPage: page < totalPages,
         hasPrevPage: page > 1
       },
-      searchQuery: search
+      searchQuery: search,
+      tagFilter: { tags, mode: tagMode },
+      notebookId,
+      favoritesOnly,
+      tagFacets
     }
   } catch (error) {
     console.error('노트 검색 및 정렬 조회 오류:', error)
@@ -266,9 +337,9 @@ export async function getNoteById(noteId: string) {
 
     // 사용자 소유의 노트만 조회 (한 번의 쿼리로 권한 검증 포함)
     const [note] = await db
-      .select()
+      .select(noteColumns)
       .from(notes)
-      .where(and(eq(notes.id, noteId), eq(notes.userId, user.id)))
+      .where(and(eq(notes.id, noteId), eq(notes.userId, user.id), isNull(notes.deletedAt)))
       .limit(1)
 
     console.log('노트 조회 결과:', note ? '찾음' : '없음')
@@ -298,8 +369,18 @@ export async function getNoteById(noteId: string) {
   }
 }
 
+interface UpdateNoteOptions {
+  // 제목 입력을 마친 시점(제목 확정)의 저장에서만 전달하는 마지막으로 확정된 제목
+  previousTitle?: string
+}
+
 // 노트 수정 (자동 저장용)
-export async function updateNote(noteId: string, data: { title: string; content: string }) {
+// 자동 저장 중 바뀐 제목으로는 다른 노트의 링크를 바꾸지 않고, 제목이 확정된 저장에서만 [[이전 제목]]을 새 제목으로 변경
+export async function updateNote(
+  noteId: string,
+  data: { title: string; content: string },
+  { previousTitle }: UpdateNoteOptions = {}
+) {
   try {
     // 사용자 인증 확인
     const supabase = await createClient()
@@ -311,12 +392,13 @@ export async function updateNote(noteId: string, data: { title: string; content:
 
     // 기존 노트 조회 및 권한 검증
     const [existingNote] = await db
-      .select()
+      .select(noteColumns)
       .from(notes)
       .where(eq(notes.id, noteId))
       .limit(1)
 
-    if (!existingNote) {
+    // 휴지통에 있는 노트는 수정할 수 없음
+    if (!existingNote || existingNote.deletedAt) {
       throw new Error('NOT_FOUND')
     }
 
@@ -336,7 +418,10 @@ export async function updateNote(noteId: string, data: { title: string; content:
       .update(notes)
       .set(validatedData)
       .where(eq(notes.id, noteId))
-      .returning()
+      .returning(noteColumns)
+
+    // 버전 기록 (일정 시간 내 자동 저장은 하나의 버전으로 병합)
+    await recordNoteRevision(updatedNote, { previous: existingNote })
 
     // 노트 내용이 변경된 경우 기존 요약과 태그 삭제 (자동 재생성 유도)
     if (data.content !== existingNote.content) {
@@ -349,6 +434,16 @@ export async function updateNote(noteId: string, data: { title: string; content:
         .where(eq(noteTags.noteId, noteId))
     }
 
+    // 제목이나 내용이 변경된 경우 임베딩 재계산
+    if (data.content !== existingNote.content || updatedNote.title !== existingNote.title) {
+      await refreshNoteEmbedding(updatedNote)
+    }
+
+    // 위키 링크 갱신 (제목이 확정되어 바뀐 경우 이 노트를 링크한 노트의 [[제목]]도 변경하고 새 제목을 링크해 둔 노트를 연결)
+    await refreshNoteLinks(updatedNote, {
+      previousTitle: previousTitle !== undefined && previousTitle !== updatedNote.title ? previousTitle : undefined
+    })
+
     // 캐시 무효화
     revalidatePath('/notes')
     revalidatePath(`/notes/${noteId}`)
@@ -382,7 +477,7 @@ export async function debugGetUserNotes() {
     }
 
     const userNotes = await db
-      .select({ id: notes.id, title: notes.title, userId: notes.userId })
+      .select({ id: notes.id, title: notes.title, userId: notes.userId, deletedAt: notes.deletedAt })
       .from(notes)
       .where(eq(notes.userId, user.id))
       .orderBy(desc(notes.createdAt))
@@ -395,7 +490,7 @@ export async function debugGetUserNotes() {
   }
 }
 
-// 노트 삭제 (즉시 삭제)
+// 노트 삭제 (휴지통으로 이동, 보관 기간이 지나면 영구 삭제)
 export async function deleteNote(noteId: string) {
   try {
     // 사용자 인증 확인
@@ -408,12 +503,12 @@ export async function deleteNote(noteId: string) {
 
     // 기존 노트 조회 및 권한 검증
     const [existingNote] = await db
-      .select()
+      .select(noteColumns)
       .from(notes)
       .where(eq(notes.id, noteId))
       .limit(1)
 
-    if (!existingNote) {
+    if (!existingNote || existingNote.deletedAt) {
       throw new Error('NOT_FOUND')
     }
 
@@ -421,14 +516,16 @@ export async function deleteNote(noteId: string) {
       throw new Error('FORBIDDEN')
     }
 
-    // 노트 삭제 (즉시 삭제)
+    // 소프트 삭제 (요약/태그는 복원을 위해 유지)
     const [deletedNote] = await db
-      .delete(notes)
+      .update(notes)
+      .set({ deletedAt: new Date() })
       .where(eq(notes.id, noteId))
-      .returning()
+      .returning(noteColumns)
 
     // 캐시 무효화
     revalidatePath('/notes')
+    revalidatePath('/notes/trash')
     revalidatePath(`/notes/${noteId}`)
     
     return deletedNote
@@ -0,0 +1,163 @@
+// lib/notes/diff.ts
+// 노트 버전 비교를 위한 줄 단위 diff 유틸리티
+// 두 텍스트를 LCS 기반으로 비교하여 좌우 비교(side-by-side) 화면에 필요한 행 목록을 생성
+// 관련 파일: components/notes/revision-diff.tsx, lib/notes/revision-actions.ts
+
+export type DiffOperation = 'equal' | 'removed' | 'added'
+
+export interface DiffLine {
+  type: DiffOperation
+  text: string
+}
+
+export interface DiffCell {
+  lineNumber: number
+  text: string
+}
+
+export interface SideBySideRow {
+  type: 'equal' | 'removed' | 'added' | 'changed'
+  left?: DiffCell
+  right?: DiffCell
+}
+
+// 지나치게 큰 입력에서 O(n*m) 테이블이 폭증하지 않도록 제한
+const MAX_DIFF_CELLS = 4_000_000
+
+function splitLines(text: string): string[] {
+  if (!text) return []
+  return text.replace(/\r\n/g, '\n').split('\n')
+}
+
+// 줄 단위 diff 계산 (LCS)
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText)
+  const newLines = splitLines(newText)
+
+  // 앞뒤 공통 줄은 테이블 계산에서 제외하여 비용을 줄임
+  let prefix = 0
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix)
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix)
+
+  const result: DiffLine[] = oldLines.slice(0, prefix).map(text => ({ type: 'equal' as const, text }))
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    // 비교 범위가 너무 크면 전체 교체로 처리
+    oldMiddle.forEach(text => result.push({ type: 'removed', text }))
+    newMiddle.forEach(text => result.push({ type: 'added', text }))
+  } else {
+    result.push(...diffMiddle(oldMiddle, newMiddle))
+  }
+
+  oldLines.slice(oldLines.length - suffix).forEach(text => result.push({ type: 'equal', text }))
+
+  return result
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const rows = oldLines.length
+  const cols = newLines.length
+
+  // lcs[i][j] = oldLines[i..], newLines[j..]의 최장 공통 부분열 길이
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0))
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'equal', text: oldLines[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i] })
+      i++
+    } else {
+      result.push({ type: 'added', text: newLines[j] })
+      j++
+    }
+  }
+  while (i < rows) result.push({ type: 'removed', text: oldLines[i++] })
+  while (j < cols) result.push({ type: 'added', text: newLines[j++] })
+
+  return result
+}
+
+// diff 결과를 좌(이전) / 우(이후) 비교 행으로 변환
+// 연속된 삭제/추가 블록은 같은 행에 짝지어 '변경'으로 표시
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = []
+  let leftNumber = 1
+  let rightNumber = 1
+  let index = 0
+
+  while (index < lines.length) {
+    const line = lines[index]
+
+    if (line.type === 'equal') {
+      rows.push({
+        type: 'equal',
+        left: { lineNumber: leftNumber++, text: line.text },
+        right: { lineNumber: rightNumber++, text: line.text }
+      })
+      index++
+      continue
+    }
+
+    const removed: string[] = []
+    const added: string[] = []
+    while (index < lines.length && lines[index].type !== 'equal') {
+      if (lines[index].type === 'removed') {
+        removed.push(lines[index].text)
+      } else {
+        added.push(lines[index].text)
+      }
+      index++
+    }
+
+    const blockLength = Math.max(removed.length, added.length)
+    for (let k = 0; k < blockLength; k++) {
+      const left = k < removed.length ? { lineNumber: leftNumber++, text: removed[k] } : undefined
+      const right = k < added.length ? { lineNumber: rightNumber++, text: added[k] } : undefined
+      rows.push({
+        type: left && right ? 'changed' : left ? 'removed' : 'added',
+        left,
+        right
+      })
+    }
+  }
+
+  return rows
+}
+
+// 변경 통계 (추가/삭제 줄 수)
+export function getDiffStats(lines: DiffLine[]): { added: number; removed: number } {
+  return lines.reduce(
+    (stats, line) => {
+      if (line.type === 'added') stats.added++
+      if (line.type === 'removed') stats.removed++
+      return stats
+    },
+    { added: 0, removed: 0 }
+  )
+}
@@ -0,0 +1,211 @@
+// lib/notes/embeddings.ts
+// 노트 임베딩 계산/저장 및 관련 노트 조회
+// AI 제공자로 노트 임베딩을 만들고(사용 한도 초과나 실패 시 로컬 결정적 임베딩으로 대체) 코사인 유사도로 비슷한 노트를 찾음
+// 노트 저장 시에는 바로 계산하지 않고 백그라운드 작업으로 미뤄 연속된 자동 저장을 한 번의 계산으로 묶고,
+// 관련 노트 조회는 AI를 호출하지 않고 저장된 임베딩만 읽으며 없거나 오래된 임베딩은 작업으로 예약
+// 관련 파일: lib/db/schema/note_embeddings.ts, lib/ai/local-embedding.ts, lib/ai/job-worker.ts, lib/notes/actions.ts, lib/notes/related-actions.ts
+
+import { createHash } from 'crypto'
+import { db } from '@/lib/db/connection'
+import { notes, noteEmbeddings, NOTE_EMBEDDING_DIMENSIONS, type NoteEmbedding } from '@/lib/db/schema'
+import { and, eq, ne, isNull, desc, cosineDistance, sql } from 'drizzle-orm'
+import { getAIProvider, getModelLabel } from '@/lib/ai/provider-registry'
+import { createLocalEmbedding, LOCAL_EMBEDDING_MODEL } from '@/lib/ai/local-embedding'
+import { enforceAILimits } from '@/lib/ai/usage-limits'
+import { recordAIUsage } from '@/lib/ai/usage-log'
+import { enqueueAIJob } from '@/lib/ai/job-queue'
+import { AILimitError, GeminiError, getSafeErrorMessage } from '@/lib/ai/errors'
+import { estimateTokens, sanitizeErrorMessage } from '@/lib/ai/utils'
+import type { AIEmbeddingResult } from '@/lib/ai/types'
+import type { AIJob } from '@/lib/db/schema/ai_jobs'
+import type { RelatedNote } from './types'
+
+// 임베딩 입력 최대 길이 (긴 노트는 앞부분만 사용)
+const EMBEDDING_INPUT_MAX_LENGTH = 8000
+// 관련 노트로 표시할 최소 유사도
+const MIN_RELATED_SIMILARITY = 0.2
+// 노트 저장 후 임베딩을 계산하기까지 대기 시간 (그 사이의 자동 저장은 같은 작업으로 합쳐짐)
+export const NOTE_EMBEDDING_DEBOUNCE_MS = 60 * 1000
+// 로컬 대체 임베딩을 제공자 임베딩으로 다시 계산해 보기까지 대기 시간 (조회할 때마다 제공자를 호출하지 않도록 함)
+const LOCAL_EMBEDDING_RETRY_MS = 60 * 60 * 1000
+// 관련 노트 조회 한 번에 예약하는 임베딩 없는 기존 노트 수
+const EMBEDDING_BACKFILL_LIMIT = 5
+
+interface EmbeddableNote {
+  id: string
+  userId: string
+  title: string
+  content: string | null
+}
+
+export function buildEmbeddingInput(title: string, content: string | null): string {
+  return `${title}\n\n${content ?? ''}`.trim().slice(0, EMBEDDING_INPUT_MAX_LENGTH)
+}
+
+function hashEmbeddingInput(input: string): string {
+  return createHash('sha256').update(input).digest('hex')
+}
+
+function createLocalEmbeddingResult(input: string): AIEmbeddingResult {
+  return {
+    embedding: createLocalEmbedding(input, NOTE_EMBEDDING_DIMENSIONS),
+    model: LOCAL_EMBEDDING_MODEL
+  }
+}
+
+// 제공자 임베딩 생성 (사용 한도를 확인하고 호출을 ai_usage에 기록, 한도 초과나 실패 시 로컬 임베딩으로 대체)
+async function computeEmbedding(userId: string, input: string): Promise<AIEmbeddingResult> {
+  try {
+    await enforceAILimits(userId, estimateTokens(input))
+  } catch (error) {
+    if (error instanceof AILimitError) {
+      console.warn('AI 사용 한도 초과, 로컬 임베딩으로 대체:', error.message)
+      return createLocalEmbeddingResult(input)
+    }
+    throw error
+  }
+
+  const client = getAIProvider()
+  const context = { userId, feature: 'embedding' as const, model: getModelLabel(client) }
+  const startTime = Date.now()
+
+  try {
+    const result = await client.generateEmbedding(input, NOTE_EMBEDDING_DIMENSIONS)
+    await recordAIUsage(context, { input, output: '', latencyMs: Date.now() - startTime })
+    return result
+  } catch (error) {
+    console.warn('임베딩 API 오류, 로컬 임베딩으로 대체:', error)
+    await recordAIUsage(context, {
+      input,
+      output: '',
+      latencyMs: Date.now() - startTime,
+      error: error instanceof GeminiError ? getSafeErrorMessage(error) : sanitizeErrorMessage(error)
+    })
+    return createLocalEmbeddingResult(input)
+  }
+}
+
+// 임베딩 재계산 예약 (대기 중인 작업이 있으면 그 작업이 최신 내용으로 계산)
+// 기본값은 노트 저장 후 대기 시간 뒤 계산하며, 예약된 작업을 반환
+export async function scheduleNoteEmbedding(
+  note: Pick<EmbeddableNote, 'id' | 'userId'>,
+  delayMs: number = NOTE_EMBEDDING_DEBOUNCE_MS
+): Promise<AIJob> {
+  return enqueueAIJob(note.userId, note.id, 'embedding', new Date(Date.now() + delayMs))
+}
+
+// 저장된 임베딩을 다시 계산해야 하는지 판단
+// 임베딩이 없거나 입력이 바뀐 경우, 로컬 대체값이 저장된 지 일정 시간이 지난 경우 재계산
+export function needsEmbeddingRefresh(
+  note: Pick<EmbeddableNote, 'title' | 'content'>,
+  existing: Pick<NoteEmbedding, 'model' | 'contentHash' | 'updatedAt'> | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!existing || existing.contentHash !== hashEmbeddingInput(buildEmbeddingInput(note.title, note.content))) {
+    return true
+  }
+
+  if (existing.model !== LOCAL_EMBEDDING_MODEL) {
+    return false
+  }
+
+  return !existing.updatedAt || now.getTime() - existing.updatedAt.getTime() >= LOCAL_EMBEDDING_RETRY_MS
+}
+
+// 노트에 저장된 임베딩 조회 (AI를 호출하지 않음)
+export async function getNoteEmbedding(noteId: string): Promise<NoteEmbedding | undefined> {
+  const [existing] = await db
+    .select()
+    .from(noteEmbeddings)
+    .where(eq(noteEmbeddings.noteId, noteId))
+    .limit(1)
+
+  return existing
+}
+
+// 노트 임베딩 저장 (입력이 바뀌지 않았으면 재계산 생략, 로컬 대체값은 다시 시도)
+// 백그라운드 작업 워커에서만 호출하여 AI 호출이 작업 대기열을 거치도록 함
+export async function upsertNoteEmbedding(note: EmbeddableNote) {
+  const input = buildEmbeddingInput(note.title, note.content)
+  const contentHash = hashEmbeddingInput(input)
+
+  const existing = await getNoteEmbedding(note.id)
+
+  if (existing && existing.contentHash === contentHash && existing.model !== LOCAL_EMBEDDING_MODEL) {
+    return existing
+  }
+
+  const { embedding, model } = await computeEmbedding(note.userId, input)
+
+  const [saved] = await db
+    .insert(noteEmbeddings)
+    .values({ noteId: note.id, userId: note.userId, model, contentHash, embedding })
+    .onConflictDoUpdate({
+      target: noteEmbeddings.noteId,
+      set: { model, contentHash, embedding, updatedAt: new Date() }
+    })
+    .returning()
+
+  return saved
+}
+
+// 관련 노트 조회 시 필요한 임베딩 계산 예약 (조회 중인 노트의 임베딩이 없거나 오래되었으면 그 노트, 그리고 임베딩이 없는 기존 노트 일부)
+// 기능 도입 전에 작성된 노트도 점차 비교 대상에 포함되며, 예약된 작업을 반환
+export async function scheduleStaleEmbeddings(
+  note: EmbeddableNote,
+  source: NoteEmbedding | undefined,
+  limit: number = EMBEDDING_BACKFILL_LIMIT
+): Promise<AIJob[]> {
+  const missing = await db
+    .select({ id: notes.id, userId: notes.userId })
+    .from(notes)
+    .leftJoin(noteEmbeddings, eq(noteEmbeddings.noteId, notes.id))
+    .where(and(
+      eq(notes.userId, note.userId),
+      isNull(notes.deletedAt),
+      isNull(noteEmbeddings.noteId),
+      ne(notes.id, note.id)
+    ))
+    .orderBy(desc(notes.updatedAt))
+    .limit(limit)
+
+  const targets = needsEmbeddingRefresh(note, source) ? [note, ...missing] : missing
+  const jobs: AIJob[] = []
+  for (const target of targets) {
+    jobs.push(await scheduleNoteEmbedding(target, 0))
+  }
+
+  return jobs
+}
+
+// 같은 사용자의 활성 노트 중 코사인 유사도가 높은 노트 조회 (저장된 임베딩 중 같은 모델끼리만 비교)
+export async function findRelatedNotes(
+  note: Pick<EmbeddableNote, 'id' | 'userId'>,
+  source: Pick<NoteEmbedding, 'model' | 'embedding'>,
+  limit: number = 5
+): Promise<RelatedNote[]> {
+  const distance = cosineDistance(noteEmbeddings.embedding, source.embedding)
+
+  const rows = await db
+    .select({
+      id: notes.id,
+      title: notes.title,
+      updatedAt: notes.updatedAt,
+      similarity: sql<number>`1 - (${distance})`
+    })
+    .from(noteEmbeddings)
+    .innerJoin(notes, eq(notes.id, noteEmbeddings.noteId))
+    .where(and(
+      eq(noteEmbeddings.userId, note.userId),
+      eq(notes.userId, note.userId),
+      isNull(notes.deletedAt),
+      ne(noteEmbeddings.noteId, note.id),
+      eq(noteEmbeddings.model, source.model)
+    ))
+    .orderBy(distance)
+    .limit(limit)
+
+  return rows
+    .map(row => ({ ...row, similarity: Number(row.similarity) }))
+    .filter(row => row.similarity >= MIN_RELATED_SIMILARITY)
+}
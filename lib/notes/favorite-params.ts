@@ -0,0 +1,25 @@
+// lib/notes/favorite-params.ts
+// 즐겨찾기 필터 URL 파라미터 파싱 및 생성 유틸리티
+// 노트 목록 페이지(서버)와 즐겨찾기 필터 버튼(클라이언트)이 같은 규칙으로 ?favorites=1 을 다루도록 함
+// 관련 파일: app/notes/page.tsx, components/notes/favorites-filter.tsx, lib/notes/tag-params.ts
+
+// ?favorites 파라미터 검증 ('1'일 때만 즐겨찾기만 표시)
+export function parseFavoritesParam(param?: string | null): boolean {
+  return param === '1'
+}
+
+// 현재 URL 파라미터에 즐겨찾기 필터를 적용한 새 파라미터 생성
+export function buildFavoritesFilterParams(current: URLSearchParams, favoritesOnly: boolean): URLSearchParams {
+  const params = new URLSearchParams(current)
+
+  if (favoritesOnly) {
+    params.set('favorites', '1')
+  } else {
+    params.delete('favorites')
+  }
+
+  // 필터 변경 시 첫 페이지로 이동
+  params.set('page', '1')
+
+  return params
+}
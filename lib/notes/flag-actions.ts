@@ -0,0 +1,85 @@
+// lib/notes/flag-actions.ts
+// 노트 고정/즐겨찾기 관련 Server Actions
+// 노트 카드와 상세 페이지의 토글 버튼에서 고정(목록 맨 위 표시)과 즐겨찾기 상태를 설정
+// 관련 파일: lib/db/schema/notes.ts, components/notes/note-flag-buttons.tsx, lib/notes/actions.ts
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { notes } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { eq } from 'drizzle-orm'
+
+type NoteFlags = { pinned?: boolean; favorite?: boolean }
+
+// 사용자 인증 확인
+async function getAuthenticatedUser() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('인증이 필요합니다.')
+  }
+
+  return user
+}
+
+function rethrowKnownError(error: unknown, fallbackMessage: string): never {
+  if (error instanceof Error && (error.message === 'NOT_FOUND' || error.message === 'FORBIDDEN')) {
+    throw error
+  }
+
+  throw new Error(fallbackMessage)
+}
+
+// 활성 노트의 플래그 변경 (정리 상태만 바뀌므로 수정일(updatedAt)은 유지)
+async function updateNoteFlags(noteId: string, flags: NoteFlags) {
+  const user = await getAuthenticatedUser()
+
+  const [existingNote] = await db
+    .select({ id: notes.id, userId: notes.userId, deletedAt: notes.deletedAt })
+    .from(notes)
+    .where(eq(notes.id, noteId))
+    .limit(1)
+
+  if (!existingNote || existingNote.deletedAt) {
+    throw new Error('NOT_FOUND')
+  }
+
+  if (existingNote.userId !== user.id) {
+    throw new Error('FORBIDDEN')
+  }
+
+  const [updatedNote] = await db
+    .update(notes)
+    .set(flags)
+    .where(eq(notes.id, noteId))
+    .returning({ id: notes.id, pinned: notes.pinned, favorite: notes.favorite })
+
+  // 캐시 무효화
+  revalidatePath('/notes')
+  revalidatePath(`/notes/${noteId}`)
+
+  return updatedNote
+}
+
+// 노트 고정 설정/해제
+export async function setNotePinned(noteId: string, pinned: boolean) {
+  try {
+    return await updateNoteFlags(noteId, { pinned })
+  } catch (error) {
+    console.error('노트 고정 변경 오류:', error)
+    rethrowKnownError(error, '노트 고정 상태를 바꿀 수 없습니다.')
+  }
+}
+
+// 노트 즐겨찾기 설정/해제
+export async function setNoteFavorite(noteId: string, favorite: boolean) {
+  try {
+    return await updateNoteFlags(noteId, { favorite })
+  } catch (error) {
+    console.error('노트 즐겨찾기 변경 오류:', error)
+    rethrowKnownError(error, '노트 즐겨찾기 상태를 바꿀 수 없습니다.')
+  }
+}
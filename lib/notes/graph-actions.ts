@@ -0,0 +1,72 @@
+// lib/notes/graph-actions.ts
+// 노트 그래프 Server Actions
+// 사용자의 노트와 note_tags, note_links를 조회해 그래프 페이지에 표시할 노드/엣지(인접 관계)를 만들어 제공
+// 관련 파일: lib/notes/graph.ts, app/notes/graph/page.tsx, components/notes/note-graph.tsx
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { notes, noteTags, noteLinks } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm'
+import { buildNoteGraph, MAX_GRAPH_NODES, type NoteGraphData } from './graph'
+import { buildTagFilterCondition, getTagFacets } from './tag-query'
+
+// 태그 필터 선택지 최대 개수
+const MAX_GRAPH_TAG_OPTIONS = 50
+
+// 노트 그래프 조회 (tag가 있으면 그 태그가 달린 노트만)
+export async function getNoteGraph(tag?: string | null): Promise<NoteGraphData> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('인증이 필요합니다.')
+  }
+
+  try {
+    const activeNotesCondition = and(eq(notes.userId, user.id), isNull(notes.deletedAt))
+    const selectedTag = tag?.trim() || null
+
+    // 최근 수정순으로 최대 개수보다 하나 더 조회해 잘림 여부 확인
+    const rows = await db
+      .select({ id: notes.id, title: notes.title })
+      .from(notes)
+      .where(and(activeNotesCondition, selectedTag ? buildTagFilterCondition([selectedTag], 'any') : undefined))
+      .orderBy(desc(notes.updatedAt))
+      .limit(MAX_GRAPH_NODES + 1)
+
+    const graphNotes = rows.slice(0, MAX_GRAPH_NODES)
+    const noteIds = graphNotes.map(note => note.id)
+
+    const [tagRows, linkRows, tags] = await Promise.all([
+      noteIds.length > 0
+        ? db
+            .select({ noteId: noteTags.noteId, tag: noteTags.tag })
+            .from(noteTags)
+            .where(inArray(noteTags.noteId, noteIds))
+        : [],
+      noteIds.length > 0
+        ? db
+            .select({ sourceNoteId: noteLinks.sourceNoteId, targetNoteId: noteLinks.targetNoteId })
+            .from(noteLinks)
+            .where(and(
+              eq(noteLinks.userId, user.id),
+              inArray(noteLinks.sourceNoteId, noteIds),
+              inArray(noteLinks.targetNoteId, noteIds)
+            ))
+        : [],
+      getTagFacets(activeNotesCondition, MAX_GRAPH_TAG_OPTIONS)
+    ])
+
+    return {
+      ...buildNoteGraph(graphNotes, tagRows, linkRows),
+      tags,
+      selectedTag,
+      truncated: rows.length > MAX_GRAPH_NODES
+    }
+  } catch (error) {
+    console.error('노트 그래프 조회 오류:', error)
+    throw new Error('노트 그래프를 불러올 수 없습니다.')
+  }
+}
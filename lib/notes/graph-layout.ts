@@ -0,0 +1,134 @@
+// lib/notes/graph-layout.ts
+// 노트 그래프 force-directed 배치 계산
+// 노드끼리 밀어내는 힘, 엣지로 당기는 스프링 힘, 중심으로 모으는 힘을 반복 적용해 브라우저에서 애니메이션으로 배치
+// 관련 파일: lib/notes/graph.ts, components/notes/note-graph.tsx
+
+import type { GraphEdge } from './graph'
+
+export interface LayoutNode {
+  id: string
+  x: number
+  y: number
+  vx: number
+  vy: number
+  fixed?: boolean // 드래그 중인 노드는 힘의 영향을 받지 않음
+}
+
+export interface LayoutOptions {
+  repulsion: number // 노드 간 밀어내는 힘의 세기
+  linkDistance: number // 엣지의 목표 길이
+  linkStrength: number
+  gravity: number // 중심(0, 0)으로 당기는 힘
+  damping: number // 매 단계 속도 감쇠 비율
+}
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  repulsion: 1800,
+  linkDistance: 70,
+  linkStrength: 0.05,
+  gravity: 0.02,
+  damping: 0.6
+}
+
+// 시뮬레이션 온도 (단계마다 줄어들며, 최소값 아래로 내려가면 멈춤)
+export const INITIAL_ALPHA = 1
+export const MIN_ALPHA = 0.005
+const ALPHA_DECAY = 0.02
+
+// 노드 간 거리가 0일 때 나눗셈을 피하기 위한 최소 거리
+const MIN_DISTANCE = 1
+
+// 해바라기 씨 배열로 초기 위치 지정 (같은 입력이면 항상 같은 배치에서 시작)
+export function createLayoutNodes(ids: string[], spacing: number = 20): LayoutNode[] {
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5))
+
+  return ids.map((id, index) => {
+    const radius = spacing * Math.sqrt(index + 0.5)
+    const angle = index * goldenAngle
+    return { id, x: radius * Math.cos(angle), y: radius * Math.sin(angle), vx: 0, vy: 0 }
+  })
+}
+
+// 한 단계 진행 후 다음 온도 반환 (노드 위치는 그대로 갱신)
+export function stepLayout(
+  nodes: LayoutNode[],
+  edges: Pick<GraphEdge, 'source' | 'target'>[],
+  alpha: number,
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS
+): number {
+  const byId = new Map(nodes.map(node => [node.id, node]))
+
+  // 노드 간 반발력 (쿨롱 법칙 형태)
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i]
+      const b = nodes[j]
+      let dx = b.x - a.x
+      let dy = b.y - a.y
+      // 같은 위치에 겹친 노드는 살짝 비켜서 밀어냄
+      if (dx === 0 && dy === 0) {
+        dx = (j - i) * 0.01
+        dy = 0.01
+      }
+      const distanceSq = Math.max(dx * dx + dy * dy, MIN_DISTANCE)
+      const distance = Math.sqrt(distanceSq)
+      const force = (options.repulsion * alpha) / distanceSq
+      const fx = (dx / distance) * force
+      const fy = (dy / distance) * force
+      a.vx -= fx
+      a.vy -= fy
+      b.vx += fx
+      b.vy += fy
+    }
+  }
+
+  // 엣지 스프링 (목표 길이보다 멀면 당기고 가까우면 밀어냄)
+  for (const edge of edges) {
+    const source = byId.get(edge.source)
+    const target = byId.get(edge.target)
+    if (!source || !target) continue
+
+    const dx = target.x - source.x
+    const dy = target.y - source.y
+    const distance = Math.max(Math.sqrt(dx * dx + dy * dy), MIN_DISTANCE)
+    const force = (distance - options.linkDistance) * options.linkStrength * alpha
+    const fx = (dx / distance) * force
+    const fy = (dy / distance) * force
+    source.vx += fx
+    source.vy += fy
+    target.vx -= fx
+    target.vy -= fy
+  }
+
+  // 중심으로 모으는 힘과 속도 감쇠 적용 후 위치 갱신
+  for (const node of nodes) {
+    if (node.fixed) {
+      node.vx = 0
+      node.vy = 0
+      continue
+    }
+    node.vx = (node.vx - node.x * options.gravity * alpha) * options.damping
+    node.vy = (node.vy - node.y * options.gravity * alpha) * options.damping
+    node.x += node.vx
+    node.y += node.vy
+  }
+
+  return alpha * (1 - ALPHA_DECAY)
+}
+
+// 모든 노드가 들어가는 영역 (초기 화면 맞춤용)
+export function getLayoutBounds(nodes: Pick<LayoutNode, 'x' | 'y'>[]) {
+  if (nodes.length === 0) {
+    return { minX: 0, minY: 0, maxX: 0, maxY: 0 }
+  }
+
+  return nodes.reduce(
+    (bounds, node) => ({
+      minX: Math.min(bounds.minX, node.x),
+      minY: Math.min(bounds.minY, node.y),
+      maxX: Math.max(bounds.maxX, node.x),
+      maxY: Math.max(bounds.maxY, node.y)
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  )
+}
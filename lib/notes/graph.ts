@@ -0,0 +1,125 @@
+// lib/notes/graph.ts
+// 노트 그래프(노드/엣지) 구성 유틸리티
+// 노트를 노드로, 위키 링크와 공유 태그를 엣지로 변환하고 같은 두 노트 사이의 관계는 하나의 엣지로 합침
+// 관련 파일: lib/notes/graph-actions.ts, lib/notes/graph-layout.ts, components/notes/note-graph.tsx
+
+import type { TagFacet } from './tag-query'
+
+// 그래프에 표시하는 최대 노트 수 (최근 수정순)
+export const MAX_GRAPH_NODES = 300
+
+// 이보다 많은 노트가 공유하는 태그는 너무 일반적이라 노트 쌍마다 엣지를 만들지 않음 (태그 필터로는 계속 볼 수 있음)
+export const MAX_TAG_GROUP_SIZE = 25
+
+export interface GraphNode {
+  id: string
+  title: string
+  tags: string[]
+  degree: number // 연결된 엣지 수 (노드 크기 표시용)
+}
+
+export interface GraphEdge {
+  source: string
+  target: string
+  linked: boolean // 두 노트 중 하나가 다른 노트를 [[제목]]으로 링크
+  sharedTags: string[]
+}
+
+export interface NoteGraphData {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  tags: TagFacet[] // 태그 필터 선택지
+  selectedTag: string | null
+  truncated: boolean // MAX_GRAPH_NODES를 넘어 일부 노트만 표시한 경우
+}
+
+interface GraphNoteInput {
+  id: string
+  title: string
+}
+
+interface GraphTagInput {
+  noteId: string
+  tag: string
+}
+
+interface GraphLinkInput {
+  sourceNoteId: string
+  targetNoteId: string
+}
+
+// 두 노트 ID로 방향 없는 엣지 키 생성
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`
+}
+
+// 노트, 노트별 태그, 노트 링크로 그래프 생성 (목록에 없는 노트를 가리키는 링크/태그는 무시)
+export function buildNoteGraph(
+  notes: GraphNoteInput[],
+  noteTags: GraphTagInput[],
+  links: GraphLinkInput[]
+): Pick<NoteGraphData, 'nodes' | 'edges'> {
+  const noteIds = new Set(notes.map(note => note.id))
+  const edges = new Map<string, GraphEdge>()
+
+  const getEdge = (a: string, b: string): GraphEdge => {
+    const key = edgeKey(a, b)
+    let edge = edges.get(key)
+    if (!edge) {
+      edge = { source: a < b ? a : b, target: a < b ? b : a, linked: false, sharedTags: [] }
+      edges.set(key, edge)
+    }
+    return edge
+  }
+
+  // 노트별 태그와 태그별 노트
+  const tagsByNote = new Map<string, string[]>()
+  const notesByTag = new Map<string, string[]>()
+  for (const { noteId, tag } of noteTags) {
+    if (!noteIds.has(noteId)) continue
+    tagsByNote.set(noteId, [...(tagsByNote.get(noteId) ?? []), tag])
+    notesByTag.set(tag, [...(notesByTag.get(tag) ?? []), noteId])
+  }
+
+  for (const { sourceNoteId, targetNoteId } of links) {
+    if (sourceNoteId === targetNoteId || !noteIds.has(sourceNoteId) || !noteIds.has(targetNoteId)) continue
+    getEdge(sourceNoteId, targetNoteId).linked = true
+  }
+
+  for (const [tag, taggedNoteIds] of notesByTag) {
+    if (taggedNoteIds.length < 2 || taggedNoteIds.length > MAX_TAG_GROUP_SIZE) continue
+
+    for (let i = 0; i < taggedNoteIds.length; i++) {
+      for (let j = i + 1; j < taggedNoteIds.length; j++) {
+        getEdge(taggedNoteIds[i], taggedNoteIds[j]).sharedTags.push(tag)
+      }
+    }
+  }
+
+  const edgeList = Array.from(edges.values())
+  const degrees = new Map<string, number>()
+  for (const edge of edgeList) {
+    degrees.set(edge.source, (degrees.get(edge.source) ?? 0) + 1)
+    degrees.set(edge.target, (degrees.get(edge.target) ?? 0) + 1)
+  }
+
+  return {
+    nodes: notes.map(note => ({
+      id: note.id,
+      title: note.title,
+      tags: (tagsByNote.get(note.id) ?? []).sort(),
+      degree: degrees.get(note.id) ?? 0
+    })),
+    edges: edgeList
+  }
+}
+
+// 노드와 직접 연결된 노드 ID (자기 자신 포함, 마우스를 올렸을 때 강조 표시용)
+export function getNeighborIds(edges: GraphEdge[], nodeId: string): Set<string> {
+  const neighbors = new Set([nodeId])
+  for (const edge of edges) {
+    if (edge.source === nodeId) neighbors.add(edge.target)
+    if (edge.target === nodeId) neighbors.add(edge.source)
+  }
+  return neighbors
+}
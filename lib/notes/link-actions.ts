@@ -0,0 +1,109 @@
+// lib/notes/link-actions.ts
+// 노트 위키 링크 관련 Server Actions
+// 노트 상세 페이지의 백링크 목록, 에디터의 [[노트 제목]] 자동완성 후보, 미리보기용 링크 대상 노트 ID를 제공
+// 관련 파일: lib/notes/links.ts, lib/notes/wiki-links.ts, components/notes/backlinks-section.tsx, hooks/use-wiki-link-autocomplete.ts
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { notes, noteLinks } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { and, desc, eq, isNull, ne } from 'drizzle-orm'
+import { resolveWikiLinkTargets } from './links'
+import { buildContainsCondition } from './search'
+import { getWikiLinkContext, MAX_WIKI_LINKS_PER_NOTE } from './wiki-links'
+import type { BacklinkNote, NoteTitleSuggestion } from './types'
+
+// 자동완성 후보 최대 개수
+const MAX_TITLE_SUGGESTIONS = 8
+
+// 사용자 인증 확인
+async function getAuthenticatedUser() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('인증이 필요합니다.')
+  }
+
+  return user
+}
+
+// 현재 노트를 링크한 노트 목록 조회 (휴지통에 있는 노트 제외)
+export async function getBacklinks(noteId: string): Promise<BacklinkNote[]> {
+  try {
+    const user = await getAuthenticatedUser()
+
+    const [note] = await db
+      .select({ id: notes.id, userId: notes.userId, title: notes.title, deletedAt: notes.deletedAt })
+      .from(notes)
+      .where(eq(notes.id, noteId))
+      .limit(1)
+
+    if (!note || note.deletedAt) {
+      throw new Error('NOT_FOUND')
+    }
+
+    if (note.userId !== user.id) {
+      throw new Error('FORBIDDEN')
+    }
+
+    const sources = await db
+      .select({ id: notes.id, title: notes.title, content: notes.content, updatedAt: notes.updatedAt })
+      .from(noteLinks)
+      .innerJoin(notes, eq(notes.id, noteLinks.sourceNoteId))
+      .where(and(eq(noteLinks.targetNoteId, noteId), eq(notes.userId, user.id), isNull(notes.deletedAt)))
+      .orderBy(desc(notes.updatedAt))
+
+    return sources.map(source => ({
+      id: source.id,
+      title: source.title,
+      updatedAt: source.updatedAt,
+      context: getWikiLinkContext(source.content, note.title)
+    }))
+  } catch (error) {
+    console.error('백링크 조회 오류:', error)
+
+    if (error instanceof Error && (error.message === 'NOT_FOUND' || error.message === 'FORBIDDEN')) {
+      throw error
+    }
+
+    throw new Error('백링크를 불러올 수 없습니다.')
+  }
+}
+
+// [[ 입력 시 자동완성 후보 조회 (검색어가 비어 있으면 최근 수정한 노트)
+export async function searchNoteTitles(query: string, excludeNoteId?: string): Promise<NoteTitleSuggestion[]> {
+  try {
+    const user = await getAuthenticatedUser()
+    const searchQuery = query.trim()
+
+    return await db
+      .select({ id: notes.id, title: notes.title })
+      .from(notes)
+      .where(and(
+        eq(notes.userId, user.id),
+        isNull(notes.deletedAt),
+        searchQuery ? buildContainsCondition(notes.title, searchQuery) : undefined,
+        excludeNoteId ? ne(notes.id, excludeNoteId) : undefined
+      ))
+      .orderBy(desc(notes.updatedAt))
+      .limit(MAX_TITLE_SUGGESTIONS)
+  } catch (error) {
+    console.error('노트 제목 검색 오류:', error)
+    throw new Error('노트를 검색할 수 없습니다.')
+  }
+}
+
+// 미리보기용 위키 링크 대상 조회 (제목 비교 키 → 노트 ID)
+export async function resolveWikiLinks(titles: string[], excludeNoteId?: string): Promise<Record<string, string>> {
+  try {
+    const user = await getAuthenticatedUser()
+    const targets = await resolveWikiLinkTargets(user.id, titles.slice(0, MAX_WIKI_LINKS_PER_NOTE), excludeNoteId)
+
+    return Object.fromEntries(targets)
+  } catch (error) {
+    console.error('위키 링크 조회 오류:', error)
+    throw new Error('링크된 노트를 찾을 수 없습니다.')
+  }
+}
@@ -0,0 +1,168 @@
+// lib/notes/links.ts
+// 노트 위키 링크 저장 및 갱신 로직
+// 본문의 [[노트 제목]]을 사용자의 노트 ID로 연결해 note_links에 저장하고, 노트 제목이 바뀌면 그 노트를 링크한 본문의 링크 텍스트를 함께 변경
+// 노트가 새로 생기거나 제목이 바뀌면 그 제목을 가리키던, 아직 연결되지 않은 다른 노트의 링크도 연결
+// 비어 있거나 기본 제목('제목 없음')인 제목은 링크 변경과 연결 대상에서 제외
+// 관련 파일: lib/db/schema/note_links.ts, lib/notes/wiki-links.ts, lib/notes/actions.ts, lib/notes/link-actions.ts
+
+import { db } from '@/lib/db/connection'
+import { notes, noteLinks } from '@/lib/db/schema'
+import { and, desc, eq, inArray, isNull, ne, sql } from 'drizzle-orm'
+import { extractWikiLinkTitles, normalizeWikiLinkTitle, renameWikiLinks } from './wiki-links'
+import { buildContainsCondition } from './search'
+import { recordNoteRevision } from './revisions'
+
+interface LinkableNote {
+  id: string
+  userId: string
+  title: string
+  content: string | null
+}
+
+// 제목을 입력하지 않은 노트에 저장되는 기본 제목
+const UNTITLED_NOTE_TITLE = '제목 없음'
+
+interface RefreshNoteLinksOptions {
+  // 제목이 확정되어 바뀐 경우 이전 제목
+  previousTitle?: string
+  // 새로 만든 노트인지 여부 (가져온 노트, 휴지통에서 복원한 노트 포함)
+  created?: boolean
+}
+
+// 링크 제목을 사용자의 활성 노트 ID로 변환 (비교 키 → 노트 ID, 같은 제목이 여러 개면 최근 수정된 노트)
+export async function resolveWikiLinkTargets(
+  userId: string,
+  titles: string[],
+  excludeNoteId?: string
+): Promise<Map<string, string>> {
+  const keys = Array.from(new Set(titles.map(normalizeWikiLinkTitle).filter(key => key.length > 0)))
+  const targets = new Map<string, string>()
+
+  if (keys.length === 0) {
+    return targets
+  }
+
+  const rows = await db
+    .select({ id: notes.id, title: notes.title })
+    .from(notes)
+    .where(and(
+      eq(notes.userId, userId),
+      isNull(notes.deletedAt),
+      inArray(sql`lower(trim(${notes.title}))`, keys),
+      excludeNoteId ? ne(notes.id, excludeNoteId) : undefined
+    ))
+    .orderBy(desc(notes.updatedAt))
+
+  for (const row of rows) {
+    const key = normalizeWikiLinkTitle(row.title)
+    if (!targets.has(key)) {
+      targets.set(key, row.id)
+    }
+  }
+
+  return targets
+}
+
+// 다른 노트의 [[제목]]을 바꾸거나 연결할 수 있는 제목인지 확인 (빈 제목, 기본 제목 제외)
+function isLinkableTitle(title: string) {
+  const key = normalizeWikiLinkTitle(title)
+  return key.length > 0 && key !== normalizeWikiLinkTitle(UNTITLED_NOTE_TITLE)
+}
+
+// 노트 본문의 위키 링크로 note_links 갱신 (자기 자신으로의 링크는 저장하지 않음)
+export async function syncNoteLinks(note: LinkableNote) {
+  const targets = await resolveWikiLinkTargets(note.userId, extractWikiLinkTitles(note.content), note.id)
+  const targetIds = Array.from(new Set(targets.values()))
+
+  await db.transaction(async (tx) => {
+    await tx.delete(noteLinks).where(eq(noteLinks.sourceNoteId, note.id))
+
+    if (targetIds.length > 0) {
+      await tx
+        .insert(noteLinks)
+        .values(targetIds.map(targetNoteId => ({ sourceNoteId: note.id, targetNoteId, userId: note.userId })))
+        .onConflictDoNothing()
+    }
+  })
+}
+
+// 이 노트의 제목을 [[제목]]으로 링크한 다른 노트의 링크 갱신
+// 링크한 노트가 먼저 저장되어 대상 없이 남아 있던 링크를, 대상 노트가 생기거나 제목이 바뀐 시점에 연결
+export async function resolveDanglingWikiLinks(note: Pick<LinkableNote, 'id' | 'userId' | 'title'>) {
+  if (!isLinkableTitle(note.title)) {
+    return 0
+  }
+
+  const key = normalizeWikiLinkTitle(note.title)
+
+  // 제목이 본문에 들어 있는 활성 노트만 가져온 뒤 실제 링크 여부는 파싱해서 확인
+  // 휴지통의 노트는 복원할 때 링크를 다시 계산하므로 제외
+  const candidates = await db
+    .select({ id: notes.id, userId: notes.userId, title: notes.title, content: notes.content })
+    .from(notes)
+    .where(and(
+      eq(notes.userId, note.userId),
+      isNull(notes.deletedAt),
+      ne(notes.id, note.id),
+      buildContainsCondition(notes.content, note.title.trim())
+    ))
+
+  let resolvedCount = 0
+  for (const candidate of candidates) {
+    const linksToNote = extractWikiLinkTitles(candidate.content).some(title => normalizeWikiLinkTitle(title) === key)
+    if (linksToNote) {
+      // 같은 제목의 노트가 여러 개인 경우도 syncNoteLinks와 같은 기준으로 대상을 고르도록 링크 전체를 다시 계산
+      await syncNoteLinks(candidate)
+      resolvedCount++
+    }
+  }
+
+  return resolvedCount
+}
+
+// 노트 제목 변경 시 이 노트를 링크한 노트 본문의 [[이전 제목]]을 [[새 제목]]으로 변경
+// 링크 텍스트만 바뀌므로 링크한 노트의 수정일(updatedAt)은 유지하고, 휴지통에 있는 노트도 복원 후 링크가 유지되도록 함께 변경
+// 사용자가 직접 편집하지 않은 변경이므로 바뀐 본문은 버전으로 기록해 이전 본문으로 되돌릴 수 있게 함
+export async function rewriteWikiLinksOnRename(note: Pick<LinkableNote, 'id' | 'userId'>, oldTitle: string, newTitle: string) {
+  // 제목을 비우거나 처음 입력하는 경우는 링크 텍스트를 바꾸지 않음 ([[제목 없음]]이 생기거나 다른 노트의 링크가 바뀌는 것 방지)
+  if (oldTitle.trim() === newTitle.trim() || !isLinkableTitle(oldTitle) || !isLinkableTitle(newTitle)) {
+    return 0
+  }
+
+  const sources = await db
+    .select({ id: notes.id, userId: notes.userId, title: notes.title, content: notes.content, updatedAt: notes.updatedAt })
+    .from(noteLinks)
+    .innerJoin(notes, eq(notes.id, noteLinks.sourceNoteId))
+    .where(and(eq(noteLinks.targetNoteId, note.id), eq(notes.userId, note.userId)))
+
+  let rewrittenCount = 0
+  for (const source of sources) {
+    if (!source.content) continue
+
+    const content = renameWikiLinks(source.content, oldTitle, newTitle)
+    if (content !== source.content) {
+      await db.update(notes).set({ content }).where(eq(notes.id, source.id))
+      await recordNoteRevision({ ...source, content }, { previous: source })
+      rewrittenCount++
+    }
+  }
+
+  return rewrittenCount
+}
+
+// 노트 저장 후 링크 갱신 (링크 갱신 실패가 노트 저장을 막지 않도록 오류는 기록만 함)
+export async function refreshNoteLinks(note: LinkableNote, { previousTitle, created = false }: RefreshNoteLinksOptions = {}) {
+  try {
+    await syncNoteLinks(note)
+
+    if (previousTitle !== undefined) {
+      await rewriteWikiLinksOnRename(note, previousTitle, note.title)
+    }
+
+    if (created || previousTitle !== undefined) {
+      await resolveDanglingWikiLinks(note)
+    }
+  } catch (error) {
+    console.error('노트 링크 갱신 오류:', error)
+  }
+}
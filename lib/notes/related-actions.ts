@@ -0,0 +1,65 @@
+// lib/notes/related-actions.ts
+// 관련 노트 Server Actions
+// 노트 상세 페이지의 "관련 노트" 섹션에 임베딩 유사도 순 노트 목록을 제공
+// 조회 중에는 AI를 호출하지 않고, 없거나 오래된 임베딩은 백그라운드 작업으로 계산 예약
+// 관련 파일: lib/notes/embeddings.ts, components/notes/related-notes-section.tsx
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { notes, noteColumns } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { eq } from 'drizzle-orm'
+import { findRelatedNotes, getNoteEmbedding, scheduleStaleEmbeddings } from './embeddings'
+import { scheduleAIJobDrain } from '@/lib/ai/job-worker'
+import type { RelatedNote } from './types'
+
+export async function getRelatedNotes(noteId: string, limit: number = 5): Promise<RelatedNote[]> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('인증이 필요합니다.')
+    }
+
+    const [note] = await db
+      .select(noteColumns)
+      .from(notes)
+      .where(eq(notes.id, noteId))
+      .limit(1)
+
+    if (!note || note.deletedAt) {
+      throw new Error('NOT_FOUND')
+    }
+
+    if (note.userId !== user.id) {
+      throw new Error('FORBIDDEN')
+    }
+
+    const source = await getNoteEmbedding(note.id)
+
+    // 계산 예약 실패가 저장된 임베딩으로 찾은 결과를 막지 않도록 오류는 기록만 함
+    try {
+      const jobs = await scheduleStaleEmbeddings(note, source)
+      jobs.forEach(job => scheduleAIJobDrain(job.runAfter))
+    } catch (error) {
+      console.error('노트 임베딩 예약 오류:', error)
+    }
+
+    // 아직 임베딩이 없으면 예약된 작업이 처리된 뒤부터 관련 노트를 표시
+    if (!source) {
+      return []
+    }
+
+    return await findRelatedNotes(note, source, limit)
+  } catch (error) {
+    console.error('관련 노트 조회 오류:', error)
+
+    if (error instanceof Error && (error.message === 'NOT_FOUND' || error.message === 'FORBIDDEN')) {
+      throw error
+    }
+
+    throw new Error('관련 노트를 불러올 수 없습니다.')
+  }
+}
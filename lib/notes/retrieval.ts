@@ -0,0 +1,66 @@
+// lib/notes/retrieval.ts
+// AI 대화용 노트 검색 (retrieval)
+// 사용자 질문과 관련된 본인 소유 노트를 전문 검색으로 찾아 프롬프트에 넣을 발췌문을 만듦
+// 관련 파일: lib/notes/search.ts, lib/ai/note-chat.ts, app/api/ai-chat/route.ts
+
+import { db } from '@/lib/db/connection'
+import { notes } from '@/lib/db/schema/notes'
+import { and, eq, isNull, desc } from 'drizzle-orm'
+import {
+  extractQueryKeywords,
+  buildKeywordSearchCondition,
+  buildKeywordRankExpression,
+  buildHighlightSnippet
+} from './search'
+
+export interface RetrievedNote {
+  id: string
+  title: string
+  excerpt: string
+  rank: number
+}
+
+interface RetrieveOptions {
+  limit?: number
+  maxExcerptLength?: number
+}
+
+// 본문에서 키워드 주변을 잘라 프롬프트용 발췌문 생성 (일치하는 곳이 없으면 앞부분)
+export function buildContextExcerpt(content: string | null, keywords: string[], maxLength: number): string {
+  if (!content) return ''
+
+  const segments = buildHighlightSnippet(content, keywords.join(' '), maxLength)
+  if (segments) {
+    return segments.map(segment => segment.text).join('')
+  }
+
+  const text = content.replace(/\s+/g, ' ').trim()
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text
+}
+
+// 질문과 관련된 사용자 노트 조회 (휴지통 노트 제외)
+export async function retrieveRelevantNotes(
+  userId: string,
+  query: string,
+  { limit = 4, maxExcerptLength = 1200 }: RetrieveOptions = {}
+): Promise<RetrievedNote[]> {
+  const keywords = extractQueryKeywords(query)
+  const searchCondition = buildKeywordSearchCondition(keywords)
+  if (!searchCondition) return []
+
+  const rank = buildKeywordRankExpression(keywords)
+
+  const rows = await db
+    .select({ id: notes.id, title: notes.title, content: notes.content, rank })
+    .from(notes)
+    .where(and(eq(notes.userId, userId), isNull(notes.deletedAt), searchCondition))
+    .orderBy(desc(rank), desc(notes.updatedAt))
+    .limit(limit)
+
+  return rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    excerpt: buildContextExcerpt(row.content, keywords, maxExcerptLength),
+    rank: row.rank
+  }))
+}
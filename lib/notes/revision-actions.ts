@@ -0,0 +1,159 @@
+// lib/notes/revision-actions.ts
+// 노트 버전 기록 관련 Server Actions
+// 버전 목록 조회, 특정 버전 조회, 버전 복원 기능을 제공
+// 관련 파일: lib/notes/revisions.ts, lib/db/schema/note_revisions.ts, components/notes/revision-history.tsx
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { notes, noteColumns, noteRevisions, summaries, noteTags } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { eq, and, desc } from 'drizzle-orm'
+import { recordNoteRevision } from './revisions'
+import { refreshNoteLinks } from './links'
+
+// 인증된 사용자 소유의 활성 노트인지 확인
+async function getOwnedNote(noteId: string) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('인증이 필요합니다.')
+  }
+
+  const [note] = await db
+    .select(noteColumns)
+    .from(notes)
+    .where(eq(notes.id, noteId))
+    .limit(1)
+
+  // 휴지통에 있는 노트는 버전을 조회하거나 복원할 수 없음
+  if (!note || note.deletedAt) {
+    throw new Error('NOT_FOUND')
+  }
+
+  if (note.userId !== user.id) {
+    throw new Error('FORBIDDEN')
+  }
+
+  return { note, user }
+}
+
+// 버전 목록 조회 (본문 제외)
+export async function getNoteRevisions(noteId: string) {
+  try {
+    const { user } = await getOwnedNote(noteId)
+
+    const revisions = await db
+      .select({
+        id: noteRevisions.id,
+        title: noteRevisions.title,
+        restoredFromId: noteRevisions.restoredFromId,
+        createdAt: noteRevisions.createdAt,
+        updatedAt: noteRevisions.updatedAt
+      })
+      .from(noteRevisions)
+      .where(and(eq(noteRevisions.noteId, noteId), eq(noteRevisions.userId, user.id)))
+      .orderBy(desc(noteRevisions.createdAt))
+
+    return revisions
+  } catch (error) {
+    console.error('노트 버전 목록 조회 오류:', error)
+
+    if (error instanceof Error && (error.message === 'NOT_FOUND' || error.message === 'FORBIDDEN')) {
+      throw error
+    }
+
+    throw new Error('버전 기록을 불러올 수 없습니다.')
+  }
+}
+
+// 단일 버전 조회 (diff 비교용)
+export async function getNoteRevision(noteId: string, revisionId: string) {
+  try {
+    const { user } = await getOwnedNote(noteId)
+
+    const [revision] = await db
+      .select()
+      .from(noteRevisions)
+      .where(and(
+        eq(noteRevisions.id, revisionId),
+        eq(noteRevisions.noteId, noteId),
+        eq(noteRevisions.userId, user.id)
+      ))
+      .limit(1)
+
+    if (!revision) {
+      throw new Error('NOT_FOUND')
+    }
+
+    return revision
+  } catch (error) {
+    console.error('노트 버전 조회 오류:', error)
+
+    if (error instanceof Error && (error.message === 'NOT_FOUND' || error.message === 'FORBIDDEN')) {
+      throw error
+    }
+
+    throw new Error('버전을 불러올 수 없습니다.')
+  }
+}
+
+// 버전 복원 (복원 결과도 새로운 버전으로 기록)
+export async function restoreNoteRevision(noteId: string, revisionId: string) {
+  try {
+    const { note, user } = await getOwnedNote(noteId)
+
+    const [revision] = await db
+      .select()
+      .from(noteRevisions)
+      .where(and(
+        eq(noteRevisions.id, revisionId),
+        eq(noteRevisions.noteId, noteId),
+        eq(noteRevisions.userId, user.id)
+      ))
+      .limit(1)
+
+    if (!revision) {
+      throw new Error('NOT_FOUND')
+    }
+
+    const [restoredNote] = await db
+      .update(notes)
+      .set({
+        title: revision.title,
+        content: revision.content,
+        updatedAt: new Date()
+      })
+      .where(and(eq(notes.id, noteId), eq(notes.userId, user.id)))
+      .returning(noteColumns)
+
+    await recordNoteRevision(restoredNote, { previous: note, restoredFromId: revision.id })
+
+    // 본문이 바뀐 경우 updateNote와 동일하게 기존 요약과 태그 삭제
+    if (revision.content !== note.content) {
+      await db.delete(summaries).where(eq(summaries.noteId, noteId))
+      await db.delete(noteTags).where(eq(noteTags.noteId, noteId))
+    }
+
+    // 복원된 본문과 제목으로 위키 링크 갱신
+    await refreshNoteLinks(restoredNote, {
+      previousTitle: restoredNote.title !== note.title ? note.title : undefined
+    })
+
+    // 캐시 무효화
+    revalidatePath('/notes')
+    revalidatePath(`/notes/${noteId}`)
+
+    return restoredNote
+  } catch (error) {
+    console.error('노트 버전 복원 오류:', error)
+
+    if (error instanceof Error && (error.message === 'NOT_FOUND' || error.message === 'FORBIDDEN')) {
+      throw error
+    }
+
+    throw new Error('버전 복원에 실패했습니다.')
+  }
+}
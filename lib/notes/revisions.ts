@@ -0,0 +1,123 @@
+// lib/notes/revisions.ts
+// 노트 버전 스냅샷 기록 로직
+// 3초 간격 자동 저장이 버전을 무한히 쌓지 않도록 연속된 편집을 하나의 버전으로 병합하되, 긴 편집 세션이나 큰 삭제 전의 상태는 별도 버전으로 보존
+// 관련 파일: lib/db/schema/note_revisions.ts, lib/notes/actions.ts, lib/notes/revision-actions.ts
+
+import { db } from '@/lib/db/connection'
+import { noteRevisions } from '@/lib/db/schema/note_revisions'
+import { eq, desc } from 'drizzle-orm'
+
+// 같은 버전으로 병합되는 최대 시간 (버전 생성 시점 기준 10분, 이후 편집은 새 버전)
+export const REVISION_COALESCE_WINDOW_MS = 10 * 60 * 1000
+
+// 버전의 마지막 병합 이후 이 시간 동안 편집이 없었으면 새 편집 세션으로 보고 새 버전 생성
+export const REVISION_IDLE_GAP_MS = 2 * 60 * 1000
+
+// 이 길이 이상인 본문이 절반 미만으로 줄어들면 실수로 지웠을 수 있으므로 지우기 전 상태를 별도 버전으로 보존
+const LARGE_DELETION_MIN_LENGTH = 200
+const LARGE_DELETION_RATIO = 0.5
+
+interface CoalescibleRevision {
+  content: string | null
+  restoredFromId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+interface NoteSnapshot {
+  id: string
+  userId: string
+  title: string
+  content: string | null
+  updatedAt?: Date | null
+}
+
+interface RecordRevisionOptions {
+  // 수정 전 노트 상태 (버전 기록이 없는 기존 노트의 원본 보존용)
+  previous?: NoteSnapshot
+  // 복원으로 생성된 버전인 경우 원본 버전 ID (병합하지 않고 항상 새 버전 생성)
+  restoredFromId?: string
+}
+
+// 최신 버전을 새 상태로 덮어써도 되는지 판단
+// 복원 버전, 병합 시간이 지난 버전, 편집이 한동안 멈췄던 버전은 덮어쓰지 않고, 본문 대부분을 지우는 변경도 새 버전으로 기록
+export function shouldCoalesceRevision(
+  latest: CoalescibleRevision,
+  next: { content: string | null; restored?: boolean },
+  now: Date
+): boolean {
+  if (next.restored || latest.restoredFromId || !latest.createdAt) {
+    return false
+  }
+
+  if (now.getTime() - latest.createdAt.getTime() >= REVISION_COALESCE_WINDOW_MS) {
+    return false
+  }
+
+  const lastEditedAt = latest.updatedAt ?? latest.createdAt
+  if (now.getTime() - lastEditedAt.getTime() >= REVISION_IDLE_GAP_MS) {
+    return false
+  }
+
+  const previousLength = latest.content?.length ?? 0
+  const nextLength = next.content?.length ?? 0
+  const isLargeDeletion = previousLength >= LARGE_DELETION_MIN_LENGTH && nextLength < previousLength * LARGE_DELETION_RATIO
+
+  return !isLargeDeletion
+}
+
+// 노트의 현재 상태를 버전으로 기록
+export async function recordNoteRevision(note: NoteSnapshot, options: RecordRevisionOptions = {}) {
+  const { previous, restoredFromId } = options
+  const now = new Date()
+
+  let [latest] = await db
+    .select()
+    .from(noteRevisions)
+    .where(eq(noteRevisions.noteId, note.id))
+    .orderBy(desc(noteRevisions.createdAt))
+    .limit(1)
+
+  // 버전 기록 도입 이전에 생성된 노트는 수정 전 상태를 기준 버전으로 먼저 보존
+  if (!latest && previous) {
+    ;[latest] = await db
+      .insert(noteRevisions)
+      .values({
+        noteId: previous.id,
+        userId: previous.userId,
+        title: previous.title,
+        content: previous.content,
+        createdAt: previous.updatedAt ?? now,
+        updatedAt: previous.updatedAt ?? now
+      })
+      .returning()
+  }
+
+  // 최신 버전과 내용이 같으면 기록하지 않음
+  if (latest && !restoredFromId && latest.title === note.title && latest.content === note.content) {
+    return latest
+  }
+
+  if (latest && shouldCoalesceRevision(latest, { content: note.content, restored: Boolean(restoredFromId) }, now)) {
+    const [coalesced] = await db
+      .update(noteRevisions)
+      .set({ title: note.title, content: note.content, updatedAt: now })
+      .where(eq(noteRevisions.id, latest.id))
+      .returning()
+
+    return coalesced
+  }
+
+  const [revision] = await db
+    .insert(noteRevisions)
+    .values({
+      noteId: note.id,
+      userId: note.userId,
+      title: note.title,
+      content: note.content,
+      restoredFromId: restoredFromId ?? null
+    })
+    .returning()
+
+  return revision
+}
@@ -0,0 +1,146 @@
+// lib/notes/search.ts
+// 노트 전문 검색 조건/랭킹 SQL과 하이라이트 스니펫 생성 유틸리티
+// tsvector 전문 검색과 pg_trgm 부분 일치를 결합하여 인덱스를 활용한 검색과 관련도 정렬을 제공
+// 관련 파일: lib/notes/actions.ts, lib/db/schema/notes.ts, components/notes/note-card.tsx
+
+import { sql, or, SQL, type AnyColumn } from 'drizzle-orm'
+import { notes } from '@/lib/db/schema/notes'
+
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+// LIKE 패턴에서 와일드카드로 해석되는 문자(%, _)와 이스케이프 문자(\)를 글자 그대로 일치하도록 변환
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+// 값을 부분 문자열로 포함하는지 대소문자 구분 없이 확인하는 조건 (검색어의 %, _는 와일드카드로 쓰지 않음)
+export function buildContainsCondition(column: AnyColumn, value: string): SQL {
+  return sql`${column} ILIKE ${`%${escapeLikePattern(value)}%`} ESCAPE '\\'`
+}
+
+// 검색어와 일치하는 노트 조건
+// - search_vector @@ websearch_to_tsquery: GIN 인덱스를 사용하는 단어 단위 검색
+// - ILIKE: pg_trgm GIN 인덱스를 사용하는 부분 일치 검색 (조사가 붙은 한국어 단어 대응)
+export function buildSearchCondition(query: string): SQL {
+  return or(
+    sql`${notes.searchVector} @@ websearch_to_tsquery('simple', ${query})`,
+    buildContainsCondition(notes.title, query),
+    buildContainsCondition(notes.content, query)
+  )!
+}
+
+// 관련도 점수 (전문 검색 순위 + 제목 유사도)
+export function buildRankExpression(query: string): SQL<number> {
+  return sql<number>`(
+    ts_rank_cd(${notes.searchVector}, websearch_to_tsquery('simple', ${query}))
+    + similarity(${notes.title}, ${query})
+  )::float8`
+}
+
+// 질문 문장에서 제외할 의문사/요청 표현
+const QUESTION_STOPWORDS = new Set([
+  '뭐', '뭐야', '뭐였지', '무엇', '무엇인가요', '어떻게', '어떤', '언제', '어디', '누가', '왜', '있나요', '있어',
+  '알려줘', '알려주세요', '정리해줘', '정리해주세요', '요약해줘', '찾아줘', '내', '나의', '노트', '메모',
+  'what', 'how', 'when', 'where', 'who', 'why', 'the', 'and', 'for', 'about', 'my', 'notes', 'note',
+  'did', 'does', 'is', 'are', 'was', 'were', 'write', 'wrote', 'tell', 'me'
+])
+
+// 한국어 조사/어미 (긴 것부터 제거)
+const KOREAN_PARTICLES = ['에서는', '에게서', '으로는', '이라는', '에서', '에게', '으로', '까지', '부터', '이랑', '한테',
+  '라는', '은', '는', '이', '가', '을', '를', '에', '의', '와', '과', '도', '만', '로', '랑']
+
+// 자연어 질문에서 검색 키워드 추출 (조사 제거, 의문사 제외)
+export function extractQueryKeywords(text: string, limit: number = 8): string[] {
+  const keywords = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .map(word => {
+      const particle = KOREAN_PARTICLES.find(suffix => word.length > suffix.length + 1 && word.endsWith(suffix))
+      return particle ? word.slice(0, -particle.length) : word
+    })
+    .filter(word => word.length >= 2 && !QUESTION_STOPWORDS.has(word))
+
+  return Array.from(new Set(keywords)).slice(0, limit)
+}
+
+// 키워드 중 하나라도 포함하는 노트 조건 (질문 기반 검색용, 접두어 일치)
+// 키워드는 extractQueryKeywords로 문자/숫자만 남긴 값이어야 함
+export function buildKeywordSearchCondition(keywords: string[]): SQL | undefined {
+  if (keywords.length === 0) return undefined
+
+  const tsQuery = keywords.map(keyword => `${keyword}:*`).join(' | ')
+
+  return or(
+    sql`${notes.searchVector} @@ to_tsquery('simple', ${tsQuery})`,
+    ...keywords.map(keyword => buildContainsCondition(notes.title, keyword)),
+    ...keywords.map(keyword => buildContainsCondition(notes.content, keyword))
+  )
+}
+
+// 키워드 기반 관련도 점수
+export function buildKeywordRankExpression(keywords: string[]): SQL<number> {
+  const tsQuery = keywords.map(keyword => `${keyword}:*`).join(' | ')
+
+  return sql<number>`(
+    ts_rank_cd(${notes.searchVector}, to_tsquery('simple', ${tsQuery}))
+    + similarity(${notes.title}, ${keywords.join(' ')})
+  )::float8`
+}
+
+// 검색어를 하이라이트용 단어 목록으로 분리 (따옴표, 검색 연산자 제거)
+export function extractSearchTerms(query: string): string[] {
+  const terms = query
+    .replace(/["()]/g, ' ')
+    .split(/\s+/)
+    .map(term => term.replace(/^[-+]/, '').trim())
+    .filter(term => term.length > 0 && term.toLowerCase() !== 'or')
+
+  // 긴 단어부터 매칭되도록 정렬하고 중복 제거
+  return Array.from(new Set(terms.map(term => term.toLowerCase())))
+    .sort((a, b) => b.length - a.length)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// 본문에서 첫 번째 일치 위치 주변을 잘라 하이라이트 스니펫 생성
+// HTML 대신 구간 배열을 반환하여 클라이언트에서 안전하게 렌더링
+export function buildHighlightSnippet(
+  content: string | null,
+  query: string,
+  maxLength: number = 160
+): HighlightSegment[] | null {
+  if (!content) return null
+
+  const terms = extractSearchTerms(query)
+  if (terms.length === 0) return null
+
+  // 마크다운 줄바꿈과 연속 공백 정리
+  const text = content.replace(/\s+/g, ' ').trim()
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi')
+
+  const firstMatch = text.search(pattern)
+  if (firstMatch === -1) return null
+
+  // 일치 위치가 스니펫의 앞쪽 1/3에 오도록 시작점 계산
+  const start = Math.max(0, firstMatch - Math.floor(maxLength / 3))
+  const end = Math.min(text.length, start + maxLength)
+  const excerpt = text.slice(start, end)
+
+  const segments: HighlightSegment[] = []
+  if (start > 0) segments.push({ text: '…', highlighted: false })
+
+  excerpt.split(pattern).forEach((part, index) => {
+    if (!part) return
+    // split에 캡처 그룹을 사용했으므로 홀수 인덱스가 일치 구간
+    segments.push({ text: part, highlighted: index % 2 === 1 })
+  })
+
+  if (end < text.length) segments.push({ text: '…', highlighted: false })
+
+  return segments
+}
@@ -0,0 +1,67 @@
+// lib/notes/tag-params.ts
+// 태그 필터 URL 파라미터 파싱 및 생성 유틸리티
+// 노트 목록 페이지(서버)와 태그 배지/패싯(클라이언트)이 같은 규칙으로 ?tags=a,b&tagMode=all 을 다루도록 함
+// 관련 파일: app/notes/page.tsx, components/notes/tag-facets.tsx, components/notes/note-card.tsx
+
+export type TagMatchMode = 'any' | 'all'
+
+// 한 번에 필터링할 수 있는 최대 태그 수
+export const MAX_FILTER_TAGS = 10
+
+// ?tags=a,b 파라미터를 태그 배열로 변환 (공백 제거, 중복 제거)
+export function parseTagsParam(param?: string | null): string[] {
+  if (!param) return []
+
+  const tags = param
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => tag.length > 0 && tag.length <= 50)
+
+  return Array.from(new Set(tags)).slice(0, MAX_FILTER_TAGS)
+}
+
+// ?tagMode 파라미터 검증 (기본값: any)
+export function parseTagModeParam(param?: string | null): TagMatchMode {
+  return param === 'all' ? 'all' : 'any'
+}
+
+// 현재 URL 파라미터에 태그 필터를 적용한 새 파라미터 생성
+export function buildTagFilterParams(
+  current: URLSearchParams,
+  tags: string[],
+  mode?: TagMatchMode
+): URLSearchParams {
+  const params = new URLSearchParams(current)
+
+  if (tags.length > 0) {
+    params.set('tags', tags.join(','))
+  } else {
+    params.delete('tags')
+    params.delete('tagMode')
+  }
+
+  if (mode && tags.length > 0) {
+    if (mode === 'all') {
+      params.set('tagMode', 'all')
+    } else {
+      params.delete('tagMode')
+    }
+  }
+
+  // 필터 변경 시 첫 페이지로 이동
+  params.set('page', '1')
+
+  return params
+}
+
+// 태그를 필터에 추가하거나 이미 있으면 제거
+export function toggleTag(tags: string[], tag: string): string[] {
+  return tags.includes(tag)
+    ? tags.filter(existing => existing !== tag)
+    : [...tags, tag].slice(0, MAX_FILTER_TAGS)
+}
+
+// 단일 태그로 필터링된 노트 목록 링크
+export function buildTagFilterHref(tag: string): string {
+  return `/notes?${new URLSearchParams({ tags: tag }).toString()}`
+}
@@ -0,0 +1,75 @@
+// lib/notes/tag-query.ts
+// 노트 목록의 태그 필터 조건과 태그 패싯 집계 쿼리
+// note_tags의 tag 인덱스를 활용하여 any/all 매칭 필터와 현재 결과 집합의 태그별 개수를 계산
+// 관련 파일: lib/notes/actions.ts, lib/db/schema/note_tags.ts, lib/notes/tag-params.ts
+
+import { db } from '@/lib/db/connection'
+import { notes } from '@/lib/db/schema/notes'
+import { noteTags } from '@/lib/db/schema/note_tags'
+import { eq, inArray, desc, asc, sql, SQL } from 'drizzle-orm'
+import type { TagMatchMode } from './tag-params'
+
+export interface TagFacet {
+  tag: string
+  count: number
+}
+
+// 태그 필터 조건
+// - any: 선택한 태그 중 하나라도 가진 노트
+// - all: 선택한 태그를 모두 가진 노트
+export function buildTagFilterCondition(tags: string[], mode: TagMatchMode): SQL | undefined {
+  if (tags.length === 0) return undefined
+
+  if (mode === 'all') {
+    return inArray(
+      notes.id,
+      db
+        .select({ noteId: noteTags.noteId })
+        .from(noteTags)
+        .where(inArray(noteTags.tag, tags))
+        .groupBy(noteTags.noteId)
+        .having(sql`count(distinct ${noteTags.tag}) = ${tags.length}`)
+    )
+  }
+
+  return sql`exists (
+    select 1 from ${noteTags}
+    where ${noteTags.noteId} = ${notes.id} and ${inArray(noteTags.tag, tags)}
+  )`
+}
+
+// 현재 조건(검색/필터 포함)에 해당하는 노트들의 태그별 개수
+export async function getTagFacets(whereCondition: SQL | undefined, limit: number = 20): Promise<TagFacet[]> {
+  const facetCount = sql<number>`count(*)::int`
+
+  const rows = await db
+    .select({ tag: noteTags.tag, count: facetCount })
+    .from(noteTags)
+    .innerJoin(notes, eq(noteTags.noteId, notes.id))
+    .where(whereCondition)
+    .groupBy(noteTags.tag)
+    .orderBy(desc(facetCount), asc(noteTags.tag))
+    .limit(limit)
+
+  return rows
+}
+
+// 여러 노트의 태그를 한 번에 조회하여 noteId별로 묶음
+export async function getTagsForNotes(noteIds: string[]): Promise<Map<string, string[]>> {
+  const tagsByNote = new Map<string, string[]>()
+  if (noteIds.length === 0) return tagsByNote
+
+  const rows = await db
+    .select({ noteId: noteTags.noteId, tag: noteTags.tag })
+    .from(noteTags)
+    .where(inArray(noteTags.noteId, noteIds))
+    .orderBy(asc(noteTags.createdAt))
+
+  rows.forEach(({ noteId, tag }) => {
+    const tags = tagsByNote.get(noteId) ?? []
+    tags.push(tag)
+    tagsByNote.set(noteId, tags)
+  })
+
+  return tagsByNote
+}
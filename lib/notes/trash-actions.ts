@@ -0,0 +1,147 @@
+// lib/notes/trash-actions.ts
+// 휴지통 관련 Server Actions
+// 휴지통 노트 조회, 복원, 영구 삭제, 휴지통 비우기 기능을 제공
+// 관련 파일: lib/notes/trash.ts, lib/notes/actions.ts, app/notes/trash/page.tsx
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { notes, noteColumns } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { eq, and, desc, isNotNull } from 'drizzle-orm'
+import { purgeExpiredTrash, getTrashRetentionDays, cleanupDeletedNoteAudio } from './trash'
+import { refreshNoteLinks } from './links'
+
+// 사용자 인증 확인
+async function getAuthenticatedUser() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('인증이 필요합니다.')
+  }
+
+  return user
+}
+
+// 휴지통에 있는 사용자 소유 노트 조회 및 권한 검증
+async function getTrashedNote(noteId: string, userId: string) {
+  const [existingNote] = await db
+    .select(noteColumns)
+    .from(notes)
+    .where(eq(notes.id, noteId))
+    .limit(1)
+
+  if (!existingNote || !existingNote.deletedAt) {
+    throw new Error('NOT_FOUND')
+  }
+
+  if (existingNote.userId !== userId) {
+    throw new Error('FORBIDDEN')
+  }
+
+  return existingNote
+}
+
+function rethrowKnownError(error: unknown, fallbackMessage: string): never {
+  if (error instanceof Error && (error.message === 'NOT_FOUND' || error.message === 'FORBIDDEN')) {
+    throw error
+  }
+
+  throw new Error(fallbackMessage)
+}
+
+// 휴지통 노트 목록 조회 (조회 전에 만료된 노트 정리)
+export async function getTrashedNotes() {
+  try {
+    const user = await getAuthenticatedUser()
+
+    await purgeExpiredTrash({ userId: user.id })
+
+    const trashedNotes = await db
+      .select(noteColumns)
+      .from(notes)
+      .where(and(eq(notes.userId, user.id), isNotNull(notes.deletedAt)))
+      .orderBy(desc(notes.deletedAt))
+
+    return {
+      notes: trashedNotes,
+      retentionDays: getTrashRetentionDays()
+    }
+  } catch (error) {
+    console.error('휴지통 조회 오류:', error)
+    throw new Error('휴지통을 불러올 수 없습니다.')
+  }
+}
+
+// 휴지통 노트 복원
+export async function restoreNote(noteId: string) {
+  try {
+    const user = await getAuthenticatedUser()
+    await getTrashedNote(noteId, user.id)
+
+    const [restoredNote] = await db
+      .update(notes)
+      .set({ deletedAt: null })
+      .where(and(eq(notes.id, noteId), eq(notes.userId, user.id)))
+      .returning(noteColumns)
+
+    // 휴지통에 있는 동안 연결되지 않은 위키 링크를 다시 계산
+    await refreshNoteLinks(restoredNote, { created: true })
+
+    // 캐시 무효화
+    revalidatePath('/notes')
+    revalidatePath('/notes/trash')
+    revalidatePath(`/notes/${noteId}`)
+
+    return restoredNote
+  } catch (error) {
+    console.error('노트 복원 오류:', error)
+    rethrowKnownError(error, '노트 복원에 실패했습니다.')
+  }
+}
+
+// 휴지통 노트 영구 삭제
+export async function permanentlyDeleteNote(noteId: string) {
+  try {
+    const user = await getAuthenticatedUser()
+    await getTrashedNote(noteId, user.id)
+
+    // 요약, 태그, 버전 기록은 FK cascade로 함께 삭제됨
+    const [deletedNote] = await db
+      .delete(notes)
+      .where(and(eq(notes.id, noteId), eq(notes.userId, user.id)))
+      .returning(noteColumns)
+    await cleanupDeletedNoteAudio(user.id)
+
+    // 캐시 무효화
+    revalidatePath('/notes/trash')
+
+    return deletedNote
+  } catch (error) {
+    console.error('노트 영구 삭제 오류:', error)
+    rethrowKnownError(error, '노트 영구 삭제에 실패했습니다.')
+  }
+}
+
+// 휴지통 비우기 (사용자의 휴지통 노트 전체 영구 삭제)
+export async function emptyTrash() {
+  try {
+    const user = await getAuthenticatedUser()
+
+    const deletedNotes = await db
+      .delete(notes)
+      .where(and(eq(notes.userId, user.id), isNotNull(notes.deletedAt)))
+      .returning({ id: notes.id })
+    await cleanupDeletedNoteAudio(user.id)
+
+    // 캐시 무효화
+    revalidatePath('/notes/trash')
+
+    return { deletedCount: deletedNotes.length }
+  } catch (error) {
+    console.error('휴지통 비우기 오류:', error)
+    throw new Error('휴지통 비우기에 실패했습니다.')
+  }
+}
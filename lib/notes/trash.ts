@@ -0,0 +1,68 @@
+// lib/notes/trash.ts
+// 휴지통 보관 기간 설정 및 만료된 노트 영구 삭제 루틴
+// 휴지통 페이지 접근 시와 정기 실행(cron) 라우트에서 공통으로 사용
+// 관련 파일: lib/notes/trash-actions.ts, app/api/cron/purge-trash/route.ts, lib/db/schema/notes.ts, lib/audio/attachments.ts
+
+import { db } from '@/lib/db/connection'
+import { notes } from '@/lib/db/schema/notes'
+import { and, eq, isNotNull, lt } from 'drizzle-orm'
+import { purgeDetachedAudio } from '@/lib/audio/attachments'
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+// 환경변수에서 휴지통 보관 기간(일) 가져오기
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.NOTES_TRASH_RETENTION_DAYS || `${DEFAULT_TRASH_RETENTION_DAYS}`)
+
+  if (Number.isNaN(days) || days < 1 || days > 365) {
+    throw new Error('NOTES_TRASH_RETENTION_DAYS는 1-365 범위여야 합니다.')
+  }
+
+  return days
+}
+
+// 휴지통 이동 시각 기준 영구 삭제 예정 시각 계산
+export function getPurgeDate(deletedAt: Date, retentionDays: number = getTrashRetentionDays()): Date {
+  return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000)
+}
+
+// 영구 삭제된 노트의 녹음 파일 정리 (실패해도 노트 삭제 결과에는 영향 없음)
+export async function cleanupDeletedNoteAudio(userId?: string): Promise<void> {
+  try {
+    await purgeDetachedAudio(userId)
+  } catch (error) {
+    console.error('녹음 파일 정리 오류:', error)
+  }
+}
+
+// 보관 기간이 지난 휴지통 노트 영구 삭제
+// userId를 지정하면 해당 사용자의 노트만, 생략하면 전체 사용자 대상 (cron 전용)
+export async function purgeExpiredTrash({
+  userId,
+  retentionDays = getTrashRetentionDays(),
+  now = new Date()
+}: {
+  userId?: string
+  retentionDays?: number
+  now?: Date
+} = {}): Promise<number> {
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000)
+
+  const expiredCondition = and(
+    isNotNull(notes.deletedAt),
+    lt(notes.deletedAt, cutoff)
+  )
+
+  // summaries, note_tags, note_revisions는 FK cascade로 함께 삭제됨 (audio_attachments는 연결만 끊김)
+  const purged = await db
+    .delete(notes)
+    .where(userId ? and(eq(notes.userId, userId), expiredCondition) : expiredCondition)
+    .returning({ id: notes.id })
+
+  if (purged.length > 0) {
+    console.log('휴지통 만료 노트 영구 삭제:', { count: purged.length, userId: userId ?? 'all', retentionDays })
+    await cleanupDeletedNoteAudio(userId)
+  }
+
+  return purged.length
+}
@@ -0,0 +1,40 @@
+// lib/notes/types.ts
+// 노트 목록/검색 관련 타입 정의
+// 서버 액션과 노트 목록 UI가 공유하는 정렬 옵션과 검색 결과 타입을 정의
+// 관련 파일: lib/notes/actions.ts, lib/notes/search.ts, app/notes/page.tsx
+
+import type { Note } from '@/lib/db/schema/notes'
+import type { HighlightSegment } from './search'
+
+// 노트 목록 정렬 기준 ('relevance'는 검색어가 있을 때만 적용)
+export type NoteSortBy = 'created_at' | 'updated_at' | 'title' | 'relevance'
+
+// 검색 결과 노트 (태그, 관련도 점수, 하이라이트 스니펫 포함)
+export interface NoteSearchResult extends Note {
+  tags: string[]
+  rank: number | null
+  snippet: HighlightSegment[] | null
+}
+
+// 관련 노트 (임베딩 코사인 유사도 순)
+export interface RelatedNote {
+  id: string
+  title: string
+  updatedAt: Date | null
+  similarity: number
+}
+
+
+// 백링크 (현재 노트를 [[제목]]으로 링크한 노트, 최근 수정순)
+export interface BacklinkNote {
+  id: string
+  title: string
+  updatedAt: Date | null
+  context: string | null // 링크가 있는 줄
+}
+
+// 위키 링크 자동완성 후보
+export interface NoteTitleSuggestion {
+  id: string
+  title: string
+}
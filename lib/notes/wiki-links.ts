@@ -0,0 +1,103 @@
+// lib/notes/wiki-links.ts
+// [[노트 제목]] 위키 링크 파싱 및 변환 유틸리티
+// 본문에서 링크 대상 제목 추출, 제목 변경 시 링크 텍스트 갱신, 미리보기용 마크다운 링크 변환, 에디터 자동완성 입력 감지를 담당
+// 관련 파일: lib/notes/links.ts, lib/notes/link-actions.ts, components/notes/markdown-editor.tsx, hooks/use-wiki-link-autocomplete.ts
+
+// [[제목]] (제목에는 대괄호와 줄바꿈을 쓸 수 없음)
+const WIKI_LINK_PATTERN = /\[\[([^[\]\n]+)\]\]/g
+
+// 한 노트에서 링크로 인식하는 최대 대상 수
+export const MAX_WIKI_LINKS_PER_NOTE = 100
+
+export interface WikiLinkTrigger {
+  query: string // [[ 뒤에 입력 중인 제목
+  start: number // [[ 시작 위치
+  end: number // 커서 위치
+}
+
+// 제목 비교용 키 (앞뒤 공백 제거, 대소문자 무시)
+export function normalizeWikiLinkTitle(title: string): string {
+  return title.trim().toLowerCase()
+}
+
+// 본문의 위키 링크 대상 제목 목록 (비교 키 기준 중복 제거, 처음 나온 표기 유지)
+export function extractWikiLinkTitles(content: string | null): string[] {
+  if (!content) return []
+
+  const titles = new Map<string, string>()
+  for (const match of content.matchAll(WIKI_LINK_PATTERN)) {
+    const title = match[1].trim()
+    const key = normalizeWikiLinkTitle(title)
+    if (key && !titles.has(key)) {
+      titles.set(key, title)
+    }
+  }
+
+  return Array.from(titles.values()).slice(0, MAX_WIKI_LINKS_PER_NOTE)
+}
+
+// 링크 대상 노트의 제목이 바뀌었을 때 본문의 [[이전 제목]]을 [[새 제목]]으로 변경
+export function renameWikiLinks(content: string, oldTitle: string, newTitle: string): string {
+  const oldKey = normalizeWikiLinkTitle(oldTitle)
+  const replacement = newTitle.trim()
+
+  if (!oldKey || !replacement || /[[\]\n]/.test(replacement)) {
+    return content
+  }
+
+  return content.replace(WIKI_LINK_PATTERN, (link, title: string) =>
+    normalizeWikiLinkTitle(title) === oldKey ? `[[${replacement}]]` : link
+  )
+}
+
+// 미리보기용으로 연결된 위키 링크를 /notes/[id] 마크다운 링크로 변환 (대상을 찾지 못한 링크는 그대로 표시)
+export function renderWikiLinks(content: string, linkTargets: Record<string, string>): string {
+  return content.replace(WIKI_LINK_PATTERN, (link, title: string) => {
+    const targetId = linkTargets[normalizeWikiLinkTitle(title)]
+    return targetId ? `[${title.trim()}](/notes/${targetId})` : link
+  })
+}
+
+// 위키 링크가 있는 줄을 백링크 문맥으로 추출
+export function getWikiLinkContext(content: string | null, title: string, maxLength: number = 120): string | null {
+  if (!content) return null
+
+  const key = normalizeWikiLinkTitle(title)
+  const line = content.split('\n').find(candidate =>
+    Array.from(candidate.matchAll(WIKI_LINK_PATTERN)).some(match => normalizeWikiLinkTitle(match[1]) === key)
+  )
+
+  if (!line) return null
+
+  const trimmed = line.trim()
+  return trimmed.length > maxLength ? `${trimmed.slice(0, maxLength)}...` : trimmed
+}
+
+// 커서 바로 앞에 닫히지 않은 [[ 가 있으면 자동완성 입력으로 인식
+export function getWikiLinkTrigger(text: string, cursor: number): WikiLinkTrigger | null {
+  const before = text.slice(0, cursor)
+  const start = before.lastIndexOf('[[')
+
+  if (start === -1) return null
+
+  const query = before.slice(start + 2)
+  if (/[[\]\n]/.test(query) || query.length > 100) return null
+
+  return { query, start, end: cursor }
+}
+
+// 자동완성으로 선택한 제목을 [[제목]] 형태로 삽입 (이미 닫는 ]] 가 있으면 재사용)
+export function insertWikiLink(
+  text: string,
+  trigger: WikiLinkTrigger,
+  title: string
+): { value: string; cursor: number } {
+  const after = text.slice(trigger.end)
+  const rest = after.startsWith(']]') ? after.slice(2) : after
+  const link = `[[${title}]]`
+
+  return {
+    value: text.slice(0, trigger.start) + link + rest,
+    cursor: trigger.start + link.length
+  }
+}
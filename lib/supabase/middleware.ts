@@ -0,0 +1,51 @@
+// lib/supabase/middleware.ts
+// 미들웨어용 Supabase 세션 갱신 및 경로 보호
+// 요청마다 만료가 가까운 세션 쿠키를 갱신하고, 보호 경로의 비로그인 요청과 인증 페이지의 로그인 요청을 리다이렉트
+// 관련 파일: middleware.ts, lib/auth/route-protection.ts, lib/supabase/server.ts
+
+import { createServerClient } from '@supabase/ssr'
+import { NextResponse, type NextRequest } from 'next/server'
+import { buildSignInPath, isAuthPath, isProtectedPath, sanitizeNextPath, NEXT_PARAM } from '@/lib/auth/route-protection'
+
+// 갱신된 세션 쿠키를 유지한 채 다른 경로로 리다이렉트
+function redirectWithCookies(request: NextRequest, response: NextResponse, target: string): NextResponse {
+  const redirectResponse = NextResponse.redirect(new URL(target, request.url))
+  response.cookies.getAll().forEach(cookie => redirectResponse.cookies.set(cookie))
+  return redirectResponse
+}
+
+export async function updateSession(request: NextRequest): Promise<NextResponse> {
+  let response = NextResponse.next({ request })
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          // 이후 서버 컴포넌트가 갱신된 쿠키를 읽도록 요청과 응답 모두에 반영
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          response = NextResponse.next({ request })
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+        }
+      }
+    }
+  )
+
+  // createServerClient와 getUser 사이에 다른 코드를 두지 않아야 세션 갱신이 누락되지 않음
+  const { data: { user } } = await supabase.auth.getUser()
+  const { pathname, search } = request.nextUrl
+
+  if (!user && isProtectedPath(pathname)) {
+    return redirectWithCookies(request, response, buildSignInPath(`${pathname}${search}`))
+  }
+
+  if (user && isAuthPath(pathname)) {
+    return redirectWithCookies(request, response, sanitizeNextPath(request.nextUrl.searchParams.get(NEXT_PARAM)))
+  }
+
+  return response
+}
@@ -0,0 +1,126 @@
+// lib/templates/actions.ts
+// 노트 템플릿 관련 Server Actions
+// 사용자의 템플릿 목록 조회, 현재 노트를 템플릿으로 저장, 템플릿 삭제 기능을 제공
+// 관련 파일: lib/db/schema/note_templates.ts, lib/templates/placeholders.ts, components/templates/template-picker.tsx, components/templates/save-template-dialog.tsx
+
+'use server'
+
+import { db } from '@/lib/db/connection'
+import { notes, noteTemplates } from '@/lib/db/schema'
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { and, asc, eq, isNull } from 'drizzle-orm'
+import { normalizeTemplateName, type NoteTemplateOption } from './placeholders'
+
+const KNOWN_ERRORS = ['NOT_FOUND', 'FORBIDDEN', 'INVALID_NAME']
+
+// 사용자 인증 확인
+async function getAuthenticatedUser() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('인증이 필요합니다.')
+  }
+
+  return user
+}
+
+function rethrowKnownError(error: unknown, fallbackMessage: string): never {
+  if (error instanceof Error && KNOWN_ERRORS.includes(error.message)) {
+    throw error
+  }
+
+  throw new Error(fallbackMessage)
+}
+
+// 새 노트 작성 페이지용 템플릿 목록 조회 (이름순)
+export async function getNoteTemplates(): Promise<NoteTemplateOption[]> {
+  try {
+    const user = await getAuthenticatedUser()
+
+    return await db
+      .select({
+        id: noteTemplates.id,
+        name: noteTemplates.name,
+        title: noteTemplates.title,
+        content: noteTemplates.content
+      })
+      .from(noteTemplates)
+      .where(eq(noteTemplates.userId, user.id))
+      .orderBy(asc(noteTemplates.name))
+  } catch (error) {
+    console.error('템플릿 조회 오류:', error)
+    throw new Error('템플릿을 불러올 수 없습니다.')
+  }
+}
+
+// 노트의 현재 제목과 본문을 템플릿으로 저장 (본문의 {{date}} 같은 변수는 그대로 저장되어 새 노트를 만들 때 치환됨)
+export async function createNoteTemplateFromNote(noteId: string, name: string) {
+  try {
+    const user = await getAuthenticatedUser()
+
+    const templateName = normalizeTemplateName(name)
+    if (!templateName) {
+      throw new Error('INVALID_NAME')
+    }
+
+    const [note] = await db
+      .select({ userId: notes.userId, title: notes.title, content: notes.content })
+      .from(notes)
+      .where(and(eq(notes.id, noteId), isNull(notes.deletedAt)))
+      .limit(1)
+
+    if (!note) {
+      throw new Error('NOT_FOUND')
+    }
+
+    if (note.userId !== user.id) {
+      throw new Error('FORBIDDEN')
+    }
+
+    const [template] = await db
+      .insert(noteTemplates)
+      .values({ userId: user.id, name: templateName, title: note.title, content: note.content ?? '' })
+      .returning()
+
+    // 캐시 무효화
+    revalidatePath('/notes/new')
+
+    return template
+  } catch (error) {
+    console.error('템플릿 저장 오류:', error)
+    rethrowKnownError(error, '템플릿을 저장할 수 없습니다.')
+  }
+}
+
+// 템플릿 삭제 (이미 템플릿으로 만든 노트에는 영향 없음)
+export async function deleteNoteTemplate(templateId: string) {
+  try {
+    const user = await getAuthenticatedUser()
+
+    const [template] = await db
+      .select({ userId: noteTemplates.userId })
+      .from(noteTemplates)
+      .where(eq(noteTemplates.id, templateId))
+      .limit(1)
+
+    if (!template) {
+      throw new Error('NOT_FOUND')
+    }
+
+    if (template.userId !== user.id) {
+      throw new Error('FORBIDDEN')
+    }
+
+    await db.delete(noteTemplates).where(eq(noteTemplates.id, templateId))
+
+    // 캐시 무효화
+    revalidatePath('/notes/new')
+
+    return { success: true }
+  } catch (error) {
+    console.error('템플릿 삭제 오류:', error)
+    rethrowKnownError(error, '템플릿을 삭제할 수 없습니다.')
+  }
+}
@@ -0,0 +1,70 @@
+// lib/templates/placeholders.ts
+// 노트 템플릿 변수 치환 유틸리티
+// 템플릿 제목과 본문의 {{date}}, {{time}}, {{title}} 변수를 새 노트를 만드는 시점의 값으로 바꾸고 템플릿 이름을 검증
+// 관련 파일: lib/templates/actions.ts, components/templates/template-picker.tsx, components/notes/note-form.tsx
+
+// 템플릿 이름 최대 길이 (note_templates.name 컬럼과 동일)
+export const MAX_TEMPLATE_NAME_LENGTH = 100
+
+// {{ 변수 }} 형식 (변수 이름 앞뒤 공백 허용)
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+export type TemplateVariable = 'date' | 'time' | 'title'
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>
+
+// 도움말에 표시하는 변수 목록
+export const TEMPLATE_VARIABLES: { name: TemplateVariable; description: string }[] = [
+  { name: 'date', description: '노트를 만든 날짜 (예: 2025-01-31)' },
+  { name: 'time', description: '노트를 만든 시각 (예: 09:30)' },
+  { name: 'title', description: '저장할 때의 노트 제목' }
+]
+
+export interface TemplateSource {
+  title: string
+  content: string
+}
+
+// 새 노트 작성 페이지의 템플릿 선택 목록 항목
+export interface NoteTemplateOption extends TemplateSource {
+  id: string
+  name: string
+}
+
+export function normalizeTemplateName(name: string): string | null {
+  const trimmed = name.trim()
+  return trimmed.length > 0 && trimmed.length <= MAX_TEMPLATE_NAME_LENGTH ? trimmed : null
+}
+
+// 값이 주어진 변수만 치환 (모르는 변수나 값이 없는 변수는 그대로 둠)
+export function expandTemplatePlaceholders(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = values[name.toLowerCase() as TemplateVariable]
+    return value ?? match
+  })
+}
+
+export function hasTemplatePlaceholder(text: string, name: TemplateVariable): boolean {
+  return expandTemplatePlaceholders(text, { [name]: '' }) !== text
+}
+
+// 사용자 현지 시간 기준 날짜/시각 값
+export function getTemplateDateValues(now: Date): Required<Pick<TemplateValues, 'date' | 'time'>> {
+  const pad = (value: number) => String(value).padStart(2, '0')
+
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`
+  }
+}
+
+// 템플릿을 새 노트 입력값으로 변환
+// 제목은 아직 정해지지 않았으므로 본문의 {{title}}은 남겨두고 저장할 때 최종 제목으로 치환
+export function applyTemplate(template: TemplateSource, now: Date): TemplateSource {
+  const dateValues = getTemplateDateValues(now)
+
+  return {
+    title: expandTemplatePlaceholders(template.title, { ...dateValues, title: '' }).trim(),
+    content: expandTemplatePlaceholders(template.content, dateValues)
+  }
+}
@@ -0,0 +1,141 @@
+// lib/voice/speech-recognition.ts
+// Web Speech API 음성 인식 유틸리티
+// 브라우저 지원 여부 확인, 마이크 권한 요청, 인식 결과 정리, 커서 위치에 텍스트 삽입, 오류 메시지 변환을 담당
+// 관련 파일: hooks/use-speech-recognition.ts, components/notes/voice-input-control.tsx
+
+// TypeScript DOM 타입에 없는 SpeechRecognition의 필요한 부분만 정의
+export interface SpeechRecognitionResultEventLike {
+  resultIndex: number
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>
+}
+
+export interface SpeechRecognitionErrorEventLike {
+  error: string
+  message?: string
+}
+
+export interface SpeechRecognitionLike {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  start(): void
+  stop(): void
+  abort(): void
+  onresult: ((event: SpeechRecognitionResultEventLike) => void) | null
+  onerror: ((event: SpeechRecognitionErrorEventLike) => void) | null
+  onend: (() => void) | null
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike
+
+export const SPEECH_RECOGNITION_LANG = 'ko-KR'
+
+export const UNSUPPORTED_BROWSER_MESSAGE = '이 브라우저는 음성 입력을 지원하지 않습니다. Chrome 또는 Safari를 사용해주세요.'
+
+// 브라우저의 SpeechRecognition 생성자 (Chrome/Safari는 webkit 접두사 사용, 미지원 시 null)
+export function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null
+
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognitionConstructor
+    webkitSpeechRecognition?: SpeechRecognitionConstructor
+  }
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null
+}
+
+// 음성 인식 오류 코드 → 사용자 메시지
+export function getSpeechErrorMessage(code: string): string {
+  switch (code) {
+    case 'not-allowed':
+    case 'service-not-allowed':
+      return '마이크 권한이 거부되었습니다. 브라우저 설정에서 마이크 사용을 허용해주세요.'
+    case 'audio-capture':
+      return '마이크를 찾을 수 없습니다. 마이크 연결을 확인해주세요.'
+    case 'network':
+      return '네트워크 오류로 음성 인식이 중단되었습니다. 연결을 확인한 후 다시 시도해주세요.'
+    case 'language-not-supported':
+      return '이 브라우저는 한국어 음성 인식을 지원하지 않습니다.'
+    case 'no-speech':
+      return '음성이 감지되지 않았습니다. 다시 시도해주세요.'
+    default:
+      return '음성 인식 중 오류가 발생했습니다. 다시 시도해주세요.'
+  }
+}
+
+// getUserMedia 오류 이름 → 사용자 메시지
+export function getMicrophoneErrorMessage(errorName: string): string {
+  switch (errorName) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return getSpeechErrorMessage('not-allowed')
+    case 'NotFoundError':
+    case 'NotReadableError':
+      return getSpeechErrorMessage('audio-capture')
+    default:
+      return '마이크를 사용할 수 없습니다. 다시 시도해주세요.'
+  }
+}
+
+// 인식 시작 전 마이크 권한 요청 (성공 시 null, 실패 시 오류 메시지)
+export async function requestMicrophoneAccess(): Promise<string | null> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+    return '이 환경에서는 마이크를 사용할 수 없습니다. HTTPS로 접속했는지 확인해주세요.'
+  }
+
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    // 권한 확인용 스트림은 바로 닫음 (실제 녹음은 SpeechRecognition이 담당)
+    stream.getTracks().forEach(track => track.stop())
+    return null
+  } catch (error) {
+    return getMicrophoneErrorMessage(error instanceof Error ? error.name : '')
+  }
+}
+
+// 인식 결과 중 이번 이벤트에서 바뀐 부분을 확정/임시 텍스트로 나눔
+export function collectTranscripts(event: SpeechRecognitionResultEventLike): { finalText: string; interimText: string } {
+  let finalText = ''
+  let interimText = ''
+
+  for (let i = event.resultIndex; i < event.results.length; i++) {
+    const result = event.results[i]
+    const transcript = result[0]?.transcript ?? ''
+    if (result.isFinal) {
+      finalText += transcript
+    } else {
+      interimText += transcript
+    }
+  }
+
+  return { finalText: finalText.trim(), interimText: interimText.trim() }
+}
+
+export interface TextSelection {
+  start: number
+  end: number
+}
+
+// 커서(선택 영역) 위치에 인식된 텍스트 삽입 (앞뒤 단어와 붙지 않도록 공백 보정)
+export function insertTranscript(
+  value: string,
+  transcript: string,
+  selection?: TextSelection | null
+): { value: string; cursor: number } {
+  const text = transcript.trim()
+  const start = Math.min(Math.max(selection?.start ?? value.length, 0), value.length)
+  const end = Math.min(Math.max(selection?.end ?? start, start), value.length)
+
+  if (!text) {
+    return { value, cursor: end }
+  }
+
+  const before = value.slice(0, start)
+  const after = value.slice(end)
+  const prefix = before.length > 0 && !/\s$/.test(before) ? ' ' : ''
+  const suffix = after.length > 0 && !/^\s/.test(after) ? ' ' : ''
+
+  return {
+    value: `${before}${prefix}${text}${suffix}${after}`,
+    cursor: before.length + prefix.length + text.length
+  }
+}
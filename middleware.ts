@@ -0,0 +1,16 @@
+// middleware.ts
+// Next.js 미들웨어
+// 모든 페이지 요청에서 Supabase 세션을 갱신하고 인증이 필요한 경로를 한 곳에서 보호
+// 관련 파일: lib/supabase/middleware.ts, lib/auth/route-protection.ts
+
+import type { NextRequest } from 'next/server'
+import { updateSession } from '@/lib/supabase/middleware'
+
+export async function middleware(request: NextRequest) {
+  return updateSession(request)
+}
+
+export const config = {
+  // 정적 파일과 이미지 최적화 요청은 제외
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)']
+}
@@ -0,0 +1,35 @@
+// scripts/ai-job-worker.ts
+// AI 백그라운드 작업 워커 실행 스크립트
+// 웹 서버와 별도 프로세스로 ai_jobs 대기열을 계속 처리하며, SIGINT/SIGTERM을 받으면 처리 중인 작업을 마친 뒤 종료
+// 관련 파일: lib/ai/job-worker.ts, lib/ai/config.ts, package.json
+
+import { config } from 'dotenv'
+
+// .env.local 파일 로드 (DB 연결이 환경변수를 읽기 전에 로드해야 하므로 워커 모듈은 아래에서 동적으로 import)
+config({ path: '.env.local' })
+
+async function main() {
+  const { runAIJobWorker } = await import('@/lib/ai/job-worker')
+  const { getAIJobWorkerConcurrency } = await import('@/lib/ai/config')
+
+  const controller = new AbortController()
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      console.log(`[ai-job-worker] ${signal} 수신, 처리 중인 작업을 마친 뒤 종료합니다.`)
+      controller.abort()
+    })
+  }
+
+  const concurrency = getAIJobWorkerConcurrency()
+  console.log(`[ai-job-worker] 시작 (동시 처리 ${concurrency}개)`)
+
+  await runAIJobWorker({ concurrency, signal: controller.signal })
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('[ai-job-worker] 오류로 종료합니다:', error)
+    process.exit(1)
+  })